@@ -90,3 +90,28 @@ export const ConfigFilePathOption: CLICommandOption = {
   shortName: "c",
   description: "Specifies the path of the configuration yaml file.",
 };
+
+export const DryRunOption: CLICommandOption = {
+  name: "dry-run",
+  questionName: "dryRun",
+  type: "boolean",
+  description:
+    "Lists the actions that would be executed with their resolved arguments, without executing them.",
+};
+
+export const ResumeOption: CLICommandOption = {
+  name: "resume",
+  questionName: "resume",
+  type: "boolean",
+  description:
+    "Continues from the action that failed in the last run instead of executing all actions again.",
+};
+
+export const OutputOption: CLICommandOption = {
+  name: "output",
+  type: "string",
+  choices: ["text", "json"],
+  default: "text",
+  description:
+    "Specifies the format of the result. 'json' prints a report of the executed actions to stdout.",
+};
@@ -0,0 +1,44 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { CLIContext, FxError, LogLevel, Result } from "@microsoft/teamsfx-api";
+import { maskSecretValues } from "@microsoft/teamsfx-core/build/component/utils/envUtil";
+import { logger } from "../commonlib/logger";
+import ScreenManager from "../console/screen";
+
+/**
+ * Run a lifecycle command and print the report of its actions as json when `--output json` is set.
+ * Informational logs are suppressed in this case, and the other logs and progresses are written to stderr,
+ * so that stdout only contains the report.
+ * The report is saved in `inputs.lifecycleReports` by fx-core.
+ */
+export async function runWithLifecycleReport(
+  ctx: CLIContext,
+  run: () => Promise<Result<undefined, FxError>>
+): Promise<Result<undefined, FxError>> {
+  if (ctx.optionValues.output !== "json") {
+    return await run();
+  }
+  const logLevel = logger.logLevel;
+  logger.logLevel = LogLevel.Warning;
+  ScreenManager.redirectOutToErr(true);
+  let res: Result<undefined, FxError>;
+  try {
+    res = await run();
+  } finally {
+    logger.logLevel = logLevel;
+    ScreenManager.redirectOutToErr(false);
+  }
+  const report = {
+    status: res.isOk() ? "succeeded" : "failed",
+    lifecycles: ctx.optionValues.lifecycleReports ?? [],
+    error: res.isErr()
+      ? {
+          code: res.error.name,
+          source: res.error.source,
+          message: maskSecretValues(res.error.message),
+        }
+      : undefined,
+  };
+  ScreenManager.writeLine(JSON.stringify(report, null, 2));
+  return res;
+}
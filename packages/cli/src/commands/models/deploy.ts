@@ -9,12 +9,24 @@ import {
   IgnoreLoadEnvOption,
   ProjectFolderOption,
   ConfigFilePathOption,
+  DryRunOption,
+  ResumeOption,
+  OutputOption,
 } from "../common";
+import { runWithLifecycleReport } from "../lifecycleReport";
 
 export const deployCommand: CLICommand = {
   name: "deploy",
   description: strings.command.deploy.description,
-  options: [EnvOption, ProjectFolderOption, IgnoreLoadEnvOption, ConfigFilePathOption],
+  options: [
+    EnvOption,
+    ProjectFolderOption,
+    IgnoreLoadEnvOption,
+    ConfigFilePathOption,
+    DryRunOption,
+    ResumeOption,
+    OutputOption,
+  ],
   telemetry: {
     event: TelemetryEvent.Deploy,
   },
@@ -24,7 +36,6 @@ export const deployCommand: CLICommand = {
     if (inputs["config-file-path"]) {
       process.env.TEAMSFX_CONFIG_FILE_PATH = inputs["config-file-path"];
     }
-    const res = await core.deployArtifacts(inputs);
-    return res;
+    return await runWithLifecycleReport(ctx, () => core.deployArtifacts(inputs));
   },
 };
@@ -0,0 +1,25 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { CLICommand, CLIContext, InputsWithProjectPath } from "@microsoft/teamsfx-api";
+import { getFxCore } from "../../activate";
+import { strings } from "../../resource";
+import { TelemetryEvent } from "../../telemetry/cliTelemetryEvents";
+import { EnvOption, ProjectFolderOption, ConfigFilePathOption } from "../common";
+
+export const destroyCommand: CLICommand = {
+  name: "destroy",
+  description: strings.command.destroy.description,
+  options: [EnvOption, ProjectFolderOption, ConfigFilePathOption],
+  telemetry: {
+    event: TelemetryEvent.Destroy,
+  },
+  handler: async (ctx: CLIContext) => {
+    const core = getFxCore();
+    const inputs = ctx.optionValues as InputsWithProjectPath;
+    if (inputs["config-file-path"]) {
+      process.env.TEAMSFX_CONFIG_FILE_PATH = inputs["config-file-path"];
+    }
+    const res = await core.destroyResources(inputs);
+    return res;
+  },
+};
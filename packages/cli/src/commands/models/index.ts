@@ -12,6 +12,7 @@ export * from "./addSPFxWebpart";
 export * from "./create";
 export * from "./createSample";
 export * from "./deploy";
+export * from "./destroy";
 export * from "./env";
 export * from "./envAdd";
 export * from "./envList";
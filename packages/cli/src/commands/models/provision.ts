@@ -4,7 +4,15 @@ import { CLICommand, CLIContext, InputsWithProjectPath } from "@microsoft/teamsf
 import { getFxCore } from "../../activate";
 import { strings } from "../../resource";
 import { TelemetryEvent } from "../../telemetry/cliTelemetryEvents";
-import { EnvOption, IgnoreLoadEnvOption, ProjectFolderOption } from "../common";
+import {
+  DryRunOption,
+  EnvOption,
+  IgnoreLoadEnvOption,
+  OutputOption,
+  ProjectFolderOption,
+  ResumeOption,
+} from "../common";
+import { runWithLifecycleReport } from "../lifecycleReport";
 import { CoreQuestionNames } from "@microsoft/teamsfx-core";
 import { newResourceGroupOption } from "@microsoft/teamsfx-core/build/question/other";
 
@@ -27,6 +35,9 @@ export const provisionCommand: CLICommand = {
       hidden: true,
     },
     IgnoreLoadEnvOption,
+    DryRunOption,
+    ResumeOption,
+    OutputOption,
   ],
   telemetry: {
     event: TelemetryEvent.Provision,
@@ -44,7 +55,6 @@ export const provisionCommand: CLICommand = {
         inputs[CoreQuestionNames.NewResourceGroupLocation] = inputs["region"];
       }
     }
-    const res = await core.provisionResources(inputs);
-    return res;
+    return await runWithLifecycleReport(ctx, () => core.provisionResources(inputs));
   },
 };
@@ -4,12 +4,19 @@ import { CLICommand, CLIContext, InputsWithProjectPath } from "@microsoft/teamsf
 import { getFxCore } from "../../activate";
 import { strings } from "../../resource";
 import { TelemetryEvent } from "../../telemetry/cliTelemetryEvents";
-import { EnvOption, IgnoreLoadEnvOption, ProjectFolderOption } from "../common";
+import {
+  DryRunOption,
+  EnvOption,
+  IgnoreLoadEnvOption,
+  OutputOption,
+  ProjectFolderOption,
+} from "../common";
+import { runWithLifecycleReport } from "../lifecycleReport";
 
 export const publishCommand: CLICommand = {
   name: "publish",
   description: strings.command.publish.description,
-  options: [EnvOption, ProjectFolderOption, IgnoreLoadEnvOption],
+  options: [EnvOption, ProjectFolderOption, IgnoreLoadEnvOption, DryRunOption, OutputOption],
   telemetry: {
     event: TelemetryEvent.Publish,
   },
@@ -17,7 +24,6 @@ export const publishCommand: CLICommand = {
   handler: async (ctx: CLIContext) => {
     const inputs = ctx.optionValues as InputsWithProjectPath;
     const core = getFxCore();
-    const res = await core.publishApplication(inputs);
-    return res;
+    return await runWithLifecycleReport(ctx, () => core.publishApplication(inputs));
   },
 };
@@ -10,6 +10,7 @@ import { accountCommand } from "./account";
 import { addCommand } from "./add";
 import { getCreateCommand } from "./create";
 import { deployCommand } from "./deploy";
+import { destroyCommand } from "./destroy";
 import { entraAppCommand } from "./entraAppUpdate";
 import { envCommand } from "./env";
 import { listCommand } from "./list";
@@ -20,8 +21,10 @@ import { permissionCommand } from "./permission";
 import { previewCommand } from "./preview";
 import { provisionCommand } from "./provision";
 import { teamsappDoctorCommand } from "./teamsapp/doctor";
+import { teamsappManifestCommand } from "./teamsapp/manifest";
 import { teamsappPackageCommand } from "./teamsapp/package";
 import { teamsappPublishCommand } from "./teamsapp/publish";
+import { teamsappSpecCommand } from "./teamsapp/spec";
 import { teamsappUpdateCommand } from "./teamsapp/update";
 import { teamsappValidateCommand } from "./teamsapp/validate";
 import { upgradeCommand } from "./upgrade";
@@ -47,6 +50,7 @@ export const rootCommand: CLICommand = {
     addCommand,
     provisionCommand,
     deployCommand,
+    destroyCommand,
     previewCommand,
     envCommand,
     permissionCommand,
@@ -58,6 +62,8 @@ export const rootCommand: CLICommand = {
     teamsappPackageCommand,
     teamsappPublishCommand,
     teamsappDoctorCommand,
+    teamsappManifestCommand,
+    teamsappSpecCommand,
     entraAppCommand,
     m365SideloadingCommand,
     m365UnacquireCommand,
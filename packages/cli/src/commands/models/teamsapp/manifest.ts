@@ -0,0 +1,11 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { CLICommand } from "@microsoft/teamsfx-api";
+import { teamsappManifestDiffCommand } from "./manifestDiff";
+import { teamsappManifestUpgradeCommand } from "./manifestUpgrade";
+
+export const teamsappManifestCommand: CLICommand = {
+  name: "manifest",
+  description: "Manage the Microsoft Teams App manifest.",
+  commands: [teamsappManifestDiffCommand, teamsappManifestUpgradeCommand],
+};
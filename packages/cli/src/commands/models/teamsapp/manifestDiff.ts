@@ -0,0 +1,44 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { CLICommand, TeamsAppInputs, err, ok } from "@microsoft/teamsfx-api";
+import { getFxCore } from "../../../activate";
+import { TelemetryEvent } from "../../../telemetry/cliTelemetryEvents";
+import {
+  EnvFileOption,
+  EnvOption,
+  ProjectFolderOption,
+  TeamsAppManifestFileOption,
+  TeamsAppPackageOption,
+} from "../../common";
+import { validateArgumentConflict } from "./update";
+
+export const teamsappManifestDiffCommand: CLICommand = {
+  name: "diff",
+  description:
+    "Compare the local Microsoft Teams App manifest with the one in Teams Developer Portal, and warn if it was changed in Teams Developer Portal.",
+  options: [
+    TeamsAppManifestFileOption,
+    TeamsAppPackageOption,
+    EnvOption,
+    EnvFileOption,
+    ProjectFolderOption,
+  ],
+  telemetry: {
+    event: TelemetryEvent.DiffManifest,
+  },
+  defaultInteractiveOption: false,
+  handler: async (ctx) => {
+    const inputs = ctx.optionValues as TeamsAppInputs;
+    const validateInputsRes = validateArgumentConflict(ctx.command.fullName, inputs);
+    if (validateInputsRes.isErr()) {
+      return err(validateInputsRes.error);
+    }
+
+    const core = getFxCore();
+    const res = await core.diffTeamsAppManifestCLIV3(inputs);
+    if (res.isErr()) {
+      return err(res.error);
+    }
+    return ok(undefined);
+  },
+};
@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { CLICommand, TeamsAppInputs, err, ok } from "@microsoft/teamsfx-api";
+import { getFxCore } from "../../../activate";
+import { TelemetryEvent } from "../../../telemetry/cliTelemetryEvents";
+import { ProjectFolderOption, TeamsAppManifestFileOption } from "../../common";
+
+export const teamsappManifestUpgradeCommand: CLICommand = {
+  name: "upgrade",
+  description:
+    "Upgrade the Microsoft Teams App manifest to another manifest version, and report the fields that need manual attention.",
+  options: [
+    {
+      name: "target-version",
+      type: "string",
+      description: "The manifest version to upgrade to, for example '1.17' or 'devPreview'.",
+      required: true,
+    },
+    TeamsAppManifestFileOption,
+    ProjectFolderOption,
+  ],
+  telemetry: {
+    event: TelemetryEvent.UpgradeManifest,
+  },
+  defaultInteractiveOption: false,
+  handler: async (ctx) => {
+    const inputs = ctx.optionValues as TeamsAppInputs;
+    const core = getFxCore();
+    const res = await core.upgradeTeamsAppManifestCLIV3(inputs);
+    if (res.isErr()) {
+      return err(res.error);
+    }
+    return ok(undefined);
+  },
+};
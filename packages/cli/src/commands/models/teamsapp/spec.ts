@@ -0,0 +1,10 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { CLICommand } from "@microsoft/teamsfx-api";
+import { teamsappSpecSyncCommand } from "./specSync";
+
+export const teamsappSpecCommand: CLICommand = {
+  name: "spec",
+  description: "Manage the API specification file of the API based message extension.",
+  commands: [teamsappSpecSyncCommand],
+};
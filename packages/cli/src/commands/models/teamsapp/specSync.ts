@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { CLICommand, TeamsAppInputs, err, ok } from "@microsoft/teamsfx-api";
+import { getFxCore } from "../../../activate";
+import { TelemetryEvent } from "../../../telemetry/cliTelemetryEvents";
+import { ProjectFolderOption, TeamsAppManifestFileOption } from "../../common";
+
+export const teamsappSpecSyncCommand: CLICommand = {
+  name: "sync",
+  description:
+    "Sync the API specification file, the message extension commands and the Adaptive Cards of the app with the latest API specification, and keep the customized Adaptive Cards.",
+  options: [
+    {
+      name: "spec-path",
+      type: "string",
+      description: "The path or URL of the latest API specification file.",
+      required: true,
+    },
+    TeamsAppManifestFileOption,
+    ProjectFolderOption,
+  ],
+  telemetry: {
+    event: TelemetryEvent.SyncApiSpec,
+  },
+  defaultInteractiveOption: false,
+  handler: async (ctx) => {
+    const inputs = ctx.optionValues as TeamsAppInputs;
+    const core = getFxCore();
+    const res = await core.syncApiSpecCLIV3(inputs);
+    if (res.isErr()) {
+      return err(res.error);
+    }
+    return ok(undefined);
+  },
+};
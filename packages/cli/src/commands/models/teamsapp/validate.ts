@@ -25,6 +25,25 @@ export const teamsappValidateCommand: CLICommand = {
     EnvOption,
     EnvFileOption,
     ProjectFolderOption,
+    {
+      name: "lint",
+      type: "boolean",
+      description:
+        "Check the manifest with lint rules for problems rejected by the store, in addition to the manifest schema.",
+      default: false,
+    },
+    {
+      name: "lint-config",
+      type: "string",
+      description:
+        "Path to the lint config with the severity of the rules. Defaults to teamsapp.lint.json in the project.",
+    },
+    {
+      name: "fix",
+      type: "boolean",
+      description: "Fix the auto-fixable lint problems in the manifest file. Implies --lint.",
+      default: false,
+    },
   ],
   telemetry: {
     event: TelemetryEvent.ValidateManifest,
@@ -157,6 +157,15 @@ export class ScreenManager {
     this.write(message + "\n", error);
   }
 
+  /**
+   * Writes the messages and progresses of the out stream to the err stream, or back to the out stream.
+   * @param redirect true if the out stream is reserved for the result of the command, e.g. a json report.
+   */
+  redirectOutToErr(redirect: boolean) {
+    this.clearScreen();
+    this.streams.out = redirect ? process.stderr : process.stdout;
+  }
+
   /**
    * Refreshes progresses and questions of the screen.
    */
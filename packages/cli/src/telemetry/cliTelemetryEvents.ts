@@ -49,6 +49,15 @@ export enum TelemetryEvent {
   UpdateTeamsAppStart = "update-teams-app-start",
   UpdateTeamsApp = "update-teams-app",
 
+  DiffManifestStart = "diff-manifest-start",
+  DiffManifest = "diff-manifest",
+
+  UpgradeManifestStart = "upgrade-manifest-start",
+  UpgradeManifest = "upgrade-manifest",
+
+  SyncApiSpecStart = "sync-api-spec-start",
+  SyncApiSpec = "sync-api-spec",
+
   UpdateAadAppStart = "update-aad-app-start",
   UpdateAadApp = "update-aad-app",
 
@@ -70,6 +79,8 @@ export enum TelemetryEvent {
   DeployStart = "deploy-start",
   Deploy = "deploy",
   DeployAad = "deployAad",
+  DestroyStart = "destroy-start",
+  Destroy = "destroy",
 
   PublishStart = "publish-start",
   Publish = "publish",
@@ -1,4 +1,4 @@
-import { CLIContext, err, ok } from "@microsoft/teamsfx-api";
+import { CLIContext, err, LogLevel, ok, TeamsAppManifest, UserError } from "@microsoft/teamsfx-api";
 import {
   CollaborationStateResult,
   FuncToolChecker,
@@ -28,6 +28,7 @@ import {
   addSPFxWebpartCommand,
   createSampleCommand,
   deployCommand,
+  destroyCommand,
   envAddCommand,
   envListCommand,
   getCreateCommand,
@@ -50,13 +51,17 @@ import {
   validateCommand,
 } from "../../src/commands/models";
 import { DoctorChecker, teamsappDoctorCommand } from "../../src/commands/models/teamsapp/doctor";
+import { teamsappManifestDiffCommand } from "../../src/commands/models/teamsapp/manifestDiff";
+import { teamsappManifestUpgradeCommand } from "../../src/commands/models/teamsapp/manifestUpgrade";
 import { teamsappPackageCommand } from "../../src/commands/models/teamsapp/package";
 import { teamsappPublishCommand } from "../../src/commands/models/teamsapp/publish";
+import { teamsappSpecSyncCommand } from "../../src/commands/models/teamsapp/specSync";
 import { teamsappUpdateCommand } from "../../src/commands/models/teamsapp/update";
 import { teamsappValidateCommand } from "../../src/commands/models/teamsapp/validate";
 import AzureTokenProvider from "../../src/commonlib/azureLogin";
 import { signedIn, signedOut } from "../../src/commonlib/common/constant";
 import { logger } from "../../src/commonlib/logger";
+import ScreenManager from "../../src/console/screen";
 import M365TokenProvider from "../../src/commonlib/m365Login";
 import { MissingRequiredOptionError } from "../../src/error";
 import * as utils from "../../src/utils";
@@ -284,6 +289,20 @@ describe("CLI commands", () => {
       assert.isTrue(res.isOk());
     });
   });
+  describe("destroyCommand", async () => {
+    it("success", async () => {
+      sandbox.stub(FxCore.prototype, "destroyResources").resolves(ok(undefined));
+      const ctx: CLIContext = {
+        command: { ...destroyCommand, fullName: "teamsfx" },
+        optionValues: { env: "dev" },
+        globalOptionValues: {},
+        argumentValues: [],
+        telemetryProperties: {},
+      };
+      const res = await destroyCommand.handler!(ctx);
+      assert.isTrue(res.isOk());
+    });
+  });
   describe("envAddCommand", async () => {
     it("success", async () => {
       sandbox.stub(FxCore.prototype, "createEnv").resolves(ok(undefined));
@@ -403,6 +422,40 @@ describe("CLI commands", () => {
       const res = await provisionCommand.handler!(ctx);
       assert.isTrue(res.isOk());
     });
+    it("json output", async () => {
+      const lifecycleReports = [{ name: "provision", status: "failed", actions: [] }];
+      const logLevel = logger.logLevel;
+      const redirectStub = sandbox.stub(ScreenManager, "redirectOutToErr");
+      sandbox.stub(FxCore.prototype, "provisionResources").callsFake(async (inputs) => {
+        inputs.lifecycleReports = lifecycleReports;
+        assert.equal(logger.logLevel, LogLevel.Warning);
+        assert.isTrue(redirectStub.calledOnceWith(true));
+        return err(new UserError("test", "TestError", "test message secret-value"));
+      });
+      const writeStub = sandbox.stub(ScreenManager, "writeLine");
+      const restore = mockedEnv({ SECRET_TEST: "secret-value" });
+      const ctx: CLIContext = {
+        command: { ...provisionCommand, fullName: "teamsfx" },
+        optionValues: { output: "json" },
+        globalOptionValues: {},
+        argumentValues: [],
+        telemetryProperties: {},
+      };
+      try {
+        const res = await provisionCommand.handler!(ctx);
+        assert.isTrue(res.isErr());
+        assert.equal(logger.logLevel, logLevel);
+        assert.isTrue(redirectStub.lastCall.calledWith(false));
+        assert.deepEqual(JSON.parse(writeStub.lastCall.args[0]), {
+          status: "failed",
+          lifecycles: lifecycleReports,
+          error: { code: "TestError", source: "test", message: "test message ***" },
+        });
+      } finally {
+        restore();
+        logger.logLevel = logLevel;
+      }
+    });
   });
   describe("packageCommand", async () => {
     it("success", async () => {
@@ -952,6 +1005,69 @@ describe("CLI commands", () => {
       const res = await teamsappPublishCommand.handler!(ctx);
       assert.isTrue(res.isErr());
     });
+    it("manifest diff", async () => {
+      sandbox.stub(activate, "getFxCore").returns(new FxCore({} as any));
+      sandbox
+        .stub(FxCore.prototype, "diffTeamsAppManifestCLIV3")
+        .resolves(ok({ teamsAppId: "id", changes: [], drifted: false }));
+      const ctx: CLIContext = {
+        command: { ...teamsappManifestDiffCommand, fullName: "teamsapp manifest diff" },
+        optionValues: {},
+        globalOptionValues: {},
+        argumentValues: [],
+        telemetryProperties: {},
+      };
+      const res = await teamsappManifestDiffCommand.handler!(ctx);
+      assert.isTrue(res.isOk());
+    });
+    it("manifest diff conflict", async () => {
+      sandbox.stub(activate, "getFxCore").returns(new FxCore({} as any));
+      const ctx: CLIContext = {
+        command: { ...teamsappManifestDiffCommand, fullName: "teamsapp manifest diff" },
+        optionValues: { "manifest-file": "manifest.json", "package-file": "package.zip" },
+        globalOptionValues: {},
+        argumentValues: [],
+        telemetryProperties: {},
+      };
+      const res = await teamsappManifestDiffCommand.handler!(ctx);
+      assert.isTrue(res.isErr());
+    });
+    it("manifest upgrade", async () => {
+      sandbox.stub(activate, "getFxCore").returns(new FxCore({} as any));
+      sandbox
+        .stub(FxCore.prototype, "upgradeTeamsAppManifestCLIV3")
+        .resolves(ok({ manifest: new TeamsAppManifest(), changes: [], warnings: [] }));
+      const ctx: CLIContext = {
+        command: { ...teamsappManifestUpgradeCommand, fullName: "teamsapp manifest upgrade" },
+        optionValues: { "target-version": "1.17" },
+        globalOptionValues: {},
+        argumentValues: [],
+        telemetryProperties: {},
+      };
+      const res = await teamsappManifestUpgradeCommand.handler!(ctx);
+      assert.isTrue(res.isOk());
+    });
+    it("spec sync", async () => {
+      sandbox.stub(activate, "getFxCore").returns(new FxCore({} as any));
+      sandbox.stub(FxCore.prototype, "syncApiSpecCLIV3").resolves(
+        ok({
+          allSuccess: true,
+          warnings: [],
+          diff: { removed: [], changed: [], unchanged: [] },
+          notSelected: [],
+          preservedCards: [],
+        })
+      );
+      const ctx: CLIContext = {
+        command: { ...teamsappSpecSyncCommand, fullName: "teamsapp spec sync" },
+        optionValues: { "spec-path": "openapi.yaml" },
+        globalOptionValues: {},
+        argumentValues: [],
+        telemetryProperties: {},
+      };
+      const res = await teamsappSpecSyncCommand.handler!(ctx);
+      assert.isTrue(res.isOk());
+    });
   });
 });
 
@@ -87,6 +87,22 @@ describe("Screen Manager", function () {
     sinon.assert.calledOnce(errWriteStub);
   });
 
+  it("write line to the err stream when the out stream is redirected", () => {
+    sandbox.stub<any, any>(ScreenManager, "clearScreen");
+    sandbox.stub<any, any>(ScreenManager, "renderScreen");
+    const outWriteStub = sandbox.stub(process.stdout, "write");
+    const errWriteStub = sandbox.stub(process.stderr, "write");
+    ScreenManager.redirectOutToErr(true);
+    try {
+      ScreenManager.writeLine("Test redirected");
+    } finally {
+      ScreenManager.redirectOutToErr(false);
+    }
+    ScreenManager.writeLine("Test out");
+    sinon.assert.calledOnceWithExactly(errWriteStub, "Test redirected\n");
+    sinon.assert.calledOnceWithExactly(outWriteStub, "Test out\n");
+  });
+
   it("refresh", () => {
     const clearTimerStub = sandbox.stub<any, any>(ScreenManager, "clearTimer");
     const renderScreenStub = sandbox.stub<any, any>(ScreenManager, "renderScreen");
@@ -0,0 +1,160 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { FxError, Result, err, ok } from "@microsoft/teamsfx-api";
+import { InvalidYmlConditionError } from "../../error/yml";
+import { DriverDefinition } from "./interface";
+
+type Token =
+  | { kind: "value"; value: string }
+  | { kind: "op"; value: "==" | "!=" | "&&" | "||" | "!" | "(" | ")" };
+
+const tokenReg =
+  /\s*(?:\${{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*}}|'([^']*)'|"([^"]*)"|(==|!=|&&|\|\||!|\(|\))|([a-zA-Z0-9_.\-/]+))/y;
+
+class ConditionSyntaxError extends Error {}
+
+function tokenize(condition: string): Token[] {
+  const tokens: Token[] = [];
+  tokenReg.lastIndex = 0;
+  while (tokenReg.lastIndex < condition.length) {
+    if (condition.slice(tokenReg.lastIndex).trim() === "") {
+      break;
+    }
+    const start = tokenReg.lastIndex;
+    const match = tokenReg.exec(condition);
+    if (!match) {
+      throw new ConditionSyntaxError(`unexpected character at position ${start}`);
+    }
+    const [, envVar, singleQuoted, doubleQuoted, op, bare] = match;
+    if (envVar !== undefined) {
+      // unresolved placeholders are treated as empty strings
+      tokens.push({ kind: "value", value: process.env[envVar] ?? "" });
+    } else if (singleQuoted !== undefined || doubleQuoted !== undefined) {
+      tokens.push({ kind: "value", value: singleQuoted ?? doubleQuoted });
+    } else if (op !== undefined) {
+      tokens.push({ kind: "op", value: op } as Token);
+    } else {
+      tokens.push({ kind: "value", value: bare });
+    }
+  }
+  return tokens;
+}
+
+function isTruthy(value: string): boolean {
+  return value.trim() !== "" && value.trim().toLowerCase() !== "false";
+}
+
+/**
+ * A small recursive descent parser. Every sub-expression evaluates to a string,
+ * comparisons and logical operators evaluate to "true" or "false".
+ */
+class ConditionParser {
+  private pos = 0;
+  constructor(private tokens: Token[]) {}
+
+  parse(): boolean {
+    if (this.tokens.length === 0) {
+      throw new ConditionSyntaxError("empty condition");
+    }
+    const value = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      throw new ConditionSyntaxError(`unexpected token '${this.tokens[this.pos].value}'`);
+    }
+    return isTruthy(value);
+  }
+
+  private peekOp(op: string): boolean {
+    const token = this.tokens[this.pos];
+    return token !== undefined && token.kind === "op" && token.value === op;
+  }
+
+  private parseOr(): string {
+    let left = this.parseAnd();
+    while (this.peekOp("||")) {
+      this.pos++;
+      const right = this.parseAnd();
+      left = String(isTruthy(left) || isTruthy(right));
+    }
+    return left;
+  }
+
+  private parseAnd(): string {
+    let left = this.parseUnary();
+    while (this.peekOp("&&")) {
+      this.pos++;
+      const right = this.parseUnary();
+      left = String(isTruthy(left) && isTruthy(right));
+    }
+    return left;
+  }
+
+  private parseUnary(): string {
+    if (this.peekOp("!")) {
+      this.pos++;
+      return String(!isTruthy(this.parseUnary()));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): string {
+    const left = this.parsePrimary();
+    if (this.peekOp("==") || this.peekOp("!=")) {
+      const op = this.tokens[this.pos++].value;
+      const right = this.parsePrimary();
+      return String(op === "==" ? left === right : left !== right);
+    }
+    return left;
+  }
+
+  private parsePrimary(): string {
+    const token = this.tokens[this.pos];
+    if (token === undefined) {
+      throw new ConditionSyntaxError("unexpected end of condition");
+    }
+    this.pos++;
+    if (token.kind === "value") {
+      return token.value;
+    }
+    if (token.value === "(") {
+      const value = this.parseOr();
+      if (!this.peekOp(")")) {
+        throw new ConditionSyntaxError("missing ')'");
+      }
+      this.pos++;
+      return value;
+    }
+    throw new ConditionSyntaxError(`unexpected token '${token.value}'`);
+  }
+}
+
+/**
+ * Evaluate the `if` condition of an action against the current environment variables.
+ * Supported syntax: placeholders like ${{ AZURE_SUBSCRIPTION_ID }}, quoted or bare string literals,
+ * `==`, `!=`, `!`, `&&`, `||` and parentheses. Unresolved placeholders evaluate to an empty string.
+ * A value is considered false if it is empty or "false" (case insensitive).
+ * @param condition the value of the `if` field
+ * @param action the action that the condition belongs to, used in error message
+ */
+export function evaluateCondition(condition: string, action: string): Result<boolean, FxError> {
+  try {
+    return ok(new ConditionParser(tokenize(condition)).parse());
+  } catch (e) {
+    if (e instanceof ConditionSyntaxError) {
+      return err(new InvalidYmlConditionError(condition, action, e.message));
+    }
+    throw e;
+  }
+}
+
+/**
+ * Returns true only if the action has an `if` condition that evaluates to false with the current environment variables.
+ * Invalid conditions are not reported here, they fail the action when the lifecycle is executed.
+ */
+export function isSkippedByCondition(def: DriverDefinition): boolean {
+  if (def.if === undefined) {
+    return false;
+  }
+  const res = evaluateCondition(def.if, def.uses);
+  return res.isOk() && !res.value;
+}
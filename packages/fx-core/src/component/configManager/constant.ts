@@ -9,6 +9,7 @@ export enum SummaryConstant {
   Succeeded = "(√) Done:",
   Failed = "(×) Error:",
   NotExecuted = "(!) Warning:",
+  Skipped = "(-) Skipped:",
 }
 
 export const component = "ConfigManager";
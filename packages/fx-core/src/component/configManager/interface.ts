@@ -19,9 +19,12 @@ export type RawProjectModel = {
   configureApp?: DriverDefinition[];
   deploy?: DriverDefinition[];
   publish?: DriverDefinition[];
+  destroy?: DriverDefinition[];
   environmentFolderPath?: string;
   version: string;
   additionalMetadata?: AdditionalMetadata;
+  // local paths or npm modules that contribute drivers, see plugin.ts
+  plugins?: string[];
 };
 
 export type ProjectModel = {
@@ -30,9 +33,20 @@ export type ProjectModel = {
   configureApp?: ILifecycle;
   deploy?: ILifecycle;
   publish?: ILifecycle;
+  destroy?: ILifecycle;
   environmentFolderPath?: string;
   version: string;
   additionalMetadata?: AdditionalMetadata;
+  // local paths or npm modules that contribute drivers, see plugin.ts
+  plugins?: string[];
+};
+
+// A `pre` or `post` hook of an action. It takes the same arguments as the `script` action.
+export type ScriptHook = {
+  run: string;
+  workingDirectory?: string;
+  shell?: string;
+  timeout?: number;
 };
 
 export type DriverDefinition = {
@@ -41,17 +55,58 @@ export type DriverDefinition = {
   with: unknown;
   env?: Record<string, string>;
   writeToEnvironmentFile?: Record<string, string>;
+  // the action is skipped if the condition evaluates to false
+  if?: string;
+  // a failed action doesn't stop the lifecycle if it's true
+  continueOnError?: boolean;
+  // scripts executed before the action and after it succeeds
+  pre?: ScriptHook;
+  post?: ScriptHook;
+  // set by the parser for actions declared in a `parallel` block. Consecutive actions with
+  // the same value are executed concurrently
+  parallelGroup?: number;
 };
 
 export type DriverInstance = DriverDefinition & { instance: StepDriver };
 
-export type LifecycleNames = ["registerApp", "configureApp", "provision", "deploy", "publish"];
+export type CompositeActionInput = {
+  type?: "string" | "boolean" | "number";
+  required?: boolean;
+  default?: unknown;
+  description?: string;
+};
+
+export type CompositeActionOutput = {
+  description?: string;
+};
+
+/**
+ * Content of a composite action file referenced by `uses: ./path/to/action.yml`.
+ * Steps reference inputs by ${{ inputs.NAME }} and write outputs by mapping driver outputs
+ * to ${{ outputs.NAME }} in their writeToEnvironmentFile field.
+ */
+export type CompositeActionDefinition = {
+  description?: string;
+  inputs?: Record<string, CompositeActionInput>;
+  outputs?: Record<string, CompositeActionOutput>;
+  steps: DriverDefinition[];
+};
+
+export type LifecycleNames = [
+  "registerApp",
+  "configureApp",
+  "provision",
+  "deploy",
+  "publish",
+  "destroy"
+];
 export const LifecycleNames: LifecycleNames = [
   "registerApp",
   "configureApp",
   "provision",
   "deploy",
   "publish",
+  "destroy",
 ];
 type AnyElementOf<T extends unknown[]> = T[number];
 export type LifecycleName = AnyElementOf<LifecycleNames>;
@@ -75,9 +130,37 @@ export type ExecutionError =
   | { kind: "PartialSuccess"; env: Map<string, string>; reason: PartialSuccessReason }
   | { kind: "Failure"; error: FxError };
 
+// What happened to an action when executing a lifecycle, for machine readable reports.
+export type ActionRecord = {
+  // milliseconds spent on the action including its hooks, 0 if the action is not executed
+  duration: number;
+  // env variables written by the action
+  outputs: Map<string, string>;
+  error?: FxError;
+};
+
 export type ExecutionResult = {
   result: Result<ExecutionOutput, ExecutionError>;
   summaries: string[][];
+  // one record for each entry of summaries
+  records?: ActionRecord[];
+};
+
+export type StepPlan = {
+  driver: DriverDefinition;
+  // names of the env variables that the driver will write to the env file
+  outputNames: string[];
+  // placeholders that can neither be resolved now nor by the outputs of previous drivers
+  unresolvedPlaceHolders: UnresolvedPlaceholders;
+  // side effects reported by the driver's preview(), empty if the driver does not support it
+  previews: string[];
+  // whether the driver will be skipped because its `if` condition is false
+  skipped: boolean;
+};
+
+export type LifecyclePlan = {
+  name: LifecycleName;
+  steps: StepPlan[];
 };
 
 export interface ILifecycle {
@@ -94,14 +177,17 @@ export interface ILifecycle {
   resolvePlaceholders(): UnresolvedPlaceholders;
 
   /**
-   * execute() will run drivers one by one. The difference between execute() and run()
+   * execute() will run drivers one by one, except that drivers in the same parallel group run concurrently.
+   * The difference between execute() and run()
    * is: 1. execute() resolves a driver's placeholder before executing it. It's useful when driver2 references
    *      driver1's output.
    *     2. execute() still returns the output of successful driver runs when encountering an error.
    *     3. execute() returns a list of summaires
    * @param ctx driver context
+   * @param startIndex index of the driver to start from, drivers before it are skipped. It's used to resume
+   *   a lifecycle that failed in a previous run.
    */
-  execute(ctx: DriverContext): Promise<ExecutionResult>;
+  execute(ctx: DriverContext, startIndex?: number): Promise<ExecutionResult>;
 
   /**
    * Try to search for driver instances defined by this.driverDefs.
@@ -7,10 +7,13 @@
 
 import { ok, err, FxError, Result, LogProvider } from "@microsoft/teamsfx-api";
 import _, { camelCase } from "lodash";
+import { performance } from "perf_hooks";
 import { Container } from "typedi";
+import { getLocalizedString } from "../../common/localizeUtils";
 import { InvalidYmlActionNameError } from "../../error/yml";
 import { DriverContext } from "../driver/interface/commonArgs";
 import { StepDriver } from "../driver/interface/stepDriver";
+import { ScriptDriver } from "../driver/script/scriptDriver";
 import { TeamsFxTelemetryReporter } from "../utils/teamsFxTelemetryReporter";
 import { component, lifecycleExecutionEvent, SummaryConstant, TelemetryProperty } from "./constant";
 import {
@@ -21,9 +24,17 @@ import {
   UnresolvedPlaceholders,
   ResolvedPlaceholders,
   ExecutionResult,
+  LifecyclePlan,
+  StepPlan,
+  PartialSuccessReason,
+  ScriptHook,
+  ActionRecord,
 } from "./interface";
 import { MissingEnvironmentVariablesError } from "../../error";
 import { setErrorContext } from "../../core/globalVars";
+import { evaluateCondition, isSkippedByCondition } from "./condition";
+
+const scriptActionName = "script";
 
 function resolveDriverDef(
   def: DriverDefinition,
@@ -51,6 +62,10 @@ function resolvePlaceHolders(
   const resolvedVars: string[] = [];
   const unresolvedVars: string[] = [];
   for (const def of defs) {
+    // placeholders of actions that will be skipped are not needed
+    if (isSkippedByCondition(def)) {
+      continue;
+    }
     resolveDriverDef(def, resolvedVars, unresolvedVars);
   }
   return [resolvedVars, unresolvedVars];
@@ -113,14 +128,171 @@ export function resolveString(
   return newVal;
 }
 
+// Split drivers into groups that are executed one after another. Consecutive drivers declared
+// in the same parallel block form one group, every other driver is a group of its own.
+function groupDrivers<T extends DriverDefinition>(drivers: T[]): T[][] {
+  const groups: T[][] = [];
+  for (const driver of drivers) {
+    const last = groups[groups.length - 1];
+    if (
+      driver.parallelGroup !== undefined &&
+      last !== undefined &&
+      last[0].parallelGroup === driver.parallelGroup
+    ) {
+      last.push(driver);
+    } else {
+      groups.push([driver]);
+    }
+  }
+  return groups;
+}
+
+type PreparedDriver =
+  | { kind: "ready" }
+  | { kind: "skipped"; summary: string[] }
+  | { kind: "failed"; summary: string[]; reason: PartialSuccessReason };
+
+type DriverOutcome = {
+  summary: string[];
+  output: Map<string, string>;
+  record: ActionRecord;
+  reason?: PartialSuccessReason;
+};
+
+// Record of an action that is not executed, with the reason if it fails before execution.
+function notExecutedRecord(reason?: PartialSuccessReason): ActionRecord {
+  let error: FxError | undefined;
+  if (reason?.kind === "DriverError") {
+    error = reason.error;
+  } else if (reason?.kind === "UnresolvedPlaceholders") {
+    error = new MissingEnvironmentVariablesError(
+      camelCase(reason.failedDriver.uses),
+      reason.unresolvedPlaceHolders.join(",")
+    );
+  }
+  return { duration: 0, outputs: new Map(), error };
+}
+
+/**
+ * Returns the index of the first driver of the group that contains the driver at the given index.
+ * A failed lifecycle resumes from there, since drivers of a parallel group can only be executed together.
+ */
+export function getGroupStartIndex(defs: DriverDefinition[], index: number): number {
+  const group = defs[index]?.parallelGroup;
+  let start = index;
+  while (group !== undefined && start > 0 && defs[start - 1].parallelGroup === group) {
+    start--;
+  }
+  return start;
+}
+
+/**
+ * Walk through the drivers of a lifecycle like execute() does, but never call a driver's execute().
+ * Placeholders are resolved against a copy of the driver definitions and each driver is asked
+ * for a preview of its side effects if it supports it.
+ */
+export async function planLifecycle(
+  lifecycle: ILifecycle,
+  ctx: DriverContext
+): Promise<Result<LifecyclePlan, FxError>> {
+  ctx.logProvider.info(`Planning lifecycle ${lifecycle.name}`);
+  const maybeDrivers = lifecycle.resolveDriverInstances(ctx.logProvider);
+  if (maybeDrivers.isErr()) {
+    return err(maybeDrivers.error);
+  }
+  // outputs of previous drivers are not available in dry-run mode, so placeholders
+  // referencing them are expected to stay unresolved.
+  const pendingOutputs = new Set<string>();
+  const steps: StepPlan[] = [];
+  for (const group of groupDrivers(maybeDrivers.value)) {
+    // drivers in the same parallel group can't see outputs of each other
+    const groupOutputs: string[] = [];
+    for (const driver of group) {
+      const { instance, ...def } = driver;
+      const resolvedDef = _.cloneDeep(def);
+      const unresolved: UnresolvedPlaceholders = [];
+      resolveDriverDef(resolvedDef, [], unresolved);
+      const outputNames = resolvedDef.writeToEnvironmentFile
+        ? Object.values(resolvedDef.writeToEnvironmentFile)
+        : [];
+      let skipped = false;
+      if (resolvedDef.if !== undefined) {
+        const conditionRes = evaluateCondition(resolvedDef.if, resolvedDef.uses);
+        if (conditionRes.isErr()) {
+          return err(conditionRes.error);
+        }
+        // a condition that depends on outputs of previous drivers can't be decided in advance
+        const conditionUnresolved: UnresolvedPlaceholders = [];
+        resolveString(resolvedDef.if, [], conditionUnresolved);
+        skipped = !conditionRes.value && !conditionUnresolved.some((p) => pendingOutputs.has(p));
+      }
+      let previews: string[] = [];
+      if (instance.preview && !skipped) {
+        const previewRes = await instance.preview(
+          resolvedDef.with,
+          ctx,
+          resolvedDef.writeToEnvironmentFile
+            ? new Map(Object.entries(resolvedDef.writeToEnvironmentFile))
+            : undefined
+        );
+        if (previewRes.isErr()) {
+          return err(previewRes.error);
+        }
+        previews = previewRes.value;
+      }
+      if (def.pre && !skipped) {
+        previews.unshift(getLocalizedString("core.summary.planPreHook", def.pre.run));
+      }
+      if (def.post && !skipped) {
+        previews.push(getLocalizedString("core.summary.planPostHook", def.post.run));
+      }
+      steps.push({
+        driver: resolvedDef,
+        outputNames,
+        unresolvedPlaceHolders: _.uniq(unresolved.filter((p) => !pendingOutputs.has(p))),
+        previews,
+        skipped,
+      });
+      if (!skipped) {
+        groupOutputs.push(...outputNames);
+      }
+    }
+    groupOutputs.forEach((name) => pendingOutputs.add(name));
+  }
+  return ok({ name: lifecycle.name, steps });
+}
+
+/**
+ * Create a lifecycle that deletes what the given lifecycle created, e.g. the resources created by provision.
+ * It calls undo() instead of execute() of the drivers, in reverse order. Actions whose drivers don't support
+ * undo are left out. `if` conditions, hooks and parallel blocks are dropped, because what to delete is decided
+ * by the resource IDs in the env file.
+ */
+export function createUndoLifecycle(lifecycle: ILifecycle, version: string): Lifecycle {
+  const driverDefs = lifecycle.driverDefs
+    .filter((def) => Container.has(def.uses) && !!Container.get<StepDriver>(def.uses).undo)
+    .map((def) => ({
+      uses: def.uses,
+      name: def.name,
+      with: _.cloneDeep(def.with),
+      env: _.cloneDeep(def.env),
+      writeToEnvironmentFile: def.writeToEnvironmentFile,
+    }))
+    .reverse();
+  return new Lifecycle("destroy", driverDefs, version, true);
+}
+
 export class Lifecycle implements ILifecycle {
   version: string;
   name: LifecycleName;
   driverDefs: DriverDefinition[];
-  constructor(name: LifecycleName, driverDefs: DriverDefinition[], version: string) {
+  // whether to call undo() instead of execute() of the drivers
+  readonly undo: boolean;
+  constructor(name: LifecycleName, driverDefs: DriverDefinition[], version: string, undo = false) {
     this.driverDefs = driverDefs;
     this.name = name;
     this.version = version;
+    this.undo = undo;
   }
 
   resolvePlaceholders(): UnresolvedPlaceholders {
@@ -142,7 +314,7 @@ export class Lifecycle implements ILifecycle {
     return JSON.stringify(obj);
   }
 
-  async execute(ctx: DriverContext): Promise<ExecutionResult> {
+  async execute(ctx: DriverContext, startIndex = 0): Promise<ExecutionResult> {
     const actions = JSON.stringify(
       this.driverDefs.map((def) => camelCase(this.stringifyDriverDef(def)))
     );
@@ -159,7 +331,12 @@ export class Lifecycle implements ILifecycle {
     ctx.logProvider.info(`Executing lifecycle ${this.name}`);
     const resolved: ResolvedPlaceholders = [];
     const unresolved: UnresolvedPlaceholders = [];
-    const { result, summaries } = await this.executeImpl(ctx, resolved, unresolved);
+    const { result, summaries, records } = await this.executeImpl(
+      ctx,
+      resolved,
+      unresolved,
+      startIndex
+    );
     let e: FxError | undefined;
     let failedAction: string | undefined;
 
@@ -212,99 +389,359 @@ export class Lifecycle implements ILifecycle {
       e
     );
 
-    return { result, summaries };
+    return { result, summaries, records };
   }
 
   async executeImpl(
     ctx: DriverContext,
     resolved: ResolvedPlaceholders,
-    unresolved: ResolvedPlaceholders
+    unresolved: ResolvedPlaceholders,
+    startIndex = 0
   ): Promise<ExecutionResult> {
     const maybeDrivers = this.resolveDriverInstances(ctx.logProvider);
     if (maybeDrivers.isErr()) {
-      return { result: err({ kind: "Failure", error: maybeDrivers.error }), summaries: [] };
+      return {
+        result: err({ kind: "Failure", error: maybeDrivers.error }),
+        summaries: [],
+        records: [],
+      };
     }
-    const drivers = maybeDrivers.value;
     const envOutput = new Map<string, string>();
     const summaries: string[][] = [];
-    for (const driver of drivers) {
-      ctx.logProvider.verbose(
-        `Executing action ${this.stringifyDriverDef(driver)} in lifecycle ${this.name}`
-      );
-      if (driver.instance.progressTitle) {
-        await ctx.progressBar?.next(driver.instance.progressTitle);
+    const records: ActionRecord[] = [];
+    for (const group of groupDrivers(maybeDrivers.value)) {
+      if (summaries.length < startIndex) {
+        for (const driver of group) {
+          ctx.logProvider.verbose(
+            `Action ${this.stringifyDriverDef(driver)} in lifecycle ${
+              this.name
+            } is skipped because it succeeded in the previous run`
+          );
+          summaries.push([`${SummaryConstant.Skipped} Succeeded in the previous run`]);
+          records.push(notExecutedRecord());
+        }
+        continue;
       }
-      resolveDriverDef(driver, resolved, unresolved);
-      if (unresolved.length > 0) {
-        ctx.logProvider.warning(
-          `Unresolved placeholders(${unresolved.join(
-            ","
-          )}) found for Action ${this.stringifyDriverDef(driver)} in lifecycle ${this.name}`
-        );
-        summaries.push([
-          `${SummaryConstant.Failed} Unresolved placeholders: ${unresolved.join(",")}`,
-        ]);
+      const reason =
+        group.length > 1
+          ? await this.executeParallelGroup(
+              ctx,
+              group,
+              envOutput,
+              summaries,
+              records,
+              resolved,
+              unresolved
+            )
+          : await this.executeDriver(
+              ctx,
+              group[0],
+              envOutput,
+              summaries,
+              records,
+              resolved,
+              unresolved
+            );
+      if (reason) {
         return {
-          result: err({
-            kind: "PartialSuccess",
-            env: envOutput,
-            reason: {
-              kind: "UnresolvedPlaceholders",
-              failedDriver: driver,
-              unresolvedPlaceHolders: unresolved,
-            },
-          }),
+          result: err({ kind: "PartialSuccess", env: envOutput, reason }),
           summaries,
+          records,
         };
       }
+    }
 
-      if (driver.env) {
-        for (const [envVar, value] of Object.entries(driver.env)) {
-          process.env[envVar] = value;
-        }
-      }
+    return { result: ok(envOutput), summaries, records };
+  }
 
-      setErrorContext({ component: camelCase(driver.uses), method: "execute" }); // set driver name as component name for telemetry
-      const r = await driver.instance.execute(
-        driver.with,
-        ctx,
-        driver.writeToEnvironmentFile
-          ? new Map(Object.entries(driver.writeToEnvironmentFile))
-          : undefined,
-        this.version,
-        driver.name
-      );
-      const result = r.result;
-      const summary = r.summaries.map((s) => `${SummaryConstant.Succeeded} ${s}`);
-      summaries.push(summary);
-      if (result.isErr()) {
-        summary.push(`${SummaryConstant.Failed} ${result.error.message}`);
-        return {
-          result: err({
-            kind: "PartialSuccess",
-            env: envOutput,
-            reason: {
-              kind: "DriverError",
-              failedDriver: driver,
-              error: result.error,
-            },
-          }),
-          summaries,
-        };
+  private async executeDriver(
+    ctx: DriverContext,
+    driver: DriverInstance,
+    envOutput: Map<string, string>,
+    summaries: string[][],
+    records: ActionRecord[],
+    resolved: ResolvedPlaceholders,
+    unresolved: UnresolvedPlaceholders
+  ): Promise<PartialSuccessReason | undefined> {
+    ctx.logProvider.verbose(
+      `Executing action ${this.stringifyDriverDef(driver)} in lifecycle ${this.name}`
+    );
+    if (driver.instance.progressTitle) {
+      await ctx.progressBar?.next(driver.instance.progressTitle);
+    }
+    const prepared = this.prepareDriver(ctx, driver, resolved, unresolved);
+    if (prepared.kind !== "ready") {
+      const reason = prepared.kind === "failed" ? prepared.reason : undefined;
+      summaries.push(prepared.summary);
+      records.push(notExecutedRecord(reason));
+      return reason;
+    }
+
+    const outcome = await this.runDriver(ctx, driver);
+    summaries.push(outcome.summary);
+    records.push(outcome.record);
+    for (const [envVar, value] of outcome.output) {
+      envOutput.set(envVar, value);
+      process.env[envVar] = value;
+    }
+    return outcome.reason;
+  }
+
+  /**
+   * All drivers of a parallel group are prepared before any of them is executed, so a driver can't reference
+   * outputs of the other drivers in the same group. Every driver of the group gets a summary. When more than
+   * one driver fails, the first failed one in declaration order is reported, and outputs of the succeeded ones
+   * are still merged in declaration order.
+   */
+  private async executeParallelGroup(
+    ctx: DriverContext,
+    group: DriverInstance[],
+    envOutput: Map<string, string>,
+    summaries: string[][],
+    records: ActionRecord[],
+    resolved: ResolvedPlaceholders,
+    unresolved: UnresolvedPlaceholders
+  ): Promise<PartialSuccessReason | undefined> {
+    ctx.logProvider.verbose(
+      `Executing actions ${group
+        .map((driver) => this.stringifyDriverDef(driver))
+        .join(", ")} concurrently in lifecycle ${this.name}`
+    );
+    const preparedDrivers: PreparedDriver[] = [];
+    for (const driver of group) {
+      if (driver.instance.progressTitle) {
+        await ctx.progressBar?.next(driver.instance.progressTitle);
       }
+      preparedDrivers.push(this.prepareDriver(ctx, driver, resolved, unresolved));
+    }
+    const failure = preparedDrivers.find((prepared) => prepared.kind === "failed");
+    if (failure?.kind === "failed") {
+      for (const prepared of preparedDrivers) {
+        summaries.push(
+          prepared.kind === "ready"
+            ? [
+                `${SummaryConstant.NotExecuted} Not executed because another action in the same parallel group failed`,
+              ]
+            : prepared.summary
+        );
+        records.push(notExecutedRecord(prepared.kind === "failed" ? prepared.reason : undefined));
+      }
+      return failure.reason;
+    }
 
-      for (const [envVar, value] of result.value) {
+    const outcomes = await Promise.all(
+      group.map((driver, i) =>
+        preparedDrivers[i].kind === "ready" ? this.runDriver(ctx, driver) : undefined
+      )
+    );
+    let reason: PartialSuccessReason | undefined;
+    outcomes.forEach((outcome, i) => {
+      const prepared = preparedDrivers[i];
+      if (outcome === undefined) {
+        summaries.push(prepared.kind === "ready" ? [] : prepared.summary);
+        records.push(notExecutedRecord());
+        return;
+      }
+      summaries.push(outcome.summary);
+      records.push(outcome.record);
+      for (const [envVar, value] of outcome.output) {
         envOutput.set(envVar, value);
         process.env[envVar] = value;
       }
-      ctx.logProvider.verbose(
+      reason = reason ?? outcome.reason;
+    });
+    // the drivers set the error context concurrently, so it's set again for the reported failure
+    if (reason?.kind === "DriverError") {
+      setErrorContext({
+        component: camelCase(reason.failedDriver.uses),
+        method: this.undo ? "undo" : "execute",
+      });
+    }
+    return reason;
+  }
+
+  // Evaluate the `if` condition of a driver and resolve its placeholders.
+  private prepareDriver(
+    ctx: DriverContext,
+    driver: DriverInstance,
+    resolved: ResolvedPlaceholders,
+    unresolved: UnresolvedPlaceholders
+  ): PreparedDriver {
+    if (driver.if !== undefined) {
+      const conditionRes = evaluateCondition(driver.if, this.stringifyDriverDef(driver));
+      if (conditionRes.isErr()) {
+        return {
+          kind: "failed",
+          summary: [`${SummaryConstant.Failed} ${conditionRes.error.message}`],
+          reason: { kind: "DriverError", failedDriver: driver, error: conditionRes.error },
+        };
+      }
+      if (!conditionRes.value) {
+        ctx.logProvider.info(
+          `Action ${this.stringifyDriverDef(driver)} in lifecycle ${
+            this.name
+          } is skipped because condition '${driver.if}' is false`
+        );
+        return {
+          kind: "skipped",
+          summary: [`${SummaryConstant.Skipped} Condition '${driver.if}' is false`],
+        };
+      }
+    }
+
+    const driverUnresolved: UnresolvedPlaceholders = [];
+    resolveDriverDef(driver, resolved, driverUnresolved);
+    unresolved.push(...driverUnresolved);
+    if (driverUnresolved.length > 0 && this.undo) {
+      // resources are identified by env variables, nothing was created if they are not set
+      ctx.logProvider.info(
         `Action ${this.stringifyDriverDef(driver)} in lifecycle ${
           this.name
-        } succeeded with output ${Lifecycle.stringifyOutput(result.value)}`
+        } is skipped because placeholders(${driverUnresolved.join(",")}) are not set`
+      );
+      return {
+        kind: "skipped",
+        summary: [
+          `${
+            SummaryConstant.Skipped
+          } Nothing to undo, unresolved placeholders: ${driverUnresolved.join(",")}`,
+        ],
+      };
+    }
+    if (driverUnresolved.length > 0) {
+      ctx.logProvider.warning(
+        `Unresolved placeholders(${driverUnresolved.join(
+          ","
+        )}) found for Action ${this.stringifyDriverDef(driver)} in lifecycle ${this.name}`
       );
+      return {
+        kind: "failed",
+        summary: [
+          `${SummaryConstant.Failed} Unresolved placeholders: ${driverUnresolved.join(",")}`,
+        ],
+        reason: {
+          kind: "UnresolvedPlaceholders",
+          failedDriver: driver,
+          unresolvedPlaceHolders: driverUnresolved,
+        },
+      };
+    }
+    return { kind: "ready" };
+  }
+
+  private async runDriver(ctx: DriverContext, driver: DriverInstance): Promise<DriverOutcome> {
+    if (driver.env) {
+      for (const [envVar, value] of Object.entries(driver.env)) {
+        process.env[envVar] = value;
+      }
+    }
+
+    const start = performance.now();
+    const summary: string[] = [];
+    const output = new Map<string, string>();
+    const record = (error?: FxError): ActionRecord => ({
+      duration: Math.round(performance.now() - start),
+      outputs: output,
+      error,
+    });
+    const fail = (error: FxError): DriverOutcome => {
+      summary.push(`${SummaryConstant.Failed} ${error.message}`);
+      if (driver.continueOnError) {
+        ctx.logProvider.warning(
+          `Action ${this.stringifyDriverDef(driver)} in lifecycle ${this.name} failed with ${
+            error.name
+          }:${error.message}. Continue because continueOnError is set.`
+        );
+        return { summary, output, record: record(error) };
+      }
+      return {
+        summary,
+        output,
+        record: record(error),
+        reason: { kind: "DriverError", failedDriver: driver, error },
+      };
+    };
+
+    if (driver.pre) {
+      const preRes = await this.runHook(ctx, driver, driver.pre, "pre", output);
+      if (preRes.isErr()) {
+        return fail(preRes.error);
+      }
+      preRes.value.forEach((value, key) => output.set(key, value));
+      summary.push(`${SummaryConstant.Succeeded} Executed pre hook`);
     }
 
-    return { result: ok(envOutput), summaries };
+    const outputEnvVarNames = driver.writeToEnvironmentFile
+      ? new Map(Object.entries(driver.writeToEnvironmentFile))
+      : undefined;
+    setErrorContext({
+      component: camelCase(driver.uses), // set driver name as component name for telemetry
+      method: this.undo ? "undo" : "execute",
+    });
+    const r =
+      this.undo && driver.instance.undo
+        ? await driver.instance.undo(driver.with, ctx, outputEnvVarNames)
+        : await driver.instance.execute(
+            driver.with,
+            ctx,
+            outputEnvVarNames,
+            this.version,
+            driver.name
+          );
+    const result = r.result;
+    summary.push(...r.summaries.map((s) => `${SummaryConstant.Succeeded} ${s}`));
+    if (result.isErr()) {
+      return fail(result.error);
+    }
+    result.value.forEach((value, key) => output.set(key, value));
+
+    if (driver.post) {
+      const postRes = await this.runHook(ctx, driver, driver.post, "post", output);
+      if (postRes.isErr()) {
+        return fail(postRes.error);
+      }
+      postRes.value.forEach((value, key) => output.set(key, value));
+      summary.push(`${SummaryConstant.Succeeded} Executed post hook`);
+    }
+
+    ctx.logProvider.verbose(
+      `Action ${this.stringifyDriverDef(driver)} in lifecycle ${
+        this.name
+      } succeeded with output ${Lifecycle.stringifyOutput(output)}`
+    );
+    return { summary, output, record: record() };
+  }
+
+  /**
+   * Run a hook with the script driver. Outputs produced so far by the action are passed to the hook
+   * as env variables, and can also be referenced by placeholders in the hook.
+   */
+  private async runHook(
+    ctx: DriverContext,
+    driver: DriverInstance,
+    hook: ScriptHook,
+    kind: "pre" | "post",
+    output: Map<string, string>
+  ): Promise<Result<Map<string, string>, FxError>> {
+    ctx.logProvider.verbose(
+      `Executing ${kind} hook of action ${this.stringifyDriverDef(driver)} in lifecycle ${
+        this.name
+      }`
+    );
+    const env: Record<string, string> = {};
+    output.forEach((value, key) => {
+      env[key] = value;
+      process.env[key] = value;
+    });
+    const unresolved: UnresolvedPlaceholders = [];
+    const resolvedHook = resolve(hook, [], unresolved) as ScriptHook;
+    if (unresolved.length > 0) {
+      return err(
+        new MissingEnvironmentVariablesError(camelCase(driver.uses), _.uniq(unresolved).join(","))
+      );
+    }
+    setErrorContext({ component: camelCase(driver.uses), method: `${kind}Hook` });
+    return await Container.get<ScriptDriver>(scriptActionName).runHook(resolvedHook, ctx, env);
   }
 
   private stringifyDriverDef(def: DriverDefinition): string {
@@ -8,16 +8,28 @@
 import { FxError, Result, ok, err } from "@microsoft/teamsfx-api";
 import fs from "fs-extra";
 import { load } from "js-yaml";
+import { mapValues } from "lodash";
+import { dirname, join } from "path";
 import { globalVars } from "../../core/globalVars";
-import { InvalidYamlSchemaError, YamlFieldMissingError, YamlFieldTypeError } from "../../error/yml";
 import {
+  InvalidCompositeActionError,
+  InvalidDriverPluginError,
+  InvalidParallelActionError,
+  InvalidYamlSchemaError,
+  YamlFieldMissingError,
+  YamlFieldTypeError,
+} from "../../error/yml";
+import {
+  CompositeActionDefinition,
   IYamlParser,
   ProjectModel,
   RawProjectModel,
   LifecycleNames,
   AdditionalMetadata,
+  DriverDefinition,
 } from "./interface";
 import { Lifecycle } from "./lifecycle";
+import { driverPluginLoader, isPluginDriverName } from "./plugin";
 import { Validator } from "./validator";
 import { getLocalizedString } from "../../common/localizeUtils";
 
@@ -26,6 +38,126 @@ const validator = new Validator();
 const environmentFolderPath = "environmentFolderPath";
 const writeToEnvironmentFile = "writeToEnvironmentFile";
 const versionNotSupportedKey = "error.yaml.VersionNotSupported";
+const inputPlaceholderReg = /\${{\s*inputs\.([a-zA-Z_][a-zA-Z0-9_]*)\s*}}/g;
+const singleInputPlaceholderReg = /^\${{\s*inputs\.([a-zA-Z_][a-zA-Z0-9_]*)\s*}}$/;
+const outputPlaceholderReg = /^\${{\s*outputs\.([a-zA-Z_][a-zA-Z0-9_]*)\s*}}$/;
+
+/**
+ * Composite actions are referenced by a relative path to a yaml file, e.g. `uses: ./actions/my-action.yml`
+ */
+export function isCompositeAction(uses: string): boolean {
+  return /^\.\.?\//.test(uses) && /\.ya?ml$/.test(uses);
+}
+
+// Replace ${{ inputs.NAME }} in all strings of a step. A string that is exactly one placeholder
+// is replaced by the input value itself, so that non-string inputs keep their types.
+function substituteInputs(value: unknown, inputs: Record<string, unknown>): unknown {
+  if (typeof value === "string") {
+    const single = singleInputPlaceholderReg.exec(value);
+    if (single && single[1] in inputs) {
+      return inputs[single[1]];
+    }
+    return value.replace(inputPlaceholderReg, (placeholder: string, name: string) =>
+      name in inputs ? String(inputs[name]) : placeholder
+    );
+  } else if (Array.isArray(value)) {
+    return value.map((v) => substituteInputs(v, inputs));
+  } else if (value !== null && typeof value === "object") {
+    return mapValues(value, (v) => substituteInputs(v, inputs));
+  }
+  return value;
+}
+
+// Returns the value of every declared input, or an error message
+function resolveCompositeInputs(
+  action: CompositeActionDefinition,
+  args: Record<string, unknown>
+): Result<Record<string, unknown>, string> {
+  const declared = action.inputs ?? {};
+  const unknownInputs = Object.keys(args).filter((name) => !(name in declared));
+  if (unknownInputs.length > 0) {
+    return err(`input(s) ${unknownInputs.join(", ")} are not declared`);
+  }
+  const inputs: Record<string, unknown> = {};
+  for (const [name, input] of Object.entries(declared)) {
+    const value = name in args ? args[name] : input.default;
+    if (value === undefined) {
+      if (input.required) {
+        return err(`required input ${name} is missing`);
+      }
+      inputs[name] = "";
+      continue;
+    }
+    const type = input.type ?? "string";
+    // placeholders of environment variables are resolved when the steps are executed
+    const isPlaceholder = typeof value === "string" && value.includes("${{");
+    if (typeof value !== type && !isPlaceholder) {
+      return err(`input ${name} should have ${type} type`);
+    }
+    inputs[name] = value;
+  }
+  return ok(inputs);
+}
+
+function validateDriverDefinition(elem: any, path: string): Result<undefined, FxError> {
+  if (!("uses" in elem)) {
+    return err(new YamlFieldMissingError(`${path}.uses`));
+  }
+  if (!(typeof elem["uses"] === "string")) {
+    return err(new YamlFieldTypeError(`${path}.uses`, "string"));
+  }
+  if (!("with" in elem)) {
+    return err(new YamlFieldMissingError(`${path}.with`));
+  }
+  if (!(typeof elem["with"] === "object")) {
+    return err(new YamlFieldTypeError(`${path}.with`, "object"));
+  }
+  if (elem["env"]) {
+    if (typeof elem["env"] !== "object" || Array.isArray(elem["env"])) {
+      return err(new YamlFieldTypeError(`${path}.env`, "object"));
+    }
+    for (const envVar in elem["env"]) {
+      if (typeof elem["env"][envVar] !== "string") {
+        return err(new YamlFieldTypeError(`${path}.env.${envVar}`, "string"));
+      }
+    }
+  }
+  if ("if" in elem && typeof elem["if"] !== "string") {
+    return err(new YamlFieldTypeError(`${path}.if`, "string"));
+  }
+  if ("continueOnError" in elem && typeof elem["continueOnError"] !== "boolean") {
+    return err(new YamlFieldTypeError(`${path}.continueOnError`, "boolean"));
+  }
+  for (const hook of ["pre", "post"]) {
+    if (hook in elem) {
+      // a string hook is a shortcut of { run: <command> }
+      if (typeof elem[hook] === "string") {
+        elem[hook] = { run: elem[hook] };
+      }
+      if (
+        typeof elem[hook] !== "object" ||
+        elem[hook] === null ||
+        typeof elem[hook]["run"] !== "string"
+      ) {
+        return err(new YamlFieldTypeError(`${path}.${hook}`, "string or object with 'run' field"));
+      }
+    }
+  }
+  if (elem[writeToEnvironmentFile]) {
+    if (
+      typeof elem[writeToEnvironmentFile] !== "object" ||
+      Array.isArray(elem[writeToEnvironmentFile])
+    ) {
+      return err(new YamlFieldTypeError(`${path}.writeToEnvironmentFile`, "object"));
+    }
+    for (const envVar in elem[writeToEnvironmentFile]) {
+      if (typeof elem[writeToEnvironmentFile][envVar] !== "string") {
+        return err(new YamlFieldTypeError(`${path}.writeToEnvironmentFile.${envVar}`, "string"));
+      }
+    }
+  }
+  return ok(undefined);
+}
 
 function parseRawProjectModel(obj: Record<string, unknown>): Result<RawProjectModel, FxError> {
   const result: RawProjectModel = { version: "" };
@@ -51,52 +183,52 @@ function parseRawProjectModel(obj: Record<string, unknown>): Result<RawProjectMo
     result.additionalMetadata = obj["additionalMetadata"] as AdditionalMetadata;
   }
 
+  if ("plugins" in obj) {
+    const plugins = obj["plugins"];
+    if (!Array.isArray(plugins) || plugins.some((plugin) => typeof plugin !== "string")) {
+      return err(new YamlFieldTypeError("plugins", "array of strings"));
+    }
+    result.plugins = plugins as string[];
+  }
+
   for (const name of LifecycleNames) {
     if (name in obj) {
       const value = obj[name];
       if (!Array.isArray(value)) {
         return err(new YamlFieldTypeError(name, "array"));
       }
-      for (const elem of value) {
-        if (!("uses" in elem)) {
-          return err(new YamlFieldMissingError(`${name}.uses`));
-        }
-        if (!(typeof elem["uses"] === "string")) {
-          return err(new YamlFieldTypeError(`${name}.uses`, "string"));
-        }
-        if (!("with" in elem)) {
-          return err(new YamlFieldMissingError(`${name}.with`));
-        }
-        if (!(typeof elem["with"] === "object")) {
-          return err(new YamlFieldTypeError(`${name}.with`, "object"));
-        }
-        if (elem["env"]) {
-          if (typeof elem["env"] !== "object" || Array.isArray(elem["env"])) {
-            return err(new YamlFieldTypeError(`${name}.env`, "object"));
+      const defs: DriverDefinition[] = [];
+      for (const [i, elem] of value.entries()) {
+        if ("parallel" in elem) {
+          if (!Array.isArray(elem["parallel"])) {
+            return err(new YamlFieldTypeError(`${name}.parallel`, "array"));
           }
-          for (const envVar in elem["env"]) {
-            if (typeof elem["env"][envVar] !== "string") {
-              return err(new YamlFieldTypeError(`${name}.env.${envVar}`, "string"));
+          for (const child of elem["parallel"]) {
+            const res = validateDriverDefinition(child, `${name}.parallel`);
+            if (res.isErr()) {
+              return err(res.error);
             }
-          }
-        }
-        if (elem[writeToEnvironmentFile]) {
-          if (
-            typeof elem[writeToEnvironmentFile] !== "object" ||
-            Array.isArray(elem[writeToEnvironmentFile])
-          ) {
-            return err(new YamlFieldTypeError(`${name}.writeToEnvironmentFile`, "object"));
-          }
-          for (const envVar in elem[writeToEnvironmentFile]) {
-            if (typeof elem[writeToEnvironmentFile][envVar] !== "string") {
+            // env of an action is set in process.env, which is shared by the actions running concurrently
+            if ("env" in child) {
               return err(
-                new YamlFieldTypeError(`${name}.writeToEnvironmentFile.${envVar}`, "string")
+                new InvalidParallelActionError(
+                  child["uses"] as string,
+                  "it can't set env in a parallel block"
+                )
               );
             }
+            // actions of a parallel block are flattened and tagged with the index of the block
+            defs.push({ ...child, parallelGroup: i });
           }
+          continue;
+        }
+        const res = validateDriverDefinition(elem, name);
+        if (res.isErr()) {
+          return err(res.error);
         }
+        defs.push(elem);
       }
-      result[name] = value;
+      result[name] = defs;
     }
   }
 
@@ -127,6 +259,10 @@ export class YamlParser implements IYamlParser {
       result.additionalMetadata = raw.value.additionalMetadata;
     }
 
+    if (raw.value.plugins) {
+      result.plugins = raw.value.plugins;
+    }
+
     return ok(result);
   }
 
@@ -162,11 +298,227 @@ export class YamlParser implements IYamlParser {
           return err(new InvalidYamlSchemaError(path));
         }
       }
-      return parseRawProjectModel(value);
+      const model = parseRawProjectModel(value);
+      if (model.isErr()) {
+        return err(model.error);
+      }
+      const loaded = this.loadPlugins(model.value, path);
+      if (loaded.isErr()) {
+        return err(loaded.error);
+      }
+      const expanded = await this.expandCompositeActions(model.value, path, validateSchema);
+      if (expanded.isErr() || !validateSchema) {
+        return expanded;
+      }
+      const args = this.validatePluginArgs(expanded.value, path);
+      if (args.isErr()) {
+        return err(args.error);
+      }
+      return expanded;
     } catch (error) {
       return err(new InvalidYamlSchemaError(path));
     }
   }
+
+  // Register the drivers of the plugins declared in the yaml file, along with the schemas of their arguments
+  private loadPlugins(model: RawProjectModel, ymlPath: string): Result<undefined, FxError> {
+    for (const plugin of model.plugins ?? []) {
+      const contributions = driverPluginLoader.load(plugin, ymlPath);
+      if (contributions.isErr()) {
+        return err(contributions.error);
+      }
+      for (const contribution of contributions.value) {
+        if (!contribution.schema) {
+          continue;
+        }
+        try {
+          validator.addDriverSchema(contribution.name, contribution.schema);
+        } catch (e) {
+          return err(
+            new InvalidDriverPluginError(
+              plugin,
+              `schema of driver '${contribution.name}' is invalid: ${
+                e instanceof Error ? e.message : String(e)
+              }`
+            )
+          );
+        }
+      }
+    }
+    return ok(undefined);
+  }
+
+  // Arguments of plugin drivers are not covered by the yaml schema, so they are checked against the schemas
+  // contributed by the plugins.
+  private validatePluginArgs(model: RawProjectModel, ymlPath: string): Result<undefined, FxError> {
+    for (const name of LifecycleNames) {
+      for (const def of model[name] ?? []) {
+        if (!isPluginDriverName(def.uses)) {
+          continue;
+        }
+        const reason = validator.validateDriverArgs(def.uses, def.with);
+        if (reason) {
+          return err(
+            new InvalidYamlSchemaError(
+              ymlPath,
+              `Arguments of action '${def.name ?? def.uses}' are invalid: ${reason}.`
+            )
+          );
+        }
+      }
+    }
+    return ok(undefined);
+  }
+
+  private async expandCompositeActions(
+    model: RawProjectModel,
+    ymlPath: string,
+    validateSchema?: boolean
+  ): Promise<Result<RawProjectModel, FxError>> {
+    for (const name of LifecycleNames) {
+      const defs = model[name];
+      if (!defs || !defs.some((def) => isCompositeAction(def.uses))) {
+        continue;
+      }
+      const expanded: DriverDefinition[] = [];
+      for (const def of defs) {
+        if (!isCompositeAction(def.uses)) {
+          expanded.push(def);
+          continue;
+        }
+        if (def.pre || def.post) {
+          return err(new InvalidCompositeActionError(def.uses, "it can't have pre or post hooks"));
+        }
+        if (def.parallelGroup !== undefined) {
+          return err(
+            new InvalidCompositeActionError(def.uses, "it can't be used in a parallel block")
+          );
+        }
+        const steps = await this.expandCompositeAction(def, ymlPath, model.version, validateSchema);
+        if (steps.isErr()) {
+          return err(steps.error);
+        }
+        expanded.push(...steps.value);
+      }
+      model[name] = expanded;
+    }
+    return ok(model);
+  }
+
+  /**
+   * Expand a composite action into its steps. The `if`, `continueOnError`, `env` and `name` fields of the
+   * composite action apply to every step, and its writeToEnvironmentFile maps outputs of the composite action
+   * to environment variables.
+   */
+  private async expandCompositeAction(
+    def: DriverDefinition,
+    ymlPath: string,
+    version: string,
+    validateSchema?: boolean
+  ): Promise<Result<DriverDefinition[], FxError>> {
+    const actionPath = join(dirname(ymlPath), def.uses);
+    if (!(await fs.pathExists(actionPath))) {
+      return err(new InvalidCompositeActionError(def.uses, `file ${actionPath} is not found`));
+    }
+    let action: CompositeActionDefinition;
+    try {
+      action = load(await fs.readFile(actionPath, "utf8")) as CompositeActionDefinition;
+    } catch (e) {
+      return err(new InvalidCompositeActionError(def.uses, "it's not a valid yaml file"));
+    }
+    if (
+      typeof action !== "object" ||
+      action === null ||
+      !Array.isArray(action.steps) ||
+      action.steps.length === 0
+    ) {
+      return err(
+        new InvalidCompositeActionError(def.uses, "field 'steps' should be a non-empty array")
+      );
+    }
+    for (const step of action.steps) {
+      const res = validateDriverDefinition(step, `${def.uses}.steps`);
+      if (res.isErr()) {
+        return err(res.error);
+      }
+      if (isCompositeAction(step.uses)) {
+        return err(new InvalidCompositeActionError(def.uses, "composite actions can't be nested"));
+      }
+    }
+
+    const inputs = resolveCompositeInputs(action, (def.with ?? {}) as Record<string, unknown>);
+    if (inputs.isErr()) {
+      return err(new InvalidCompositeActionError(def.uses, inputs.error));
+    }
+    const declaredOutputs = Object.keys(action.outputs ?? {});
+    const outputMapping = def.writeToEnvironmentFile ?? {};
+    const unknownOutputs = Object.keys(outputMapping).filter(
+      (output) => !declaredOutputs.includes(output)
+    );
+    if (unknownOutputs.length > 0) {
+      return err(
+        new InvalidCompositeActionError(
+          def.uses,
+          `output(s) ${unknownOutputs.join(", ")} are not declared`
+        )
+      );
+    }
+
+    const steps: DriverDefinition[] = [];
+    for (const rawStep of action.steps) {
+      const step = substituteInputs(rawStep, inputs.value) as DriverDefinition;
+      const unresolvedInput = JSON.stringify(step).match(inputPlaceholderReg);
+      if (unresolvedInput) {
+        return err(
+          new InvalidCompositeActionError(
+            def.uses,
+            `${unresolvedInput.join(", ")} references undeclared input(s)`
+          )
+        );
+      }
+      if (step.writeToEnvironmentFile) {
+        const mapping: Record<string, string> = {};
+        for (const [driverOutput, target] of Object.entries(step.writeToEnvironmentFile)) {
+          const output = outputPlaceholderReg.exec(target);
+          if (!output) {
+            mapping[driverOutput] = target;
+          } else if (!declaredOutputs.includes(output[1])) {
+            return err(
+              new InvalidCompositeActionError(def.uses, `output ${output[1]} is not declared`)
+            );
+          } else if (outputMapping[output[1]]) {
+            // outputs that are not mapped by the caller are not written to the environment file
+            mapping[driverOutput] = outputMapping[output[1]];
+          }
+        }
+        step.writeToEnvironmentFile = mapping;
+      }
+      if (step.if !== undefined) {
+        // the condition can be a single boolean input
+        step.if = String(step.if);
+      }
+      if (def.env) {
+        step.env = { ...def.env, ...step.env };
+      }
+      if (def.if !== undefined) {
+        step.if = step.if !== undefined ? `(${def.if}) && (${step.if})` : def.if;
+      }
+      if (def.continueOnError !== undefined && step.continueOnError === undefined) {
+        step.continueOnError = def.continueOnError;
+      }
+      if (def.name) {
+        step.name = `${def.name}/${step.name ?? step.uses}`;
+      }
+      steps.push(step);
+    }
+
+    if (validateSchema && !validator.validate({ version, provision: steps }, version)) {
+      return err(
+        new InvalidCompositeActionError(def.uses, "its steps don't match the yaml schema")
+      );
+    }
+    return ok(steps);
+  }
 }
 
 export const yamlParser = new YamlParser();
@@ -0,0 +1,135 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { FxError, Result, err, ok } from "@microsoft/teamsfx-api";
+import { createRequire } from "module";
+import { resolve } from "path";
+import { Container } from "typedi";
+import { InvalidDriverPluginError } from "../../error/yml";
+import { StepDriver } from "../driver/interface/stepDriver";
+
+/**
+ * A driver exported by a plugin declared in the `plugins` field of the yaml file, e.g.
+ * `module.exports = { drivers: [{ name: "contoso/deployToK8s", driver, schema }] }`.
+ * `schema` is an optional JSON schema of the `with` arguments, which is checked when the yaml file is validated.
+ */
+export type DriverContribution = {
+  name: string;
+  driver: StepDriver;
+  schema?: Record<string, unknown>;
+};
+
+// The name of a plugin driver must have a namespace so that it never clashes with future built-in drivers.
+const driverNameReg = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_.-]+)+$/;
+
+export function isPluginDriverName(uses: string): boolean {
+  return driverNameReg.test(uses);
+}
+
+// Returns the `drivers` exported by a plugin, either as a CommonJS module or as the default export of an ES module
+function getExportedDrivers(exported: unknown): unknown {
+  if (!isObject(exported)) {
+    return undefined;
+  }
+  return exported.drivers ?? (isObject(exported.default) ? exported.default.drivers : undefined);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Loads driver plugins and registers their drivers to the typedi container, so that they are resolved
+ * in the same way as the built-in drivers.
+ */
+export class DriverPluginLoader {
+  // drivers of every loaded plugin, by the resolved path of the plugin
+  private plugins = new Map<string, DriverContribution[]>();
+  // the resolved path of the plugin that registered a driver, by driver name
+  private owners = new Map<string, string>();
+
+  /**
+   * Load a plugin and register its drivers.
+   * @param plugin a local path relative to the yaml file, or the name of an npm module installed in the project
+   * @param ymlPath the path of the yaml file
+   */
+  load(plugin: string, ymlPath: string): Result<DriverContribution[], FxError> {
+    // a require relative to the yaml file, which is left as is by bundlers such as webpack
+    const requireFromYml = createRequire(resolve(ymlPath));
+    let pluginPath: string;
+    try {
+      pluginPath = requireFromYml.resolve(plugin);
+    } catch (e) {
+      return err(new InvalidDriverPluginError(plugin, "it can't be found"));
+    }
+    const loaded = this.plugins.get(pluginPath);
+    if (loaded) {
+      return ok(loaded);
+    }
+
+    let exported: unknown;
+    try {
+      exported = requireFromYml(pluginPath);
+    } catch (e) {
+      return err(
+        new InvalidDriverPluginError(
+          plugin,
+          `it can't be loaded: ${e instanceof Error ? e.message : String(e)}`
+        )
+      );
+    }
+    const drivers = getExportedDrivers(exported);
+    if (!Array.isArray(drivers)) {
+      return err(new InvalidDriverPluginError(plugin, "it should export an array named 'drivers'"));
+    }
+
+    const contributions: DriverContribution[] = [];
+    for (const contribution of drivers as DriverContribution[]) {
+      const res = this.validateContribution(contribution, pluginPath);
+      if (res.isErr()) {
+        return err(new InvalidDriverPluginError(plugin, res.error));
+      }
+      contributions.push(contribution);
+    }
+    for (const contribution of contributions) {
+      Container.set(contribution.name, contribution.driver);
+      this.owners.set(contribution.name, pluginPath);
+    }
+    this.plugins.set(pluginPath, contributions);
+    return ok(contributions);
+  }
+
+  // Returns the reason if the contribution is invalid
+  private validateContribution(
+    contribution: DriverContribution,
+    pluginPath: string
+  ): Result<undefined, string> {
+    if (typeof contribution !== "object" || contribution === null) {
+      return err("each item of 'drivers' should be an object");
+    }
+    const name = contribution.name;
+    if (typeof name !== "string" || !isPluginDriverName(name)) {
+      const example = "e.g. contoso/deploy";
+      return err(`driver name '${String(name)}' should be like '<namespace>/<name>', ${example}`);
+    }
+    const owner = this.owners.get(name);
+    if (owner === undefined && Container.has(name)) {
+      return err(`driver '${name}' conflicts with a built-in driver`);
+    }
+    if (owner !== undefined && owner !== pluginPath) {
+      return err(`driver '${name}' is already registered by ${owner}`);
+    }
+    if (typeof contribution.driver?.execute !== "function") {
+      return err(`driver '${name}' should have an 'execute' function`);
+    }
+    if (
+      contribution.schema !== undefined &&
+      (typeof contribution.schema !== "object" || contribution.schema === null)
+    ) {
+      return err(`schema of driver '${name}' should be an object`);
+    }
+    return ok(undefined);
+  }
+}
+
+export const driverPluginLoader = new DriverPluginLoader();
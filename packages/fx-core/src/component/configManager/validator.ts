@@ -11,9 +11,13 @@ const supportedVersions = ["1.0.0", "1.1.0", "v1.2", "v1.3", "v1.4"];
 
 export class Validator {
   impl: Map<Version, { validator: ValidateFunction }>;
+  // schemas of the `with` arguments of plugin drivers, by driver name
+  driverImpl: Map<string, ValidateFunction>;
+  private driverAjv = new Ajv({ allowUnionTypes: true, strict: false, allErrors: true });
 
   constructor() {
     this.impl = new Map();
+    this.driverImpl = new Map();
     for (const version of this.supportedVersions()) {
       this.initVersion(version);
     }
@@ -49,4 +53,27 @@ export class Validator {
     }
     return !!impl.validator(obj);
   }
+
+  /**
+   * Register the schema of the `with` arguments of a plugin driver. It throws if the schema can't be compiled.
+   * A driver keeps its first schema because a plugin is only loaded once.
+   */
+  addDriverSchema(name: string, schema: Record<string, unknown>): void {
+    if (this.driverImpl.has(name)) {
+      return;
+    }
+    this.driverImpl.set(name, this.driverAjv.compile(schema));
+  }
+
+  /**
+   * Validate the `with` arguments of a plugin driver.
+   * @returns the reason if the arguments are invalid, or undefined if they are valid or the driver has no schema
+   */
+  validateDriverArgs(name: string, args: unknown): string | undefined {
+    const validate = this.driverImpl.get(name);
+    if (!validate || validate(args)) {
+      return undefined;
+    }
+    return this.driverAjv.errorsText(validate.errors, { dataVar: "with" });
+  }
 }
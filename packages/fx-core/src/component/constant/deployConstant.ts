@@ -15,6 +15,10 @@ export class DeployConstant {
   public static readonly LATEST_TRUST_MS_TIME: Date = new Date(2000, 1, 1);
   // deploy zip file name
   public static readonly DEPLOYMENT_ZIP_CACHE_FILE = "deployment.zip";
+  // content hashes of the last deployment, used to skip unchanged deployments
+  public static readonly DEPLOYMENT_MANIFEST_FILE = "deployment.manifest.json";
+  // max number of changed files listed in the deploy summary
+  public static readonly DEPLOY_CHANGED_FILES_IN_SUMMARY = 10;
   // call zip deploy api timeout
   public static readonly DEPLOY_TIMEOUT_IN_MS: number = 10 * 60 * 1000;
   // check deploy status timeout
@@ -37,6 +41,16 @@ export class DeployConstant {
   public static readonly DEPLOY_OVER_TIME = 1000 * 120;
   // default deploy retry times
   public static readonly DEPLOY_UPLOAD_RETRY_TIMES = 2;
+  // health check retry times after deploying to a slot or swapping, with BACKOFF_TIME_S interval
+  public static readonly HEALTH_CHECK_RETRY_TIMES = 12;
+  // the slot that a deployment slot is swapped with
+  public static readonly PRODUCTION_SLOT = "production";
+  public static readonly SWAP_SLOT_API_VERSION = "2022-03-01";
+  public static readonly SWAP_SLOT_RETRY_TIMES = 60;
+  public static readonly CONTAINER_APPS_API_VERSION = "2023-05-01";
+  // check the provisioning of the container app and the health of its revision, with BACKOFF_TIME_S interval
+  public static readonly CONTAINER_APP_CHECK_RETRY_TIMES = 60;
+  public static readonly ARM_ENDPOINT = "https://management.azure.com";
 }
 
 export enum DeployStatus {
@@ -0,0 +1,91 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { createHash } from "crypto";
+import fs from "fs-extra";
+import { pickBy } from "lodash";
+import * as path from "path";
+import { LifecycleName } from "../configManager/interface";
+import { pathUtils } from "../utils/pathUtils";
+
+/**
+ * Progress of a lifecycle that failed in the middle, used to resume the lifecycle
+ * from the failed action instead of starting over.
+ */
+export type LifecycleCheckpoint = {
+  lifecycle: LifecycleName;
+  // sha256 of the yaml file content when the checkpoint was saved
+  ymlHash: string;
+  // index of the action to resume from, all actions before it have succeeded
+  resumeIndex: number;
+  // outputs of the succeeded actions. Values of secrets are not saved, they are kept in .env.xxx.user
+  outputs: Record<string, string>;
+};
+
+type CheckpointFile = { [lifecycle: string]: LifecycleCheckpoint | undefined };
+
+class CheckpointUtil {
+  /**
+   * The checkpoint file is saved next to the .env file of the environment, e.g. env/.env.dev.checkpoint.user,
+   * which is ignored by git as other .user files.
+   */
+  async getCheckpointFilePath(projectPath: string, env: string): Promise<string> {
+    const envFilePathRes = await pathUtils.getEnvFilePath(projectPath, env);
+    const envFilePath =
+      (envFilePathRes.isOk() && envFilePathRes.value) ||
+      path.resolve(projectPath, "env", `.env.${env}`);
+    return `${envFilePath}.checkpoint.user`;
+  }
+
+  async getYmlHash(ymlFilePath: string): Promise<string> {
+    const content = await fs.readFile(ymlFilePath, "utf8");
+    return createHash("sha256").update(content).digest("hex");
+  }
+
+  async read(
+    projectPath: string,
+    env: string,
+    lifecycle: LifecycleName
+  ): Promise<LifecycleCheckpoint | undefined> {
+    const file = await this.readFile(projectPath, env);
+    return file[lifecycle];
+  }
+
+  async write(projectPath: string, env: string, checkpoint: LifecycleCheckpoint): Promise<void> {
+    const file = await this.readFile(projectPath, env);
+    file[checkpoint.lifecycle] = {
+      ...checkpoint,
+      outputs: pickBy(checkpoint.outputs, (value, key) => !key.startsWith("SECRET_")),
+    };
+    await fs.writeJson(await this.getCheckpointFilePath(projectPath, env), file, { spaces: 2 });
+  }
+
+  async remove(projectPath: string, env: string, lifecycle: LifecycleName): Promise<void> {
+    const filePath = await this.getCheckpointFilePath(projectPath, env);
+    if (!(await fs.pathExists(filePath))) {
+      return;
+    }
+    const file = await this.readFile(projectPath, env);
+    delete file[lifecycle];
+    if (Object.keys(file).length === 0) {
+      await fs.remove(filePath);
+    } else {
+      await fs.writeJson(filePath, file, { spaces: 2 });
+    }
+  }
+
+  private async readFile(projectPath: string, env: string): Promise<CheckpointFile> {
+    const filePath = await this.getCheckpointFilePath(projectPath, env);
+    if (!(await fs.pathExists(filePath))) {
+      return {};
+    }
+    try {
+      return (await fs.readJson(filePath)) as CheckpointFile;
+    } catch (e) {
+      // a corrupted checkpoint is treated as no checkpoint
+      return {};
+    }
+  }
+}
+
+export const checkpointUtil = new CheckpointUtil();
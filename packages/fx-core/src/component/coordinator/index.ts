@@ -36,7 +36,7 @@ import {
   MissingRequiredInputError,
   assembleError,
 } from "../../error/common";
-import { LifeCycleUndefinedError } from "../../error/yml";
+import { LifeCycleUndefinedError, ResumeCheckpointOutdatedError } from "../../error/yml";
 import {
   MeArchitectureOptions,
   AppNamePattern,
@@ -49,8 +49,20 @@ import {
   CustomCopilotAssistantOptions,
 } from "../../question/create";
 import { QuestionNames } from "../../question/questionNames";
-import { ExecutionError, ExecutionOutput, ILifecycle } from "../configManager/interface";
-import { Lifecycle } from "../configManager/lifecycle";
+import {
+  ExecutionError,
+  ExecutionOutput,
+  ExecutionResult,
+  ILifecycle,
+  LifecyclePlan,
+} from "../configManager/interface";
+import { isSkippedByCondition } from "../configManager/condition";
+import {
+  Lifecycle,
+  createUndoLifecycle,
+  getGroupStartIndex,
+  planLifecycle,
+} from "../configManager/lifecycle";
 import { CoordinatorSource } from "../constants";
 import { deployUtils } from "../deployUtils";
 import { developerPortalScaffoldUtils } from "../developerPortalScaffoldUtils";
@@ -69,7 +81,8 @@ import { envUtil } from "../utils/envUtil";
 import { metadataUtil } from "../utils/metadataUtil";
 import { pathUtils } from "../utils/pathUtils";
 import { settingsUtil } from "../utils/settingsUtil";
-import { SummaryReporter } from "./summary";
+import { SummaryReporter, getLifecyclePlanSummary } from "./summary";
+import { checkpointUtil } from "./checkpoint";
 import { convertToAlphanumericOnly } from "../../common/utils";
 import { isApiKeyEnabled, isOfficeXMLAddinEnabled } from "../../common/featureFlags";
 import { environmentNameManager } from "../../core/environmentName";
@@ -205,6 +218,7 @@ const AzureDeployActions = [
   "azureAppService/zipDeploy",
   "azureFunctions/zipDeploy",
   "azureStorage/deploy",
+  "azureContainerApps/deploy",
 ];
 const needTenantCheckActions = ["botAadApp/create", "aadApp/create", "botFramework/create"];
 
@@ -633,12 +647,19 @@ class Coordinator {
       return err(new LifeCycleUndefinedError("provision"));
     }
 
+    if (inputs.dryRun) {
+      return await this.dryRun(ctx, cycles, "provision");
+    }
+
     // 2. M365 sign in and tenant check if needed.
     let containsM365 = false;
     let containsAzure = false;
     const tenantSwitchCheckActions: string[] = [];
     cycles.forEach((cycle) => {
       cycle.driverDefs?.forEach((def) => {
+        if (isSkippedByCondition(def)) {
+          return;
+        }
         if (M365Actions.includes(def.uses)) {
           containsM365 = true;
         } else if (AzureActions.includes(def.uses)) {
@@ -813,10 +834,16 @@ class Coordinator {
       }
       ctx.logProvider.info(`Executing provision ${EOL}${EOL}${maybeDescription.value}${EOL}`);
       for (const [index, cycle] of cycles.entries()) {
-        const execRes = await cycle.execute(ctx);
+        const startIndexRes = await this.getResumeIndex(ctx, inputs, cycle, templatePath, output);
+        if (startIndexRes.isErr()) {
+          hasError = true;
+          return err(startIndexRes.error);
+        }
+        const execRes = await cycle.execute(ctx, startIndexRes.value);
         summaryReporter.updateLifecycleState(index, execRes);
         const result = this.convertExecuteResult(execRes.result, templatePath);
         merge(output, result[0]);
+        await this.updateCheckpoint(ctx, inputs, cycle, templatePath, execRes, output);
         if (result[1]) {
           hasError = true;
           inputs.envVars = output;
@@ -824,6 +851,8 @@ class Coordinator {
         }
       }
     } finally {
+      // structured report of the actions, e.g. for `--output json` of the CLI
+      inputs.lifecycleReports = summaryReporter.getLifecycleReports();
       const summary = summaryReporter.getLifecycleSummary(inputs.createdEnvFile);
       ctx.logProvider.info(`Execution summary:${EOL}${EOL}${summary}${EOL}`);
       await ctx.progressBar?.end(!hasError);
@@ -914,6 +943,102 @@ class Coordinator {
     return [output, error];
   }
 
+  /**
+   * Returns the index of the action to start the lifecycle from. It's 0 unless resuming is requested and
+   * a checkpoint of a failed run exists, in which case outputs saved in the checkpoint are restored.
+   */
+  async getResumeIndex(
+    ctx: DriverContext,
+    inputs: InputsWithProjectPath,
+    lifecycle: ILifecycle,
+    templatePath: string,
+    output: DotenvParseOutput
+  ): Promise<Result<number, FxError>> {
+    const env = inputs.env as string | undefined;
+    if (!inputs.resume || !env) {
+      return ok(0);
+    }
+    const checkpoint = await checkpointUtil.read(inputs.projectPath, env, lifecycle.name);
+    if (!checkpoint) {
+      ctx.logProvider.warning(
+        `No failed run of ${lifecycle.name} is found for environment ${env}, all actions will be executed.`
+      );
+      return ok(0);
+    }
+    if (checkpoint.ymlHash !== (await checkpointUtil.getYmlHash(templatePath))) {
+      return err(new ResumeCheckpointOutdatedError(lifecycle.name, env));
+    }
+    for (const [key, value] of Object.entries(checkpoint.outputs)) {
+      if (!process.env[key]) {
+        process.env[key] = value;
+        output[key] = value;
+      }
+    }
+    ctx.logProvider.info(
+      `Resuming ${lifecycle.name} from action ${checkpoint.resumeIndex + 1} of ${
+        lifecycle.driverDefs.length
+      }`
+    );
+    return ok(checkpoint.resumeIndex);
+  }
+
+  /**
+   * Save a checkpoint if the lifecycle failed in the middle, or remove the checkpoint if it succeeded.
+   * Failing to save the checkpoint only means the lifecycle can't be resumed, so it's not reported as an error.
+   */
+  async updateCheckpoint(
+    ctx: DriverContext,
+    inputs: InputsWithProjectPath,
+    lifecycle: ILifecycle,
+    templatePath: string,
+    execRes: ExecutionResult,
+    output: DotenvParseOutput
+  ): Promise<void> {
+    const env = inputs.env as string | undefined;
+    if (!env) {
+      return;
+    }
+    try {
+      if (execRes.result.isOk()) {
+        await checkpointUtil.remove(inputs.projectPath, env, lifecycle.name);
+      } else if (execRes.result.error.kind === "PartialSuccess") {
+        await checkpointUtil.write(inputs.projectPath, env, {
+          lifecycle: lifecycle.name,
+          ymlHash: await checkpointUtil.getYmlHash(templatePath),
+          resumeIndex: getGroupStartIndex(lifecycle.driverDefs, execRes.summaries.length - 1),
+          outputs: output,
+        });
+      }
+    } catch (e) {
+      ctx.logProvider.warning(`Failed to update the checkpoint of ${lifecycle.name}: ${String(e)}`);
+    }
+  }
+
+  /**
+   * Report the drivers that would run for the given lifecycles without executing any of them.
+   * Nothing is returned for the env file, since no driver produces outputs in dry-run mode.
+   */
+  async dryRun(
+    ctx: DriverContext,
+    cycles: ILifecycle[],
+    stage: string
+  ): Promise<Result<DotenvParseOutput, FxError>> {
+    const plans: LifecyclePlan[] = [];
+    for (const cycle of cycles) {
+      const planRes = await planLifecycle(cycle, ctx);
+      if (planRes.isErr()) {
+        return err(planRes.error);
+      }
+      plans.push(planRes.value);
+    }
+    const summary = getLifecyclePlanSummary(plans);
+    ctx.logProvider.info(`${summary}${EOL}`);
+    const steps = plans.reduce((acc, cur) => acc + cur.steps.length, 0);
+    const msg = getLocalizedString("core.common.LifecycleDryRunComplete", stage, steps);
+    void ctx.ui?.showMessage("info", msg, false);
+    return ok({});
+  }
+
   @hooks([ErrorContextMW({ component: "Coordinator" })])
   async deploy(
     ctx: DriverContext,
@@ -928,6 +1053,9 @@ class Coordinator {
     }
     const projectModel = maybeProjectModel.value;
     if (projectModel.deploy) {
+      if (inputs.dryRun) {
+        return await this.dryRun(ctx, [projectModel.deploy], "deploy");
+      }
       if (
         inputs.env !== environmentNameManager.getLocalEnvName() &&
         inputs.env !== environmentNameManager.getTestToolEnvName()
@@ -951,10 +1079,29 @@ class Coordinator {
           return err(maybeDescription.error);
         }
         ctx.logProvider.info(`Executing deploy ${EOL}${EOL}${maybeDescription.value}${EOL}`);
-        const execRes = await projectModel.deploy.execute(ctx);
+        const startIndexRes = await this.getResumeIndex(
+          ctx,
+          inputs,
+          projectModel.deploy,
+          templatePath,
+          output
+        );
+        if (startIndexRes.isErr()) {
+          hasError = true;
+          return err(startIndexRes.error);
+        }
+        const execRes = await projectModel.deploy.execute(ctx, startIndexRes.value);
         summaryReporter.updateLifecycleState(0, execRes);
         const result = this.convertExecuteResult(execRes.result, templatePath);
         merge(output, result[0]);
+        await this.updateCheckpoint(
+          ctx,
+          inputs,
+          projectModel.deploy,
+          templatePath,
+          execRes,
+          output
+        );
         if (result[1]) {
           hasError = true;
           inputs.envVars = output;
@@ -970,6 +1117,7 @@ class Coordinator {
           ctx.ui?.showMessage("info", msg, false);
         }
       } finally {
+        inputs.lifecycleReports = summaryReporter.getLifecycleReports();
         const summary = summaryReporter.getLifecycleSummary();
         ctx.logProvider.info(`Execution summary:${EOL}${EOL}${summary}${EOL}`);
         await ctx.progressBar?.end(!hasError);
@@ -994,6 +1142,9 @@ class Coordinator {
     const projectModel = maybeProjectModel.value;
     let hasError = false;
     if (projectModel.publish) {
+      if (inputs.dryRun) {
+        return await this.dryRun(ctx, [projectModel.publish], "publish");
+      }
       const summaryReporter = new SummaryReporter([projectModel.publish], ctx.logProvider);
       try {
         const steps = projectModel.publish.driverDefs.length;
@@ -1031,6 +1182,7 @@ class Coordinator {
           }
         }
       } finally {
+        inputs.lifecycleReports = summaryReporter.getLifecycleReports();
         const summary = summaryReporter.getLifecycleSummary();
         ctx.logProvider.info(`Execution summary:${EOL}${EOL}${summary}${EOL}`);
         await ctx.progressBar?.end(!hasError);
@@ -1041,6 +1193,82 @@ class Coordinator {
     return ok(output);
   }
 
+  /**
+   * Run the destroy lifecycle defined in the yaml file, then delete the resources created by provision
+   * by undoing its actions in reverse order. Resource IDs are read from the env file and cleared once
+   * the resources are deleted, so it's safe to run it again after a failure.
+   */
+  @hooks([ErrorContextMW({ component: "Coordinator" })])
+  async destroy(
+    ctx: DriverContext,
+    inputs: InputsWithProjectPath
+  ): Promise<Result<DotenvParseOutput, FxError>> {
+    const output: DotenvParseOutput = {};
+    const templatePath = pathUtils.getYmlFilePath(ctx.projectPath, inputs.env);
+    const maybeProjectModel = await metadataUtil.parse(templatePath, inputs.env);
+    if (maybeProjectModel.isErr()) {
+      return err(maybeProjectModel.error);
+    }
+    const projectModel = maybeProjectModel.value;
+    const cycles: ILifecycle[] = [];
+    if (projectModel.destroy) {
+      cycles.push(projectModel.destroy);
+    }
+    if (projectModel.provision) {
+      cycles.push(createUndoLifecycle(projectModel.provision, projectModel.version));
+    }
+    const steps = cycles.reduce((acc, cur) => acc + cur.driverDefs.length, 0);
+    if (steps === 0) {
+      return err(new LifeCycleUndefinedError("destroy"));
+    }
+    const consent = await deployUtils.askForDestroyConsent(ctx);
+    if (consent.isErr()) {
+      return err(consent.error);
+    }
+
+    const summaryReporter = new SummaryReporter(cycles, ctx.logProvider);
+    let hasError = false;
+    try {
+      ctx.progressBar = ctx.ui?.createProgressBar(
+        getLocalizedString("core.progress.destroy"),
+        steps
+      );
+      await ctx.progressBar?.start();
+      const maybeDescription = summaryReporter.getLifecycleDescriptions();
+      if (maybeDescription.isErr()) {
+        hasError = true;
+        return err(maybeDescription.error);
+      }
+      ctx.logProvider.info(`Executing destroy ${EOL}${EOL}${maybeDescription.value}${EOL}`);
+      for (const [index, cycle] of cycles.entries()) {
+        const execRes = await cycle.execute(ctx);
+        summaryReporter.updateLifecycleState(index, execRes);
+        const result = this.convertExecuteResult(execRes.result, templatePath);
+        merge(output, result[0]);
+        if (result[1]) {
+          hasError = true;
+          inputs.envVars = output;
+          return err(result[1]);
+        }
+      }
+    } finally {
+      inputs.lifecycleReports = summaryReporter.getLifecycleReports();
+      const summary = summaryReporter.getLifecycleSummary();
+      ctx.logProvider.info(`Execution summary:${EOL}${EOL}${summary}${EOL}`);
+      await ctx.progressBar?.end(!hasError);
+    }
+
+    // outputs saved in the checkpoint of provision refer to the deleted resources
+    try {
+      await checkpointUtil.remove(inputs.projectPath, inputs.env, "provision");
+    } catch (e) {
+      ctx.logProvider.warning(`Failed to remove the checkpoint of provision: ${String(e)}`);
+    }
+    const msg = getLocalizedString("core.common.LifecycleComplete.destroy", steps, steps);
+    ctx.ui?.showMessage("info", msg, false);
+    return ok(output);
+  }
+
   @hooks([ErrorContextMW({ component: "Coordinator" })])
   async publishInDeveloperPortal(
     ctx: Context,
@@ -2,11 +2,18 @@
 // Licensed under the MIT license.
 
 import { combine, FxError, LogProvider, Result } from "@microsoft/teamsfx-api";
-import { DriverDefinition, ExecutionResult, ILifecycle } from "../configManager/interface";
+import {
+  ActionRecord,
+  DriverDefinition,
+  ExecutionResult,
+  ILifecycle,
+  LifecyclePlan,
+} from "../configManager/interface";
 import { EOL } from "os";
 import { SummaryConstant } from "../configManager/constant";
 import _ from "lodash";
 import { getLocalizedString } from "../../common/localizeUtils";
+import { maskSecretValues } from "../utils/envUtil";
 
 const indent = "  ";
 
@@ -67,14 +74,31 @@ function updateLifecycleState(state: LifecycleState, execResult: ExecutionResult
 
 type ActionState = {
   name: string;
-  status: "succeeded" | "failed" | "notExecuted";
+  driverDef: DriverDefinition;
+  status: "succeeded" | "failed" | "notExecuted" | "skipped";
   summaries: string[];
+  record?: ActionRecord;
 };
 
+// An executed action can still be skipped by its `if` condition, fail without stopping
+// the lifecycle when `continueOnError` is set, or not run at all because another action in
+// its parallel group failed. All of them are recorded in its summaries.
+function getExecutedActionStatus(summaries: string[] | undefined): ActionState["status"] {
+  if (summaries?.some((s) => s.startsWith(SummaryConstant.Skipped))) {
+    return "skipped";
+  } else if (summaries?.some((s) => s.startsWith(SummaryConstant.Failed))) {
+    return "failed";
+  } else if (summaries?.some((s) => s.startsWith(SummaryConstant.NotExecuted))) {
+    return "notExecuted";
+  }
+  return "succeeded";
+}
+
 function initActionStates(lifecycle: ILifecycle): ActionState[] {
   return lifecycle.driverDefs.map((driverDef) => {
     return {
       name: getActionName(driverDef),
+      driverDef,
       status: "notExecuted",
       summaries: [],
     };
@@ -82,10 +106,13 @@ function initActionStates(lifecycle: ILifecycle): ActionState[] {
 }
 
 function updateActionStates(actionStates: ActionState[], executionResult: ExecutionResult): void {
-  const { result, summaries } = executionResult;
+  const { result, summaries, records } = executionResult;
+  actionStates.forEach((actionState, i) => {
+    actionState.record = records?.[i];
+  });
   if (result.isOk()) {
     actionStates.forEach((actionState, i) => {
-      actionState.status = "succeeded";
+      actionState.status = getExecutedActionStatus(summaries[i]);
       if (summaries[i]) {
         actionState.summaries = summaries[i];
       }
@@ -96,9 +123,14 @@ function updateActionStates(actionStates: ActionState[], executionResult: Execut
       // just ignore Failure, because we can leave action states as "notExecuted"
     } else if (e.kind === "PartialSuccess") {
       const executedActionNum = summaries.length;
+      // The failed action is the last executed one, unless it's in a parallel group,
+      // in which case its summaries tell it apart from the other actions of the group.
+      const failedIndexKnown = summaries.some(
+        (summary) => getExecutedActionStatus(summary) === "failed"
+      );
       actionStates.forEach((actionState, i) => {
-        if (i < executedActionNum - 1) {
-          actionState.status = "succeeded";
+        if (i < executedActionNum - 1 || (i == executedActionNum - 1 && failedIndexKnown)) {
+          actionState.status = getExecutedActionStatus(summaries[i]);
         } else if (i == executedActionNum - 1) {
           actionState.status = "failed";
         }
@@ -162,9 +194,19 @@ function stringifyLifecycleState(lifecycleState: LifecycleState): string[] {
           `${indent}${SummaryConstant.Succeeded} ${actionState.name}`
         )
       );
+    } else if (actionState.status === "skipped") {
+      result.push(
+        getLocalizedString(
+          "core.summary.actionSkipped",
+          `${indent}${SummaryConstant.Skipped} ${actionState.name}`
+        )
+      );
     }
     for (const summary of actionState.summaries) {
-      if (actionState.status === "notExecuted") {
+      if (
+        actionState.status === "notExecuted" &&
+        !summary.startsWith(SummaryConstant.NotExecuted)
+      ) {
         result.push(`${indent}${indent}${SummaryConstant.NotExecuted} ${summary}`);
       } else {
         result.push(`${indent}${indent}${summary}`);
@@ -175,6 +217,122 @@ function stringifyLifecycleState(lifecycleState: LifecycleState): string[] {
   return result;
 }
 
+/**
+ * Machine readable report of an action, e.g. for `--output json` of the CLI.
+ * Values of the written env variables are masked if they are secrets.
+ */
+export type ActionReport = {
+  name?: string;
+  uses: string;
+  status: ActionState["status"];
+  // milliseconds
+  duration: number;
+  outputs: Record<string, string>;
+  error?: { code: string; source: string; message: string };
+};
+
+export type LifecycleReport = {
+  name: string;
+  status: LifecycleState["status"];
+  actions: ActionReport[];
+};
+
+function reportLifecycleState(lifecycleState: LifecycleState): LifecycleReport {
+  // values of the secret outputs, which may appear in the error messages of the later actions
+  const secrets: string[] = [];
+  lifecycleState.actionStates.forEach((actionState) => {
+    actionState.record?.outputs.forEach((value, key) => {
+      if (key.startsWith("SECRET_") && value) {
+        secrets.push(value);
+      }
+    });
+  });
+  return {
+    name: lifecycleState.name,
+    status: lifecycleState.status,
+    actions: lifecycleState.actionStates.map((actionState) => {
+      const outputs: Record<string, string> = {};
+      actionState.record?.outputs.forEach((value, key) => {
+        // mask by the name, since the value of a secret output may not be in process.env
+        outputs[key] = key.startsWith("SECRET_") ? "******" : value;
+      });
+      const error = actionState.record?.error;
+      return {
+        name: actionState.driverDef.name,
+        uses: actionState.driverDef.uses,
+        status: actionState.status,
+        duration: actionState.record?.duration ?? 0,
+        outputs,
+        error: error && {
+          code: error.name,
+          source: error.source,
+          message: maskSecrets(error.message, secrets),
+        },
+      };
+    }),
+  };
+}
+
+function maskSecrets(message: string, secrets: string[]): string {
+  for (const secret of secrets) {
+    message = message.split(secret).join("******");
+  }
+  return maskSecretValues(message);
+}
+
+function stringifyLifecyclePlan(plan: LifecyclePlan): string[] {
+  const n = plan.steps.length;
+  const result: string[] = [getLocalizedString("core.summary.planLifecycle", plan.name, n)];
+  plan.steps.forEach((step, i) => {
+    result.push(
+      `${indent}(${i + 1}/${n}) ${getLocalizedString(
+        "core.summary.planAction",
+        getActionName(step.driver)
+      )}`
+    );
+    if (step.skipped) {
+      result.push(
+        `${indent}${indent}${SummaryConstant.Skipped} ${getLocalizedString(
+          "core.summary.planSkipped",
+          step.driver.if
+        )}`
+      );
+      return;
+    }
+    result.push(
+      `${indent}${indent}${getLocalizedString(
+        "core.summary.planArguments",
+        maskSecretValues(JSON.stringify(step.driver.with))
+      )}`
+    );
+    if (step.outputNames.length > 0) {
+      result.push(
+        `${indent}${indent}${getLocalizedString(
+          "core.summary.planOutputs",
+          step.outputNames.join(", ")
+        )}`
+      );
+    }
+    for (const preview of step.previews) {
+      result.push(`${indent}${indent}${preview}`);
+    }
+    if (step.unresolvedPlaceHolders.length > 0) {
+      result.push(
+        `${indent}${indent}${SummaryConstant.NotExecuted} ${getLocalizedString(
+          "core.summary.planUnresolved",
+          step.unresolvedPlaceHolders.join(", ")
+        )}`
+      );
+    }
+  });
+  return result;
+}
+
+export function getLifecyclePlanSummary(plans: LifecyclePlan[]): string {
+  const lines = _.flatten(plans.map((plan) => stringifyLifecyclePlan(plan)));
+  return `${getLocalizedString("core.summary.planSummary")}${EOL}${lines.join(EOL)}`;
+}
+
 export class SummaryReporter {
   private lifecycles: ILifecycle[];
   lifecycleStates: LifecycleState[];
@@ -197,6 +355,10 @@ export class SummaryReporter {
     updateLifecycleState(this.lifecycleStates[index], execResult);
   }
 
+  getLifecycleReports(): LifecycleReport[] {
+    return this.lifecycleStates.map((lifecycleState) => reportLifecycleState(lifecycleState));
+  }
+
   getLifecycleSummary(createdEnvFile = undefined): string {
     const summaries = this.lifecycleStates.map((lifecycleState) => {
       return stringifyLifecycleState(lifecycleState);
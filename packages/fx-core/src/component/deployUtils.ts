@@ -17,5 +17,16 @@ class DeployUtils {
     }
     return err(new UserError(SolutionSource, "UserCancel", "UserCancel"));
   }
+
+  async askForDestroyConsent(ctx: DriverContext): Promise<Result<Void, FxError>> {
+    const msg = getLocalizedString("core.destroy.confirmEnvNotice", process.env.TEAMSFX_ENV);
+    const destroyOption = getLocalizedString("core.option.destroy");
+    const result = await ctx.ui?.showMessage("warn", msg, true, destroyOption);
+    const choice = result?.isOk() ? result.value : undefined;
+    if (choice === destroyOption) {
+      return ok(Void);
+    }
+    return err(new UserError(SolutionSource, "UserCancel", "UserCancel"));
+  }
 }
 export const deployUtils = new DeployUtils();
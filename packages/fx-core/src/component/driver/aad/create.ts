@@ -17,7 +17,7 @@ import { OutputEnvironmentVariableUndefinedError } from "../error/outputEnvironm
 import { DriverContext } from "../interface/commonArgs";
 import { ExecutionResult, StepDriver } from "../interface/stepDriver";
 import { addStartAndEndTelemetry } from "../middleware/addStartAndEndTelemetry";
-import { loadStateFromEnv, mapStateToEnv } from "../util/utils";
+import { clearStateInEnv, loadStateFromEnv, mapStateToEnv } from "../util/utils";
 import { AadAppNameTooLongError } from "./error/aadAppNameTooLongError";
 import { MissingEnvUserError } from "./error/missingEnvError";
 import { CreateAadAppArgs } from "./interface/createAadAppArgs";
@@ -129,43 +129,100 @@ export class CreateAadAppDriver implements StepDriver {
         summaries: summaries,
       };
     } catch (error) {
-      if (error instanceof UserError || error instanceof SystemError) {
-        context.logProvider?.error(
-          getLocalizedString(logMessageKeys.failExecuteDriver, actionName, error.displayMessage)
-        );
-        return {
-          result: err(error),
-          summaries: summaries,
-        };
-      }
+      return this.handleError(error, context, summaries);
+    }
+  }
 
-      if (axios.isAxiosError(error)) {
-        const message = JSON.stringify(error.response!.data);
-        context.logProvider?.error(
-          getLocalizedString(logMessageKeys.failExecuteDriver, actionName, message)
-        );
-        if (error.response!.status >= 400 && error.response!.status < 500) {
-          return {
-            result: err(new HttpClientError(error, actionName, message, helpLink)),
-            summaries: summaries,
-          };
-        } else {
-          return {
-            result: err(new HttpServerError(error, actionName, message)),
-            summaries: summaries,
-          };
+  @hooks([addStartAndEndTelemetry(`${actionName}/undo`, actionName)])
+  public async undo(
+    args: CreateAadAppArgs,
+    context: DriverContext,
+    outputEnvVarNames?: Map<string, string>
+  ): Promise<ExecutionResult> {
+    const summaries: string[] = [];
+    try {
+      if (!outputEnvVarNames) {
+        throw new OutputEnvironmentVariableUndefinedError(actionName);
+      }
+      const aadAppState: CreateAadAppOutput = loadStateFromEnv(outputEnvVarNames);
+      if (aadAppState.objectId || aadAppState.clientId) {
+        const aadAppClient = new AadAppClient(context.m365TokenProvider, context.logProvider);
+        try {
+          if (aadAppState.objectId) {
+            await aadAppClient.deleteAadApp(aadAppState.objectId);
+          } else {
+            await aadAppClient.deleteAadAppByClientId(aadAppState.clientId!);
+          }
+        } catch (error) {
+          // the app has been deleted by someone else
+          if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+            throw error;
+          }
         }
+        const summary = getLocalizedString(
+          logMessageKeys.successDeleteAadApp,
+          aadAppState.objectId ?? aadAppState.clientId
+        );
+        context.logProvider?.info(summary);
+        summaries.push(summary);
+      } else {
+        context.logProvider?.info(
+          getLocalizedString(
+            logMessageKeys.skipDeleteAadApp,
+            outputEnvVarNames.get(OutputKeys.objectId) ?? outputEnvVarNames.get(OutputKeys.clientId)
+          )
+        );
       }
+      return {
+        result: ok(clearStateInEnv(outputEnvVarNames)),
+        summaries: summaries,
+      };
+    } catch (error) {
+      return this.handleError(error, context, summaries);
+    }
+  }
 
-      const message = JSON.stringify(error);
+  private handleError(
+    error: unknown,
+    context: DriverContext,
+    summaries: string[]
+  ): ExecutionResult {
+    if (error instanceof UserError || error instanceof SystemError) {
       context.logProvider?.error(
-        getLocalizedString(logMessageKeys.failExecuteDriver, actionName, message)
+        getLocalizedString(logMessageKeys.failExecuteDriver, actionName, error.displayMessage)
       );
       return {
-        result: err(assembleError(error as Error, actionName)),
+        result: err(error),
         summaries: summaries,
       };
     }
+
+    if (axios.isAxiosError(error)) {
+      const message = JSON.stringify(error.response!.data);
+      context.logProvider?.error(
+        getLocalizedString(logMessageKeys.failExecuteDriver, actionName, message)
+      );
+      if (error.response!.status >= 400 && error.response!.status < 500) {
+        return {
+          result: err(new HttpClientError(error, actionName, message, helpLink)),
+          summaries: summaries,
+        };
+      } else {
+        return {
+          result: err(new HttpServerError(error, actionName, message)),
+          summaries: summaries,
+        };
+      }
+    }
+
+    const message = JSON.stringify(error);
+    context.logProvider?.error(
+      getLocalizedString(logMessageKeys.failExecuteDriver, actionName, message)
+    );
+    return {
+      result: err(assembleError(error as Error, actionName)),
+      summaries: summaries,
+    };
   }
 
   private validateArgs(args: CreateAadAppArgs): void {
@@ -95,6 +95,11 @@ export class AadAppClient {
     await this.axios.delete(`applications/${id}`);
   }
 
+  @hooks([ErrorContextMW({ source: "Graph", component: "AadAppClient" })])
+  public async deleteAadAppByClientId(clientId: string): Promise<void> {
+    await this.axios.delete(`applications(appId='${clientId}')`);
+  }
+
   @hooks([ErrorContextMW({ source: "Graph", component: "AadAppClient" })])
   public async generateClientSecret(objectId: string): Promise<string> {
     const startDate = new Date();
@@ -8,6 +8,8 @@ export const logMessageKeys = {
   startCreateAadApp: "driver.aadApp.log.startCreateAadApp",
   successCreateAadApp: "driver.aadApp.log.successCreateAadApp",
   skipCreateAadApp: "driver.aadApp.log.skipCreateAadApp",
+  successDeleteAadApp: "driver.aadApp.log.successDeleteAadApp",
+  skipDeleteAadApp: "driver.aadApp.log.skipDeleteAadApp",
   startGenerateClientSecret: "driver.aadApp.log.startGenerateClientSecret",
   successGenerateClientSecret: "driver.aadApp.log.successGenerateClientSecret",
   skipGenerateClientSecret: "driver.aadApp.log.skipGenerateClientSecret",
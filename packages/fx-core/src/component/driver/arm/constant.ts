@@ -13,4 +13,6 @@ export enum TemplateType {
 export const TelemetryProperties = {
   jsonTemplateCount: "json-template-count",
   bicepTemplateCount: "bicep-template-count",
+  whatIf: "what-if",
+  whatIfConfirmed: "what-if-confirmed",
 };
@@ -22,4 +22,15 @@ export class ArmDeployDriver implements StepDriver {
     const wrapRes = await wrapRun(wrapContext, () => impl.run(), true);
     return wrapRes as ExecutionResult;
   }
+
+  async undo(args: unknown, ctx: DriverContext): Promise<ExecutionResult> {
+    const wrapContext = new WrapDriverContext(
+      ctx,
+      `${Constants.actionName}/undo`,
+      Constants.actionName
+    );
+    const impl = new ArmDeployImpl(args as deployArgs, wrapContext);
+    const wrapRes = await wrapRun(wrapContext, () => impl.undo(), true);
+    return wrapRes as ExecutionResult;
+  }
 }
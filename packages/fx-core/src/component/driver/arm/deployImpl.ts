@@ -4,37 +4,57 @@
 /**
  * @author xzf0587 <zhaofengxu@microsoft.com>
  */
-import { Deployment, DeploymentMode, ResourceManagementClient } from "@azure/arm-resources";
+import {
+  Deployment,
+  DeploymentMode,
+  ResourceManagementClient,
+  WhatIfChange,
+} from "@azure/arm-resources";
 import { Context, FxError, Result, SystemError, UserError, err, ok } from "@microsoft/teamsfx-api";
 import * as fs from "fs-extra";
 import { ConstantString } from "../../../common/constants";
 import { getLocalizedString } from "../../../common/localizeUtils";
-import { CompileBicepError, DeployArmError } from "../../../error/arm";
+import {
+  CompileBicepError,
+  DeployArmError,
+  InvalidArmParametersError,
+  WhatIfArmError,
+} from "../../../error/arm";
 import { InvalidAzureCredentialError } from "../../../error/azure";
-import { InvalidActionInputError, MissingEnvironmentVariablesError } from "../../../error/common";
+import {
+  InvalidActionInputError,
+  MissingEnvironmentVariablesError,
+  UserCancelError,
+} from "../../../error/common";
 import {
   expandEnvironmentVariable,
   getAbsolutePath,
   getEnvironmentVariables,
 } from "../../utils/common";
 import { cpUtils } from "../../utils/depsChecker/cpUtils";
+import { resourceGroupHelper } from "../../utils/ResourceGroupHelper";
 import { WrapDriverContext } from "../util/wrapUtil";
 import { Constants, TelemetryProperties, TemplateType } from "./constant";
 import { deployArgs, deploymentOutput, templateArgs } from "./interface";
 import { ensureBicepForDriver } from "./util/bicepChecker";
 import { ArmErrorHandle, DeployContext } from "./util/handleError";
+import { validateTemplateParameters } from "./util/parameterValidator";
 import { convertOutputs, getFileExtension, hasBicepTemplate } from "./util/util";
 import { validateArgs } from "./validator";
 import { ErrorContextMW } from "../../../core/globalVars";
 import { hooks } from "@feathersjs/hooks";
 
 const helpLink = "https://aka.ms/teamsfx-actions/arm-deploy";
+// changes of these types are not listed in the what-if summary
+const unchangedTypes = ["NoChange", "Ignore"];
 
 export class ArmDeployImpl {
   args: deployArgs;
   context: WrapDriverContext;
   bicepCommand?: string;
   client?: ResourceManagementClient;
+  // compiled and validated deployments, by deployment name
+  deployments = new Map<string, Deployment>();
 
   constructor(args: deployArgs, context: WrapDriverContext) {
     this.args = args;
@@ -43,7 +63,6 @@ export class ArmDeployImpl {
 
   public async run(): Promise<Map<string, string>> {
     await this.validateArgs();
-    await this.createClient();
     const needBicepCli = hasBicepTemplate(this.args.templates);
 
     if (needBicepCli && this.args.bicepCliVersion) {
@@ -54,6 +73,18 @@ export class ArmDeployImpl {
     } else {
       this.bicepCommand = "bicep";
     }
+    this.setTelemetries();
+    // check the parameters of every template before anything is sent to Azure
+    await this.prepareDeployments();
+    await this.createClient();
+    if (this.args.whatIf) {
+      const changes = await this.previewTemplates();
+      if (!this.args.confirmWhatIf) {
+        this.context.addSummary(getLocalizedString("driver.arm.summary.whatIfOnly"));
+        return new Map<string, string>();
+      }
+      await this.confirmChanges(changes);
+    }
     const deployRes = await this.deployTemplates();
     if (deployRes.isOk()) {
       const outputs = deployRes.value;
@@ -63,6 +94,49 @@ export class ArmDeployImpl {
     }
   }
 
+  /**
+   * Delete the resource group that the templates are deployed to, if it was created by Teams Toolkit.
+   */
+  public async undo(): Promise<Map<string, string>> {
+    const invalidParameters: string[] = [];
+    if (!this.args.subscriptionId || typeof this.args.subscriptionId !== "string") {
+      invalidParameters.push("subscriptionId");
+    }
+    if (!this.args.resourceGroupName || typeof this.args.resourceGroupName !== "string") {
+      invalidParameters.push("resourceGroupName");
+    }
+    if (invalidParameters.length > 0) {
+      throw new InvalidActionInputError(Constants.actionName, invalidParameters, helpLink);
+    }
+    await this.createClient();
+    const deleteRes = await resourceGroupHelper.deleteResourceGroup(
+      this.args.resourceGroupName,
+      this.client!
+    );
+    if (deleteRes.isErr()) {
+      throw deleteRes.error;
+    }
+    const output = new Map<string, string>();
+    if (deleteRes.value) {
+      this.context.addSummary(
+        getLocalizedString("driver.arm.summary.deleteResourceGroup", this.args.resourceGroupName)
+      );
+      // the built-in AZURE_RESOURCE_GROUP_NAME is written by provision when it creates the resource group,
+      // clear it so that the next provision asks for a resource group again
+      if (process.env.AZURE_RESOURCE_GROUP_NAME === this.args.resourceGroupName) {
+        output.set("AZURE_RESOURCE_GROUP_NAME", "");
+      }
+    } else {
+      this.context.addSummary(
+        getLocalizedString(
+          "driver.arm.summary.deleteResourceGroupSkipped",
+          this.args.resourceGroupName
+        )
+      );
+    }
+    return output;
+  }
+
   private async validateArgs(): Promise<void> {
     const invalidParameters = await validateArgs(this.args);
 
@@ -88,7 +162,6 @@ export class ArmDeployImpl {
 
   async deployTemplates(): Promise<Result<deploymentOutput[], FxError>> {
     const outputs: deploymentOutput[] = [];
-    this.setTelemetries();
     await Promise.all(
       this.args.templates.map(async (template) => {
         this.context.logProvider.debug(
@@ -124,15 +197,7 @@ export class ArmDeployImpl {
       deploymentName: templateArg.deploymentName,
     };
     try {
-      const parameters = await this.getDeployParameters(templateArg.parameters);
-      const template = await this.getDeployTemplate(templateArg.path);
-      const deploymentParameters: Deployment = {
-        properties: {
-          parameters: parameters ? parameters.parameters : null,
-          template: template as any,
-          mode: "Incremental" as DeploymentMode,
-        },
-      };
+      const deploymentParameters = await this.getDeployment(templateArg);
       const res = await this.executeDeployment(templateArg, deploymentParameters, deployCtx);
       return res;
     } catch (error: any) {
@@ -141,6 +206,107 @@ export class ArmDeployImpl {
     }
   }
 
+  /**
+   * Preview the changes of all templates with the what-if operation of ARM and list them in the summary.
+   * @returns the changed resources, by deployment name
+   */
+  async previewTemplates(): Promise<Map<string, WhatIfChange[]>> {
+    const changes = new Map<string, WhatIfChange[]>();
+    for (const template of this.args.templates) {
+      this.context.logProvider.debug(
+        `Preview template ${template.deploymentName} from ${template.path} in resource group ${this.args.resourceGroupName}`
+      );
+      const templateChanges = await this.previewTemplate(template);
+      changes.set(template.deploymentName, templateChanges);
+      const count = (type: string) =>
+        templateChanges.filter((change) => change.changeType === type).length.toString();
+      this.context.addSummary(
+        getLocalizedString(
+          "driver.arm.summary.whatIf",
+          template.deploymentName,
+          count("Create"),
+          count("Modify"),
+          count("Delete"),
+          this.args.resourceGroupName
+        )
+      );
+      for (const change of templateChanges) {
+        this.context.addSummary(formatChange(change));
+      }
+    }
+    return changes;
+  }
+
+  async previewTemplate(templateArg: templateArgs): Promise<WhatIfChange[]> {
+    try {
+      const deployment = await this.getDeployment(templateArg);
+      const result = await this.client!.deployments.beginWhatIfAndWait(
+        this.args.resourceGroupName,
+        templateArg.deploymentName,
+        deployment
+      );
+      if (result.error) {
+        throw new Error(result.error.message ?? JSON.stringify(result.error));
+      }
+      return (result.changes ?? []).filter((change) => !unchangedTypes.includes(change.changeType));
+    } catch (error: any) {
+      if (error instanceof UserError || error instanceof SystemError) throw error;
+      throw new WhatIfArmError(templateArg.deploymentName, this.args.resourceGroupName, error);
+    }
+  }
+
+  /**
+   * Ask the user to confirm the previewed changes before deploying the templates.
+   */
+  async confirmChanges(changes: Map<string, WhatIfChange[]>): Promise<void> {
+    const lines: string[] = [];
+    for (const templateChanges of changes.values()) {
+      lines.push(...templateChanges.map(formatChange));
+    }
+    const message = getLocalizedString(
+      "driver.arm.whatIf.confirm",
+      this.args.resourceGroupName,
+      lines.join("\n")
+    );
+    const confirm = getLocalizedString("core.option.confirm");
+    const res = await this.context.ui?.showMessage("warn", message, true, confirm);
+    const confirmed = !!res && res.isOk() && res.value === confirm;
+    this.context.addTelemetryProperties({
+      [TelemetryProperties.whatIfConfirmed]: confirmed.toString(),
+    });
+    if (!confirmed) {
+      throw new UserCancelError(Constants.actionName);
+    }
+  }
+
+  async prepareDeployments(): Promise<void> {
+    for (const template of this.args.templates) {
+      await this.getDeployment(template);
+    }
+  }
+
+  async getDeployment(templateArg: templateArgs): Promise<Deployment> {
+    const prepared = this.deployments.get(templateArg.deploymentName);
+    if (prepared) {
+      return prepared;
+    }
+    const parameters = await this.getDeployParameters(templateArg.parameters);
+    const template = await this.getDeployTemplate(templateArg.path);
+    const issues = validateTemplateParameters(template, parameters);
+    if (issues.length > 0) {
+      throw new InvalidArmParametersError(templateArg.path, issues);
+    }
+    const deployment: Deployment = {
+      properties: {
+        parameters: parameters ? parameters.parameters : null,
+        template: template as any,
+        mode: "Incremental" as DeploymentMode,
+      },
+    };
+    this.deployments.set(templateArg.deploymentName, deployment);
+    return deployment;
+  }
+
   async executeDeployment(
     templateArg: templateArgs,
     deploymentParameters: Deployment,
@@ -227,6 +393,14 @@ export class ArmDeployImpl {
     this.context.addTelemetryProperties({
       [TelemetryProperties.bicepTemplateCount]: bicepCount.toString(),
       [TelemetryProperties.jsonTemplateCount]: jsonCount.toString(),
+      [TelemetryProperties.whatIf]: (!!this.args.whatIf).toString(),
     });
   }
 }
+
+// e.g. "Create: Microsoft.Web/sites/bot-app"
+function formatChange(change: WhatIfChange): string {
+  const index = change.resourceId.lastIndexOf("/providers/");
+  const resource = index >= 0 ? change.resourceId.substring(index + 11) : change.resourceId;
+  return getLocalizedString("driver.arm.summary.whatIfChange", change.changeType, resource);
+}
@@ -6,6 +6,10 @@ export interface deployArgs {
   resourceGroupName: string;
   templates: templateArgs[];
   bicepCliVersion?: string;
+  // preview the changes of the templates without deploying them
+  whatIf?: boolean;
+  // used with whatIf, deploy the templates after the user confirms the preview
+  confirmWhatIf?: boolean;
 }
 
 export interface templateArgs {
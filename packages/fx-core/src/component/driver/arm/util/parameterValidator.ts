@@ -0,0 +1,163 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { isEqual } from "lodash";
+
+/**
+ * A parameter declared in the `parameters` block of an ARM template.
+ * Refer to https://learn.microsoft.com/azure/azure-resource-manager/templates/parameters
+ */
+interface TemplateParameter {
+  type: string;
+  defaultValue?: unknown;
+  allowedValues?: unknown[];
+  minValue?: number;
+  maxValue?: number;
+  minLength?: number;
+  maxLength?: number;
+  nullable?: boolean;
+}
+
+/**
+ * A mismatch between the template and the parameters file, with the key of its message in package.nls.json
+ */
+export interface TemplateParameterIssue {
+  key: string;
+  args: string[];
+}
+
+const issueKey = "error.arm.InvalidArmParametersError.";
+
+function issue(name: string, ...args: string[]): TemplateParameterIssue {
+  return { key: issueKey + name, args };
+}
+
+/**
+ * Compare the parameters declared in the compiled ARM template with the values in the resolved parameters file,
+ * so that missing or mistyped parameters are reported before the deployment is sent to Azure.
+ * @param template the ARM template in JSON
+ * @param parameters the parameters file in JSON, or null if the template has no parameters file
+ * @returns every mismatch found, empty if the parameters are valid
+ */
+export function validateTemplateParameters(
+  template: any,
+  parameters: any
+): TemplateParameterIssue[] {
+  const declared = (template?.parameters ?? {}) as Record<string, TemplateParameter>;
+  const provided = (parameters?.parameters ?? {}) as Record<string, any>;
+  const issues: TemplateParameterIssue[] = [];
+
+  // parameter names are case insensitive in ARM templates
+  const declaredNames = new Map<string, string>();
+  for (const name of Object.keys(declared)) {
+    declaredNames.set(name.toLowerCase(), name);
+  }
+  const providedNames = new Map<string, string>();
+  for (const name of Object.keys(provided)) {
+    const declaredName = declaredNames.get(name.toLowerCase());
+    if (declaredName === undefined) {
+      issues.push(issue("notDeclared", name));
+    } else {
+      providedNames.set(declaredName, name);
+    }
+  }
+
+  for (const [name, definition] of Object.entries(declared)) {
+    const providedName = providedNames.get(name);
+    if (providedName === undefined) {
+      if (definition.defaultValue === undefined && !definition.nullable) {
+        issues.push(issue("required", name));
+      }
+      continue;
+    }
+    const parameter = provided[providedName];
+    // the value of a Key Vault reference is only known by Azure
+    if (parameter?.reference !== undefined) {
+      continue;
+    }
+    if (parameter === null || typeof parameter !== "object" || !("value" in parameter)) {
+      issues.push(issue("noValue", name));
+      continue;
+    }
+    if (parameter.value === null && definition.nullable) {
+      continue;
+    }
+    issues.push(...validateValue(name, definition, parameter.value));
+  }
+  return issues;
+}
+
+function validateValue(
+  name: string,
+  definition: TemplateParameter,
+  value: unknown
+): TemplateParameterIssue[] {
+  const type = (definition.type ?? "").toLowerCase();
+  if (!matchType(type, value)) {
+    return [issue("type", name, definition.type, describe(value))];
+  }
+
+  const issues: TemplateParameterIssue[] = [];
+  if (Array.isArray(definition.allowedValues)) {
+    // for an array parameter, each item should be one of the allowed values
+    const values = type === "array" ? (value as unknown[]) : [value];
+    for (const item of values) {
+      if (!definition.allowedValues.some((allowed) => isEqual(allowed, item))) {
+        if (secureTypes.includes(type)) {
+          // the value of a secure parameter is not printed
+          issues.push(issue("notAllowedSecure", name));
+        } else {
+          const allowed = definition.allowedValues.map((allowed) => JSON.stringify(allowed));
+          issues.push(issue("notAllowed", name, JSON.stringify(item), allowed.join(", ")));
+        }
+      }
+    }
+  }
+  if (typeof value === "number") {
+    if (definition.minValue !== undefined && value < definition.minValue) {
+      issues.push(issue("minValue", name, definition.minValue.toString()));
+    }
+    if (definition.maxValue !== undefined && value > definition.maxValue) {
+      issues.push(issue("maxValue", name, definition.maxValue.toString()));
+    }
+  }
+  if (typeof value === "string" || Array.isArray(value)) {
+    if (definition.minLength !== undefined && value.length < definition.minLength) {
+      issues.push(issue("minLength", name, definition.minLength.toString()));
+    }
+    if (definition.maxLength !== undefined && value.length > definition.maxLength) {
+      issues.push(issue("maxLength", name, definition.maxLength.toString()));
+    }
+  }
+  return issues;
+}
+
+const secureTypes = ["securestring", "secureobject"];
+
+function matchType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string":
+    case "securestring":
+      return typeof value === "string";
+    case "int":
+      return Number.isInteger(value);
+    case "bool":
+      return typeof value === "boolean";
+    case "object":
+    case "secureobject":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    default:
+      // leave unknown types to Azure
+      return true;
+  }
+}
+
+// the value itself is not printed because it may be a secret
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
@@ -21,7 +21,7 @@ import { OutputEnvironmentVariableUndefinedError } from "../error/outputEnvironm
 import { DriverContext } from "../interface/commonArgs";
 import { ExecutionResult, StepDriver } from "../interface/stepDriver";
 import { addStartAndEndTelemetry } from "../middleware/addStartAndEndTelemetry";
-import { loadStateFromEnv, mapStateToEnv } from "../util/utils";
+import { clearStateInEnv, loadStateFromEnv, mapStateToEnv } from "../util/utils";
 import { UnexpectedEmptyBotPasswordError } from "./error/unexpectedEmptyBotPasswordError";
 import { CreateBotAadAppArgs } from "./interface/createBotAadAppArgs";
 import { CreateBotAadAppOutput } from "./interface/createBotAadAppOutput";
@@ -135,35 +135,100 @@ export class CreateBotAadAppDriver implements StepDriver {
         summaries: [summary],
       };
     } catch (error: any) {
-      if (error instanceof UserError || error instanceof SystemError) {
-        context.logProvider?.error(
-          getLocalizedString(logMessageKeys.failExecuteDriver, actionName, error.displayMessage)
-        );
-        throw error;
-      }
+      throw this.toFxError(error, context);
+    }
+  }
 
-      if (axios.isAxiosError(error)) {
-        const message = JSON.stringify(error.response?.data);
-        context.logProvider?.error(
-          getLocalizedString(logMessageKeys.failExecuteDriver, actionName, message)
-        );
-        if (error.response!.status >= 400 && error.response!.status < 500) {
-          throw new HttpClientError(error, actionName, message, helpLink);
-        } else {
-          throw new HttpServerError(error, actionName, message);
+  @hooks([addStartAndEndTelemetry(`${actionName}/undo`, actionName)])
+  public async undo(
+    args: CreateBotAadAppArgs,
+    ctx: DriverContext,
+    outputEnvVarNames?: Map<string, string>
+  ): Promise<ExecutionResult> {
+    let summaries: string[] = [];
+    const outputResult = await wrapRun(async () => {
+      const result = await this.undoHandler(ctx, outputEnvVarNames);
+      summaries = result.summaries;
+      return result.output;
+    }, actionName);
+    return {
+      result: outputResult,
+      summaries,
+    };
+  }
+
+  private async undoHandler(
+    context: DriverContext,
+    outputEnvVarNames?: Map<string, string>
+  ): Promise<{
+    output: Map<string, string>;
+    summaries: string[];
+  }> {
+    try {
+      if (!outputEnvVarNames) {
+        throw new OutputEnvironmentVariableUndefinedError(actionName);
+      }
+      const botAadAppState: CreateBotAadAppOutput = loadStateFromEnv(outputEnvVarNames);
+      const summaries: string[] = [];
+      if (botAadAppState.botId) {
+        const aadAppClient = new AadAppClient(context.m365TokenProvider, context.logProvider);
+        try {
+          await aadAppClient.deleteAadAppByClientId(botAadAppState.botId);
+        } catch (error) {
+          // the app has been deleted by someone else
+          if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+            throw error;
+          }
         }
+        const summary = getLocalizedString(
+          logMessageKeys.successDeleteBotAad,
+          botAadAppState.botId
+        );
+        context.logProvider?.info(summary);
+        summaries.push(summary);
+      } else {
+        context.logProvider?.info(
+          getLocalizedString(logMessageKeys.skipDeleteBotAad, outputEnvVarNames.get("botId"))
+        );
       }
+      return {
+        output: clearStateInEnv(outputEnvVarNames),
+        summaries,
+      };
+    } catch (error: any) {
+      throw this.toFxError(error, context);
+    }
+  }
 
-      if (error.name === "AadCreateAppError") {
-        throw assembleError(error, actionName);
-      }
+  private toFxError(error: any, context: DriverContext): FxError {
+    if (error instanceof UserError || error instanceof SystemError) {
+      context.logProvider?.error(
+        getLocalizedString(logMessageKeys.failExecuteDriver, actionName, error.displayMessage)
+      );
+      return error;
+    }
 
-      const message = JSON.stringify(error);
+    if (axios.isAxiosError(error)) {
+      const message = JSON.stringify(error.response?.data);
       context.logProvider?.error(
         getLocalizedString(logMessageKeys.failExecuteDriver, actionName, message)
       );
-      throw assembleError(error as Error, actionName);
+      if (error.response!.status >= 400 && error.response!.status < 500) {
+        return new HttpClientError(error, actionName, message, helpLink);
+      } else {
+        return new HttpServerError(error, actionName, message);
+      }
     }
+
+    if (error.name === "AadCreateAppError") {
+      return assembleError(error, actionName);
+    }
+
+    const message = JSON.stringify(error);
+    context.logProvider?.error(
+      getLocalizedString(logMessageKeys.failExecuteDriver, actionName, message)
+    );
+    return assembleError(error as Error, actionName);
   }
 
   public validateArgs(args: CreateBotAadAppArgs): void {
@@ -7,6 +7,8 @@ export const logMessageKeys = {
   failExecuteDriver: "driver.botAadApp.log.failExecuteDriver",
   successCreateBotAad: "driver.botAadApp.log.successCreateBotAad",
   useExistingBotAad: "driver.botAadApp.log.useExistingBotAad",
+  successDeleteBotAad: "driver.botAadApp.log.successDeleteBotAad",
+  skipDeleteBotAad: "driver.botAadApp.log.skipDeleteBotAad",
   startCreateBotAadApp: "botRegistration.log.startCreateBotAadApp",
   successCreateBotAadApp: "botRegistration.log.successCreateBotAadApp",
   skipCreateBotAadApp: "botRegistration.log.skipCreateBotAadApp",
@@ -8,11 +8,13 @@ import { FxError, Result, SystemError, UserError } from "@microsoft/teamsfx-api"
 
 import isUUID from "validator/lib/isUUID";
 import { getLocalizedString } from "../../../common/localizeUtils";
+import { AppStudioScopes } from "../../../common/tools";
 import { InvalidActionInputError, assembleError } from "../../../error/common";
 import {
   BotChannelType,
   IBotRegistration,
 } from "../../resource/botService/appStudio/interfaces/IBotRegistration";
+import { AppStudioClient } from "../../resource/botService/appStudio/appStudioClient";
 import { createOrUpdateBotRegistration } from "../../resource/botService/botRegistration/botFrameworkRegistration";
 import { wrapRun } from "../../utils/common";
 import { logMessageKeys } from "../aad/utility/constants";
@@ -119,19 +121,70 @@ export class CreateOrUpdateBotFrameworkBotDriver implements StepDriver {
         ],
       };
     } catch (error) {
-      if (error instanceof UserError || error instanceof SystemError) {
-        context.logProvider?.error(
-          getLocalizedString(logMessageKeys.failExecuteDriver, actionName, error.displayMessage)
-        );
-        throw error;
+      throw this.toFxError(error, context);
+    }
+  }
+
+  @hooks([addStartAndEndTelemetry(`${actionName}/undo`, actionName)])
+  public async undo(
+    args: CreateOrUpdateBotFrameworkBotArgs,
+    ctx: DriverContext
+  ): Promise<ExecutionResult> {
+    let summaries: string[] = [];
+    const outputResult = await wrapRun(async () => {
+      const result = await this.undoHandler(args, ctx);
+      summaries = result.summaries;
+      return result.output;
+    }, actionName);
+    return {
+      result: outputResult,
+      summaries,
+    };
+  }
+
+  private async undoHandler(
+    args: CreateOrUpdateBotFrameworkBotArgs,
+    context: DriverContext
+  ): Promise<{
+    output: Map<string, string>;
+    summaries: string[];
+  }> {
+    try {
+      if (!args.botId || typeof args.botId !== "string") {
+        throw new InvalidActionInputError(actionName, ["botId"], helpLink);
+      }
+      if (!isUUID(args.botId)) {
+        throw new InvalidBotIdUserError(actionName, args.botId, helpLink);
       }
+      const appStudioTokenRes = await context.m365TokenProvider.getAccessToken({
+        scopes: AppStudioScopes,
+      });
+      if (appStudioTokenRes.isErr()) {
+        throw appStudioTokenRes.error;
+      }
+      await AppStudioClient.deleteBot(appStudioTokenRes.value, args.botId);
+      return {
+        output: new Map<string, string>(),
+        summaries: [getLocalizedString("driver.botFramework.summary.delete", args.botId)],
+      };
+    } catch (error) {
+      throw this.toFxError(error, context);
+    }
+  }
 
-      const message = JSON.stringify(error);
+  private toFxError(error: unknown, context: DriverContext): FxError {
+    if (error instanceof UserError || error instanceof SystemError) {
       context.logProvider?.error(
-        getLocalizedString(logMessageKeys.failExecuteDriver, actionName, message)
+        getLocalizedString(logMessageKeys.failExecuteDriver, actionName, error.displayMessage)
       );
-      throw assembleError(error as Error, actionName);
+      return error;
     }
+
+    const message = JSON.stringify(error);
+    context.logProvider?.error(
+      getLocalizedString(logMessageKeys.failExecuteDriver, actionName, message)
+    );
+    return assembleError(error as Error, actionName);
   }
 
   private validateArgs(args: CreateOrUpdateBotFrameworkBotArgs): void {
@@ -0,0 +1,303 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { TokenCredential } from "@azure/identity";
+import { hooks } from "@feathersjs/hooks";
+import { default as axios, AxiosRequestConfig } from "axios";
+import * as path from "path";
+import { Service } from "typedi";
+import { getLocalizedString } from "../../../../common/localizeUtils";
+import { waitSeconds } from "../../../../common/tools";
+import { ErrorContextMW } from "../../../../core/globalVars";
+import {
+  BuildContainerImageError,
+  ContainerAppRevisionUnhealthyError,
+  ContainerAppUpdateError,
+} from "../../../../error";
+import { TelemetryConstant } from "../../../constant/commonConstant";
+import { DeployConstant } from "../../../constant/deployConstant";
+import { ProgressMessages } from "../../../messages";
+import {
+  getAzureAccountCredential,
+  parseAzureResourceId,
+} from "../../../utils/azureResourceOperation";
+import {
+  asBoolean,
+  asFactory,
+  asOptional,
+  asString,
+  checkMissingArgs,
+} from "../../../utils/common";
+import { cpUtils } from "../../../utils/depsChecker/cpUtils";
+import { ContainerAppDeployArgs } from "../../interface/buildAndDeployArgs";
+import { AzureResourceInfo, DriverContext } from "../../interface/commonArgs";
+import { ExecutionResult, StepDriver } from "../../interface/stepDriver";
+import { addStartAndEndTelemetry } from "../../middleware/addStartAndEndTelemetry";
+import { BaseDeployImpl } from "./impl/baseDeployImpl";
+
+const ACTION_NAME = "azureContainerApps/deploy";
+
+@Service(ACTION_NAME)
+export class AzureContainerAppsDeployDriver implements StepDriver {
+  readonly description: string = getLocalizedString(
+    "driver.deploy.deployToAzureContainerAppsDescription"
+  );
+
+  @hooks([addStartAndEndTelemetry(ACTION_NAME, TelemetryConstant.DEPLOY_COMPONENT_NAME)])
+  execute(args: unknown, ctx: DriverContext): Promise<ExecutionResult> {
+    const impl = new AzureContainerAppsDeployDriverImpl(args, ctx);
+    return impl.run();
+  }
+}
+
+/**
+ * deploy a container image to Azure Container Apps by updating the image of the container app,
+ * which creates a new revision, and then wait for the revision to be healthy
+ */
+export class AzureContainerAppsDeployDriverImpl extends BaseDeployImpl {
+  public static readonly AXIOS_INSTANCE = axios.create();
+
+  protected summaries: () => string[] = () => [
+    getLocalizedString(
+      "driver.deploy.azureContainerAppsDeployDetailSummary",
+      this.image,
+      this.revision
+    ),
+  ];
+  protected summaryPrepare: () => string[] = () => [
+    getLocalizedString("driver.deploy.notice.containerImageReady", this.image),
+  ];
+
+  pattern =
+    /\/subscriptions\/([^\/]*)\/resourceGroups\/([^\/]*)\/providers\/Microsoft.App\/containerApps\/([^\/]*)/i;
+
+  protected helpLink = "https://aka.ms/teamsfx-actions/azure-container-apps-deploy";
+
+  private image = "";
+  private revision = "";
+
+  private static asContainerAppDeployArgs = asFactory<ContainerAppDeployArgs>({
+    workingDirectory: asOptional(asString),
+    resourceId: asString,
+    image: asOptional(asString),
+    registry: asOptional(asString),
+    imageName: asOptional(asString),
+    tag: asOptional(asString),
+    dockerfile: asOptional(asString),
+    containerName: asOptional(asString),
+    dryRun: asOptional(asBoolean),
+  });
+
+  /**
+   * the arguments have no artifact folder, so they are parsed here instead of in BaseDeployImpl.run
+   */
+  async run(): Promise<ExecutionResult> {
+    this.context.logProvider.debug("start deploy process");
+    this.updateProgressbar();
+    return await this.wrapErrorHandler(async () => {
+      const args = AzureContainerAppsDeployDriverImpl.asContainerAppDeployArgs(
+        this.args,
+        this.helpLink
+      );
+      this.workingDirectory = path.resolve(this.workingDirectory, args.workingDirectory ?? "./");
+      this.dryRun = args.dryRun ?? false;
+      return await this.deploy(args);
+    });
+  }
+
+  async deploy(args: ContainerAppDeployArgs): Promise<boolean> {
+    const resourceId = checkMissingArgs("resourceId", args.resourceId);
+    const azureResource = parseAzureResourceId(resourceId, this.pattern);
+    this.image = args.image ?? (await this.buildImage(args));
+    if (this.dryRun) {
+      return false;
+    }
+    const azureCredential = await getAzureAccountCredential(this.context.azureAccountProvider);
+    const config = await this.createRequestConfig(azureResource, azureCredential);
+    this.revision = await this.updateImage(azureResource, args.containerName, config);
+    await this.waitForHealthyRevision(azureResource, this.revision, config);
+    return true;
+  }
+
+  /**
+   * build the image with docker and push it to the registry, the image is only built in dry run
+   * @returns the image reference
+   */
+  async buildImage(args: ContainerAppDeployArgs): Promise<string> {
+    const registry = checkMissingArgs("registry", args.registry);
+    const imageName = checkMissingArgs("imageName", args.imageName);
+    const tag = args.tag ?? new Date().toISOString().replace(/\D/g, "").substring(0, 14);
+    const image = `${registry}/${imageName}:${tag}`;
+    try {
+      this.context.logProvider.debug(`Building container image ${image}`);
+      await cpUtils.executeCommand(
+        this.workingDirectory,
+        this.context.logProvider,
+        { shell: false },
+        "docker",
+        ...["build", "-t", image, "-f", args.dockerfile ?? "Dockerfile", "."]
+      );
+      if (!this.dryRun) {
+        this.context.logProvider.debug(`Pushing container image ${image}`);
+        await cpUtils.executeCommand(
+          this.workingDirectory,
+          this.context.logProvider,
+          { shell: false },
+          "docker",
+          ...["push", image]
+        );
+      }
+    } catch (e) {
+      throw new BuildContainerImageError(image, e as Error, this.helpLink);
+    }
+    return image;
+  }
+
+  /**
+   * update the image of the container, and wait until the container app is provisioned
+   * @returns the name of the latest revision
+   */
+  @hooks([ErrorContextMW({ source: "Azure", component: "AzureContainerAppsDeployDriverImpl" })])
+  async updateImage(
+    azureResource: AzureResourceInfo,
+    containerName: string | undefined,
+    config: AxiosRequestConfig
+  ): Promise<string> {
+    const url = this.getContainerAppUrl(azureResource);
+    try {
+      const app = (await AzureContainerAppsDeployDriverImpl.AXIOS_INSTANCE.get(url, config)).data;
+      const template = app?.properties?.template ?? {};
+      const containers = (template.containers ?? []) as { name: string; image: string }[];
+      const container = containerName
+        ? containers.find((c) => c.name === containerName)
+        : containers[0];
+      if (!container) {
+        throw new Error(`container '${containerName ?? ""}' is not found in the container app`);
+      }
+      container.image = this.image;
+      this.context.logProvider.debug(
+        `Update image of container ${container.name} in ${azureResource.instanceId} to ${this.image}`
+      );
+      // the containers are replaced as a whole, so the template is sent back with only the image changed
+      await AzureContainerAppsDeployDriverImpl.AXIOS_INSTANCE.patch(
+        url,
+        { properties: { template } },
+        config
+      );
+      // the app may still report the previous revision as succeeded right after the update,
+      // so only a new revision that runs the image counts
+      const previousRevision = app?.properties?.latestRevisionName as string | undefined;
+      for (let i = 0; i < DeployConstant.CONTAINER_APP_CHECK_RETRY_TIMES; ++i) {
+        await waitSeconds(DeployConstant.BACKOFF_TIME_S);
+        const res = await AzureContainerAppsDeployDriverImpl.AXIOS_INSTANCE.get(url, config);
+        const state = res.data?.properties?.provisioningState as string | undefined;
+        const revision = res.data?.properties?.latestRevisionName as string | undefined;
+        if (state === "Failed" || state === "Canceled") {
+          throw new Error(`provisioning state of the container app is ${state}`);
+        } else if (
+          state === "Succeeded" &&
+          revision &&
+          revision !== previousRevision &&
+          (await this.isRevisionRunningImage(azureResource, revision, config))
+        ) {
+          return revision;
+        }
+      }
+      throw new Error("provisioning of the container app timed out");
+    } catch (e) {
+      const message = axios.isAxiosError(e)
+        ? `status code: ${e.response?.status ?? "NA"}, message: ${JSON.stringify(e.response?.data)}`
+        : (e as Error).message;
+      throw new ContainerAppUpdateError(
+        azureResource.instanceId,
+        new Error(message),
+        this.helpLink
+      );
+    }
+  }
+
+  private async isRevisionRunningImage(
+    azureResource: AzureResourceInfo,
+    revision: string,
+    config: AxiosRequestConfig
+  ): Promise<boolean> {
+    const url = this.getContainerAppUrl(azureResource, revision);
+    const res = await AzureContainerAppsDeployDriverImpl.AXIOS_INSTANCE.get(url, config);
+    const containers = (res.data?.properties?.template?.containers ?? []) as { image: string }[];
+    return containers.some((c) => c.image === this.image);
+  }
+
+  /**
+   * poll the revision until it is healthy. A revision scaled to zero has no health state and is treated as healthy.
+   */
+  async waitForHealthyRevision(
+    azureResource: AzureResourceInfo,
+    revision: string,
+    config: AxiosRequestConfig
+  ): Promise<void> {
+    const url = this.getContainerAppUrl(azureResource, revision);
+    let state = "Unknown";
+    for (let i = 0; i < DeployConstant.CONTAINER_APP_CHECK_RETRY_TIMES; ++i) {
+      if (i > 0) {
+        await waitSeconds(DeployConstant.BACKOFF_TIME_S);
+      }
+      let properties: any;
+      try {
+        properties = (await AzureContainerAppsDeployDriverImpl.AXIOS_INSTANCE.get(url, config)).data
+          ?.properties;
+      } catch (e) {
+        throw new ContainerAppUpdateError(azureResource.instanceId, e as Error, this.helpLink);
+      }
+      const healthState = properties?.healthState as string | undefined;
+      const provisioningState = properties?.provisioningState as string | undefined;
+      state = `${provisioningState ?? "Unknown"}, ${healthState ?? "Unknown"}`;
+      this.context.logProvider.verbose(`State of revision ${revision}: ${state}`);
+      if (healthState === "Healthy") {
+        return;
+      }
+      if (
+        provisioningState === "Provisioned" &&
+        healthState === "None" &&
+        (properties?.replicas ?? 0) === 0
+      ) {
+        return;
+      }
+      if (provisioningState === "Failed" || healthState === "Unhealthy") {
+        break;
+      }
+    }
+    throw new ContainerAppRevisionUnhealthyError(
+      azureResource.instanceId,
+      revision,
+      state,
+      this.helpLink
+    );
+  }
+
+  private async createRequestConfig(
+    azureResource: AzureResourceInfo,
+    azureCredential: TokenCredential
+  ): Promise<AxiosRequestConfig> {
+    try {
+      const token = await azureCredential.getToken(`${DeployConstant.ARM_ENDPOINT}/.default`);
+      return { headers: { Authorization: `Bearer ${token?.token ?? ""}` } };
+    } catch (e) {
+      throw new ContainerAppUpdateError(azureResource.instanceId, e as Error, this.helpLink);
+    }
+  }
+
+  private getContainerAppUrl(azureResource: AzureResourceInfo, revision?: string): string {
+    const revisionPath = revision ? `/revisions/${revision}` : "";
+    return (
+      `${DeployConstant.ARM_ENDPOINT}/subscriptions/${azureResource.subscriptionId}` +
+      `/resourceGroups/${azureResource.resourceGroupName}/providers/Microsoft.App/containerApps/` +
+      `${azureResource.instanceId}${revisionPath}?api-version=${DeployConstant.CONTAINER_APPS_API_VERSION}`
+    );
+  }
+
+  updateProgressbar() {
+    this.progressBar?.next(
+      ProgressMessages.deployToAzure(this.workingDirectory, "Azure Container Apps")
+    );
+  }
+}
@@ -21,11 +21,12 @@ import { default as axios } from "axios";
 import { HttpStatusCode } from "../../../../constant/commonConstant";
 import { getLocalizedString } from "../../../../../common/localizeUtils";
 import path from "path";
-import { zipFolderAsync } from "../../../../utils/fileOperation";
+import { hashFolderAsync, zipFolderAsync } from "../../../../utils/fileOperation";
 import { DeployZipPackageError } from "../../../../../error/deploy";
 import { ErrorContextMW } from "../../../../../core/globalVars";
 import { hooks } from "@feathersjs/hooks";
 import { ReadStream } from "fs-extra";
+import { deploymentManifest, FileHashes, ManifestDiff } from "./deploymentManifest";
 
 export class AzureZipDeployImpl extends AzureDeployImpl {
   pattern =
@@ -34,6 +35,9 @@ export class AzureZipDeployImpl extends AzureDeployImpl {
   protected helpLink;
   protected summaries: () => string[];
   protected summaryPrepare: () => string[];
+  // e.g. whether the deployment is skipped, which files have changed and whether a slot is swapped
+  protected detailSummaries: string[] = [];
+  protected deploySkipped = false;
 
   constructor(
     args: unknown,
@@ -47,7 +51,12 @@ export class AzureZipDeployImpl extends AzureDeployImpl {
     this.helpLink = helpLink;
     this.serviceName = serviceName;
     this.summaries = () =>
-      summaries.map((summary) => getLocalizedString(summary, this.distDirectory));
+      this.deploySkipped
+        ? this.detailSummaries
+        : [
+            ...summaries.map((summary) => getLocalizedString(summary, this.distDirectory)),
+            ...this.detailSummaries,
+          ];
     this.summaryPrepare = () =>
       summaryPrepare.map((summary) => getLocalizedString(summary, this.zipFilePath));
   }
@@ -57,8 +66,38 @@ export class AzureZipDeployImpl extends AzureDeployImpl {
     azureResource: AzureResourceInfo,
     azureCredential: TokenCredential
   ): Promise<void> {
+    // swapping moves the deployed files between slots, so only deployments to production are incremental
+    const files = args.slot
+      ? undefined
+      : await hashFolderAsync(this.distDirectory, await this.handleIgnore(args, this.context));
+    const previous = files && (await deploymentManifest.read(this.workingDirectory, azureResource));
+    if (files && previous) {
+      const diff = deploymentManifest.diff(previous, files);
+      if (deploymentManifest.isEmpty(diff) && args.incremental !== false) {
+        this.deploySkipped = true;
+        this.detailSummaries = [
+          getLocalizedString(
+            "driver.deploy.notice.deployUnchanged",
+            this.distDirectory,
+            azureResource.instanceId,
+            deploymentManifest.getManifestPath(this.workingDirectory)
+          ),
+        ];
+        return;
+      }
+      this.detailSummaries = this.changedFilesSummary(diff);
+    }
     const cost = await this.zipDeploy(args, azureResource, azureCredential);
-    await this.restartFunctionApp(azureResource);
+    if (args.slot) {
+      if (args.swap !== false) {
+        await this.swapAndCheck(args, azureResource, azureCredential, args.slot);
+        // production runs the files of the slot now, which are not tracked
+        await this.saveManifest(azureResource, undefined);
+      }
+    } else {
+      await this.restartFunctionApp(azureResource);
+      await this.saveManifest(azureResource, files);
+    }
     if (cost > DeployConstant.DEPLOY_OVER_TIME) {
       this.context.logProvider?.info(
         getLocalizedString(
@@ -69,6 +108,81 @@ export class AzureZipDeployImpl extends AzureDeployImpl {
     }
   }
 
+  private changedFilesSummary(diff: ManifestDiff): string[] {
+    const changes = [
+      ...diff.added.map((file) => `+${file}`),
+      ...diff.modified.map((file) => `~${file}`),
+      ...diff.removed.map((file) => `-${file}`),
+    ];
+    this.context.logProvider.debug(
+      getLocalizedString("driver.deploy.notice.deployChangedFilesDetail", changes.join(", "))
+    );
+    const limit = DeployConstant.DEPLOY_CHANGED_FILES_IN_SUMMARY;
+    const listed = changes.slice(0, limit).join(", ");
+    return [
+      getLocalizedString(
+        "driver.deploy.notice.deployChangedFiles",
+        changes.length.toString(),
+        changes.length > limit ? `${listed}, ...` : listed
+      ),
+    ];
+  }
+
+  /**
+   * swap the slot with production, and swap it back if the health check of production fails
+   */
+  private async swapAndCheck(
+    args: DeployStepArgs,
+    azureResource: AzureResourceInfo,
+    azureCredential: TokenCredential,
+    slot: string
+  ): Promise<void> {
+    await this.swapSlot(azureResource, slot, azureCredential);
+    if (args.healthCheckPath) {
+      try {
+        await this.checkHealth(this.getHealthCheckUrl(azureResource, args.healthCheckPath));
+      } catch (e) {
+        this.logger.warning(getLocalizedString("driver.deploy.notice.deploySwappedBack", slot));
+        await this.swapSlot(azureResource, slot, azureCredential);
+        throw e;
+      }
+    }
+    this.detailSummaries.push(getLocalizedString("driver.deploy.notice.deploySwapped", slot));
+  }
+
+  private getHealthCheckUrl(
+    azureResource: AzureResourceInfo,
+    healthCheckPath: string,
+    slot?: string
+  ): string {
+    const endpoint = this.getSiteEndpoint(azureResource.instanceId, slot);
+    return `${endpoint}/${healthCheckPath.replace(/^\/+/, "")}`;
+  }
+
+  /**
+   * save the hashes of the deployed files, or forget them if the files are swapped into production
+   */
+  private async saveManifest(
+    azureResource: AzureResourceInfo,
+    files: FileHashes | undefined
+  ): Promise<void> {
+    try {
+      if (files) {
+        await deploymentManifest.write(this.workingDirectory, azureResource, files);
+      } else {
+        await deploymentManifest.remove(this.workingDirectory, azureResource);
+      }
+    } catch (e) {
+      // the next deployment is just not skipped
+      this.logger.warning(
+        getLocalizedString(
+          "driver.deploy.notice.saveDeploymentManifestFailed",
+          e instanceof Error ? e.message : String(e)
+        )
+      );
+    }
+  }
+
   protected prepare: (args: DeployStepArgs) => Promise<void> = async (args: DeployStepArgs) => {
     await this.packageToZip(args, this.context);
   };
@@ -88,9 +202,9 @@ export class AzureZipDeployImpl extends AzureDeployImpl {
   ): Promise<number> {
     const zipBuffer = await this.packageToZip(args, this.context);
     this.context.logProvider.debug("Start to get Azure account info for deploy");
-    const config = await this.createAzureDeployConfig(azureResource, azureCredential);
+    const config = await this.createAzureDeployConfig(azureResource, azureCredential, args.slot);
     this.context.logProvider.debug("Get Azure account info for deploy complete");
-    const endpoint = this.getZipDeployEndpoint(azureResource.instanceId);
+    const endpoint = this.getZipDeployEndpoint(azureResource.instanceId, args.slot);
     this.context.logProvider.debug(`Start to upload code to ${endpoint}`);
     const startTime = Date.now();
     const location = await this.zipDeployPackage(
@@ -101,7 +215,17 @@ export class AzureZipDeployImpl extends AzureDeployImpl {
     );
     this.context.logProvider.debug("Upload code to Azure complete");
     this.context.logProvider.debug("Start to check Azure deploy status");
-    const deployRes = await this.checkDeployStatus(location, config, this.context.logProvider);
+    // the slot is checked before it is swapped into production
+    const healthCheckUrl =
+      args.slot && args.healthCheckPath
+        ? this.getHealthCheckUrl(azureResource, args.healthCheckPath, args.slot)
+        : undefined;
+    const deployRes = await this.checkDeployStatus(
+      location,
+      config,
+      this.context.logProvider,
+      healthCheckUrl
+    );
     this.context.logProvider.debug("Check Azure deploy status complete");
     const cost = Date.now() - startTime;
     const telemetryData = {
@@ -240,10 +364,12 @@ export class AzureZipDeployImpl extends AzureDeployImpl {
   /**
    * create azure zip deploy endpoint
    * @param siteName azure app service or azure function name
+   * @param slot deployment slot name
    * @protected
    */
-  protected getZipDeployEndpoint(siteName: string): string {
-    return `https://${siteName}.scm.azurewebsites.net/api/zipdeploy?isAsync=true`;
+  protected getZipDeployEndpoint(siteName: string, slot?: string): string {
+    const host = slot ? `${siteName}-${slot}` : siteName;
+    return `https://${host}.scm.azurewebsites.net/api/zipdeploy?isAsync=true`;
   }
 
   updateProgressbar() {
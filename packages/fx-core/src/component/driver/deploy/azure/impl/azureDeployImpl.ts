@@ -31,6 +31,8 @@ import {
   CheckDeploymentStatusError,
   CheckDeploymentStatusTimeoutError,
   GetPublishingCredentialsError,
+  HealthCheckFailedError,
+  SwapSlotError,
 } from "../../../../../error";
 import { hooks } from "@feathersjs/hooks";
 import { ErrorContextMW } from "../../../../../core/globalVars";
@@ -68,7 +70,13 @@ export abstract class AzureDeployImpl extends BaseDeployImpl {
     const resourceId = checkMissingArgs("resourceId", args.resourceId);
     const azureResource = this.parseResourceId(resourceId);
     const azureCredential = await getAzureAccountCredential(this.context.azureAccountProvider);
-    const inputs = { ignoreFile: args.ignoreFile };
+    const inputs: DeployStepArgs = {
+      ignoreFile: args.ignoreFile,
+      incremental: args.incremental,
+      slot: args.slot,
+      healthCheckPath: args.healthCheckPath,
+      swap: args.swap,
+    };
 
     if (args.dryRun && this.prepare) {
       await this.prepare(inputs);
@@ -127,13 +135,15 @@ export abstract class AzureDeployImpl extends BaseDeployImpl {
    * @param location azure deployment location
    * @param config azure upload config, including azure account credential
    * @param logger log provider
+   * @param healthCheckUrl if set, it is also checked after the deployment completes
    * @protected
    */
   @hooks([ErrorContextMW({ source: "Azure", component: "AzureZipDeployImpl" })])
   public async checkDeployStatus(
     location: string,
     config: AzureUploadConfig,
-    logger: LogProvider
+    logger: LogProvider,
+    healthCheckUrl?: string
   ): Promise<DeployResult | undefined> {
     let res: AxiosDeployQueryResult;
     for (let i = 0; i < DeployConstant.DEPLOY_CHECK_RETRY_TIMES; ++i) {
@@ -182,6 +192,9 @@ export abstract class AzureDeployImpl extends BaseDeployImpl {
               )
             );
           }
+          if (healthCheckUrl) {
+            await this.checkHealth(healthCheckUrl);
+          }
           return res.data;
         } else {
           if (res.status) {
@@ -206,7 +219,8 @@ export abstract class AzureDeployImpl extends BaseDeployImpl {
    */
   async createAzureDeployConfig(
     azureResource: AzureResourceInfo,
-    azureCredential: TokenCredential
+    azureCredential: TokenCredential,
+    slot?: string
   ): Promise<AzureUploadConfig> {
     this.managementClient = new appService.WebSiteManagementClient(
       azureCredential,
@@ -265,10 +279,16 @@ export abstract class AzureDeployImpl extends BaseDeployImpl {
     const managementClient = this.managementClient;
     const listResponse = await wrapAzureOperation(
       () =>
-        managementClient.webApps.beginListPublishingCredentialsAndWait(
-          azureResource.resourceGroupName,
-          azureResource.instanceId
-        ),
+        slot
+          ? managementClient.webApps.beginListPublishingCredentialsSlotAndWait(
+              azureResource.resourceGroupName,
+              azureResource.instanceId,
+              slot
+            )
+          : managementClient.webApps.beginListPublishingCredentialsAndWait(
+              azureResource.resourceGroupName,
+              azureResource.instanceId
+            ),
       (e) =>
         new GetPublishingCredentialsError(
           azureResource.instanceId,
@@ -313,4 +333,86 @@ export abstract class AzureDeployImpl extends BaseDeployImpl {
       this.logger.warning(getLocalizedString("driver.deploy.error.restartWebAppError"));
     }
   }
+
+  /**
+   * poll the health check url until it returns a success status code
+   * @param url health check url
+   * @protected
+   */
+  protected async checkHealth(url: string): Promise<void> {
+    let reason = "";
+    for (let i = 0; i < DeployConstant.HEALTH_CHECK_RETRY_TIMES; ++i) {
+      if (i > 0) {
+        await waitSeconds(DeployConstant.BACKOFF_TIME_S);
+      }
+      try {
+        this.logger.verbose(`Check health with url: ${url}`);
+        await AzureDeployImpl.AXIOS_INSTANCE.get(url);
+        return;
+      } catch (e) {
+        reason = axios.isAxiosError(e)
+          ? `status code: ${e.response?.status ?? "NA"}`
+          : (e as Error).message;
+        this.logger.verbose(`Health check failed with ${reason}`);
+      }
+    }
+    throw new HealthCheckFailedError(url, reason, this.helpLink);
+  }
+
+  /**
+   * the url of the site or one of its deployment slots
+   * @param siteName azure app service or azure function name
+   * @param slot deployment slot name
+   * @protected
+   */
+  protected getSiteEndpoint(siteName: string, slot?: string): string {
+    const host = slot ? `${siteName}-${slot}` : siteName;
+    return `https://${host}.azurewebsites.net`;
+  }
+
+  /**
+   * swap a deployment slot with production. Swapping the same slot again swaps it back.
+   * @param azureResource azure resource info
+   * @param slot deployment slot name
+   * @param azureCredential user azure credential
+   * @protected
+   */
+  protected async swapSlot(
+    azureResource: AzureResourceInfo,
+    slot: string,
+    azureCredential: TokenCredential
+  ): Promise<void> {
+    const url =
+      `${DeployConstant.ARM_ENDPOINT}/subscriptions/${azureResource.subscriptionId}` +
+      `/resourceGroups/${azureResource.resourceGroupName}/providers/Microsoft.Web/sites/` +
+      `${azureResource.instanceId}/slots/${slot}/slotsswap?api-version=${DeployConstant.SWAP_SLOT_API_VERSION}`;
+    try {
+      const token = await azureCredential.getToken(`${DeployConstant.ARM_ENDPOINT}/.default`);
+      const config = { headers: { Authorization: `Bearer ${token?.token ?? ""}` } };
+      this.logger.debug(`Start to swap slot ${slot} of ${azureResource.instanceId}`);
+      let res = await AzureDeployImpl.AXIOS_INSTANCE.post(
+        url,
+        { targetSlot: DeployConstant.PRODUCTION_SLOT, preserveVnet: true },
+        config
+      );
+      // swapping is a long running operation, poll the location until it completes
+      for (
+        let i = 0;
+        res.status === HttpStatusCode.ACCEPTED && i < DeployConstant.SWAP_SLOT_RETRY_TIMES;
+        ++i
+      ) {
+        const location = res.headers?.location as string | undefined;
+        if (!location) {
+          break;
+        }
+        await waitSeconds(DeployConstant.BACKOFF_TIME_S);
+        res = await AzureDeployImpl.AXIOS_INSTANCE.get(location, config);
+      }
+      if (res.status === HttpStatusCode.ACCEPTED) {
+        throw new Error("swap operation timed out");
+      }
+    } catch (e) {
+      throw new SwapSlotError(azureResource.instanceId, slot, e as Error, this.helpLink);
+    }
+  }
 }
@@ -63,6 +63,10 @@ export abstract class BaseDeployImpl {
     resourceId: asString,
     dryRun: asOptional(asBoolean),
     outputZipFile: asOptional(asString),
+    incremental: asOptional(asBoolean),
+    slot: asOptional(asString),
+    healthCheckPath: asOptional(asString),
+    swap: asOptional(asBoolean),
   });
 
   async run(): Promise<ExecutionResult> {
@@ -0,0 +1,103 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import * as fs from "fs-extra";
+import * as path from "path";
+import { DeployConstant } from "../../../../constant/deployConstant";
+import { AzureResourceInfo } from "../../../interface/commonArgs";
+
+/**
+ * sha256 hashes of the deployed files, by the relative path in the artifact folder
+ */
+export type FileHashes = Record<string, string>;
+
+export type ManifestDiff = {
+  added: string[];
+  modified: string[];
+  removed: string[];
+};
+
+/**
+ * The content hashes of the last successful deployment to each Azure resource, saved in
+ * `<workingDirectory>/.deployment/deployment.manifest.json`.
+ */
+class DeploymentManifest {
+  getManifestPath(workingDirectory: string): string {
+    return path.join(
+      workingDirectory,
+      DeployConstant.DEPLOYMENT_TMP_FOLDER,
+      DeployConstant.DEPLOYMENT_MANIFEST_FILE
+    );
+  }
+
+  /**
+   * @returns the hashes of the last deployment, or undefined if the resource has never been deployed from here
+   */
+  async read(
+    workingDirectory: string,
+    resource: AzureResourceInfo
+  ): Promise<FileHashes | undefined> {
+    const manifest = await this.readAll(workingDirectory);
+    return manifest[this.key(resource)];
+  }
+
+  async write(
+    workingDirectory: string,
+    resource: AzureResourceInfo,
+    files: FileHashes
+  ): Promise<void> {
+    const manifestPath = this.getManifestPath(workingDirectory);
+    const manifest = await this.readAll(workingDirectory);
+    manifest[this.key(resource)] = files;
+    await fs.ensureDir(path.dirname(manifestPath));
+    await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2), { encoding: "utf8" });
+  }
+
+  async remove(workingDirectory: string, resource: AzureResourceInfo): Promise<void> {
+    const manifest = await this.readAll(workingDirectory);
+    if (manifest[this.key(resource)] === undefined) {
+      return;
+    }
+    delete manifest[this.key(resource)];
+    await fs.writeFile(this.getManifestPath(workingDirectory), JSON.stringify(manifest, null, 2), {
+      encoding: "utf8",
+    });
+  }
+
+  diff(previous: FileHashes, current: FileHashes): ManifestDiff {
+    const result: ManifestDiff = { added: [], modified: [], removed: [] };
+    for (const [file, hash] of Object.entries(current)) {
+      if (previous[file] === undefined) {
+        result.added.push(file);
+      } else if (previous[file] !== hash) {
+        result.modified.push(file);
+      }
+    }
+    result.removed = Object.keys(previous).filter((file) => current[file] === undefined);
+    return result;
+  }
+
+  isEmpty(diff: ManifestDiff): boolean {
+    return diff.added.length + diff.modified.length + diff.removed.length === 0;
+  }
+
+  private async readAll(workingDirectory: string): Promise<Record<string, FileHashes>> {
+    const manifestPath = this.getManifestPath(workingDirectory);
+    if (!(await fs.pathExists(manifestPath))) {
+      return {};
+    }
+    try {
+      const content = await fs.readFile(manifestPath, { encoding: "utf8" });
+      return JSON.parse(content) as Record<string, FileHashes>;
+    } catch (e) {
+      // a broken manifest just means the next deployment is a full one
+      return {};
+    }
+  }
+
+  private key(resource: AzureResourceInfo): string {
+    return `${resource.subscriptionId}/${resource.resourceGroupName}/${resource.instanceId}`;
+  }
+}
+
+export const deploymentManifest = new DeploymentManifest();
@@ -18,6 +18,7 @@ import "./botAadApp/create";
 import "./deploy/azure/azureAppServiceDeployDriver";
 import "./deploy/azure/azureFunctionDeployDriver";
 import "./deploy/azure/azureStorageDeployDriver";
+import "./deploy/azure/azureContainerAppsDeployDriver";
 import "./deploy/azure/azureStorageStaticWebsiteConfigDriver";
 import "./deploy/spfx/deployDriver";
 import "./deploy/azure/azureStaticWebAppGetDeploymentTokenDriver";
@@ -15,10 +15,35 @@ export type DeployArgs = {
   resourceId: string;
   dryRun?: boolean;
   outputZipFile?: string;
+  incremental?: boolean;
+  slot?: string;
+  healthCheckPath?: string;
+  swap?: boolean;
 };
 
 export type DeployStepArgs = {
   ignoreFile?: string;
+  incremental?: boolean;
+  // deploy to this deployment slot, then swap it with production unless swap is false
+  slot?: string;
+  // the path that is checked after deploying to the slot and after swapping
+  healthCheckPath?: string;
+  swap?: boolean;
+};
+
+export type ContainerAppDeployArgs = {
+  workingDirectory?: string;
+  resourceId: string;
+  // a prebuilt image, e.g. contoso.azurecr.io/bot:1.0.0
+  image?: string;
+  // if image is not set, the image is built from the dockerfile and pushed to registry/imageName:tag
+  registry?: string;
+  imageName?: string;
+  tag?: string;
+  dockerfile?: string;
+  // the container to update, defaults to the first container of the app
+  containerName?: string;
+  dryRun?: boolean;
 };
 
 export type BuildArgs = {
@@ -31,4 +31,33 @@ export interface StepDriver {
     schemaVersion?: string,
     name?: string
   ): Promise<ExecutionResult>;
+
+  /**
+   * Optional. Describe what execute() would do with the same arguments, without changing any local or remote state.
+   * It is used by the dry-run mode of a lifecycle. Drivers that don't implement it are only listed with their arguments.
+   * @param args Arguments from the `with` section in the yaml file, with placeholders resolved.
+   * @param ctx logger, telemetry, progress bar, etc.
+   * @param outputEnvVarNames the environment variable names for each output
+   * @returns human readable descriptions of the side effects
+   */
+  preview?(
+    args: unknown,
+    ctx: DriverContext,
+    outputEnvVarNames?: Map<string, string>
+  ): Promise<Result<string[], FxError>>;
+
+  /**
+   * Optional. Delete what execute() created with the same arguments. It is used by the destroy lifecycle.
+   * The IDs of the created resources are read from the environment variables that execute() wrote, so undo()
+   * should succeed without doing anything if they are empty.
+   * @param args Arguments from the `with` section in the yaml file.
+   * @param ctx logger, telemetry, progress bar, etc.
+   * @param outputEnvVarNames the environment variable names for each output
+   * @returns the environment variables to reset, usually the outputs of execute() set to empty strings
+   */
+  undo?(
+    args: unknown,
+    ctx: DriverContext,
+    outputEnvVarNames?: Map<string, string>
+  ): Promise<ExecutionResult>;
 }
@@ -12,6 +12,7 @@ import iconv from "iconv-lite";
 import os from "os";
 import * as path from "path";
 import { Service } from "typedi";
+import { getLocalizedString } from "../../../common/localizeUtils";
 import { ScriptExecutionError, ScriptTimeoutError } from "../../../error/script";
 import { TelemetryConstant } from "../../constant/commonConstant";
 import { ProgressMessages } from "../../messages";
@@ -22,8 +23,9 @@ import { ExecutionResult, StepDriver } from "../interface/stepDriver";
 import { addStartAndEndTelemetry } from "../middleware/addStartAndEndTelemetry";
 
 const ACTION_NAME = "script";
+const HOOK_EVENT_NAME = "scriptHook";
 
-interface ScriptDriverArgs {
+export interface ScriptDriverArgs {
   run: string;
   workingDirectory?: string;
   shell?: string;
@@ -60,7 +62,8 @@ export async function defaultShell(): Promise<string | undefined> {
 export class ScriptDriver implements StepDriver {
   async _run(
     typedArgs: ScriptDriverArgs,
-    context: DriverContext
+    context: DriverContext,
+    env?: NodeJS.ProcessEnv
   ): Promise<Result<Map<string, string>, FxError>> {
     await context.progressBar?.next(
       ProgressMessages.runCommand(typedArgs.run, typedArgs.workingDirectory ?? "./")
@@ -71,7 +74,7 @@ export class ScriptDriver implements StepDriver {
       context.logProvider,
       context.ui,
       typedArgs.workingDirectory,
-      undefined,
+      env,
       typedArgs.shell,
       typedArgs.timeout,
       typedArgs.redirectTo
@@ -91,6 +94,32 @@ export class ScriptDriver implements StepDriver {
       : [];
     return { result: res, summaries: summaries };
   }
+
+  /**
+   * Run the `pre` or `post` hook of an action. Hooks take the same arguments as this driver,
+   * and the given env variables, e.g. outputs of the action, are passed to the script.
+   */
+  @hooks([addStartAndEndTelemetry(HOOK_EVENT_NAME, TelemetryConstant.SCRIPT_COMPONENT)])
+  async runHook(
+    args: ScriptDriverArgs,
+    ctx: DriverContext,
+    env?: NodeJS.ProcessEnv
+  ): Promise<Result<Map<string, string>, FxError>> {
+    return await this._run(args, ctx, env);
+  }
+
+  preview(args: unknown): Promise<Result<string[], FxError>> {
+    const typedArgs = args as ScriptDriverArgs;
+    return Promise.resolve(
+      ok([
+        getLocalizedString(
+          "driver.script.preview",
+          maskSecretValues(typedArgs.run),
+          typedArgs.workingDirectory ?? "./"
+        ),
+      ])
+    );
+  }
 }
 
 export const scriptDriver = new ScriptDriver();
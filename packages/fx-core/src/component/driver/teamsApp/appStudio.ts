@@ -153,11 +153,9 @@ export async function updateManifestV3(
   const appStudioToken = appStudioTokenRes.value;
 
   try {
-    const localUpdateTime = process.env.TEAMS_APP_UPDATE_TIME;
-    if (localUpdateTime) {
+    if (process.env.TEAMS_APP_UPDATE_TIME) {
       const app = await AppStudioClient.getApp(teamsAppId, appStudioToken, ctx.logProvider);
-      const devPortalUpdateTime = new Date(app.updatedAt!)?.getTime() ?? -1;
-      if (new Date(localUpdateTime).getTime() < devPortalUpdateTime) {
+      if (isUpdatedInDeveloperPortal(app.updatedAt)) {
         const option = getLocalizedString("plugins.appstudio.overwriteAndUpdate");
         const res = await ctx.userInteraction.showMessage(
           "warn",
@@ -227,6 +225,20 @@ export async function updateManifestV3(
   }
 }
 
+/**
+ * Whether the app was updated in Teams Developer Portal after TEAMS_APP_UPDATE_TIME,
+ * the time it was last updated from this environment
+ * @param devPortalUpdatedAt updatedAt of the app definition in Teams Developer Portal
+ */
+export function isUpdatedInDeveloperPortal(devPortalUpdatedAt?: string): boolean {
+  const localUpdateTime = process.env.TEAMS_APP_UPDATE_TIME;
+  if (!localUpdateTime) {
+    return false;
+  }
+  const devPortalUpdateTime = new Date(devPortalUpdatedAt!)?.getTime() ?? -1;
+  return new Date(localUpdateTime).getTime() < devPortalUpdateTime;
+}
+
 export async function updateTeamsAppV3ForPublish(
   ctx: Context,
   inputs: InputsWithProjectPath
@@ -14,12 +14,14 @@ import { addStartAndEndTelemetry } from "../middleware/addStartAndEndTelemetry";
 import { AppStudioClient } from "./clients/appStudioClient";
 import { AppStudioResultFactory } from "./results";
 import { manifestUtils } from "./utils/ManifestUtils";
+import { diffAppPackage, formatManifestChange } from "./utils/appPackageDiff";
+import { isUpdatedInDeveloperPortal } from "./appStudio";
 import { AppStudioError } from "./errors";
 import { AppStudioScopes } from "../../../common/tools";
 import { getLocalizedString } from "../../../common/localizeUtils";
 import { Service } from "typedi";
 import { getAbsolutePath } from "../../utils/common";
-import { FileNotFoundError, InvalidActionInputError } from "../../../error/common";
+import { FileNotFoundError, InvalidActionInputError, UserCancelError } from "../../../error/common";
 
 export const actionName = "teamsApp/update";
 
@@ -99,8 +101,10 @@ export class ConfigureTeamsAppDriver implements StepDriver {
         )
       );
     }
+    let remoteUpdatedAt: string | undefined;
     try {
-      await AppStudioClient.getApp(teamsAppId, appStudioToken, context.logProvider);
+      const app = await AppStudioClient.getApp(teamsAppId, appStudioToken, context.logProvider);
+      remoteUpdatedAt = app.updatedAt;
     } catch (error) {
       return err(
         AppStudioResultFactory.UserError(
@@ -111,6 +115,19 @@ export class ConfigureTeamsAppDriver implements StepDriver {
       );
     }
 
+    if (args.checkDrift && isUpdatedInDeveloperPortal(remoteUpdatedAt)) {
+      const confirmRes = await this.confirmOverwrite(
+        teamsAppId,
+        appStudioToken,
+        archivedFile,
+        remoteUpdatedAt!,
+        context
+      );
+      if (confirmRes.isErr()) {
+        return err(confirmRes.error);
+      }
+    }
+
     try {
       let message = getLocalizedString("driver.teamsApp.progressBar.updateTeamsAppStepMessage");
 
@@ -143,6 +160,45 @@ export class ConfigureTeamsAppDriver implements StepDriver {
     }
   }
 
+  /**
+   * The Teams app was changed in Teams Developer Portal since it was last updated from this environment,
+   * show what will be overwritten and ask the user to confirm.
+   */
+  private async confirmOverwrite(
+    teamsAppId: string,
+    appStudioToken: string,
+    archivedFile: Buffer,
+    remoteUpdatedAt: string,
+    context: WrapDriverContext
+  ): Promise<Result<undefined, FxError>> {
+    let changes: string[] = [];
+    try {
+      const remotePackage = await AppStudioClient.getAppPackage(
+        teamsAppId,
+        appStudioToken,
+        context.logProvider
+      );
+      changes = diffAppPackage(Buffer.from(remotePackage, "base64"), archivedFile).map(
+        formatManifestChange
+      );
+    } catch (e) {
+      // the changes are only for reference, still ask the user if the package cannot be downloaded
+      context.logProvider.warning(
+        `Failed to download the app package of ${teamsAppId}: ${(e as Error).message}`
+      );
+    }
+    const message = [
+      getLocalizedString("plugins.appstudio.manifestDiff.drift", remoteUpdatedAt),
+      ...changes,
+    ].join("\n");
+    const confirm = getLocalizedString("plugins.appstudio.overwriteAndUpdate");
+    const res = await context.ui?.showMessage("warn", message, true, confirm);
+    if (!res || res.isErr() || res.value !== confirm) {
+      return err(new UserCancelError(actionName));
+    }
+    return ok(undefined);
+  }
+
   private validateArgs(args: ConfigureTeamsAppArgs): Result<any, FxError> {
     const invalidParams: string[] = [];
     if (!args || !args.appPackagePath) {
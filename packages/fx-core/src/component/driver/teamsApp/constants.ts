@@ -202,6 +202,7 @@ export const AppStudioScopes = [`${getAppStudioEndpoint()}/AppDefinitions.ReadWr
 
 export class Constants {
   public static readonly MANIFEST_FILE = "manifest.json";
+  public static readonly LINT_CONFIG_FILE = "teamsapp.lint.json";
   public static readonly PLUGIN_NAME = "AppStudioPlugin";
   public static readonly BUILD_OR_PUBLISH_QUESTION = "build-or-publish";
   public static readonly INCLUDE_APP_MANIFEST = "include-app-manifest";
@@ -32,11 +32,11 @@ import {
   OUTLINE_TEMPLATE,
 } from "./constants";
 import { AppDefinition } from "../../driver/teamsApp/interfaces/appdefinitions/appDefinition";
-import { AppStudioScopes } from "../../../common/tools";
+import { AppStudioScopes, AuthSvcScopes, setRegion } from "../../../common/tools";
 import { getLocalizedString } from "../../../common/localizeUtils";
 import { getTemplatesFolder } from "../../../folder";
 import { InvalidActionInputError } from "../../../error/common";
-import { loadStateFromEnv } from "../util/utils";
+import { clearStateInEnv, loadStateFromEnv } from "../util/utils";
 
 const actionName = "teamsApp/create";
 
@@ -68,6 +68,19 @@ export class CreateTeamsAppDriver implements StepDriver {
     };
   }
 
+  public async undo(
+    args: CreateTeamsAppArgs,
+    context: DriverContext,
+    outputEnvVarNames?: Map<string, string>
+  ): Promise<ExecutionResult> {
+    const wrapContext = new WrapDriverContext(context, `${actionName}/undo`, actionName);
+    const res = await this.delete(args, wrapContext, outputEnvVarNames);
+    return {
+      result: res,
+      summaries: wrapContext.summaries,
+    };
+  }
+
   @hooks([addStartAndEndTelemetry(actionName, actionName)])
   async create(
     args: CreateTeamsAppArgs,
@@ -182,6 +195,62 @@ export class CreateTeamsAppDriver implements StepDriver {
     }
   }
 
+  @hooks([addStartAndEndTelemetry(`${actionName}/undo`, actionName)])
+  async delete(
+    args: CreateTeamsAppArgs,
+    context: WrapDriverContext,
+    outputEnvVarNames?: Map<string, string>
+  ): Promise<Result<Map<string, string>, FxError>> {
+    if (!outputEnvVarNames) {
+      outputEnvVarNames = new Map(Object.entries(defaultOutputNames));
+    }
+    outputEnvVarNames = new Map([...outputEnvVarNames, ...Object.entries(internalOutputNames)]);
+    const teamsAppId = loadStateFromEnv(outputEnvVarNames).teamsAppId;
+    if (!teamsAppId) {
+      context.logProvider.verbose(
+        getLocalizedString(
+          "driver.teamsApp.summary.deleteTeamsAppSkipped",
+          outputEnvVarNames.get("teamsAppId")
+        )
+      );
+      return ok(clearStateInEnv(outputEnvVarNames));
+    }
+
+    // the region of Teams Developer Portal is required to delete an app
+    const authSvcTokenRes = await context.m365TokenProvider.getAccessToken({
+      scopes: AuthSvcScopes,
+    });
+    if (authSvcTokenRes.isErr()) {
+      return err(authSvcTokenRes.error);
+    }
+    await setRegion(authSvcTokenRes.value);
+    const appStudioTokenRes = await context.m365TokenProvider.getAccessToken({
+      scopes: AppStudioScopes,
+    });
+    if (appStudioTokenRes.isErr()) {
+      return err(appStudioTokenRes.error);
+    }
+
+    try {
+      await AppStudioClient.deleteApp(teamsAppId, appStudioTokenRes.value, context.logProvider);
+    } catch (e: any) {
+      if (e instanceof UserError || e instanceof SystemError) {
+        return err(e);
+      }
+      return err(
+        AppStudioResultFactory.SystemError(
+          AppStudioError.TeamsAppDeleteFailedError.name,
+          AppStudioError.TeamsAppDeleteFailedError.message(teamsAppId, e),
+          e
+        )
+      );
+    }
+    const message = getLocalizedString("driver.teamsApp.summary.deleteTeamsApp", teamsAppId);
+    context.logProvider.verbose(message);
+    context.addSummary(message);
+    return ok(clearStateInEnv(outputEnvVarNames));
+  }
+
   private validateArgs(args: CreateTeamsAppArgs): Result<any, FxError> {
     const invalidParams: string[] = [];
     if (!args || !args.name) {
@@ -22,6 +22,7 @@ import { WrapDriverContext } from "../util/wrapUtil";
 import { Constants } from "./constants";
 import { CreateAppPackageArgs } from "./interfaces/CreateAppPackageArgs";
 import { manifestUtils } from "./utils/ManifestUtils";
+import { localizationUtils } from "./utils/LocalizationUtils";
 import { expandEnvironmentVariable, getEnvironmentVariables } from "../../utils/common";
 import { TelemetryPropertyKey } from "./utils/telemetry";
 import { InvalidFileOutsideOfTheDirectotryError } from "../../../error/teamsApp";
@@ -118,23 +119,16 @@ export class CreateAppPackageDriver implements StepDriver {
     }
 
     // pre-check existence
-    if (
-      manifest.localizationInfo &&
-      manifest.localizationInfo.additionalLanguages &&
-      manifest.localizationInfo.additionalLanguages.length > 0
-    ) {
-      for (const language of manifest.localizationInfo.additionalLanguages) {
-        const file = language.file;
-        const fileName = `${appDirectory}/${file}`;
-        if (!(await fs.pathExists(fileName))) {
-          return err(
-            new FileNotFoundError(
-              actionName,
-              fileName,
-              "https://aka.ms/teamsfx-actions/teamsapp-zipAppPackage"
-            )
-          );
-        }
+    for (const language of localizationUtils.getLanguageFiles(manifest)) {
+      const fileName = `${appDirectory}/${language.file}`;
+      if (!(await fs.pathExists(fileName))) {
+        return err(
+          new FileNotFoundError(
+            actionName,
+            fileName,
+            "https://aka.ms/teamsfx-actions/teamsapp-zipAppPackage"
+          )
+        );
       }
     }
 
@@ -147,22 +141,29 @@ export class CreateAppPackageDriver implements StepDriver {
     dir = path.dirname(manifest.icons.outline);
     zip.addLocalFile(outlineFile, dir === "." ? "" : dir);
 
-    // localization file
-    if (
-      manifest.localizationInfo &&
-      manifest.localizationInfo.additionalLanguages &&
-      manifest.localizationInfo.additionalLanguages.length > 0
-    ) {
-      for (const language of manifest.localizationInfo.additionalLanguages) {
-        const file = language.file;
-        const fileName = path.resolve(appDirectory, file);
-        const relativePath = path.relative(appDirectory, fileName);
-        if (relativePath.startsWith("..")) {
-          return err(new InvalidFileOutsideOfTheDirectotryError(fileName));
-        }
-        const dir = path.dirname(file);
-        zip.addLocalFile(fileName, dir === "." ? "" : dir);
+    // localization file, with placeholders resolved
+    for (const language of localizationUtils.getLanguageFiles(manifest)) {
+      const fileName = path.resolve(appDirectory, language.file);
+      const relativePath = path.relative(appDirectory, fileName);
+      if (relativePath.startsWith("..")) {
+        return err(new InvalidFileOutsideOfTheDirectotryError(fileName));
+      }
+      const localizationRes = await localizationUtils.readLocalizationFile(fileName);
+      if (localizationRes.isErr()) {
+        return err(localizationRes.error);
+      }
+      const localization = localizationRes.value;
+      for (const warning of localizationUtils.getTranslationKeyWarnings(
+        manifest,
+        localization,
+        language.file
+      )) {
+        context.logProvider.warning(warning);
       }
+      zip.addFile(
+        relativePath.replace(/\\/g, "/"),
+        Buffer.from(JSON.stringify(localization, null, 4))
+      );
     }
 
     // API ME, API specification and Adaptive card templates
@@ -37,6 +37,14 @@ export class AppStudioError {
     ],
   };
 
+  public static readonly TeamsAppDeleteFailedError = {
+    name: "TeamsAppDeleteFailed",
+    message: (teamsAppId: string, error: any): [string, string] => [
+      getDefaultString("error.appstudio.teamsAppDeleteFailed", teamsAppId, error.message),
+      getLocalizedString("error.appstudio.teamsAppDeleteFailed", teamsAppId, error.displayMessage),
+    ],
+  };
+
   public static readonly InvalidTeamsAppIdError = {
     name: "InvalidTeamsAppId",
     message: (teamsAppId: string): [string, string] => [
@@ -53,6 +61,14 @@ export class AppStudioError {
     ],
   };
 
+  public static readonly GetAppPackageFailedError = {
+    name: "GetAppPackageFailed",
+    message: (teamsAppId: string, reason: string): [string, string] => [
+      getDefaultString("error.teamsApp.GetAppPackageFailedError", teamsAppId, reason),
+      getLocalizedString("error.teamsApp.GetAppPackageFailedError", teamsAppId, reason),
+    ],
+  };
+
   public static readonly ValidationFailedError = {
     name: "ManifestValidationFailed",
     message: (errors: string[]): [string, string] => [
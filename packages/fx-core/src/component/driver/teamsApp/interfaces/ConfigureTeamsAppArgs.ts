@@ -6,4 +6,8 @@ export interface ConfigureTeamsAppArgs {
    * Zipped app package path
    */
   appPackagePath: string;
+  /**
+   * Ask before overwriting the Teams app if it was changed in Teams Developer Portal after the last update
+   */
+  checkDrift?: boolean;
 }
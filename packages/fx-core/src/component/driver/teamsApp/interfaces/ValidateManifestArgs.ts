@@ -6,6 +6,22 @@ export interface ValidateManifestArgs {
    * Teams app manifest path
    */
   manifestPath: string;
+  /**
+   * Directory with local copies of the manifest schemas
+   */
+  schemaDirectory?: string;
+  /**
+   * Check the manifest with lint rules in addition to the schema
+   */
+  lint?: boolean;
+  /**
+   * Path to the lint config with the severity of the rules, defaults to teamsapp.lint.json in the project
+   */
+  lintConfig?: string;
+  /**
+   * Fix the auto-fixable lint problems in the manifest file, implies lint
+   */
+  fix?: boolean;
   /**
    * Internal arguments
    * Show message for non-life cycle command
@@ -3,6 +3,8 @@
 import {
   Colors,
   FxError,
+  ManifestUpgradeResult,
+  ManifestUtil,
   Result,
   TeamsAppInputs,
   TeamsAppManifest,
@@ -16,14 +18,25 @@ import { Container } from "typedi";
 import * as util from "util";
 import { getLocalizedString } from "../../../common/localizeUtils";
 import { AppStudioScopes } from "../../../common/tools";
-import { FileNotFoundError, MissingRequiredInputError } from "../../../error/common";
+import {
+  FileNotFoundError,
+  InputValidationError,
+  MissingRequiredInputError,
+} from "../../../error/common";
 import { resolveString } from "../../configManager/lifecycle";
 import { createDriverContext } from "../../utils";
-import { envUtil } from "../../utils/envUtil";
+import { dotenvUtil, envUtil } from "../../utils/envUtil";
 import { pathUtils } from "../../utils/pathUtils";
 import { DriverContext } from "../interface/commonArgs";
-import { ConfigureTeamsAppDriver, actionName as configureTeamsAppActionName } from "./configure";
+import {
+  ConfigureTeamsAppDriver,
+  actionName as configureTeamsAppActionName,
+  internalOutputNames as configureTeamsAppOutputNames,
+} from "./configure";
+import { isUpdatedInDeveloperPortal } from "./appStudio";
+import { AppStudioClient } from "./clients/appStudioClient";
 import { Constants } from "./constants";
+import { AppStudioError } from "./errors";
 import {
   CreateAppPackageDriver,
   actionName as createAppPackageActionName,
@@ -31,16 +44,49 @@ import {
 import { ConfigureTeamsAppArgs } from "./interfaces/ConfigureTeamsAppArgs";
 import { CreateAppPackageArgs } from "./interfaces/CreateAppPackageArgs";
 import { PublishAppPackageArgs } from "./interfaces/PublishAppPackageArgs";
+import { AppStudioResultFactory } from "./results";
 import { ValidateAppPackageArgs } from "./interfaces/ValidateAppPackageArgs";
 import { ValidateManifestArgs } from "./interfaces/ValidateManifestArgs";
 import {
   actionName as PublishAppPackageActionName,
   PublishAppPackageDriver,
 } from "./publishAppPackage";
+import { diffAppPackage, formatManifestChange, ManifestChange } from "./utils/appPackageDiff";
 import { manifestUtils } from "./utils/ManifestUtils";
 import { ValidateManifestDriver } from "./validate";
 import { ValidateAppPackageDriver } from "./validateAppPackage";
 
+export interface ManifestUpgradeInputs extends TeamsAppInputs {
+  /**
+   * the manifest version to upgrade to, e.g. "1.17" or "devPreview"
+   */
+  "target-version"?: string;
+}
+
+export interface ValidateManifestInputs extends TeamsAppInputs {
+  /**
+   * check the manifest with lint rules in addition to the schema
+   */
+  lint?: boolean;
+  /**
+   * path to the lint config, defaults to teamsapp.lint.json in the project
+   */
+  "lint-config"?: string;
+  /**
+   * fix the auto-fixable lint problems in the manifest file
+   */
+  fix?: boolean;
+}
+
+export interface ManifestDiffResult {
+  teamsAppId: string;
+  changes: ManifestChange[];
+  /**
+   * whether the app was changed in Teams Developer Portal after it was last updated from this environment
+   */
+  drifted: boolean;
+}
+
 class TeamsAppMgr {
   async ensureAppPackageFile(inputs: TeamsAppInputs): Promise<Result<undefined, FxError>> {
     // if no package file input, then do package first
@@ -181,7 +227,7 @@ class TeamsAppMgr {
   /**
    * entry of validate teams app
    */
-  async validateTeamsApp(inputs: TeamsAppInputs): Promise<Result<undefined, FxError>> {
+  async validateTeamsApp(inputs: ValidateManifestInputs): Promise<Result<undefined, FxError>> {
     const context: DriverContext = createDriverContext(inputs);
     if (!inputs["manifest-file"] && !inputs["package-file"]) {
       // neither manifest-file nor package-file provided, use default manifest file
@@ -197,6 +243,9 @@ class TeamsAppMgr {
       const teamsAppManifestFilePath = inputs["manifest-file"];
       const args: ValidateManifestArgs = {
         manifestPath: teamsAppManifestFilePath,
+        lint: inputs.lint,
+        lintConfig: inputs["lint-config"],
+        fix: inputs.fix,
         showMessage: inputs?.showMessage != undefined ? inputs.showMessage : true,
       };
       const driver: ValidateManifestDriver = Container.get("teamsApp/validateManifest");
@@ -281,6 +330,161 @@ class TeamsAppMgr {
     return ok(undefined);
   }
 
+  /**
+   * entry of manifest diff, compare the local app package with the one registered in Teams Developer Portal
+   */
+  async diffTeamsApp(inputs: TeamsAppInputs): Promise<Result<ManifestDiffResult, FxError>> {
+    // TEAMS_APP_UPDATE_TIME is saved in the .user file of the environment
+    if (inputs.env && !inputs["env-file"]) {
+      const envRes = await envUtil.readEnv(inputs.projectPath, inputs.env);
+      if (envRes.isErr()) {
+        return err(envRes.error);
+      }
+    }
+    const packageRes = await this.ensureAppPackageFile(inputs);
+    if (packageRes.isErr()) {
+      return err(packageRes.error);
+    }
+    if (inputs["env-file"]) {
+      await this.loadTeamsAppUpdateTime(inputs["env-file"]);
+    }
+    const localPackage = await fs.readFile(inputs["package-file"] as string);
+    const manifestRes = manifestUtils.extractManifestFromArchivedFile(localPackage);
+    if (manifestRes.isErr()) {
+      return err(manifestRes.error);
+    }
+    const teamsAppId = manifestRes.value.id;
+
+    const driverContext: DriverContext = createDriverContext(inputs);
+    const tokenRes = await driverContext.m365TokenProvider.getAccessToken({
+      scopes: AppStudioScopes,
+    });
+    if (tokenRes.isErr()) {
+      return err(tokenRes.error);
+    }
+    let remoteUpdatedAt: string | undefined;
+    try {
+      const app = await AppStudioClient.getApp(
+        teamsAppId,
+        tokenRes.value,
+        driverContext.logProvider
+      );
+      remoteUpdatedAt = app.updatedAt;
+    } catch (e) {
+      return err(
+        AppStudioResultFactory.UserError(
+          AppStudioError.TeamsAppNotExistsError.name,
+          AppStudioError.TeamsAppNotExistsError.message(teamsAppId)
+        )
+      );
+    }
+    let remotePackage: Buffer;
+    try {
+      remotePackage = Buffer.from(
+        await AppStudioClient.getAppPackage(teamsAppId, tokenRes.value, driverContext.logProvider),
+        "base64"
+      );
+    } catch (e) {
+      return err(
+        AppStudioResultFactory.UserError(
+          AppStudioError.GetAppPackageFailedError.name,
+          AppStudioError.GetAppPackageFailedError.message(teamsAppId, (e as Error).message)
+        )
+      );
+    }
+
+    const changes = diffAppPackage(remotePackage, localPackage);
+    const drifted = isUpdatedInDeveloperPortal(remoteUpdatedAt);
+    if (drifted) {
+      void driverContext.ui?.showMessage(
+        "warn",
+        getLocalizedString("plugins.appstudio.manifestDiff.drift", remoteUpdatedAt),
+        false
+      );
+    }
+    const message =
+      changes.length === 0
+        ? getLocalizedString("plugins.appstudio.manifestDiff.noChange", teamsAppId)
+        : [
+            getLocalizedString("plugins.appstudio.manifestDiff.changes", teamsAppId),
+            ...changes.map(formatManifestChange),
+          ].join("\n");
+    void driverContext.ui?.showMessage("info", message, false);
+    return ok({ teamsAppId, changes, drifted });
+  }
+
+  /**
+   * load TEAMS_APP_UPDATE_TIME from the .user file of the env file, the secrets in it are not needed
+   */
+  private async loadTeamsAppUpdateTime(envFile: string): Promise<void> {
+    const userEnvFile = `${envFile}.user`;
+    if (!(await fs.pathExists(userEnvFile))) {
+      return;
+    }
+    const parseResult = dotenvUtil.deserialize(
+      await fs.readFile(userEnvFile, { encoding: "utf8" })
+    );
+    const updateTime = parseResult.obj[configureTeamsAppOutputNames.teamsAppUpdateTime];
+    if (updateTime) {
+      envUtil.mergeEnv(process.env, {
+        [configureTeamsAppOutputNames.teamsAppUpdateTime]: updateTime,
+      });
+    }
+  }
+
+  /**
+   * entry of manifest upgrade, upgrade the manifest template to the target manifest version in place
+   */
+  async upgradeManifest(
+    inputs: ManifestUpgradeInputs
+  ): Promise<Result<ManifestUpgradeResult<TeamsAppManifest>, FxError>> {
+    const targetVersion = inputs["target-version"];
+    if (!targetVersion) {
+      return err(new MissingRequiredInputError("target-version", "TeamsAppMgr"));
+    }
+    const manifestPath =
+      inputs["manifest-file"] || manifestUtils.getTeamsAppManifestPath(inputs.projectPath);
+    const manifestRes = await manifestUtils._readAppManifest(manifestPath);
+    if (manifestRes.isErr()) {
+      return err(manifestRes.error);
+    }
+    let result: ManifestUpgradeResult<TeamsAppManifest>;
+    try {
+      result = ManifestUtil.upgradeManifest(manifestRes.value, targetVersion);
+    } catch (e) {
+      return err(new InputValidationError("target-version", (e as Error).message, "TeamsAppMgr"));
+    }
+    const writeRes = await manifestUtils._writeAppManifest(result.manifest, manifestPath);
+    if (writeRes.isErr()) {
+      return err(writeRes.error);
+    }
+
+    const ui = createDriverContext(inputs).ui;
+    void ui?.showMessage(
+      "info",
+      [
+        getLocalizedString(
+          "plugins.appstudio.manifestUpgrade.success",
+          manifestPath,
+          targetVersion
+        ),
+        ...result.changes.map((change) => `  ${change}`),
+      ].join("\n"),
+      false
+    );
+    if (result.warnings.length > 0) {
+      void ui?.showMessage(
+        "warn",
+        [
+          getLocalizedString("plugins.appstudio.manifestUpgrade.manualAttention"),
+          ...result.warnings.map((warning) => `  ${warning}`),
+        ].join("\n"),
+        false
+      );
+    }
+    return ok(result);
+  }
+
   async publishTeamsApp(inputs: TeamsAppInputs): Promise<Result<undefined, FxError>> {
     // 1. zip package if necessary
     const packageRes = await this.ensureAppPackageFile(inputs);
@@ -0,0 +1,184 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import {
+  FxError,
+  ILocalizationFile,
+  Result,
+  TeamsAppManifest,
+  err,
+  ok,
+} from "@microsoft/teamsfx-api";
+import fs from "fs-extra";
+import stripBom from "strip-bom";
+import { getLocalizedString } from "../../../../common/localizeUtils";
+import {
+  FileNotFoundError,
+  JSONSyntaxError,
+  MissingEnvironmentVariablesError,
+} from "../../../../error/common";
+import { expandEnvironmentVariable, getEnvironmentVariables } from "../../../utils/common";
+
+export interface LanguageFile {
+  languageTag: string;
+  /**
+   * the path relative to the manifest, as it is in localizationInfo
+   */
+  file: string;
+}
+
+export interface TranslationKeyCheckResult {
+  /**
+   * texts in the manifest without a translation
+   */
+  missing: string[];
+  /**
+   * translations of fields which are not in the manifest
+   */
+  extra: string[];
+}
+
+/**
+ * Localizable fields of the manifest, "[]" stands for any item of the array.
+ * Optional fields can be translated but are not reported when the translation is missing.
+ */
+const localizableFields: { path: string; optional?: boolean }[] = [
+  { path: "name.short" },
+  { path: "name.full" },
+  { path: "description.short" },
+  { path: "description.full" },
+  { path: "staticTabs[].name" },
+  { path: "bots[].commandLists[].commands[].title" },
+  { path: "bots[].commandLists[].commands[].description" },
+  { path: "composeExtensions[].commands[].title" },
+  { path: "composeExtensions[].commands[].description" },
+  { path: "composeExtensions[].commands[].parameters[].title" },
+  { path: "composeExtensions[].commands[].parameters[].description" },
+  { path: "composeExtensions[].commands[].parameters[].value", optional: true },
+  { path: "composeExtensions[].commands[].parameters[].choices[].title" },
+  { path: "composeExtensions[].commands[].taskInfo.title" },
+  { path: "composeExtensions[].commands[].taskInfo.width", optional: true },
+  { path: "composeExtensions[].commands[].taskInfo.height", optional: true },
+  { path: "composeExtensions[].commands[].taskInfo.url", optional: true },
+  { path: "activities.activityTypes[].description" },
+  { path: "activities.activityTypes[].templateText" },
+];
+
+export class LocalizationUtils {
+  /**
+   * The localization files referenced by the manifest, including the default language file
+   */
+  public getLanguageFiles(manifest: TeamsAppManifest): LanguageFile[] {
+    const localizationInfo = manifest.localizationInfo;
+    if (!localizationInfo) {
+      return [];
+    }
+    const files: LanguageFile[] = [];
+    if (localizationInfo.defaultLanguageFile) {
+      files.push({
+        languageTag: localizationInfo.defaultLanguageTag,
+        file: localizationInfo.defaultLanguageFile,
+      });
+    }
+    for (const language of localizationInfo.additionalLanguages ?? []) {
+      files.push({ languageTag: language.languageTag, file: language.file });
+    }
+    return files;
+  }
+
+  /**
+   * Read the localization file and resolve the environment variable placeholders in it
+   */
+  public async readLocalizationFile(filePath: string): Promise<Result<ILocalizationFile, FxError>> {
+    if (!(await fs.pathExists(filePath))) {
+      return err(new FileNotFoundError("teamsApp", filePath));
+    }
+    // Be compatible with UTF8-BOM encoding
+    // Avoid Unexpected token error at JSON.parse()
+    let content = stripBom(await fs.readFile(filePath, { encoding: "utf-8" }));
+    content = expandEnvironmentVariable(content);
+    const notExpandedVars = getEnvironmentVariables(content);
+    if (notExpandedVars.length > 0) {
+      return err(
+        new MissingEnvironmentVariablesError("teamsApp", notExpandedVars.join(","), filePath)
+      );
+    }
+    try {
+      return ok(JSON.parse(content) as ILocalizationFile);
+    } catch (e) {
+      return err(new JSONSyntaxError(filePath, e, "teamsApp"));
+    }
+  }
+
+  /**
+   * Compare the keys of the localization file with the localizable fields in the manifest
+   */
+  public checkTranslationKeys(
+    manifest: TeamsAppManifest,
+    localization: ILocalizationFile
+  ): TranslationKeyCheckResult {
+    const keys = Object.keys(localization).filter((key) => key !== "$schema");
+    const fields = new Map<string, boolean>();
+    for (const field of localizableFields) {
+      for (const key of this.expandPath(manifest, field.path)) {
+        fields.set(key, field.optional ?? false);
+      }
+    }
+    const missing = [...fields.entries()]
+      .filter(([key, optional]) => !optional && !keys.includes(key))
+      .map(([key]) => key);
+    const extra = keys.filter((key) => !fields.has(key));
+    return { missing, extra };
+  }
+
+  /**
+   * Messages of the missing and extra translation keys, empty if the keys match the manifest
+   */
+  public getTranslationKeyWarnings(
+    manifest: TeamsAppManifest,
+    localization: ILocalizationFile,
+    file: string
+  ): string[] {
+    const { missing, extra } = this.checkTranslationKeys(manifest, localization);
+    const warnings: string[] = [];
+    if (missing.length > 0) {
+      warnings.push(
+        getLocalizedString("driver.teamsApp.localization.missingKeys", file, missing.join(", "))
+      );
+    }
+    if (extra.length > 0) {
+      warnings.push(
+        getLocalizedString("driver.teamsApp.localization.extraKeys", file, extra.join(", "))
+      );
+    }
+    return warnings;
+  }
+
+  // e.g. "staticTabs[].name" -> ["staticTabs[0].name", "staticTabs[1].name"] for the string values in the manifest
+  private expandPath(value: unknown, fieldPath: string, prefix = ""): string[] {
+    if (fieldPath === "") {
+      return typeof value === "string" || typeof value === "number" ? [prefix] : [];
+    }
+    if (value === null || typeof value !== "object") {
+      return [];
+    }
+    const [segment, ...rest] = fieldPath.split(".");
+    const remaining = rest.join(".");
+    const property = segment.endsWith("[]") ? segment.slice(0, -2) : segment;
+    const child = (value as Record<string, unknown>)[property];
+    const childPrefix = prefix ? `${prefix}.${property}` : property;
+    if (!segment.endsWith("[]")) {
+      return this.expandPath(child, remaining, childPrefix);
+    }
+    if (!Array.isArray(child)) {
+      return [];
+    }
+    const keys: string[] = [];
+    child.forEach((item, index) => {
+      keys.push(...this.expandPath(item, remaining, `${childPrefix}[${index}]`));
+    });
+    return keys;
+  }
+}
+
+export const localizationUtils = new LocalizationUtils();
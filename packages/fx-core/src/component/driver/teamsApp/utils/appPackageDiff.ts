@@ -0,0 +1,213 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import AdmZip from "adm-zip";
+import { createHash } from "crypto";
+import { isEqual, isPlainObject } from "lodash";
+import { Constants } from "../constants";
+
+export type ManifestChangeKind = "added" | "removed" | "modified";
+
+/**
+ * A difference between the app package registered in Teams Developer Portal and the local one.
+ * `added` means the local package has something that the remote one doesn't.
+ */
+export interface ManifestChange {
+  /**
+   * manifest.json, an icon, or the localization file of a language, e.g. "localization[fr]"
+   */
+  file: string;
+  /**
+   * the JSON path of the changed field, empty for the whole file
+   */
+  path: string;
+  kind: ManifestChangeKind;
+  remote?: unknown;
+  local?: unknown;
+}
+
+// array items with these keys are matched by the key instead of the index, in this order
+const identityKeys = ["id", "entityId", "botId", "languageTag", "name"];
+
+// these fields reference files in the package, which are compared by content instead
+const fileReferencePaths = [
+  /^icons\.(color|outline)$/,
+  /^localizationInfo\.defaultLanguageFile$/,
+  /^localizationInfo\.additionalLanguages\[[^\]]+\]\.file$/,
+];
+
+interface AppPackageContent {
+  manifest: any;
+  files: Map<string, Buffer>;
+}
+
+/**
+ * Compare the remote app package with the local one semantically: the order of object keys is ignored,
+ * array items are matched by their id when they have one, and icons and localization files are compared by content.
+ * @param remote the zipped app package downloaded from Teams Developer Portal
+ * @param local the zipped local app package, with placeholders resolved
+ */
+export function diffAppPackage(remote: Buffer, local: Buffer): ManifestChange[] {
+  const remoteContent = readAppPackage(remote);
+  const localContent = readAppPackage(local);
+  const changes = diffJson(remoteContent.manifest, localContent.manifest).map((change) => ({
+    file: Constants.MANIFEST_FILE,
+    ...change,
+  }));
+
+  for (const icon of ["color", "outline"]) {
+    const remoteIcon = getFile(remoteContent, remoteContent.manifest?.icons?.[icon]);
+    const localIcon = getFile(localContent, localContent.manifest?.icons?.[icon]);
+    const kind = diffFile(remoteIcon, localIcon);
+    if (kind) {
+      changes.push({ file: `icons.${icon}`, path: "", kind });
+    }
+  }
+
+  const remoteLanguages = getLanguageFiles(remoteContent);
+  const localLanguages = getLanguageFiles(localContent);
+  for (const language of new Set([...remoteLanguages.keys(), ...localLanguages.keys()])) {
+    const file = `localization[${language}]`;
+    const remoteFile = remoteLanguages.get(language);
+    const localFile = localLanguages.get(language);
+    if (!remoteFile || !localFile) {
+      const kind = diffFile(remoteFile, localFile);
+      if (kind) {
+        changes.push({ file, path: "", kind });
+      }
+      continue;
+    }
+    for (const change of diffJson(parseJson(remoteFile), parseJson(localFile))) {
+      changes.push({ file, ...change });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Semantic diff of two JSON values.
+ */
+export function diffJson(
+  remote: unknown,
+  local: unknown,
+  path = ""
+): Omit<ManifestChange, "file">[] {
+  if (fileReferencePaths.some((reg) => reg.test(path))) {
+    return [];
+  }
+  if (isEqual(remote, local)) {
+    return [];
+  }
+  if (remote === undefined) {
+    return [{ path, kind: "added", local }];
+  }
+  if (local === undefined) {
+    return [{ path, kind: "removed", remote }];
+  }
+  if (isPlainObject(remote) && isPlainObject(local)) {
+    const remoteObj = remote as Record<string, unknown>;
+    const localObj = local as Record<string, unknown>;
+    const keys = new Set([...Object.keys(remoteObj), ...Object.keys(localObj)]);
+    const changes: Omit<ManifestChange, "file">[] = [];
+    for (const key of keys) {
+      changes.push(...diffJson(remoteObj[key], localObj[key], path ? `${path}.${key}` : key));
+    }
+    return changes;
+  }
+  if (Array.isArray(remote) && Array.isArray(local)) {
+    const remoteItems = indexArray(remote);
+    const localItems = indexArray(local);
+    const changes: Omit<ManifestChange, "file">[] = [];
+    for (const key of new Set([...remoteItems.keys(), ...localItems.keys()])) {
+      changes.push(...diffJson(remoteItems.get(key), localItems.get(key), `${path}[${key}]`));
+    }
+    return changes;
+  }
+  return [{ path, kind: "modified", remote, local }];
+}
+
+/**
+ * e.g. `~ manifest.json: name.short: "App" -> "My App"`
+ */
+export function formatManifestChange(change: ManifestChange): string {
+  const sign = change.kind === "added" ? "+" : change.kind === "removed" ? "-" : "~";
+  const target = change.path ? `${change.file}: ${change.path}` : change.file;
+  if (change.path === "" || (change.kind === "modified" && typeof change.remote === "object")) {
+    return `${sign} ${target}`;
+  }
+  const value =
+    change.kind === "added"
+      ? JSON.stringify(change.local)
+      : change.kind === "removed"
+      ? JSON.stringify(change.remote)
+      : `${JSON.stringify(change.remote)} -> ${JSON.stringify(change.local)}`;
+  return `${sign} ${target}: ${value}`;
+}
+
+// index array items by their identity key if every item has it, otherwise by position
+function indexArray(items: unknown[]): Map<string, unknown> {
+  const identityKey = identityKeys.find(
+    (key) =>
+      items.length > 0 &&
+      items.every((item) => isPlainObject(item) && typeof (item as any)[key] === "string")
+  );
+  const indexed = new Map<string, unknown>();
+  items.forEach((item, index) => {
+    indexed.set(
+      identityKey ? `${identityKey}=${(item as any)[identityKey] as string}` : `${index}`,
+      item
+    );
+  });
+  return indexed;
+}
+
+function readAppPackage(archivedFile: Buffer): AppPackageContent {
+  const files = new Map<string, Buffer>();
+  for (const entry of new AdmZip(archivedFile).getEntries()) {
+    if (!entry.isDirectory) {
+      files.set(entry.entryName.toLowerCase(), entry.getData());
+    }
+  }
+  const manifestFile = files.get(Constants.MANIFEST_FILE);
+  return { manifest: manifestFile ? parseJson(manifestFile) : {}, files };
+}
+
+function getFile(content: AppPackageContent, fileName?: string): Buffer | undefined {
+  return typeof fileName === "string"
+    ? content.files.get(fileName.replace(/\\/g, "/").toLowerCase())
+    : undefined;
+}
+
+// localization files by language tag, the default language file is "default"
+function getLanguageFiles(content: AppPackageContent): Map<string, Buffer> {
+  const languages = new Map<string, Buffer>();
+  const localizationInfo = content.manifest?.localizationInfo;
+  const defaultFile = getFile(content, localizationInfo?.defaultLanguageFile);
+  if (defaultFile) {
+    languages.set("default", defaultFile);
+  }
+  for (const language of localizationInfo?.additionalLanguages ?? []) {
+    const file = getFile(content, language?.file);
+    if (file && typeof language.languageTag === "string") {
+      languages.set(language.languageTag, file);
+    }
+  }
+  return languages;
+}
+
+function diffFile(remote?: Buffer, local?: Buffer): ManifestChangeKind | undefined {
+  if (!remote && !local) {
+    return undefined;
+  } else if (!remote) {
+    return "added";
+  } else if (!local) {
+    return "removed";
+  }
+  const hash = (data: Buffer) => createHash("sha256").update(data).digest("hex");
+  return hash(remote) === hash(local) ? undefined : "modified";
+}
+
+function parseJson(data: Buffer): unknown {
+  // Developer Portal may add a BOM to the files in the package
+  return JSON.parse(data.toString("utf8").replace(/^\uFEFF/, ""));
+}
@@ -1,11 +1,22 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { Result, FxError, ok, err, Platform, ManifestUtil, Colors } from "@microsoft/teamsfx-api";
+import {
+  Result,
+  FxError,
+  ok,
+  err,
+  Platform,
+  ManifestUtil,
+  Colors,
+  LintConfig,
+} from "@microsoft/teamsfx-api";
 import { hooks } from "@feathersjs/hooks/lib";
 import { Service } from "typedi";
 import { EOL } from "os";
+import fs from "fs-extra";
 import { merge } from "lodash";
+import * as path from "path";
 import { StepDriver, ExecutionResult } from "../interface/stepDriver";
 import { DriverContext } from "../interface/commonArgs";
 import { WrapDriverContext } from "../util/wrapUtil";
@@ -15,11 +26,18 @@ import { TelemetryPropertyKey } from "./utils/telemetry";
 import { AppStudioResultFactory } from "./results";
 import { AppStudioError } from "./errors";
 import { manifestUtils } from "./utils/ManifestUtils";
+import { localizationUtils } from "./utils/LocalizationUtils";
 import { getDefaultString, getLocalizedString } from "../../../common/localizeUtils";
 import { HelpLinks } from "../../../common/constants";
 import { getAbsolutePath } from "../../utils/common";
 import { SummaryConstant } from "../../configManager/constant";
-import { InvalidActionInputError } from "../../../error/common";
+import {
+  FileNotFoundError,
+  InputValidationError,
+  InvalidActionInputError,
+  JSONSyntaxError,
+} from "../../../error/common";
+import { Constants } from "./constants";
 
 const actionName = "teamsApp/validateManifest";
 
@@ -51,19 +69,37 @@ export class ValidateManifestDriver implements StepDriver {
     if (result.isErr()) {
       return err(result.error);
     }
-    const manifestRes = await manifestUtils.getManifestV3(
-      getAbsolutePath(args.manifestPath, context.projectPath),
-      context
-    );
+    const manifestPath = getAbsolutePath(args.manifestPath, context.projectPath);
+    let lintConfig: LintConfig | undefined = undefined;
+    if (args.lint || args.fix) {
+      const lintConfigRes = await this.loadLintConfig(args, context);
+      if (lintConfigRes.isErr()) {
+        return err(lintConfigRes.error);
+      }
+      lintConfig = lintConfigRes.value;
+    }
+    if (args.fix) {
+      // fix the manifest template, so the placeholders are kept
+      const fixRes = await this.fixManifest(manifestPath, lintConfig, context);
+      if (fixRes.isErr()) {
+        return err(fixRes.error);
+      }
+    }
+    const manifestRes = await manifestUtils.getManifestV3(manifestPath, context);
     if (manifestRes.isErr()) {
       return err(manifestRes.error);
     }
     const manifest = manifestRes.value;
 
+    const schemaOptions = {
+      schemaDirectory: args.schemaDirectory
+        ? getAbsolutePath(args.schemaDirectory, context.projectPath)
+        : undefined,
+    };
     let validationResult;
     if (manifest.$schema) {
       try {
-        validationResult = await ManifestUtil.validateManifest(manifest);
+        validationResult = await ManifestUtil.validateManifest(manifest, schemaOptions);
       } catch (e: any) {
         return err(
           AppStudioResultFactory.UserError(
@@ -91,6 +127,62 @@ export class ValidateManifestDriver implements StepDriver {
       );
     }
 
+    // localization files, the placeholders are resolved before validation
+    for (const language of localizationUtils.getLanguageFiles(manifest)) {
+      const localizationRes = await localizationUtils.readLocalizationFile(
+        path.resolve(path.dirname(manifestPath), language.file)
+      );
+      if (localizationRes.isErr()) {
+        return err(localizationRes.error);
+      }
+      const localization = localizationRes.value;
+      for (const warning of localizationUtils.getTranslationKeyWarnings(
+        manifest,
+        localization,
+        language.file
+      )) {
+        context.logProvider.warning(warning);
+      }
+      if (!localization.$schema) {
+        continue;
+      }
+      try {
+        const errors = await ManifestUtil.validateLocalization(localization, schemaOptions);
+        validationResult.push(...errors.map((error) => `${language.file}: ${error}`));
+      } catch (e: any) {
+        return err(
+          AppStudioResultFactory.UserError(
+            AppStudioError.ValidationFailedError.name,
+            AppStudioError.ValidationFailedError.message([
+              getLocalizedString(
+                "error.appstudio.validateFetchSchemaFailed",
+                localization.$schema,
+                e.message
+              ),
+            ]),
+            HelpLinks.WhyNeedProvision
+          )
+        );
+      }
+    }
+
+    if (lintConfig) {
+      let lintResult;
+      try {
+        lintResult = ManifestUtil.lintManifest(manifest, { config: lintConfig });
+      } catch (e: any) {
+        return err(new InputValidationError("lintConfig", e.message, actionName));
+      }
+      for (const problem of lintResult.problems) {
+        const message = `[${problem.ruleId}] ${problem.message}`;
+        if (problem.severity === "error") {
+          validationResult.push(message);
+        } else {
+          context.logProvider.warning(message);
+        }
+      }
+    }
+
     if (validationResult.length > 0) {
       const summaryStr = getLocalizedString(
         "driver.teamsApp.summary.validate.failed",
@@ -194,6 +286,59 @@ export class ValidateManifestDriver implements StepDriver {
     }
   }
 
+  private async loadLintConfig(
+    args: ValidateManifestArgs,
+    context: WrapDriverContext
+  ): Promise<Result<LintConfig, FxError>> {
+    const configPath = getAbsolutePath(
+      args.lintConfig ?? Constants.LINT_CONFIG_FILE,
+      context.projectPath
+    );
+    if (!(await fs.pathExists(configPath))) {
+      return args.lintConfig
+        ? err(new FileNotFoundError(actionName, configPath))
+        : ok({} as LintConfig);
+    }
+    try {
+      return ok((await fs.readJson(configPath)) as LintConfig);
+    } catch (e) {
+      return err(new JSONSyntaxError(configPath, e, actionName));
+    }
+  }
+
+  private async fixManifest(
+    manifestPath: string,
+    lintConfig: LintConfig | undefined,
+    context: WrapDriverContext
+  ): Promise<Result<undefined, FxError>> {
+    const manifestRes = await manifestUtils._readAppManifest(manifestPath);
+    if (manifestRes.isErr()) {
+      return err(manifestRes.error);
+    }
+    let lintResult;
+    try {
+      lintResult = ManifestUtil.lintManifest(manifestRes.value, { config: lintConfig, fix: true });
+    } catch (e: any) {
+      return err(new InputValidationError("lintConfig", e.message, actionName));
+    }
+    if (lintResult.fixed.length === 0) {
+      return ok(undefined);
+    }
+    const writeRes = await manifestUtils._writeAppManifest(lintResult.manifest, manifestPath);
+    if (writeRes.isErr()) {
+      return err(writeRes.error);
+    }
+    for (const problem of lintResult.fixed) {
+      context.logProvider.info(
+        getLocalizedString("driver.teamsApp.lint.fixed", `[${problem.ruleId}] ${problem.message}`)
+      );
+    }
+    context.addSummary(
+      getLocalizedString("driver.teamsApp.summary.lintFixed", lintResult.fixed.length, manifestPath)
+    );
+    return ok(undefined);
+  }
+
   private validateArgs(args: ValidateManifestArgs): Result<any, FxError> {
     if (!args || !args.manifestPath) {
       return err(
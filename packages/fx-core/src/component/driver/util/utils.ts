@@ -26,3 +26,12 @@ export function mapStateToEnv(
   }
   return result;
 }
+
+// Map every output to an empty string, used to clear the env file after the resources are deleted
+export function clearStateInEnv(outputEnvVarNames: Map<string, string>): Map<string, string> {
+  const result = new Map<string, string>();
+  for (const envVarName of outputEnvVarNames.values()) {
+    result.set(envVarName, "");
+  }
+  return result;
+}
@@ -23,6 +23,7 @@ import {
   IMessagingExtensionCommand,
   SystemError,
   Inputs,
+  TeamsAppInputs,
 } from "@microsoft/teamsfx-api";
 import axios, { AxiosResponse } from "axios";
 import { sendRequestWithRetry } from "../utils";
@@ -81,7 +82,6 @@ export const copilotPluginParserOptions: ParseOptions = {
   allowOauth2: true,
   projectType: ProjectType.Copilot,
   allowMissingId: true,
-  allowSwagger: true,
   allowMethods: ["get", "post", "put", "delete"],
 };
 
@@ -106,6 +106,13 @@ export interface ErrorResult {
   data?: any;
 }
 
+export interface SpecSyncInputs extends TeamsAppInputs {
+  /**
+   * path or url of the latest API specification file to sync with
+   */
+  "spec-path"?: string;
+}
+
 export class OpenAIPluginManifestHelper {
   static async loadOpenAIPluginManifest(input: string): Promise<OpenAIPluginManifest> {
     input = input.trim();
@@ -711,8 +718,6 @@ function formatValidationErrorContent(error: ApiSpecErrorResult): string {
         return error.content;
       case ErrorType.Cancelled:
         return getLocalizedString("core.common.CancelledMessage");
-      case ErrorType.SwaggerNotSupported:
-        return getLocalizedString("core.common.SwaggerNotSupported");
 
       default:
         return error.content;
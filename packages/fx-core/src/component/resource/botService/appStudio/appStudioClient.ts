@@ -51,11 +51,7 @@ export class AppStudioClient {
     accessToken = CheckThrowSomethingMissing(ConfigNames.APPSTUDIO_TOKEN, accessToken);
     const instance = WrappedAxiosClient.create({
       headers: {
-        post: {
-          Authorization: `Bearer ${accessToken}`,
-          "Client-Source": "teamstoolkit",
-        },
-        get: {
+        common: {
           Authorization: `Bearer ${accessToken}`,
           "Client-Source": "teamstoolkit",
         },
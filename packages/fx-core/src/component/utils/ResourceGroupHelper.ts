@@ -16,6 +16,7 @@ import { TOOLS } from "../../core/globalVars";
 import {
   CheckResourceGroupExistenceError,
   CreateResourceGroupError,
+  DeleteResourceGroupError,
   GetResourceGroupError,
   InvalidAzureCredentialError,
   ListResourceGroupLocationsError,
@@ -28,6 +29,8 @@ import { traverse } from "../../ui/visitor";
 import { SolutionSource } from "../constants";
 
 const MsResources = "Microsoft.Resources";
+const createdByTag = "created-by";
+const createdByTeamsFx = "teamsfx";
 const ResourceGroups = "resourceGroups";
 
 export type ResourceGroupInfo = {
@@ -88,7 +91,7 @@ class ResourceGroupHelper {
     try {
       const response = await rmClient.resourceGroups.createOrUpdate(resourceGroupName, {
         location: location,
-        tags: { "created-by": "teamsfx" },
+        tags: { [createdByTag]: createdByTeamsFx },
       });
       if (response.name === undefined) {
         return err(
@@ -113,6 +116,42 @@ class ResourceGroupHelper {
     }
   }
 
+  /**
+   * Delete a resource group created by Teams Toolkit, i.e. tagged with "created-by": "teamsfx".
+   * Resource groups that don't exist or were created in other ways are left untouched.
+   * @returns whether the resource group is deleted
+   */
+  async deleteResourceGroup(
+    resourceGroupName: string,
+    rmClient: ResourceManagementClient
+  ): Promise<Result<boolean, FxError>> {
+    const maybeExist = await this.checkResourceGroupExistence(resourceGroupName, rmClient);
+    if (maybeExist.isErr()) {
+      return err(maybeExist.error);
+    }
+    if (!maybeExist.value) {
+      return ok(false);
+    }
+    try {
+      const resourceGroup = await rmClient.resourceGroups.get(resourceGroupName);
+      if (resourceGroup.tags?.[createdByTag] !== createdByTeamsFx) {
+        return ok(false);
+      }
+      await rmClient.resourceGroups.beginDeleteAndWait(resourceGroupName);
+      return ok(true);
+    } catch (e: any) {
+      delete e["request"];
+      return err(
+        new DeleteResourceGroupError(
+          resourceGroupName,
+          rmClient.subscriptionId,
+          e.message || JSON.stringify(e),
+          e
+        )
+      );
+    }
+  }
+
   async checkResourceGroupExistence(
     resourceGroupName: string,
     rmClient: ResourceManagementClient
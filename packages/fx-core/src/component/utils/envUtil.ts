@@ -15,6 +15,8 @@ import { createHash } from "crypto";
 import { FileNotFoundError } from "../../error/common";
 import { internalOutputNames as UpdateTeamsAppOutputNames } from "../driver/teamsApp/configure";
 import { environmentNameManager } from "../../core/environmentName";
+import { secretProviderRegistry } from "./secretProvider";
+import { getEnvironmentVariables } from "./common";
 
 export type DotenvOutput = {
   [k: string]: string;
@@ -75,28 +77,54 @@ class EnvUtil {
       await fs.readFile(dotEnvFilePath, { encoding: "utf8" })
     );
 
+    // secrets can also be resolved from the external store selected in .env.xxx
+    const secretProviderRes = secretProviderRegistry.create(projectPath, env, parseResult.obj);
+    if (secretProviderRes.isErr()) return err(secretProviderRes.error);
+    const secretProvider = secretProviderRes.value;
+
     // get .env.xxx.user path
     const dotEnvSecretFilePath = dotEnvFilePath + ".user";
-    let parseResultSecret;
+    const secrets: DotenvOutput = {};
+    let cryptoProvider: LocalCrypto | undefined;
     if (await fs.pathExists(dotEnvSecretFilePath)) {
-      // only need to decrypt the .env.xxx.user file
-      parseResultSecret = dotenvUtil.deserialize(
+      const parseResultSecret = dotenvUtil.deserialize(
         await fs.readFile(dotEnvSecretFilePath, { encoding: "utf8" })
       );
-      // decrypt
+      Object.assign(secrets, parseResultSecret.obj);
+      // only need to decrypt the .env.xxx.user file
       const settingsRes = await settingsUtil.readSettings(projectPath);
       if (settingsRes.isErr()) {
         return err(settingsRes.error);
       }
       const projectId = settingsRes.value.trackingId;
-      const cryptoProvider = new LocalCrypto(projectId);
-      for (const key of Object.keys(parseResultSecret.obj)) {
-        if (key.startsWith("SECRET_")) {
-          const raw = parseResultSecret.obj[key];
+      cryptoProvider = new LocalCrypto(projectId);
+    }
+    const providedSecretKeys = new Set<string>();
+    if (secretProvider) {
+      // .env.xxx.user may be absent with a provider, e.g. in CI, so secrets referenced in the yml file are resolved too
+      const keys = new Set([
+        ...Object.keys(secrets),
+        ...(await this.getDeclaredSecretKeys(projectPath, env)),
+      ]);
+      for (const key of keys) {
+        if (!key.startsWith("SECRET_")) continue;
+        const secretRes = await secretProvider.getSecret(key);
+        if (secretRes.isErr()) return err(secretRes.error);
+        if (secretRes.value !== undefined) {
+          secrets[key] = secretRes.value;
+          providedSecretKeys.add(key);
+        }
+      }
+    }
+    if (cryptoProvider) {
+      // decrypt
+      for (const key of Object.keys(secrets)) {
+        if (key.startsWith("SECRET_") && !providedSecretKeys.has(key)) {
+          const raw = secrets[key];
           if (raw.startsWith("crypto_")) {
             const decryptRes = cryptoProvider.decrypt(raw);
             if (decryptRes.isErr()) return err(decryptRes.error);
-            parseResultSecret.obj[key] = decryptRes.value;
+            secrets[key] = decryptRes.value;
           }
         }
       }
@@ -106,7 +134,7 @@ class EnvUtil {
     parseResult.obj.TEAMSFX_ENV = env;
     if (loadToProcessEnv) {
       // '.env.xxx' has higher priority than '.env.xxx.user'
-      if (parseResultSecret) this.mergeEnv(parseResult.obj, parseResultSecret.obj);
+      this.mergeEnv(parseResult.obj, secrets);
       // 'process.env' has higher priority than '.env.xxx'
       this.mergeEnv(process.env, parseResult.obj);
     }
@@ -131,6 +159,20 @@ class EnvUtil {
     return ok(parseResult.obj);
   }
 
+  /**
+   * SECRET_ variables referenced in the yml file of the environment
+   */
+  private async getDeclaredSecretKeys(projectPath: string, env: string): Promise<string[]> {
+    let ymlFilePath;
+    try {
+      ymlFilePath = pathUtils.getYmlFilePath(projectPath, env);
+    } catch {
+      return [];
+    }
+    const content = await fs.readFile(ymlFilePath, { encoding: "utf8" });
+    return getEnvironmentVariables(content).filter((key) => key.startsWith("SECRET_"));
+  }
+
   async loadEnvFile(dotEnvFilePath: string): Promise<Result<DotenvOutput, FxError>> {
     const parseResult = dotenvUtil.deserialize(
       await fs.readFile(dotEnvFilePath, { encoding: "utf8" })
@@ -166,29 +208,22 @@ class EnvUtil {
     envs: DotenvOutput
   ): Promise<Result<undefined, FxError>> {
     envs.TEAMSFX_ENV = env;
-    //encrypt
     const settingsRes = await settingsUtil.readSettings(projectPath);
     if (settingsRes.isErr()) {
       return err(settingsRes.error);
     }
     const projectId = settingsRes.value.trackingId;
-    const cryptoProvider = new LocalCrypto(projectId);
     const noneSecretEnv: DotenvOutput = {};
     const secretEnv: DotenvOutput = {};
     for (const key of Object.keys(envs)) {
-      let value = envs[key];
-      if (value && key.startsWith("SECRET_")) {
-        const res = cryptoProvider.encrypt(value);
-        if (res.isErr()) return err(res.error);
-        value = res.value;
-        // envs[key] = value;
-        secretEnv[key] = value;
+      if (key.startsWith("SECRET_")) {
+        secretEnv[key] = envs[key];
       } else if (key === UpdateTeamsAppOutputNames.teamsAppUpdateTime) {
         // Corner case: Avoid TEAMS_APP_UPDATE_TIME to be committed and cause merge conflict
         // Bug: 21970450
-        secretEnv[key] = value;
+        secretEnv[key] = envs[key];
       } else {
-        noneSecretEnv[key] = value;
+        noneSecretEnv[key] = envs[key];
       }
     }
 
@@ -206,6 +241,29 @@ class EnvUtil {
     const parsedDotenvSecret = envSecretFileExists
       ? dotenvUtil.deserialize(await fs.readFile(dotEnvSecretFilePath))
       : { obj: {} };
+
+    //encrypt, or save to the external store selected in .env.xxx
+    const secretProviderRes = secretProviderRegistry.create(projectPath, env, parsedDotenv.obj);
+    if (secretProviderRes.isErr()) return err(secretProviderRes.error);
+    const secretProvider = secretProviderRes.value;
+    const cryptoProvider = new LocalCrypto(projectId);
+    for (const key of Object.keys(secretEnv)) {
+      const value = secretEnv[key];
+      if (!key.startsWith("SECRET_")) {
+        continue;
+      }
+      if (secretProvider?.setSecret) {
+        const res = await secretProvider.setSecret(key, value);
+        if (res.isErr()) return err(res.error);
+        // the secret is still listed in the secret file so that it is resolved when reading
+        secretEnv[key] = "";
+      } else if (value) {
+        // empty secrets, e.g. cleared by destroy, are not encrypted but still kept in the secret file
+        const res = cryptoProvider.encrypt(value);
+        if (res.isErr()) return err(res.error);
+        secretEnv[key] = res.value;
+      }
+    }
     merge(parsedDotenv.obj, noneSecretEnv);
     merge(parsedDotenvSecret.obj, secretEnv);
 
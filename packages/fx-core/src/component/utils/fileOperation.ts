@@ -1,6 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
+import { createHash } from "crypto";
 import * as fs from "fs-extra";
 import klaw from "klaw";
 import AdmZip, { EntryHeader } from "adm-zip";
@@ -90,6 +91,57 @@ export async function zipFolderAsync(
   return fs.createReadStream(cache);
 }
 
+/**
+ * Asynchronously compute the sha256 hash of every file in a folder.
+ * Files are streamed, and at most `concurrency` of them are open at the same time.
+ * @param sourceDir base dir
+ * @param notIncluded block list, the same as zipFolderAsync
+ * @param concurrency max number of files hashed at the same time
+ * @returns hashes by the relative path of the file, separated by "/"
+ */
+export async function hashFolderAsync(
+  sourceDir: string,
+  notIncluded: Ignore,
+  concurrency = 16
+): Promise<Record<string, string>> {
+  const files: { filePath: string; zipPath: string }[] = [];
+  await forEachFileAndDir(
+    sourceDir,
+    (itemPath: string, stats: fs.Stats) => {
+      const relativePath: string = path.relative(sourceDir, itemPath);
+      if (relativePath && !stats.isDirectory()) {
+        const zipPath = path.normalize(relativePath).split("\\").join("/");
+        files.push({ filePath: itemPath, zipPath });
+      }
+    },
+    (itemPath: string) => {
+      return !notIncluded.test(path.relative(sourceDir, itemPath)).ignored;
+    }
+  );
+
+  const hashes: Record<string, string> = {};
+  let next = 0;
+  const worker = async () => {
+    while (next < files.length) {
+      const { filePath, zipPath } = files[next++];
+      hashes[zipPath] = await hashFileAsync(filePath);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+  return hashes;
+}
+
+function hashFileAsync(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      // resolved once the file is closed, so that no more than `concurrency` files are open
+      .on("close", () => resolve(hash.digest("hex")))
+      .on("error", (err) => reject(err));
+  });
+}
+
 export async function forEachFileAndDir(
   root: string,
   callback: (itemPath: string, stats: fs.Stats) => boolean | void,
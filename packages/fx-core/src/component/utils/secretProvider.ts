@@ -0,0 +1,277 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { err, FxError, ok, Result } from "@microsoft/teamsfx-api";
+import axios from "axios";
+import fs from "fs-extra";
+import * as path from "path";
+import { getLocalizedString } from "../../common/localizeUtils";
+import { TOOLS } from "../../core/globalVars";
+import {
+  HttpClientError,
+  HttpServerError,
+  InputValidationError,
+  JSONSyntaxError,
+  MissingEnvironmentVariablesError,
+} from "../../error/common";
+
+const source = "envUtil";
+const keyVaultScope = "https://vault.azure.net/.default";
+const keyVaultApiVersion = "7.4";
+
+/**
+ * Variables in `.env.{env}` that select and configure the secret provider of the environment.
+ * They are read from the file only, so that the provider of one environment doesn't leak to others via process.env.
+ */
+export const SecretProviderVariables = {
+  provider: "TEAMSFX_SECRET_PROVIDER",
+  file: "TEAMSFX_SECRET_FILE",
+  keyVaultEndpoint: "TEAMSFX_KEY_VAULT_ENDPOINT",
+};
+
+/**
+ * An external store of the `SECRET_` variables of an environment.
+ * The secrets listed in `.env.{env}.user` or referenced in the yml file are resolved from the provider,
+ * so `.env.{env}.user` is optional, e.g. in CI.
+ */
+export interface SecretProvider {
+  /**
+   * @returns the value of the secret, or undefined if the store doesn't have it
+   */
+  getSecret(key: string): Promise<Result<string | undefined, FxError>>;
+
+  /**
+   * Optional. Save the secret to the store. Read-only providers don't implement it, and the secret is encrypted
+   * into `.env.{env}.user` instead.
+   */
+  setSecret?(key: string, value: string): Promise<Result<undefined, FxError>>;
+}
+
+/**
+ * Create the secret provider of an environment.
+ * @param config variables in `.env.{env}`
+ */
+export type SecretProviderFactory = (
+  projectPath: string,
+  env: string,
+  config: Record<string, string>
+) => Result<SecretProvider, FxError>;
+
+/**
+ * Secrets are stored in a JSON file of key-value pairs, e.g. a file mounted by the CI system.
+ */
+export class FileSecretProvider implements SecretProvider {
+  constructor(private filePath: string) {}
+
+  async getSecret(key: string): Promise<Result<string | undefined, FxError>> {
+    const secrets = await this.readSecrets();
+    if (secrets.isErr()) {
+      return err(secrets.error);
+    }
+    return ok(secrets.value[key]);
+  }
+
+  async setSecret(key: string, value: string): Promise<Result<undefined, FxError>> {
+    const secrets = await this.readSecrets();
+    if (secrets.isErr()) {
+      return err(secrets.error);
+    }
+    secrets.value[key] = value;
+    await fs.ensureDir(path.dirname(this.filePath));
+    await fs.writeJSON(this.filePath, secrets.value, { spaces: 2 });
+    return ok(undefined);
+  }
+
+  private async readSecrets(): Promise<Result<Record<string, string>, FxError>> {
+    if (!(await fs.pathExists(this.filePath))) {
+      return ok({});
+    }
+    try {
+      return ok((await fs.readJSON(this.filePath)) as Record<string, string>);
+    } catch (e) {
+      if (e instanceof SyntaxError) {
+        return err(new JSONSyntaxError(this.filePath, e, source));
+      }
+      throw e;
+    }
+  }
+}
+
+/**
+ * Secrets are read from the environment variables with the same names, e.g. secrets of a CI pipeline.
+ */
+export class EnvSecretProvider implements SecretProvider {
+  getSecret(key: string): Promise<Result<string | undefined, FxError>> {
+    return Promise.resolve(ok(process.env[key]));
+  }
+}
+
+/**
+ * Secrets are stored in Azure Key Vault via its REST API. Names of Key Vault secrets can't contain underscores,
+ * so `SECRET_BOT_PASSWORD` is stored as `SECRET-BOT-PASSWORD`.
+ * The endpoint must be https, so that the token and the secrets are never sent in plain text.
+ */
+export class KeyVaultSecretProvider implements SecretProvider {
+  /**
+   * @param allowLocalHttp for tests only, allow an http endpoint on localhost as a local mock of Key Vault,
+   * and no token is sent to it
+   */
+  constructor(private endpoint: string, private allowLocalHttp = false) {}
+
+  async getSecret(key: string): Promise<Result<string | undefined, FxError>> {
+    const checkRes = this.checkEndpoint();
+    if (checkRes.isErr()) {
+      return err(checkRes.error);
+    }
+    try {
+      const response = await axios.get(this.secretUrl(key), {
+        headers: await this.headers(),
+      });
+      return ok(response.data?.value as string | undefined);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return ok(undefined);
+      }
+      return err(this.toFxError(error));
+    }
+  }
+
+  async setSecret(key: string, value: string): Promise<Result<undefined, FxError>> {
+    const checkRes = this.checkEndpoint();
+    if (checkRes.isErr()) {
+      return err(checkRes.error);
+    }
+    try {
+      await axios.put(this.secretUrl(key), { value }, { headers: await this.headers() });
+      return ok(undefined);
+    } catch (error) {
+      return err(this.toFxError(error));
+    }
+  }
+
+  private checkEndpoint(): Result<undefined, FxError> {
+    if (isHttpsUrl(this.endpoint) || this.isLocalMock()) {
+      return ok(undefined);
+    }
+    return err(keyVaultEndpointError(this.endpoint));
+  }
+
+  private isLocalMock(): boolean {
+    if (!this.allowLocalHttp) {
+      return false;
+    }
+    try {
+      const url = new URL(this.endpoint);
+      return url.protocol === "http:" && ["localhost", "127.0.0.1"].includes(url.hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  private secretUrl(key: string): string {
+    const name = key.replace(/_/g, "-");
+    return `${this.endpoint.replace(/\/+$/, "")}/secrets/${name}?api-version=${keyVaultApiVersion}`;
+  }
+
+  private async headers(): Promise<Record<string, string>> {
+    if (this.isLocalMock()) {
+      return {};
+    }
+    const credential = await TOOLS.tokenProvider.azureAccountProvider.getIdentityCredentialAsync();
+    const token = await credential?.getToken(keyVaultScope);
+    return token ? { Authorization: `Bearer ${token.token}` } : {};
+  }
+
+  private toFxError(error: unknown): FxError {
+    if (axios.isAxiosError(error) && error.response) {
+      const message = JSON.stringify(error.response.data);
+      return error.response.status < 500
+        ? new HttpClientError(error, "keyVault", message)
+        : new HttpServerError(error, "keyVault", message);
+    }
+    return new HttpServerError(
+      error,
+      "keyVault",
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+function keyVaultEndpointError(endpoint: string): FxError {
+  return new InputValidationError(
+    SecretProviderVariables.keyVaultEndpoint,
+    getLocalizedString("core.secretProvider.keyVaultEndpointNotHttps", endpoint),
+    source
+  );
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+class SecretProviderRegistry {
+  private factories = new Map<string, SecretProviderFactory>();
+
+  constructor() {
+    this.register("file", (projectPath, env, config) => {
+      const filePath = config[SecretProviderVariables.file];
+      if (!filePath) {
+        return err(new MissingEnvironmentVariablesError(source, SecretProviderVariables.file));
+      }
+      return ok(new FileSecretProvider(path.resolve(projectPath, filePath)));
+    });
+    this.register("env", () => ok(new EnvSecretProvider()));
+    this.register("keyvault", (projectPath, env, config) => {
+      const endpoint = config[SecretProviderVariables.keyVaultEndpoint];
+      if (!endpoint) {
+        return err(
+          new MissingEnvironmentVariablesError(source, SecretProviderVariables.keyVaultEndpoint)
+        );
+      }
+      if (!isHttpsUrl(endpoint)) {
+        return err(keyVaultEndpointError(endpoint));
+      }
+      return ok(new KeyVaultSecretProvider(endpoint));
+    });
+  }
+
+  /**
+   * Register a secret provider, which can then be selected by `TEAMSFX_SECRET_PROVIDER=<name>` in `.env.{env}`.
+   */
+  register(name: string, factory: SecretProviderFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  /**
+   * Create the secret provider selected in `.env.{env}`.
+   * @returns undefined if no provider is selected, i.e. secrets are encrypted into `.env.{env}.user` by LocalCrypto
+   */
+  create(
+    projectPath: string,
+    env: string,
+    config: Record<string, string>
+  ): Result<SecretProvider | undefined, FxError> {
+    const name = config[SecretProviderVariables.provider];
+    if (!name || name === "local") {
+      return ok(undefined);
+    }
+    const factory = this.factories.get(name);
+    if (!factory) {
+      const supported = ["local", ...this.factories.keys()].join(", ");
+      return err(
+        new InputValidationError(
+          SecretProviderVariables.provider,
+          getLocalizedString("core.secretProvider.unsupportedProvider", name, supported),
+          source
+        )
+      );
+    }
+    return factory(projectPath, env, config);
+  }
+}
+
+export const secretProviderRegistry = new SecretProviderRegistry();
@@ -15,6 +15,7 @@ import {
   IQTreeNode,
   Inputs,
   InputsWithProjectPath,
+  ManifestUpgradeResult,
   ManifestUtil,
   OpenAIPluginManifest,
   Platform,
@@ -22,6 +23,7 @@ import {
   Result,
   Stage,
   TeamsAppInputs,
+  TeamsAppManifest,
   Tools,
   err,
   ok,
@@ -41,7 +43,7 @@ import { LaunchHelper } from "../common/m365/launchHelper";
 import { ListCollaboratorResult, PermissionsResult } from "../common/permissionInterface";
 import { isValidProjectV2, isValidProjectV3 } from "../common/projectSettingsHelper";
 import { ProjectTypeResult, projectTypeChecker } from "../common/projectTypeChecker";
-import { SpecParser, SpecParserError } from "@microsoft/m365-spec-parser";
+import { SpecParser, SpecParserError, SyncResult } from "@microsoft/m365-spec-parser";
 import { TelemetryEvent, fillinProjectTypeProperties } from "../common/telemetry";
 import { MetadataV3, VersionSource, VersionState } from "../common/versionMetadata";
 import { ILifecycle, LifecycleName } from "../component/configManager/interface";
@@ -67,7 +69,12 @@ import { CreateAppPackageArgs } from "../component/driver/teamsApp/interfaces/Cr
 import { ValidateAppPackageArgs } from "../component/driver/teamsApp/interfaces/ValidateAppPackageArgs";
 import { ValidateManifestArgs } from "../component/driver/teamsApp/interfaces/ValidateManifestArgs";
 import { ValidateWithTestCasesArgs } from "../component/driver/teamsApp/interfaces/ValidateWithTestCasesArgs";
-import { teamsappMgr } from "../component/driver/teamsApp/teamsappMgr";
+import {
+  ManifestDiffResult,
+  ManifestUpgradeInputs,
+  teamsappMgr,
+  ValidateManifestInputs,
+} from "../component/driver/teamsApp/teamsappMgr";
 import { manifestUtils } from "../component/driver/teamsApp/utils/ManifestUtils";
 import {
   containsUnsupportedFeature,
@@ -80,6 +87,7 @@ import { SSO } from "../component/feature/sso";
 import {
   ErrorResult,
   OpenAIPluginManifestHelper,
+  SpecSyncInputs,
   convertSpecParserErrorToFxError,
   copilotPluginParserOptions,
   generateScaffoldingSummary,
@@ -100,6 +108,7 @@ import { settingsUtil } from "../component/utils/settingsUtil";
 import {
   FileNotFoundError,
   InjectAPIKeyActionFailedError,
+  InputValidationError,
   InvalidProjectError,
   MissingRequiredInputError,
   MultipleAuthError,
@@ -255,6 +264,33 @@ export class FxCore {
       return err(res.error);
     }
   }
+  /**
+   * lifecycle commands: destroy
+   */
+  @hooks([
+    ErrorContextMW({ component: "FxCore", stage: "destroy", reset: true }),
+    ErrorHandlerMW,
+    ProjectMigratorMWV3,
+    EnvLoaderMW(false),
+    ConcurrentLockerMW,
+    ContextInjectorMW,
+    EnvWriterMW,
+  ])
+  async destroyResources(
+    inputs: Inputs,
+    ctx?: CoreHookContext
+  ): Promise<Result<undefined, FxError>> {
+    const context = createDriverContext(inputs);
+    const res = await coordinator.destroy(context, inputs as InputsWithProjectPath);
+    if (res.isOk()) {
+      ctx!.envVars = res.value;
+      return ok(undefined);
+    } else {
+      // for partial success scenario, output is set in inputs object
+      ctx!.envVars = inputs.envVars;
+      return err(res.error);
+    }
+  }
   @hooks([ErrorContextMW({ component: "FxCore", stage: "localDebug", reset: true })])
   async localDebug(inputs: Inputs): Promise<Result<undefined, FxError>> {
     inputs.env = environmentNameManager.getLocalEnvName();
@@ -471,7 +507,7 @@ export class FxCore {
     ErrorContextMW({ component: "FxCore", stage: "validateTeamsAppCLIV3", reset: true }),
     ErrorHandlerMW,
   ])
-  async validateTeamsAppCLIV3(inputs: TeamsAppInputs): Promise<Result<undefined, FxError>> {
+  async validateTeamsAppCLIV3(inputs: ValidateManifestInputs): Promise<Result<undefined, FxError>> {
     const res = await teamsappMgr.validateTeamsApp(inputs);
     return res;
   }
@@ -500,6 +536,32 @@ export class FxCore {
     const res = await teamsappMgr.publishTeamsApp(inputs);
     return res;
   }
+  /******
+   * CLI v3 commands
+   */
+  @hooks([
+    ErrorContextMW({ component: "FxCore", stage: "diffTeamsAppManifestCLIV3", reset: true }),
+    ErrorHandlerMW,
+  ])
+  async diffTeamsAppManifestCLIV3(
+    inputs: TeamsAppInputs
+  ): Promise<Result<ManifestDiffResult, FxError>> {
+    const res = await teamsappMgr.diffTeamsApp(inputs);
+    return res;
+  }
+  /******
+   * CLI v3 commands
+   */
+  @hooks([
+    ErrorContextMW({ component: "FxCore", stage: "upgradeTeamsAppManifestCLIV3", reset: true }),
+    ErrorHandlerMW,
+  ])
+  async upgradeTeamsAppManifestCLIV3(
+    inputs: ManifestUpgradeInputs
+  ): Promise<Result<ManifestUpgradeResult<TeamsAppManifest>, FxError>> {
+    const res = await teamsappMgr.upgradeManifest(inputs);
+    return res;
+  }
 
   /**
    * v3 only none lifecycle command
@@ -1382,6 +1444,98 @@ export class FxCore {
     return ok(undefined);
   }
 
+  /******
+   * CLI v3 commands
+   */
+  @hooks([
+    ErrorContextMW({ component: "FxCore", stage: "syncApiSpecCLIV3", reset: true }),
+    ErrorHandlerMW,
+  ])
+  async syncApiSpecCLIV3(inputs: SpecSyncInputs): Promise<Result<SyncResult, FxError>> {
+    const specPath = inputs["spec-path"];
+    if (!specPath) {
+      return err(new MissingRequiredInputError("spec-path", "FxCore"));
+    }
+    const manifestPath =
+      inputs["manifest-file"] || manifestUtils.getTeamsAppManifestPath(inputs.projectPath);
+    const manifestRes = await manifestUtils._readAppManifest(manifestPath);
+    if (manifestRes.isErr()) {
+      return err(manifestRes.error);
+    }
+    const apiSpecificationFile = manifestRes.value.composeExtensions?.find(
+      (extension) => extension.composeExtensionType === "apiBased"
+    )?.apiSpecificationFile;
+    if (!apiSpecificationFile) {
+      return err(
+        new InputValidationError(
+          "manifest-file",
+          getLocalizedString("core.copilot.syncAPI.noApiSpecificationFile", manifestPath),
+          "FxCore"
+        )
+      );
+    }
+    const outputAPISpecPath = path.join(path.dirname(manifestPath), apiSpecificationFile);
+    const adaptiveCardFolder = path.join(
+      inputs.projectPath,
+      AppPackageFolderName,
+      ResponseTemplatesFolderName
+    );
+
+    const context = createContextV3();
+    let syncResult: SyncResult;
+    try {
+      const specParser = new SpecParser(specPath, {
+        allowAPIKeyAuth: isApiKeyEnabled(),
+        allowMultipleParameters: isMultipleParametersEnabled(),
+      });
+      syncResult = await specParser.sync(manifestPath, outputAPISpecPath, adaptiveCardFolder);
+    } catch (e) {
+      let error: FxError;
+      if (e instanceof SpecParserError) {
+        error = convertSpecParserErrorToFxError(e);
+      } else {
+        error = assembleError(e);
+      }
+      return err(error);
+    }
+
+    const { removed, changed } = syncResult.diff;
+    const lines = [getLocalizedString("core.copilot.syncAPI.success", outputAPISpecPath, specPath)];
+    if (removed.length > 0) {
+      lines.push(getLocalizedString("core.copilot.syncAPI.removed", removed.join(", ")));
+    }
+    if (changed.length > 0) {
+      lines.push(getLocalizedString("core.copilot.syncAPI.changed", changed.join(", ")));
+    }
+    if (removed.length + changed.length === 0) {
+      lines.push(getLocalizedString("core.copilot.syncAPI.noChange"));
+    }
+    if (syncResult.notSelected.length > 0) {
+      lines.push(
+        getLocalizedString("core.copilot.syncAPI.notSelected", syncResult.notSelected.join(", "))
+      );
+    }
+    if (syncResult.preservedCards.length > 0) {
+      lines.push(
+        getLocalizedString(
+          "core.copilot.syncAPI.preservedCards",
+          syncResult.preservedCards.join(", ")
+        )
+      );
+    }
+    void context.userInteraction.showMessage("info", lines.join("\n"), false);
+
+    if (syncResult.warnings.length > 0) {
+      const warnSummary = generateScaffoldingSummary(
+        syncResult.warnings,
+        manifestRes.value,
+        inputs.projectPath
+      );
+      context.logProvider.info(warnSummary);
+    }
+    return ok(syncResult);
+  }
+
   @hooks([
     ErrorContextMW({ component: "FxCore", stage: "copilotPluginLoadOpenAIManifest" }),
     ErrorHandlerMW,
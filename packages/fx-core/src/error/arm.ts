@@ -4,6 +4,7 @@
 import { UserError, UserErrorOptions } from "@microsoft/teamsfx-api";
 import { getDefaultString, getLocalizedString } from "../common/localizeUtils";
 import { ErrorCategory } from "./types";
+import { TemplateParameterIssue } from "../component/driver/arm/util/parameterValidator";
 
 /**
  * Failed to compile bicep into ARM template
@@ -41,6 +42,43 @@ export class DeployArmError extends UserError {
   }
 }
 
+/**
+ * The parameters file doesn't match the parameters declared in the arm template
+ */
+export class InvalidArmParametersError extends UserError {
+  constructor(templatePath: string, issues: TemplateParameterIssue[]) {
+    const key = "error.arm.InvalidArmParametersError";
+    const defaultIssues = issues.map((issue) => getDefaultString(issue.key, ...issue.args));
+    const localizedIssues = issues.map((issue) => getLocalizedString(issue.key, ...issue.args));
+    const errorOptions: UserErrorOptions = {
+      source: "armDeploy",
+      name: "InvalidArmParametersError",
+      message: getDefaultString(key, templatePath, defaultIssues.join("; ")),
+      displayMessage: getLocalizedString(key, templatePath, localizedIssues.join("; ")),
+      categories: [ErrorCategory.Internal],
+    };
+    super(errorOptions);
+  }
+}
+
+/**
+ * Failed to preview the changes of arm templates
+ */
+export class WhatIfArmError extends UserError {
+  constructor(deployName: string, resourceGroup: string, error: Error) {
+    const key = "error.arm.WhatIfArmError";
+    const errorOptions: UserErrorOptions = {
+      source: "armDeploy",
+      name: "WhatIfArmError",
+      message: getDefaultString(key, deployName, resourceGroup, error.message || ""),
+      displayMessage: getLocalizedString(key, deployName, resourceGroup, error.message || ""),
+      error: error,
+      categories: [ErrorCategory.External],
+    };
+    super(errorOptions);
+  }
+}
+
 /**
  * Failed to deploy arm templates and get error message failed
  */
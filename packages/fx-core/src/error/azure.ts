@@ -114,6 +114,24 @@ export class CreateResourceGroupError extends UserError {
   }
 }
 
+/**
+ * Delete resource group error
+ */
+export class DeleteResourceGroupError extends UserError {
+  constructor(resourceGroupName: string, subscriptionId: string, message: string, error?: any) {
+    const key = "error.azure.DeleteResourceGroupError";
+    const errorOptions: UserErrorOptions = {
+      source: "coordinator",
+      name: "DeleteResourceGroupError",
+      message: getDefaultString(key, resourceGroupName, subscriptionId, message),
+      displayMessage: getLocalizedString(key, resourceGroupName, subscriptionId, message),
+      categories: [ErrorCategory.External],
+      error: error,
+    };
+    super(errorOptions);
+  }
+}
+
 /**
  * Check resource group existence error
  */
@@ -119,6 +119,100 @@ export class CheckDeploymentStatusError extends UserError {
   }
 }
 
+export class HealthCheckFailedError extends UserError {
+  constructor(url: string, reason: string, helpLink?: string) {
+    super({
+      source: "azureDeploy",
+      message: getDefaultString("error.deploy.HealthCheckFailedError", url, reason),
+      displayMessage: getLocalizedString("error.deploy.HealthCheckFailedError", url, reason),
+      helpLink: helpLink,
+      categories: [ErrorCategory.External],
+    });
+  }
+}
+
+export class SwapSlotError extends UserError {
+  constructor(appName: string, slot: string, error: Error, helpLink?: string) {
+    super({
+      source: "azureDeploy",
+      message: getDefaultString("error.deploy.SwapSlotError", slot, appName, stringifyError(error)),
+      displayMessage: getLocalizedString(
+        "error.deploy.SwapSlotError",
+        slot,
+        appName,
+        error.message
+      ),
+      helpLink: helpLink,
+      error: error,
+      categories: [ErrorCategory.External],
+    });
+  }
+}
+
+export class BuildContainerImageError extends UserError {
+  constructor(image: string, error: Error, helpLink?: string) {
+    super({
+      source: "azureDeploy",
+      message: getDefaultString(
+        "error.deploy.BuildContainerImageError",
+        image,
+        stringifyError(error)
+      ),
+      displayMessage: getLocalizedString(
+        "error.deploy.BuildContainerImageError",
+        image,
+        error.message
+      ),
+      helpLink: helpLink,
+      error: error,
+      categories: [ErrorCategory.External],
+    });
+  }
+}
+
+export class ContainerAppUpdateError extends UserError {
+  constructor(appName: string, error: Error, helpLink?: string) {
+    super({
+      source: "azureDeploy",
+      message: getDefaultString(
+        "error.deploy.ContainerAppUpdateError",
+        appName,
+        stringifyError(error)
+      ),
+      displayMessage: getLocalizedString(
+        "error.deploy.ContainerAppUpdateError",
+        appName,
+        error.message
+      ),
+      helpLink: helpLink,
+      error: error,
+      categories: [ErrorCategory.External],
+    });
+  }
+}
+
+export class ContainerAppRevisionUnhealthyError extends UserError {
+  constructor(appName: string, revision: string, state: string, helpLink?: string) {
+    super({
+      source: "azureDeploy",
+      message: getDefaultString(
+        "error.deploy.ContainerAppRevisionUnhealthyError",
+        revision,
+        appName,
+        state
+      ),
+      displayMessage: getLocalizedString(
+        "error.deploy.ContainerAppRevisionUnhealthyError",
+        revision,
+        appName,
+        state
+      ),
+      helpLink: helpLink,
+      categories: [ErrorCategory.External],
+    });
+  }
+}
+
 export class AzureStorageClearBlobsError extends UserError {
   constructor(storageName: string, errorResponse: BlobDeleteResponse, helpLink?: string) {
     super({
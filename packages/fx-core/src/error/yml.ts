@@ -103,3 +103,89 @@ export class LifeCycleUndefinedError extends UserError {
     super(errorOptions);
   }
 }
+
+/**
+ * The `if` condition of an action can not be evaluated
+ */
+export class InvalidYmlConditionError extends UserError {
+  constructor(condition: string, action: string, reason: string) {
+    const key = "error.yaml.InvalidYmlConditionError";
+    const errorOptions: UserErrorOptions = {
+      source: "ConfigManager",
+      name: "InvalidYmlConditionError",
+      message: getDefaultString(key, condition, action, reason, globalVars.ymlFilePath),
+      displayMessage: getLocalizedString(key, condition, action, reason, globalVars.ymlFilePath),
+      helpLink: "https://aka.ms/teamsfx-actions",
+      categories: [ErrorCategory.Internal],
+    };
+    super(errorOptions);
+  }
+}
+
+/**
+ * The yaml file changed after the checkpoint of a failed lifecycle was saved
+ */
+export class ResumeCheckpointOutdatedError extends UserError {
+  constructor(lifecycle: string, env: string) {
+    const key = "error.yaml.ResumeCheckpointOutdatedError";
+    const errorOptions: UserErrorOptions = {
+      source: "Coordinator",
+      name: "ResumeCheckpointOutdatedError",
+      message: getDefaultString(key, lifecycle, env, globalVars.ymlFilePath),
+      displayMessage: getLocalizedString(key, lifecycle, env, globalVars.ymlFilePath),
+      categories: [ErrorCategory.Internal],
+    };
+    super(errorOptions);
+  }
+}
+
+/**
+ * A composite action file can't be loaded or doesn't match how it's used
+ */
+export class InvalidCompositeActionError extends UserError {
+  constructor(actionPath: string, reason: string) {
+    const key = "error.yaml.InvalidCompositeActionError";
+    const errorOptions: UserErrorOptions = {
+      source: "ConfigManager",
+      name: "InvalidCompositeActionError",
+      message: getDefaultString(key, actionPath, reason, globalVars.ymlFilePath),
+      displayMessage: getLocalizedString(key, actionPath, reason, globalVars.ymlFilePath),
+      helpLink: "https://aka.ms/teamsfx-actions",
+      categories: [ErrorCategory.Internal],
+    };
+    super(errorOptions);
+  }
+}
+
+/**
+ * An action can't be run in a parallel block
+ */
+export class InvalidParallelActionError extends UserError {
+  constructor(action: string, reason: string) {
+    const key = "error.yaml.InvalidParallelActionError";
+    const errorOptions: UserErrorOptions = {
+      source: "ConfigManager",
+      name: "InvalidParallelActionError",
+      message: getDefaultString(key, action, reason, globalVars.ymlFilePath),
+      displayMessage: getLocalizedString(key, action, reason, globalVars.ymlFilePath),
+      helpLink: "https://aka.ms/teamsfx-actions",
+      categories: [ErrorCategory.Internal],
+    };
+    super(errorOptions);
+  }
+}
+
+export class InvalidDriverPluginError extends UserError {
+  constructor(plugin: string, reason: string) {
+    const key = "error.yaml.InvalidDriverPluginError";
+    const errorOptions: UserErrorOptions = {
+      source: "ConfigManager",
+      name: "InvalidDriverPluginError",
+      message: getDefaultString(key, plugin, reason, globalVars.ymlFilePath),
+      displayMessage: getLocalizedString(key, plugin, reason, globalVars.ymlFilePath),
+      helpLink: "https://aka.ms/teamsfx-actions",
+      categories: [ErrorCategory.Internal],
+    };
+    super(errorOptions);
+  }
+}
@@ -0,0 +1,65 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert } from "chai";
+import { describe, it } from "mocha";
+import mockedEnv, { RestoreFn } from "mocked-env";
+import {
+  evaluateCondition,
+  isSkippedByCondition,
+} from "../../../src/component/configManager/condition";
+
+describe("evaluateCondition", () => {
+  let restoreFn: RestoreFn | undefined = undefined;
+
+  afterEach(() => {
+    if (restoreFn) {
+      restoreFn();
+      restoreFn = undefined;
+    }
+  });
+
+  function evaluate(condition: string): boolean | string {
+    const res = evaluateCondition(condition, "script");
+    return res.isOk() ? res.value : res.error.name;
+  }
+
+  it("should treat empty and unresolved placeholders as false", () => {
+    restoreFn = mockedEnv({ EMPTY_VAR: "", SUB_ID: "00000000" });
+    assert.isFalse(evaluate("${{ EMPTY_VAR }}"));
+    assert.isFalse(evaluate("${{ NOT_EXIST }}"));
+    assert.isTrue(evaluate("${{ SUB_ID }}"));
+  });
+
+  it("should treat 'false' as false", () => {
+    restoreFn = mockedEnv({ ENABLED: "False" });
+    assert.isFalse(evaluate("${{ ENABLED }}"));
+    assert.isFalse(evaluate("false"));
+    assert.isTrue(evaluate("true"));
+  });
+
+  it("should support comparison and logical operators", () => {
+    restoreFn = mockedEnv({ TEAMSFX_ENV: "dev", SUB_ID: "" });
+    assert.isTrue(evaluate("${{ TEAMSFX_ENV }} == 'dev'"));
+    assert.isTrue(evaluate('${{ TEAMSFX_ENV }} != "local"'));
+    assert.isFalse(evaluate("${{ TEAMSFX_ENV }} == local"));
+    assert.isTrue(evaluate("${{ TEAMSFX_ENV }} == dev && !${{ SUB_ID }}"));
+    assert.isTrue(evaluate("${{ SUB_ID }} || ${{ TEAMSFX_ENV }}"));
+    assert.isFalse(evaluate("!(${{ TEAMSFX_ENV }} == dev || ${{ SUB_ID }})"));
+  });
+
+  it("should return error for invalid conditions", () => {
+    assert.equal(evaluate(""), "InvalidYmlConditionError");
+    assert.equal(evaluate("(a == b"), "InvalidYmlConditionError");
+    assert.equal(evaluate("a == == b"), "InvalidYmlConditionError");
+    assert.equal(evaluate("a b"), "InvalidYmlConditionError");
+    assert.equal(evaluate("a > b"), "InvalidYmlConditionError");
+  });
+
+  it("isSkippedByCondition should only skip actions whose condition is false", () => {
+    restoreFn = mockedEnv({ SUB_ID: "" });
+    assert.isFalse(isSkippedByCondition({ uses: "arm/deploy", with: {} }));
+    assert.isTrue(isSkippedByCondition({ uses: "arm/deploy", with: {}, if: "${{ SUB_ID }}" }));
+    assert.isFalse(isSkippedByCondition({ uses: "arm/deploy", with: {}, if: "(" }));
+  });
+});
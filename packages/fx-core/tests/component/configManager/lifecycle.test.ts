@@ -9,7 +9,12 @@ import { assert } from "chai";
 import { describe, it } from "mocha";
 import mockedEnv, { RestoreFn } from "mocked-env";
 import sinon from "sinon";
-import { Lifecycle } from "../../../src/component/configManager/lifecycle";
+import {
+  Lifecycle,
+  createUndoLifecycle,
+  getGroupStartIndex,
+  planLifecycle,
+} from "../../../src/component/configManager/lifecycle";
 import Container from "typedi";
 import { DriverDefinition } from "../../../src/component/configManager/interface";
 import {
@@ -31,6 +36,7 @@ import {
 } from "@microsoft/teamsfx-api";
 import { ExecutionResult, StepDriver } from "../../../src/component/driver/interface/stepDriver";
 import { SummaryConstant } from "../../../src/component/configManager/constant";
+import { globalVars } from "../../../src/core/globalVars";
 
 const mockedDriverContext: DriverContext = {
   m365TokenProvider: new MockedM365Provider(),
@@ -751,6 +757,509 @@ describe("Summary", () => {
       `Summary should only contain 2 items, because of execution stops at DriverBWithSummary`
     );
   });
+
+  it("should skip drivers whose if condition is false", async () => {
+    const driverDefs: DriverDefinition[] = [];
+    driverDefs.push({
+      uses: "DriverAWithSummary",
+      with: {},
+      if: "${{ NOT_EXIST }} == 'dev'",
+    });
+    driverDefs.push({
+      uses: "DriverBWithSummary",
+      with: {},
+      if: "!${{ NOT_EXIST }}",
+    });
+
+    const lifecycle = new Lifecycle("configureApp", driverDefs, "v1.4");
+    const { result, summaries } = await lifecycle.execute(mockedDriverContext);
+
+    assert(result.isOk() && result.value.size === 1 && result.value.get("OUTPUT_B") === "VALUE_B");
+    assert(
+      summaries.length === 2 &&
+        summaries[0].length === 1 &&
+        summaries[0][0].startsWith(SummaryConstant.Skipped) &&
+        summaries[1][0] ===
+          `${SummaryConstant.Succeeded} Environment variable OUTPUT_B set in env/.env file`
+    );
+  });
+
+  it("should continue if a driver with continueOnError fails", async () => {
+    const driverDefs: DriverDefinition[] = [];
+    driverDefs.push({
+      uses: "DriverThatReturnsErrorWithSummary",
+      with: {},
+      continueOnError: true,
+    });
+    driverDefs.push({
+      uses: "DriverBWithSummary",
+      with: {},
+    });
+
+    const lifecycle = new Lifecycle("configureApp", driverDefs, "v1.4");
+    const { result, summaries } = await lifecycle.execute(mockedDriverContext);
+
+    assert(result.isOk() && result.value.get("OUTPUT_B") === "VALUE_B");
+    assert(
+      summaries.length === 2 &&
+        summaries[0][0].includes(`${SummaryConstant.Failed} fake message`) &&
+        summaries[1][0] ===
+          `${SummaryConstant.Succeeded} Environment variable OUTPUT_B set in env/.env file`
+    );
+  });
+
+  it("should return a record for each action", async () => {
+    const driverDefs: DriverDefinition[] = [];
+    driverDefs.push({
+      uses: "DriverAWithSummary",
+      with: {},
+    });
+    driverDefs.push({
+      uses: "DriverThatReturnsErrorWithSummary",
+      with: {},
+      continueOnError: true,
+    });
+    driverDefs.push({
+      uses: "DriverBWithSummary",
+      with: {
+        BBB: "${{ RECORD_TEST_NOT_EXIST }}",
+      },
+    });
+
+    const lifecycle = new Lifecycle("configureApp", driverDefs, "v1.4");
+    const { result, summaries, records } = await lifecycle.execute(mockedDriverContext);
+
+    assert(result.isErr());
+    assert.equal(records?.length, summaries.length);
+    assert.equal(records?.[0].outputs.get("OUTPUT_A"), "VALUE_A");
+    assert.isAtLeast(records?.[0].duration ?? -1, 0);
+    assert.isUndefined(records?.[0].error);
+    assert.equal(records?.[1].error?.name, "fakeError");
+    assert.equal(records?.[2].error?.name, "MissingEnvironmentVariablesError");
+    assert.equal(records?.[2].duration, 0);
+  });
+
+  it("should return error if the if condition is invalid", async () => {
+    const driverDefs: DriverDefinition[] = [];
+    driverDefs.push({
+      uses: "DriverAWithSummary",
+      with: {},
+    });
+    driverDefs.push({
+      uses: "DriverBWithSummary",
+      with: {},
+      if: "(${{ NOT_EXIST }}",
+    });
+
+    const lifecycle = new Lifecycle("configureApp", driverDefs, "v1.4");
+    const { result, summaries } = await lifecycle.execute(mockedDriverContext);
+
+    assert(
+      result.isErr() &&
+        result.error.kind === "PartialSuccess" &&
+        result.error.reason.kind === "DriverError" &&
+        result.error.reason.failedDriver.uses === "DriverBWithSummary" &&
+        result.error.reason.error.name === "InvalidYmlConditionError" &&
+        result.error.env.get("OUTPUT_A") === "VALUE_A"
+    );
+    assert(summaries.length === 2 && summaries[1][0].startsWith(SummaryConstant.Failed));
+  });
+});
+
+class DriverThatWaits implements StepDriver {
+  static running = 0;
+  static maxRunning = 0;
+
+  async execute(args: unknown, ctx: DriverContext): Promise<ExecutionResult> {
+    const { output, delay, fail } = args as { output: string; delay: number; fail?: boolean };
+    DriverThatWaits.running++;
+    DriverThatWaits.maxRunning = Math.max(DriverThatWaits.maxRunning, DriverThatWaits.running);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    DriverThatWaits.running--;
+    if (fail) {
+      return {
+        result: err(new SystemError("mockedSource", `error_${output}`, `failed ${output}`)),
+        summaries: [],
+      };
+    }
+    return { result: ok(new Map([[output, "VALUE"]])), summaries: [`${output} is set`] };
+  }
+}
+
+describe("parallel group", () => {
+  const sandbox = sinon.createSandbox();
+  let restoreFn: RestoreFn | undefined = undefined;
+
+  beforeEach(() => {
+    restoreFn = mockedEnv({});
+    DriverThatWaits.running = 0;
+    DriverThatWaits.maxRunning = 0;
+    sandbox.stub(Container, "has").withArgs(sandbox.match("DriverThatWaits")).returns(true);
+    sandbox
+      .stub(Container, "get")
+      .withArgs(sandbox.match("DriverThatWaits"))
+      .returns(new DriverThatWaits());
+  });
+
+  afterEach(() => {
+    if (restoreFn) {
+      restoreFn();
+    }
+    sandbox.restore();
+  });
+
+  it("should execute drivers in the same group concurrently", async () => {
+    const driverDefs: DriverDefinition[] = [
+      { uses: "DriverThatWaits", with: { output: "OUTPUT_A", delay: 20 }, parallelGroup: 0 },
+      { uses: "DriverThatWaits", with: { output: "OUTPUT_B", delay: 10 }, parallelGroup: 0 },
+      { uses: "DriverThatWaits", with: { output: "${{ OUTPUT_A }}_${{ OUTPUT_B }}", delay: 0 } },
+    ];
+
+    const lifecycle = new Lifecycle("provision", driverDefs, "v1.4");
+    const { result, summaries } = await lifecycle.execute(mockedDriverContext);
+
+    assert.equal(DriverThatWaits.maxRunning, 2);
+    assert(result.isOk());
+    assert.deepEqual(result.isOk() ? [...result.value.keys()] : [], [
+      "OUTPUT_A",
+      "OUTPUT_B",
+      "VALUE_VALUE",
+    ]);
+    assert.deepEqual(summaries, [
+      [`${SummaryConstant.Succeeded} OUTPUT_A is set`],
+      [`${SummaryConstant.Succeeded} OUTPUT_B is set`],
+      [`${SummaryConstant.Succeeded} VALUE_VALUE is set`],
+    ]);
+  });
+
+  it("should report the first failed driver in declaration order", async () => {
+    const driverDefs: DriverDefinition[] = [
+      { uses: "DriverThatWaits", with: { output: "OUTPUT_A", delay: 0 }, parallelGroup: 0 },
+      {
+        uses: "DriverThatWaitsLonger",
+        with: { output: "OUTPUT_B", delay: 20, fail: true },
+        parallelGroup: 0,
+      },
+      {
+        uses: "DriverThatWaits",
+        with: { output: "OUTPUT_C", delay: 0, fail: true },
+        parallelGroup: 0,
+      },
+      { uses: "DriverThatWaits", with: { output: "OUTPUT_D", delay: 0 } },
+    ];
+
+    const lifecycle = new Lifecycle("provision", driverDefs, "v1.4");
+    const { result, summaries } = await lifecycle.execute(mockedDriverContext);
+
+    assert(
+      result.isErr() &&
+        result.error.kind === "PartialSuccess" &&
+        result.error.reason.kind === "DriverError" &&
+        result.error.reason.error.name === "error_OUTPUT_B" &&
+        result.error.env.size === 1 &&
+        result.error.env.get("OUTPUT_A") === "VALUE"
+    );
+    // the error context is the one of the reported failure, not the last driver that set it
+    assert.equal(globalVars.component, "driverThatWaitsLonger");
+    assert.deepEqual(summaries, [
+      [`${SummaryConstant.Succeeded} OUTPUT_A is set`],
+      [`${SummaryConstant.Failed} failed OUTPUT_B`],
+      [`${SummaryConstant.Failed} failed OUTPUT_C`],
+    ]);
+  });
+
+  it("should not execute any driver in the group if placeholders are unresolved", async () => {
+    const driverDefs: DriverDefinition[] = [
+      { uses: "DriverThatWaits", with: { output: "SIBLING_OUTPUT", delay: 0 }, parallelGroup: 0 },
+      {
+        uses: "DriverThatWaits",
+        with: { output: "${{ SIBLING_OUTPUT }}", delay: 0 },
+        parallelGroup: 0,
+      },
+    ];
+
+    const lifecycle = new Lifecycle("provision", driverDefs, "v1.4");
+    const { result, summaries } = await lifecycle.execute(mockedDriverContext);
+
+    assert(
+      result.isErr() &&
+        result.error.kind === "PartialSuccess" &&
+        result.error.reason.kind === "UnresolvedPlaceholders" &&
+        result.error.env.size === 0
+    );
+    assert.equal(DriverThatWaits.maxRunning, 0);
+    assert.equal(summaries.length, 2);
+    assert(summaries[0][0].startsWith(SummaryConstant.NotExecuted));
+    assert.equal(
+      summaries[1][0],
+      `${SummaryConstant.Failed} Unresolved placeholders: SIBLING_OUTPUT`
+    );
+  });
+});
+
+describe("resume", () => {
+  const sandbox = sinon.createSandbox();
+  let restoreFn: RestoreFn | undefined = undefined;
+
+  beforeEach(() => {
+    restoreFn = mockedEnv({ RESUMED_OUTPUT_A: "VALUE" });
+    DriverThatWaits.running = 0;
+    DriverThatWaits.maxRunning = 0;
+    sandbox.stub(Container, "has").withArgs(sandbox.match("DriverThatWaits")).returns(true);
+    sandbox
+      .stub(Container, "get")
+      .withArgs(sandbox.match("DriverThatWaits"))
+      .returns(new DriverThatWaits());
+  });
+
+  afterEach(() => {
+    if (restoreFn) {
+      restoreFn();
+    }
+    sandbox.restore();
+  });
+
+  it("should skip drivers before the start index", async () => {
+    const driverDefs: DriverDefinition[] = [
+      { uses: "DriverThatWaits", with: { output: "RESUMED_OUTPUT_A", delay: 0 } },
+      { uses: "DriverThatWaits", with: { output: "${{ RESUMED_OUTPUT_A }}_B", delay: 0 } },
+    ];
+
+    const lifecycle = new Lifecycle("provision", driverDefs, "v1.4");
+    const { result, summaries } = await lifecycle.execute(mockedDriverContext, 1);
+
+    assert(result.isOk() && result.value.size === 1 && result.value.get("VALUE_B") === "VALUE");
+    assert.equal(summaries.length, 2);
+    assert(summaries[0][0].startsWith(SummaryConstant.Skipped));
+    assert.equal(summaries[1][0], `${SummaryConstant.Succeeded} VALUE_B is set`);
+  });
+
+  it("getGroupStartIndex should return the start of the parallel group", () => {
+    const driverDefs: DriverDefinition[] = [
+      { uses: "DriverThatWaits", with: {} },
+      { uses: "DriverThatWaits", with: {}, parallelGroup: 1 },
+      { uses: "DriverThatWaits", with: {}, parallelGroup: 1 },
+      { uses: "DriverThatWaits", with: {} },
+    ];
+    assert.equal(getGroupStartIndex(driverDefs, 0), 0);
+    assert.equal(getGroupStartIndex(driverDefs, 2), 1);
+    assert.equal(getGroupStartIndex(driverDefs, 3), 3);
+  });
+});
+
+describe("pre and post hooks", () => {
+  const sandbox = sinon.createSandbox();
+  let restoreFn: RestoreFn | undefined = undefined;
+  let runHookStub: sinon.SinonStub;
+
+  beforeEach(() => {
+    restoreFn = mockedEnv({});
+    runHookStub = sandbox.stub().resolves(ok(new Map()));
+    sandbox
+      .stub(Container, "has")
+      .withArgs(sandbox.match("DriverAWithSummary"))
+      .returns(true)
+      .withArgs(sandbox.match("DriverThatReturnsErrorWithSummary"))
+      .returns(true);
+    sandbox
+      .stub(Container, "get")
+      .withArgs(sandbox.match("DriverAWithSummary"))
+      .returns(new DriverAWithSummary())
+      .withArgs(sandbox.match("DriverThatReturnsErrorWithSummary"))
+      .returns(new DriverThatReturnsErrorWithSummary())
+      .withArgs(sandbox.match("script"))
+      .returns({ runHook: runHookStub });
+  });
+
+  afterEach(() => {
+    if (restoreFn) {
+      restoreFn();
+    }
+    sandbox.restore();
+  });
+
+  it("should run hooks around the driver and pass outputs to post hook", async () => {
+    runHookStub.onSecondCall().resolves(ok(new Map([["SMOKE_TEST_RESULT", "passed"]])));
+    const driverDefs: DriverDefinition[] = [
+      {
+        uses: "DriverAWithSummary",
+        with: {},
+        pre: { run: "echo pre" },
+        post: { run: "echo ${{ OUTPUT_A }}" },
+      },
+    ];
+
+    const lifecycle = new Lifecycle("provision", driverDefs, "v1.4");
+    const { result, summaries } = await lifecycle.execute(mockedDriverContext);
+
+    assert(
+      result.isOk() &&
+        result.value.get("OUTPUT_A") === "VALUE_A" &&
+        result.value.get("SMOKE_TEST_RESULT") === "passed"
+    );
+    assert.isTrue(runHookStub.calledTwice);
+    assert.deepEqual(runHookStub.firstCall.args[0], { run: "echo pre" });
+    assert.deepEqual(runHookStub.secondCall.args[0], { run: "echo VALUE_A" });
+    assert.deepEqual(runHookStub.secondCall.args[2], { OUTPUT_A: "VALUE_A" });
+    assert.deepEqual(summaries, [
+      [
+        `${SummaryConstant.Succeeded} Executed pre hook`,
+        `${SummaryConstant.Succeeded} Environment variable OUTPUT_A set in env/.env file`,
+        `${SummaryConstant.Succeeded} Executed post hook`,
+      ],
+    ]);
+  });
+
+  it("should fail the lifecycle if pre hook fails", async () => {
+    runHookStub.resolves(err(mockedError));
+    const driverDefs: DriverDefinition[] = [
+      { uses: "DriverAWithSummary", with: {}, pre: { run: "exit 1" } },
+    ];
+
+    const lifecycle = new Lifecycle("provision", driverDefs, "v1.4");
+    const { result, summaries } = await lifecycle.execute(mockedDriverContext);
+
+    assert(
+      result.isErr() &&
+        result.error.kind === "PartialSuccess" &&
+        result.error.reason.kind === "DriverError" &&
+        result.error.reason.error.name === "mockedError" &&
+        result.error.env.size === 0
+    );
+    assert.deepEqual(summaries, [[`${SummaryConstant.Failed} mockedMessage`]]);
+  });
+
+  it("should fail the lifecycle if post hook fails but keep outputs of the driver", async () => {
+    runHookStub.resolves(err(mockedError));
+    const driverDefs: DriverDefinition[] = [
+      { uses: "DriverAWithSummary", with: {}, post: { run: "exit 1" } },
+    ];
+
+    const lifecycle = new Lifecycle("provision", driverDefs, "v1.4");
+    const { result } = await lifecycle.execute(mockedDriverContext);
+
+    assert(
+      result.isErr() &&
+        result.error.kind === "PartialSuccess" &&
+        result.error.reason.kind === "DriverError" &&
+        result.error.env.get("OUTPUT_A") === "VALUE_A"
+    );
+  });
+
+  it("should not run post hook if the driver fails", async () => {
+    const driverDefs: DriverDefinition[] = [
+      { uses: "DriverThatReturnsErrorWithSummary", with: {}, post: { run: "echo post" } },
+    ];
+
+    const lifecycle = new Lifecycle("provision", driverDefs, "v1.4");
+    const { result } = await lifecycle.execute(mockedDriverContext);
+
+    assert(result.isErr());
+    assert.isTrue(runHookStub.notCalled);
+  });
+});
+
+class DriverThatDeletes implements StepDriver {
+  static deleted: string[] = [];
+
+  async execute(args: { id: string }, ctx: DriverContext): Promise<ExecutionResult> {
+    return { result: ok(new Map([["CREATED_ID", "created"]])), summaries: [] };
+  }
+
+  async undo(
+    args: { id: string },
+    ctx: DriverContext,
+    outputEnvVarNames?: Map<string, string>
+  ): Promise<ExecutionResult> {
+    DriverThatDeletes.deleted.push(args.id);
+    const output = new Map<string, string>();
+    outputEnvVarNames?.forEach((envVar) => output.set(envVar, ""));
+    return { result: ok(output), summaries: [`Deleted ${args.id}`] };
+  }
+}
+
+describe("undo lifecycle", () => {
+  const sandbox = sinon.createSandbox();
+  let restoreFn: RestoreFn | undefined = undefined;
+
+  beforeEach(() => {
+    DriverThatDeletes.deleted = [];
+    sandbox
+      .stub(Container, "has")
+      .withArgs(sandbox.match("DriverThatDeletes"))
+      .returns(true)
+      .withArgs(sandbox.match("DriverA"))
+      .returns(true);
+    sandbox
+      .stub(Container, "get")
+      .withArgs(sandbox.match("DriverThatDeletes"))
+      .returns(new DriverThatDeletes())
+      .withArgs(sandbox.match("DriverA"))
+      .returns(new DriverA());
+  });
+
+  afterEach(() => {
+    if (restoreFn) {
+      restoreFn();
+    }
+    sandbox.restore();
+  });
+
+  it("should undo drivers in reverse order and skip drivers without undo", async () => {
+    restoreFn = mockedEnv({ UNDO_FIRST_ID: "first", UNDO_SECOND_ID: "second" });
+    const driverDefs: DriverDefinition[] = [
+      {
+        uses: "DriverThatDeletes",
+        with: { id: "${{ UNDO_FIRST_ID }}" },
+        writeToEnvironmentFile: { id: "UNDO_FIRST_ID" },
+      },
+      { uses: "DriverA", with: {} },
+      {
+        uses: "DriverThatDeletes",
+        with: { id: "${{ UNDO_SECOND_ID }}" },
+        if: "false",
+        pre: { run: "echo pre" },
+        parallelGroup: 1,
+      },
+    ];
+
+    const lifecycle = createUndoLifecycle(new Lifecycle("provision", driverDefs, "v1.4"), "v1.4");
+    assert.equal(lifecycle.name, "destroy");
+    assert.deepEqual(
+      lifecycle.driverDefs.map((def) => [def.uses, def.if, def.pre, def.parallelGroup]),
+      [
+        ["DriverThatDeletes", undefined, undefined, undefined],
+        ["DriverThatDeletes", undefined, undefined, undefined],
+      ]
+    );
+
+    const { result, summaries } = await lifecycle.execute(mockedDriverContext);
+
+    assert(result.isOk() && result.value.get("UNDO_FIRST_ID") === "");
+    assert.deepEqual(DriverThatDeletes.deleted, ["second", "first"]);
+    assert.deepEqual(summaries, [
+      [`${SummaryConstant.Succeeded} Deleted second`],
+      [`${SummaryConstant.Succeeded} Deleted first`],
+    ]);
+    // placeholders of the original lifecycle are not resolved
+    assert.deepEqual(driverDefs[0].with, { id: "${{ UNDO_FIRST_ID }}" });
+  });
+
+  it("should skip drivers whose placeholders are not set", async () => {
+    restoreFn = mockedEnv({ UNDO_UNSET_ID: "" });
+    const driverDefs: DriverDefinition[] = [
+      { uses: "DriverThatDeletes", with: { id: "${{ UNDO_UNSET_ID }}" } },
+    ];
+
+    const lifecycle = createUndoLifecycle(new Lifecycle("provision", driverDefs, "v1.4"), "v1.4");
+    const { result, summaries } = await lifecycle.execute(mockedDriverContext);
+
+    assert(result.isOk());
+    assert.isEmpty(DriverThatDeletes.deleted);
+    assert.deepEqual(summaries, [
+      [`${SummaryConstant.Skipped} Nothing to undo, unresolved placeholders: UNDO_UNSET_ID`],
+    ]);
+  });
 });
 
 describe("writeToEnvironmentFile", () => {
@@ -800,3 +1309,92 @@ describe("writeToEnvironmentFile", () => {
     );
   });
 });
+
+class DriverWithPreview implements StepDriver {
+  executed = false;
+
+  async execute(args: unknown, ctx: DriverContext): Promise<ExecutionResult> {
+    this.executed = true;
+    return {
+      result: ok(new Map([["OUTPUT_A", "VALUE_A"]])),
+      summaries: [],
+    };
+  }
+
+  async preview(args: { name: string }, ctx: DriverContext): Promise<Result<string[], FxError>> {
+    return ok([`would create ${args.name}`]);
+  }
+}
+
+describe("planLifecycle", () => {
+  const sandbox = sinon.createSandbox();
+  let restoreFn: RestoreFn | undefined = undefined;
+  const driverWithPreview = new DriverWithPreview();
+
+  before(() => {
+    sandbox
+      .stub(Container, "has")
+      .withArgs(sandbox.match("DriverWithPreview"))
+      .returns(true)
+      .withArgs(sandbox.match("DriverB"))
+      .returns(true);
+
+    sandbox
+      .stub(Container, "get")
+      .withArgs(sandbox.match("DriverWithPreview"))
+      .returns(driverWithPreview)
+      .withArgs(sandbox.match("DriverB"))
+      .returns(new DriverB());
+  });
+
+  after(() => {
+    sandbox.restore();
+  });
+
+  afterEach(() => {
+    if (restoreFn) {
+      restoreFn();
+      restoreFn = undefined;
+    }
+  });
+
+  it("should resolve arguments and collect previews without executing drivers", async () => {
+    restoreFn = mockedEnv({ APP_NAME: "myApp" });
+    const driverDefs: DriverDefinition[] = [
+      {
+        uses: "DriverWithPreview",
+        with: { name: "${{ APP_NAME }}" },
+        writeToEnvironmentFile: { id: "APP_ID" },
+      },
+      {
+        uses: "DriverB",
+        with: { id: "${{ APP_ID }}", other: "${{ NOT_EXIST }}" },
+      },
+    ];
+
+    const lifecycle = new Lifecycle("provision", driverDefs, "1.0.0");
+    const result = await planLifecycle(lifecycle, mockedDriverContext);
+
+    assert.isTrue(result.isOk());
+    if (result.isOk()) {
+      const steps = result.value.steps;
+      assert.equal(result.value.name, "provision");
+      assert.equal(steps.length, 2);
+      assert.deepEqual(steps[0].driver.with, { name: "myApp" });
+      assert.deepEqual(steps[0].outputNames, ["APP_ID"]);
+      assert.deepEqual(steps[0].previews, ["would create myApp"]);
+      assert.deepEqual(steps[0].unresolvedPlaceHolders, []);
+      assert.deepEqual(steps[1].previews, []);
+      assert.deepEqual(steps[1].unresolvedPlaceHolders, ["NOT_EXIST"]);
+    }
+    assert.isFalse(driverWithPreview.executed);
+    assert.deepEqual(driverDefs[0].with, { name: "${{ APP_NAME }}" }, "should not modify yml");
+  });
+
+  it("should return error if driver is not found", async () => {
+    const driverDefs: DriverDefinition[] = [{ uses: "NotExist", with: {} }];
+    const lifecycle = new Lifecycle("provision", driverDefs, "1.0.0");
+    const result = await planLifecycle(lifecycle, mockedDriverContext);
+    assert.isTrue(result.isErr());
+  });
+});
@@ -11,6 +11,8 @@ import { describe, it } from "mocha";
 import sinon from "sinon";
 import { YamlParser } from "../../../src/component/configManager/parser";
 import fs from "fs-extra";
+import { Container } from "typedi";
+import { StepDriver } from "../../../src/component/driver/interface/stepDriver";
 
 const assert = chai.assert;
 
@@ -199,6 +201,213 @@ describe("v3 yaml parser", () => {
     });
   });
 
+  describe(`when parsing yml with if and continueOnError fields`, async () => {
+    it("should return ok if the fields are valid", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "valid_condition.yml"),
+        true
+      );
+      assert(
+        result.isOk() &&
+          result.value.provision?.driverDefs[0].if === "${{ AZURE_SUBSCRIPTION_ID }}" &&
+          result.value.provision?.driverDefs[1].continueOnError === true
+      );
+    });
+
+    it("should return error if if field is not a string", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_condition_type.yml")
+      );
+      assert(result.isErr() && result.error.name === "YamlFieldTypeError");
+    });
+
+    it("should return error if continueOnError field is not a boolean", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_continue_on_error_type.yml")
+      );
+      assert(result.isErr() && result.error.name === "YamlFieldTypeError");
+    });
+  });
+
+  describe(`when parsing yml with parallel blocks`, async () => {
+    it("should flatten actions of parallel blocks", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "valid_parallel.yml"),
+        true
+      );
+      assert(result.isOk());
+      const driverDefs = result.isOk() ? result.value.provision?.driverDefs : undefined;
+      assert.deepEqual(
+        driverDefs?.map((def) => [def.uses, def.parallelGroup]),
+        [
+          ["teamsApp/create", undefined],
+          ["aadApp/create", 1],
+          ["script", 1],
+          ["script", 2],
+        ]
+      );
+    });
+
+    it("should return error if parallel field is not an array", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_parallel_type.yml")
+      );
+      assert(result.isErr() && result.error.name === "YamlFieldTypeError");
+    });
+
+    it("should return error if an action in parallel block is invalid", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_parallel_action.yml")
+      );
+      assert(result.isErr() && result.error.name === "YamlFieldMissingError");
+    });
+
+    it("should return error if an action in parallel block sets env", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_parallel_env.yml")
+      );
+      assert(result.isErr() && result.error.name === "InvalidParallelActionError");
+    });
+  });
+
+  describe(`when parsing yml with pre and post hooks`, async () => {
+    it("should normalize string hooks into objects", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "valid_hooks.yml"),
+        true
+      );
+      assert(result.isOk());
+      const driverDef = result.isOk() ? result.value.provision?.driverDefs[0] : undefined;
+      assert.deepEqual(driverDef?.pre, { run: "npm run check-config" });
+      assert.deepEqual(driverDef?.post, {
+        run: "./scripts/smoke-test.sh",
+        workingDirectory: "./scripts",
+        shell: "bash",
+        timeout: 60000,
+      });
+    });
+
+    it("should return error if hook has no run field", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_hook_type.yml")
+      );
+      assert(result.isErr() && result.error.name === "YamlFieldTypeError");
+    });
+  });
+
+  describe(`when parsing yml with composite actions`, async () => {
+    it("should expand composite actions into steps", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "valid_composite.yml"),
+        true
+      );
+      assert(result.isOk(), result.isErr() ? result.error.message : "");
+      const driverDefs = result.isOk() ? result.value.provision?.driverDefs ?? [] : [];
+      assert.deepEqual(
+        driverDefs.map((def) => def.uses),
+        ["script", "teamsApp/validateManifest", "teamsApp/zipAppPackage", "teamsApp/create"]
+      );
+      assert.equal(driverDefs[1].name, "package/teamsApp/validateManifest");
+      assert.equal(driverDefs[1].if, "(${{ TEAMSFX_ENV }} != 'local') && (false)");
+      assert.deepEqual(driverDefs[2].with, {
+        manifestPath: "./appPackage/manifest.json",
+        outputZipPath: "./appPackage/build/appPackage.${{TEAMSFX_ENV}}.zip",
+        outputJsonPath: "./appPackage/build/manifest.${{TEAMSFX_ENV}}.json",
+      });
+      assert.deepEqual(driverDefs[3].writeToEnvironmentFile, { teamsAppId: "TEAMS_APP_ID" });
+    });
+
+    it("should return error if a required input is missing", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_composite_input.yml")
+      );
+      assert(result.isErr() && result.error.name === "InvalidCompositeActionError");
+    });
+
+    it("should return error if an output is not declared", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_composite_output.yml")
+      );
+      assert(result.isErr() && result.error.name === "InvalidCompositeActionError");
+    });
+
+    it("should return error if composite actions are nested", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_composite_nested.yml")
+      );
+      assert(result.isErr() && result.error.name === "InvalidCompositeActionError");
+    });
+
+    it("should return error if the composite action file is not found", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_composite_not_found.yml")
+      );
+      assert(result.isErr() && result.error.name === "InvalidCompositeActionError");
+    });
+  });
+
+  describe(`when parsing yml with driver plugins`, async () => {
+    it("should register the drivers of the plugins", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "valid_plugins.yml"),
+        true
+      );
+      assert(result.isOk(), result.isErr() ? result.error.message : "");
+      assert.deepEqual(result.isOk() && result.value.plugins, ["./plugins/contoso.js"]);
+      const driver = Container.get<StepDriver>("contoso/deployToK8s");
+      assert(typeof driver.execute === "function");
+    });
+
+    it("should return error if the arguments don't match the schema of the driver", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_plugin_args.yml"),
+        true
+      );
+      assert(result.isErr() && result.error.name === "InvalidYamlSchemaError");
+      assert(result.isErr() && result.error.message.includes("cluster"));
+    });
+
+    it("should not validate the arguments without schema validation", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_plugin_args.yml")
+      );
+      assert(result.isOk());
+    });
+
+    it("should return error if the plugin is not found", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_plugin_not_found.yml")
+      );
+      assert(result.isErr() && result.error.name === "InvalidDriverPluginError");
+    });
+
+    it("should return error if plugins is not an array", async () => {
+      const parser = new YamlParser();
+      const result = await parser.parse(
+        path.resolve(__dirname, "testing_data", "invalid_plugins_type.yml")
+      );
+      assert(result.isErr() && result.error.name === "YamlFieldTypeError");
+    });
+  });
+
   describe(`when parsing yml with valid envrionmentFolderPath`, async () => {
     it("should return ok", async () => {
       const parser = new YamlParser();
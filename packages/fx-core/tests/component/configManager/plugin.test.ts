@@ -0,0 +1,59 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert } from "chai";
+import "mocha";
+import path from "path";
+import { Container } from "typedi";
+import { DriverPluginLoader } from "../../../src/component/configManager/plugin";
+import { ScriptDriver } from "../../../src/component/driver/script/scriptDriver";
+
+describe("driver plugin loader", () => {
+  const ymlDir = path.resolve(__dirname, "testing_data");
+  const ymlPath = path.join(ymlDir, "app.yml");
+
+  after(() => {
+    Container.remove("fabrikam/deploy");
+  });
+
+  it("should register the drivers of a plugin", () => {
+    const loader = new DriverPluginLoader();
+    const res = loader.load("./plugins/fabrikam.js", ymlPath);
+    assert.isTrue(res.isOk());
+    assert.deepEqual(res.isOk() && res.value.map((contribution) => contribution.name), [
+      "fabrikam/deploy",
+    ]);
+    assert.isTrue(Container.has("fabrikam/deploy"));
+
+    // the same plugin is only loaded once
+    const again = loader.load(path.join(ymlDir, "plugins", "fabrikam.js"), ymlPath);
+    assert.isTrue(res.isOk() && again.isOk() && res.value === again.value);
+  });
+
+  it("should return error if the plugin is not found", () => {
+    const loader = new DriverPluginLoader();
+    const res = loader.load("not-installed-teamsfx-plugin", ymlPath);
+    assert.isTrue(res.isErr() && res.error.name === "InvalidDriverPluginError");
+  });
+
+  it("should return error if the driver name has no namespace", () => {
+    const loader = new DriverPluginLoader();
+    const res = loader.load("./plugins/noNamespace.js", ymlPath);
+    assert.isTrue(res.isErr() && res.error.message.includes("'<namespace>/<name>'"));
+  });
+
+  it("should not register any driver if one of them is invalid", () => {
+    const loader = new DriverPluginLoader();
+    const res = loader.load("./plugins/noExecute.js", ymlPath);
+    assert.isTrue(res.isErr() && res.error.message.includes("'execute'"));
+    assert.isFalse(Container.has("fabrikam/valid"));
+  });
+
+  it("should return error if a driver conflicts with a registered driver", () => {
+    Container.set("fabrikam/builtIn", new ScriptDriver());
+    const loader = new DriverPluginLoader();
+    const res = loader.load("./plugins/conflict.js", ymlPath);
+    Container.remove("fabrikam/builtIn");
+    assert.isTrue(res.isErr() && res.error.message.includes("built-in"));
+  });
+});
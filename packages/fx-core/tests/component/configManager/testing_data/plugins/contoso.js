@@ -0,0 +1,26 @@
+const { ok } = require("@microsoft/teamsfx-api");
+
+const deployToK8s = {
+  execute: async (args) => ({
+    result: ok(new Map([["K8S_ENDPOINT", `https://${args.cluster}`]])),
+    summaries: [`deployed to ${args.cluster}`],
+  }),
+};
+
+module.exports = {
+  drivers: [
+    {
+      name: "contoso/deployToK8s",
+      driver: deployToK8s,
+      schema: {
+        type: "object",
+        properties: {
+          cluster: { type: "string" },
+          replicas: { type: "integer", minimum: 1 },
+        },
+        required: ["cluster"],
+        additionalProperties: false,
+      },
+    },
+  ],
+};
@@ -0,0 +1,6 @@
+module.exports = {
+  drivers: [
+    { name: "fabrikam/valid", driver: { execute: async () => ({ summaries: [] }) } },
+    { name: "fabrikam/noExecute", driver: {} },
+  ],
+};
@@ -0,0 +1,80 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { ok } from "@microsoft/teamsfx-api";
+import { assert } from "chai";
+import fs from "fs-extra";
+import "mocha";
+import * as os from "os";
+import * as path from "path";
+import * as sinon from "sinon";
+import { checkpointUtil } from "../../../src/component/coordinator/checkpoint";
+import { pathUtils } from "../../../src/component/utils/pathUtils";
+
+describe("checkpointUtil", () => {
+  const sandbox = sinon.createSandbox();
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), "checkpoint-"));
+    await fs.ensureDir(path.join(projectPath, "env"));
+    sandbox
+      .stub(pathUtils, "getEnvFilePath")
+      .resolves(ok(path.join(projectPath, "env", ".env.dev")));
+  });
+
+  afterEach(async () => {
+    sandbox.restore();
+    await fs.remove(projectPath);
+  });
+
+  it("should save the checkpoint next to the env file", async () => {
+    const filePath = await checkpointUtil.getCheckpointFilePath(projectPath, "dev");
+    assert.equal(filePath, path.join(projectPath, "env", ".env.dev.checkpoint.user"));
+  });
+
+  it("should write, read and remove checkpoints without saving secrets", async () => {
+    await checkpointUtil.write(projectPath, "dev", {
+      lifecycle: "provision",
+      ymlHash: "hash",
+      resumeIndex: 2,
+      outputs: { BOT_ID: "bot-id", SECRET_BOT_PASSWORD: "password" },
+    });
+    await checkpointUtil.write(projectPath, "dev", {
+      lifecycle: "deploy",
+      ymlHash: "hash",
+      resumeIndex: 1,
+      outputs: {},
+    });
+
+    const checkpoint = await checkpointUtil.read(projectPath, "dev", "provision");
+    assert.deepEqual(checkpoint, {
+      lifecycle: "provision",
+      ymlHash: "hash",
+      resumeIndex: 2,
+      outputs: { BOT_ID: "bot-id" },
+    });
+
+    await checkpointUtil.remove(projectPath, "dev", "provision");
+    assert.isUndefined(await checkpointUtil.read(projectPath, "dev", "provision"));
+    assert.isDefined(await checkpointUtil.read(projectPath, "dev", "deploy"));
+
+    await checkpointUtil.remove(projectPath, "dev", "deploy");
+    const filePath = await checkpointUtil.getCheckpointFilePath(projectPath, "dev");
+    assert.isFalse(await fs.pathExists(filePath));
+  });
+
+  it("should ignore corrupted checkpoint files", async () => {
+    const filePath = await checkpointUtil.getCheckpointFilePath(projectPath, "dev");
+    await fs.writeFile(filePath, "not json");
+    assert.isUndefined(await checkpointUtil.read(projectPath, "dev", "provision"));
+  });
+
+  it("should compute the hash of the yml file", async () => {
+    const ymlPath = path.join(projectPath, "teamsapp.yml");
+    await fs.writeFile(ymlPath, "version: v1.4");
+    const hash = await checkpointUtil.getYmlHash(ymlPath);
+    await fs.writeFile(ymlPath, "version: v1.4\nprovision: []");
+    assert.notEqual(hash, await checkpointUtil.getYmlHash(ymlPath));
+  });
+});
@@ -28,7 +28,8 @@ import { setTools } from "../../../src/core/globalVars";
 import * as v3MigrationUtils from "../../../src/core/middleware/utils/v3MigrationUtils";
 import { MockTools } from "../../core/utils";
 import { mockedResolveDriverInstances } from "./coordinator.test";
-import { UserCancelError } from "../../../src/error";
+import { ResumeCheckpointOutdatedError, UserCancelError } from "../../../src/error";
+import { checkpointUtil } from "../../../src/component/coordinator/checkpoint";
 
 const versionInfo: VersionInfo = {
   version: MetadataV3.projectVersion,
@@ -86,6 +87,148 @@ describe("component coordinator test", () => {
     const res = await fxCore.deployArtifacts(inputs);
     assert.isTrue(res.isOk());
   });
+  it("deploy should save the report of actions in inputs", async () => {
+    const mockProjectModel: ProjectModel = {
+      version: "1.0.0",
+      deploy: {
+        name: "deploy",
+        driverDefs: [
+          { uses: "cli/runNpmCommand", with: {} },
+          { uses: "azureStorage/deploy", with: {}, name: "upload" },
+        ],
+        resolvePlaceholders: () => {
+          return [];
+        },
+        execute: async (ctx: DriverContext): Promise<ExecutionResult> => {
+          process.env.SECRET_REPORT_TEST = "secret-value";
+          const error = new UserError("azureStorage", "DeployError", "failed to upload");
+          return {
+            result: err({
+              kind: "PartialSuccess",
+              env: new Map([["SECRET_REPORT_TEST", "secret-value"]]),
+              reason: {
+                kind: "DriverError",
+                failedDriver: { uses: "azureStorage/deploy", with: {} },
+                error,
+              },
+            }),
+            summaries: [["(√) Done: built"], ["(×) Error: failed to upload"]],
+            records: [
+              {
+                duration: 10,
+                outputs: new Map([
+                  ["SECRET_REPORT_TEST", "secret-value"],
+                  ["REPORT_TEST_URL", "https://example.com"],
+                ]),
+              },
+              { duration: 5, outputs: new Map(), error },
+            ],
+          };
+        },
+        resolveDriverInstances: mockedResolveDriverInstances,
+      },
+    };
+    sandbox.stub(metadataUtil, "parse").resolves(ok(mockProjectModel));
+    sandbox.stub(envUtil, "listEnv").resolves(ok(["dev", "prod"]));
+    sandbox.stub(envUtil, "readEnv").resolves(ok({}));
+    sandbox.stub(envUtil, "writeEnv").resolves(ok(undefined));
+    sandbox.stub(deployUtils, "askForDeployConsentV3").resolves(ok(Void));
+    sandbox.stub(pathUtils, "getYmlFilePath").returns("teamsapp.yml");
+    const inputs: Inputs = {
+      platform: Platform.CLI,
+      projectPath: ".",
+      env: "dev",
+      ignoreLockByUT: true,
+    };
+    try {
+      const fxCore = new FxCore(tools);
+      const res = await fxCore.deployArtifacts(inputs);
+      assert.isTrue(res.isErr());
+      assert.deepEqual(inputs.lifecycleReports, [
+        {
+          name: "deploy",
+          status: "failed",
+          actions: [
+            {
+              name: undefined,
+              uses: "cli/runNpmCommand",
+              status: "succeeded",
+              duration: 10,
+              outputs: { SECRET_REPORT_TEST: "******", REPORT_TEST_URL: "https://example.com" },
+              error: undefined,
+            },
+            {
+              name: "upload",
+              uses: "azureStorage/deploy",
+              status: "failed",
+              duration: 5,
+              outputs: {},
+              error: { code: "DeployError", source: "azureStorage", message: "failed to upload" },
+            },
+          ],
+        },
+      ]);
+    } finally {
+      delete process.env.SECRET_REPORT_TEST;
+    }
+  });
+  it("deploy report should mask the secret outputs which are not in env", async () => {
+    const mockProjectModel: ProjectModel = {
+      version: "1.0.0",
+      deploy: {
+        name: "deploy",
+        driverDefs: [
+          { uses: "cli/runNpmCommand", with: {} },
+          { uses: "azureStorage/deploy", with: {}, name: "upload" },
+        ],
+        resolvePlaceholders: () => {
+          return [];
+        },
+        execute: async (ctx: DriverContext): Promise<ExecutionResult> => {
+          const error = new UserError("azureStorage", "DeployError", "invalid key secret-value");
+          return {
+            result: err({
+              kind: "PartialSuccess",
+              env: new Map([["SECRET_NOT_IN_ENV", "secret-value"]]),
+              reason: {
+                kind: "DriverError",
+                failedDriver: { uses: "azureStorage/deploy", with: {} },
+                error,
+              },
+            }),
+            summaries: [["(√) Done: built"], ["(×) Error: failed to upload"]],
+            records: [
+              {
+                duration: 10,
+                outputs: new Map([["SECRET_NOT_IN_ENV", "secret-value"]]),
+              },
+              { duration: 5, outputs: new Map(), error },
+            ],
+          };
+        },
+        resolveDriverInstances: mockedResolveDriverInstances,
+      },
+    };
+    sandbox.stub(metadataUtil, "parse").resolves(ok(mockProjectModel));
+    sandbox.stub(envUtil, "listEnv").resolves(ok(["dev", "prod"]));
+    sandbox.stub(envUtil, "readEnv").resolves(ok({}));
+    sandbox.stub(envUtil, "writeEnv").resolves(ok(undefined));
+    sandbox.stub(deployUtils, "askForDeployConsentV3").resolves(ok(Void));
+    sandbox.stub(pathUtils, "getYmlFilePath").returns("teamsapp.yml");
+    const inputs: Inputs = {
+      platform: Platform.CLI,
+      projectPath: ".",
+      env: "dev",
+      ignoreLockByUT: true,
+    };
+    assert.isUndefined(process.env.SECRET_NOT_IN_ENV);
+    const fxCore = new FxCore(tools);
+    const res = await fxCore.deployArtifacts(inputs);
+    assert.isTrue(res.isErr());
+    const actions = inputs.lifecycleReports?.[0].actions;
+    assert.deepEqual(actions?.[0].outputs, { SECRET_NOT_IN_ENV: "******" });
+    assert.equal(actions?.[1].error?.message, "invalid key ******");
+  });
   it("deploy happy path - VS", async () => {
     const mockProjectModel: ProjectModel = {
       version: "1.0.0",
@@ -126,6 +269,151 @@ describe("component coordinator test", () => {
     const res = await fxCore.deployArtifacts(inputs);
     assert.isTrue(res.isOk());
   });
+  it("deploy dry run should not execute lifecycle", async () => {
+    const executeSpy = sandbox.spy();
+    const mockProjectModel: ProjectModel = {
+      version: "1.0.0",
+      deploy: {
+        name: "deploy",
+        driverDefs: [{ uses: "arm/deploy", with: undefined }],
+        resolvePlaceholders: () => {
+          return [];
+        },
+        execute: async (ctx: DriverContext): Promise<ExecutionResult> => {
+          executeSpy();
+          return { result: ok(new Map()), summaries: [] };
+        },
+        resolveDriverInstances: mockedResolveDriverInstances,
+      },
+    };
+    sandbox.stub(metadataUtil, "parse").resolves(ok(mockProjectModel));
+    sandbox.stub(envUtil, "listEnv").resolves(ok(["dev", "prod"]));
+    sandbox.stub(envUtil, "readEnv").resolves(ok({}));
+    sandbox.stub(envUtil, "writeEnv").resolves(ok(undefined));
+    const consentStub = sandbox.stub(deployUtils, "askForDeployConsentV3").resolves(ok(Void));
+    sandbox.stub(pathUtils, "getEnvFilePath").resolves(ok("."));
+    sandbox.stub(pathUtils, "getYmlFilePath").resolves(ok("teamsapp.yml"));
+    const inputs: Inputs = {
+      platform: Platform.CLI,
+      projectPath: ".",
+      env: "dev",
+      dryRun: true,
+      ignoreLockByUT: true,
+    };
+    const fxCore = new FxCore(tools);
+    const res = await fxCore.deployArtifacts(inputs);
+    assert.isTrue(res.isOk());
+    assert.isTrue(executeSpy.notCalled);
+    assert.isTrue(consentStub.notCalled);
+  });
+  describe("resume", () => {
+    let startIndex: number | undefined;
+    let execResult: ExecutionResult;
+    let mockProjectModel: ProjectModel;
+    let writeEnvStub: sinon.SinonStub;
+    const inputs: Inputs = {
+      platform: Platform.CLI,
+      projectPath: ".",
+      env: "dev",
+      resume: true,
+      ignoreLockByUT: true,
+    };
+
+    beforeEach(() => {
+      startIndex = undefined;
+      execResult = { result: ok(new Map()), summaries: [] };
+      mockProjectModel = {
+        version: "1.0.0",
+        deploy: {
+          name: "deploy",
+          driverDefs: [
+            { uses: "cli/runNpmCommand", with: {} },
+            { uses: "azureStorage/deploy", with: {} },
+          ],
+          resolvePlaceholders: () => {
+            return [];
+          },
+          execute: async (ctx: DriverContext, index?: number): Promise<ExecutionResult> => {
+            startIndex = index;
+            return execResult;
+          },
+          resolveDriverInstances: mockedResolveDriverInstances,
+        },
+      };
+      sandbox.stub(metadataUtil, "parse").resolves(ok(mockProjectModel));
+      sandbox.stub(envUtil, "listEnv").resolves(ok(["dev", "prod"]));
+      sandbox.stub(envUtil, "readEnv").resolves(ok({}));
+      writeEnvStub = sandbox.stub(envUtil, "writeEnv").resolves(ok(undefined));
+      sandbox.stub(deployUtils, "askForDeployConsentV3").resolves(ok(Void));
+      sandbox.stub(pathUtils, "getYmlFilePath").returns("teamsapp.yml");
+      sandbox.stub(checkpointUtil, "getYmlHash").resolves("hash");
+    });
+
+    it("should start from the action in the checkpoint", async () => {
+      sandbox.stub(checkpointUtil, "read").resolves({
+        lifecycle: "deploy",
+        ymlHash: "hash",
+        resumeIndex: 1,
+        outputs: { RESUME_TEST_OUTPUT: "value" },
+      });
+      const removeStub = sandbox.stub(checkpointUtil, "remove").resolves();
+      const fxCore = new FxCore(tools);
+      const res = await fxCore.deployArtifacts(inputs);
+      assert.isTrue(res.isOk());
+      assert.equal(startIndex, 1);
+      assert.equal(writeEnvStub.lastCall.args[2].RESUME_TEST_OUTPUT, "value");
+      assert.isTrue(removeStub.calledOnce);
+    });
+
+    it("should execute all actions if there is no checkpoint", async () => {
+      sandbox.stub(checkpointUtil, "read").resolves(undefined);
+      sandbox.stub(checkpointUtil, "remove").resolves();
+      const fxCore = new FxCore(tools);
+      const res = await fxCore.deployArtifacts(inputs);
+      assert.isTrue(res.isOk());
+      assert.equal(startIndex, 0);
+    });
+
+    it("should fail if the yml file changed since the checkpoint", async () => {
+      sandbox.stub(checkpointUtil, "read").resolves({
+        lifecycle: "deploy",
+        ymlHash: "old hash",
+        resumeIndex: 1,
+        outputs: {},
+      });
+      const fxCore = new FxCore(tools);
+      const res = await fxCore.deployArtifacts(inputs);
+      assert.isTrue(res.isErr() && res.error instanceof ResumeCheckpointOutdatedError);
+      assert.isUndefined(startIndex);
+    });
+
+    it("should save a checkpoint when an action fails", async () => {
+      execResult = {
+        result: err({
+          kind: "PartialSuccess",
+          env: new Map([["OUTPUT_A", "VALUE_A"]]),
+          reason: {
+            kind: "DriverError",
+            failedDriver: { uses: "azureStorage/deploy", with: {} },
+            error: new UserError({}),
+          },
+        }),
+        summaries: [[], ["failed"]],
+      };
+      const writeStub = sandbox.stub(checkpointUtil, "write").resolves();
+      const fxCore = new FxCore(tools);
+      const res = await fxCore.deployArtifacts({ ...inputs, resume: false });
+      assert.isTrue(res.isErr());
+      assert.isTrue(
+        writeStub.calledOnceWith(".", "dev", {
+          lifecycle: "deploy",
+          ymlHash: "hash",
+          resumeIndex: 1,
+          outputs: { OUTPUT_A: "VALUE_A" },
+        })
+      );
+    });
+  });
   it("deploy cancel", async () => {
     const sbox = sinon.createSandbox();
     const mockProjectModel: ProjectModel = {
@@ -0,0 +1,136 @@
+import "mocha";
+
+import { assert } from "chai";
+import * as sinon from "sinon";
+
+import { err, Inputs, ok, Platform, UserError, Void } from "@microsoft/teamsfx-api";
+
+import { MetadataV3, VersionInfo, VersionSource } from "../../../src/common/versionMetadata";
+import { ExecutionResult, ProjectModel } from "../../../src/component/configManager/interface";
+import { checkpointUtil } from "../../../src/component/coordinator/checkpoint";
+import { deployUtils } from "../../../src/component/deployUtils";
+import { CreateAadAppDriver } from "../../../src/component/driver/aad/create";
+import { DriverContext } from "../../../src/component/driver/interface/commonArgs";
+import { envUtil } from "../../../src/component/utils/envUtil";
+import { metadataUtil } from "../../../src/component/utils/metadataUtil";
+import { pathUtils } from "../../../src/component/utils/pathUtils";
+import { FxCore } from "../../../src/core/FxCore";
+import { setTools } from "../../../src/core/globalVars";
+import * as v3MigrationUtils from "../../../src/core/middleware/utils/v3MigrationUtils";
+import { LifeCycleUndefinedError, UserCancelError } from "../../../src/error";
+import { MockTools } from "../../core/utils";
+import { mockedResolveDriverInstances } from "./coordinator.test";
+
+const versionInfo: VersionInfo = {
+  version: MetadataV3.projectVersion,
+  source: VersionSource.teamsapp,
+};
+
+describe("coordinator destroy", () => {
+  const sandbox = sinon.createSandbox();
+  const tools = new MockTools();
+  setTools(tools);
+  const inputs: Inputs = {
+    platform: Platform.CLI,
+    projectPath: ".",
+    env: "dev",
+    ignoreLockByUT: true,
+  };
+  let mockProjectModel: ProjectModel;
+  let writeEnvStub: sinon.SinonStub;
+  let destroyExecuted: boolean;
+
+  beforeEach(() => {
+    destroyExecuted = false;
+    mockProjectModel = {
+      version: "v1.4",
+      provision: {
+        name: "provision",
+        driverDefs: [
+          {
+            uses: "aadApp/create",
+            with: { name: "app", generateClientSecret: false },
+            writeToEnvironmentFile: { clientId: "DESTROY_TEST_CLIENT_ID" },
+          },
+        ],
+        resolvePlaceholders: () => {
+          return [];
+        },
+        execute: async (ctx: DriverContext): Promise<ExecutionResult> => {
+          return { result: ok(new Map()), summaries: [] };
+        },
+        resolveDriverInstances: mockedResolveDriverInstances,
+      },
+      destroy: {
+        name: "destroy",
+        driverDefs: [{ uses: "script", with: { run: "echo destroy" } }],
+        resolvePlaceholders: () => {
+          return [];
+        },
+        execute: async (ctx: DriverContext): Promise<ExecutionResult> => {
+          destroyExecuted = true;
+          return { result: ok(new Map([["DESTROY_TEST_SCRIPT", "done"]])), summaries: [] };
+        },
+        resolveDriverInstances: mockedResolveDriverInstances,
+      },
+    };
+    sandbox.stub(v3MigrationUtils, "getProjectVersion").resolves(versionInfo);
+    sandbox.stub(metadataUtil, "parse").callsFake(async () => ok(mockProjectModel));
+    sandbox.stub(envUtil, "listEnv").resolves(ok(["dev", "prod"]));
+    sandbox.stub(envUtil, "readEnv").resolves(ok({ DESTROY_TEST_CLIENT_ID: "client-id" }));
+    writeEnvStub = sandbox.stub(envUtil, "writeEnv").resolves(ok(undefined));
+    sandbox.stub(pathUtils, "getYmlFilePath").returns("teamsapp.yml");
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  it("should run the destroy lifecycle and undo provision", async () => {
+    sandbox.stub(deployUtils, "askForDestroyConsent").resolves(ok(Void));
+    const undoStub = sandbox.stub(CreateAadAppDriver.prototype, "undo").resolves({
+      result: ok(new Map([["DESTROY_TEST_CLIENT_ID", ""]])),
+      summaries: ["deleted"],
+    });
+    const removeStub = sandbox.stub(checkpointUtil, "remove").resolves();
+    const fxCore = new FxCore(tools);
+    const res = await fxCore.destroyResources(inputs);
+    assert.isTrue(res.isOk());
+    assert.isTrue(destroyExecuted);
+    assert.isTrue(undoStub.calledOnce);
+    assert.equal(writeEnvStub.lastCall.args[2].DESTROY_TEST_CLIENT_ID, "");
+    assert.equal(writeEnvStub.lastCall.args[2].DESTROY_TEST_SCRIPT, "done");
+    assert.isTrue(removeStub.calledOnceWith(".", "dev", "provision"));
+  });
+
+  it("should save the outputs of finished actions if undo fails", async () => {
+    sandbox.stub(deployUtils, "askForDestroyConsent").resolves(ok(Void));
+    sandbox.stub(CreateAadAppDriver.prototype, "undo").resolves({
+      result: err(new UserError("test", "test", "test")),
+      summaries: [],
+    });
+    const removeStub = sandbox.stub(checkpointUtil, "remove").resolves();
+    const fxCore = new FxCore(tools);
+    const res = await fxCore.destroyResources(inputs);
+    assert.isTrue(res.isErr());
+    assert.equal(writeEnvStub.lastCall.args[2].DESTROY_TEST_SCRIPT, "done");
+    assert.isTrue(removeStub.notCalled);
+  });
+
+  it("should not delete anything if the user cancels", async () => {
+    sandbox.stub(deployUtils, "askForDestroyConsent").resolves(err(new UserCancelError()));
+    const undoStub = sandbox.stub(CreateAadAppDriver.prototype, "undo");
+    const fxCore = new FxCore(tools);
+    const res = await fxCore.destroyResources(inputs);
+    assert.isTrue(res.isErr() && res.error instanceof UserCancelError);
+    assert.isFalse(destroyExecuted);
+    assert.isTrue(undoStub.notCalled);
+  });
+
+  it("should return error if there is nothing to destroy", async () => {
+    mockProjectModel = { version: "v1.4" };
+    const fxCore = new FxCore(tools);
+    const res = await fxCore.destroyResources(inputs);
+    assert.isTrue(res.isErr() && res.error instanceof LifeCycleUndefinedError);
+  });
+});
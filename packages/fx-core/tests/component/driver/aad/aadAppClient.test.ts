@@ -201,6 +201,14 @@ describe("AadAppClient", async () => {
       mock.onDelete(`https://graph.microsoft.com/v1.0/applications/test-id`).reply(200);
       await aadAppClient.deleteAadApp("test-id");
     });
+
+    it("should delete by client id", async () => {
+      const mock = new MockAdapter(axiosInstance);
+      mock
+        .onDelete(`https://graph.microsoft.com/v1.0/applications(appId='test-client-id')`)
+        .reply(204);
+      await aadAppClient.deleteAadAppByClientId("test-client-id");
+    });
   });
 
   describe("generateClientSecret", async () => {
@@ -598,4 +598,48 @@ describe("aadAppCreate", async () => {
       .and.has.property("message")
       .and.contains("action cannot be completed as the following parameter(s):");
   });
+  it("should delete the Microsoft Entra app and clear outputs when undo", async () => {
+    envRestore = mockedEnv({
+      [outputKeys.clientId]: expectedClientId,
+      [outputKeys.objectId]: expectedObjectId,
+    });
+    const deleteStub = sinon.stub(AadAppClient.prototype, "deleteAadApp").resolves();
+
+    const result = await createAadAppDriver.undo({} as any, mockedDriverContext, outputEnvVarNames);
+
+    expect(result.result.isOk()).to.be.true;
+    expect(deleteStub.calledOnceWith(expectedObjectId)).to.be.true;
+    expect(result.result._unsafeUnwrap().get(outputKeys.clientId)).to.equal("");
+    expect(result.result._unsafeUnwrap().get(outputKeys.clientSecret)).to.equal("");
+    expect(result.summaries.length).to.equal(1);
+  });
+
+  it("should ignore apps that no longer exist when undo", async () => {
+    envRestore = mockedEnv({
+      [outputKeys.clientId]: expectedClientId,
+      [outputKeys.objectId]: "",
+    });
+    const error: any = new Error("not found");
+    error.isAxiosError = true;
+    error.response = { status: 404 };
+    sinon.stub(AadAppClient.prototype, "deleteAadAppByClientId").rejects(error);
+
+    const result = await createAadAppDriver.undo({} as any, mockedDriverContext, outputEnvVarNames);
+
+    expect(result.result.isOk()).to.be.true;
+  });
+
+  it("should do nothing when undo without Microsoft Entra app in env", async () => {
+    envRestore = mockedEnv({
+      [outputKeys.clientId]: "",
+      [outputKeys.objectId]: "",
+    });
+    const deleteStub = sinon.stub(AadAppClient.prototype, "deleteAadApp").resolves();
+
+    const result = await createAadAppDriver.undo({} as any, mockedDriverContext, outputEnvVarNames);
+
+    expect(result.result.isOk()).to.be.true;
+    expect(deleteStub.notCalled).to.be.true;
+    expect(result.summaries.length).to.equal(0);
+  });
 });
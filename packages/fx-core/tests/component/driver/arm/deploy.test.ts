@@ -3,6 +3,7 @@
 
 import { assert } from "chai";
 import "mocha";
+import * as sinon from "sinon";
 import { createSandbox } from "sinon";
 import { setTools } from "../../../../src/core/globalVars";
 import {
@@ -20,6 +21,8 @@ import { ok } from "@microsoft/teamsfx-api";
 import * as bicepChecker from "../../../../src/component/driver/arm/util/bicepChecker";
 import axios from "axios";
 import { cpUtils } from "../../../../src/component/utils/depsChecker/cpUtils";
+import { resourceGroupHelper } from "../../../../src/component/utils/ResourceGroupHelper";
+import mockedEnv from "mocked-env";
 
 describe("Arm driver deploy", () => {
   const sandbox = createSandbox();
@@ -180,10 +183,171 @@ describe("Arm driver deploy", () => {
     assert.isTrue(res.result.isErr());
   });
 
+  it("invalid template parameters", async () => {
+    sandbox.stub(fs, "readFile").callsFake((file: any) => {
+      const content = String(file).endsWith("mock-template.json")
+        ? { parameters: { resourceBaseName: { type: "string" } } }
+        : { parameters: { resourceBaseName: { value: 1 } } };
+      return Promise.resolve(JSON.stringify(content) as any);
+    });
+    const createClientStub = sandbox.stub(ArmDeployImpl.prototype as any, "createClient");
+    const deployArgs = {
+      subscriptionId: "00000000-0000-0000-0000-000000000000",
+      resourceGroupName: "mock-group",
+      templates: [
+        {
+          path: "mock-template.json",
+          parameters: "mock-parameters.json",
+          deploymentName: "mock-deployment",
+        },
+      ],
+    };
+    const res = await driver.execute(deployArgs, mockedDriverContext);
+    assert.isTrue(res.result.isErr());
+    if (res.result.isErr()) {
+      assert.equal(res.result.error.name, "InvalidArmParametersError");
+      assert.include(res.result.error.message, "parameter 'resourceBaseName' should be of type");
+    }
+    assert.isTrue(createClientStub.notCalled);
+  });
+
   it("error handle", async () => {
     sandbox.stub(ArmDeployImpl.prototype, "run").throws("mocked deploy error");
 
     const res = await driver.execute({} as any, mockedDriverContext);
     assert.isTrue(res.result.isErr());
   });
+  it("undo: should delete the resource group and clear the built-in output", async () => {
+    const restore = mockedEnv({ AZURE_RESOURCE_GROUP_NAME: "mock-group" });
+    try {
+      sandbox.stub(ArmDeployImpl.prototype as any, "createClient").resolves();
+      const deleteStub = sandbox
+        .stub(resourceGroupHelper, "deleteResourceGroup")
+        .resolves(ok(true));
+      const res = await driver.undo(
+        { subscriptionId: "00000000-0000-0000-0000-000000000000", resourceGroupName: "mock-group" },
+        mockedDriverContext
+      );
+      assert.isTrue(res.result.isOk());
+      assert.isTrue(deleteStub.calledOnce);
+      if (res.result.isOk()) {
+        assert.equal(res.result.value.get("AZURE_RESOURCE_GROUP_NAME"), "");
+      }
+      assert.equal(res.summaries.length, 1);
+    } finally {
+      restore();
+    }
+  });
+
+  it("undo: should keep the output if the resource group is not deleted", async () => {
+    sandbox.stub(ArmDeployImpl.prototype as any, "createClient").resolves();
+    sandbox.stub(resourceGroupHelper, "deleteResourceGroup").resolves(ok(false));
+    const res = await driver.undo(
+      { subscriptionId: "00000000-0000-0000-0000-000000000000", resourceGroupName: "mock-group" },
+      mockedDriverContext
+    );
+    assert.isTrue(res.result.isOk());
+    if (res.result.isOk()) {
+      assert.equal(res.result.value.size, 0);
+    }
+  });
+
+  it("undo: invalid parameters", async () => {
+    const res = await driver.undo({ subscriptionId: "" }, mockedDriverContext);
+    assert.isTrue(res.result.isErr());
+  });
+
+  describe("what-if", () => {
+    const resourceGroupId =
+      "/subscriptions/00000000-0000-0000-0000-000000000000/resourceGroups/mock-group";
+    const whatIfArgs = {
+      subscriptionId: "00000000-0000-0000-0000-000000000000",
+      resourceGroupName: "mock-group",
+      whatIf: true,
+      templates: [
+        {
+          path: "mock-template.json",
+          parameters: "mock-parameters.json",
+          deploymentName: "mock-deployment",
+        },
+      ],
+    };
+    let whatIfStub: sinon.SinonStub;
+    let deployStub: sinon.SinonStub;
+
+    beforeEach(() => {
+      sandbox.stub(fs, "readFile").resolves("{}" as any);
+      whatIfStub = sandbox.stub().resolves({
+        status: "Succeeded",
+        changes: [
+          {
+            resourceId: `${resourceGroupId}/providers/Microsoft.Web/sites/bot`,
+            changeType: "Create",
+          },
+          {
+            resourceId: `${resourceGroupId}/providers/Microsoft.Web/serverFarms/plan`,
+            changeType: "Modify",
+          },
+          {
+            resourceId: `${resourceGroupId}/providers/Microsoft.KeyVault/vaults/vault`,
+            changeType: "NoChange",
+          },
+        ],
+      });
+      deployStub = sandbox.stub().resolves({
+        properties: { outputs: { mockKey: { type: "string", value: "mockValue" } } },
+      });
+      sandbox
+        .stub(ArmDeployImpl.prototype as any, "createClient")
+        .callsFake(function (this: ArmDeployImpl) {
+          this.client = {
+            deployments: {
+              beginWhatIfAndWait: whatIfStub,
+              beginCreateOrUpdateAndWait: deployStub,
+            },
+          } as any;
+          return Promise.resolve();
+        });
+    });
+
+    it("should list the changes without deploying", async () => {
+      const res = await driver.execute(whatIfArgs, mockedDriverContext);
+      assert.isTrue(res.result.isOk());
+      assert.isTrue(whatIfStub.calledOnce);
+      assert.isTrue(deployStub.notCalled);
+      if (res.result.isOk()) {
+        assert.equal(res.result.value.size, 0);
+      }
+      assert.include(res.summaries[0], "create 1, modify 1 and delete 0");
+      assert.include(res.summaries[1], "Create: Microsoft.Web/sites/bot");
+      assert.include(res.summaries[2], "Modify: Microsoft.Web/serverFarms/plan");
+      assert.isFalse(res.summaries.some((summary) => summary.includes("vaults")));
+    });
+
+    it("should deploy after the user confirms the changes", async () => {
+      const showMessageStub = sandbox
+        .stub(mockedDriverContext.ui, "showMessage")
+        .resolves(ok("Confirm"));
+      const res = await driver.execute({ ...whatIfArgs, confirmWhatIf: true }, mockedDriverContext);
+      assert.isTrue(res.result.isOk());
+      assert.include(showMessageStub.firstCall.args[1], "Microsoft.Web/sites/bot");
+      assert.isTrue(deployStub.calledOnce);
+      if (res.result.isOk()) {
+        assert.equal(res.result.value.get("MOCKKEY"), "mockValue");
+      }
+    });
+
+    it("should not deploy if the user cancels", async () => {
+      sandbox.stub(mockedDriverContext.ui, "showMessage").resolves(ok(undefined));
+      const res = await driver.execute({ ...whatIfArgs, confirmWhatIf: true }, mockedDriverContext);
+      assert.isTrue(res.result.isErr() && res.result.error.name === "UserCancel");
+      assert.isTrue(deployStub.notCalled);
+    });
+
+    it("should return error if the what-if operation fails", async () => {
+      whatIfStub.resolves({ status: "Failed", error: { message: "mocked what-if error" } });
+      const res = await driver.execute(whatIfArgs, mockedDriverContext);
+      assert.isTrue(res.result.isErr() && res.result.error.name === "WhatIfArmError");
+    });
+  });
 });
@@ -18,6 +18,8 @@ import { ok } from "@microsoft/teamsfx-api";
 import { getAbsolutePath, getEnvironmentVariables } from "../../../../src/component/utils/common";
 import * as common from "../../../../src/component/utils/common";
 import { convertOutputs, getFileExtension } from "../../../../src/component/driver/arm/util/util";
+import { validateTemplateParameters } from "../../../../src/component/driver/arm/util/parameterValidator";
+import { getDefaultString } from "../../../../src/common/localizeUtils";
 import {
   ArmErrorHandle,
   DeployContext,
@@ -564,3 +566,115 @@ describe("formattedDeploymentError Status", () => {
     });
   });
 });
+
+describe("validateTemplateParameters", () => {
+  const validate = (template: any, parameters: any) =>
+    validateTemplateParameters(template, parameters).map((issue) =>
+      getDefaultString(issue.key, ...issue.args)
+    );
+  const template = {
+    parameters: {
+      resourceBaseName: { type: "string", minLength: 4, maxLength: 20 },
+      sku: { type: "string", defaultValue: "F1", allowedValues: ["F1", "B1"] },
+      instanceCount: { type: "int", defaultValue: 1, minValue: 1, maxValue: 3 },
+      enableLogs: { type: "bool", defaultValue: false },
+      tags: { type: "object", defaultValue: {} },
+      locations: { type: "array", defaultValue: [], allowedValues: ["eastus", "westus"] },
+      botPassword: { type: "securestring" },
+      optionalName: { type: "string", nullable: true },
+    },
+  };
+
+  it("valid parameters", () => {
+    const parameters = {
+      parameters: {
+        ResourceBaseName: { value: "bot1234" },
+        sku: { value: "B1" },
+        instanceCount: { value: 3 },
+        locations: { value: ["eastus"] },
+        botPassword: {
+          reference: { keyVault: { id: "mock-vault-id" }, secretName: "botPassword" },
+        },
+      },
+    };
+    assert.deepEqual(validate(template, parameters), []);
+  });
+
+  it("no parameters file", () => {
+    assert.deepEqual(validate({}, null), []);
+    assert.deepEqual(validate(template, null), [
+      "parameter 'resourceBaseName' is required but has no value",
+      "parameter 'botPassword' is required but has no value",
+    ]);
+  });
+
+  it("report every mismatch", () => {
+    const parameters = {
+      parameters: {
+        resourceBaseName: { value: "bot" },
+        sku: { value: "S1" },
+        instanceCount: { value: "2" },
+        enableLogs: { value: "true" },
+        tags: { value: [] },
+        locations: { value: ["eastus", "northeurope"] },
+        botPassword: { value: 123456 },
+        unknown: { value: "value" },
+      },
+    };
+    assert.deepEqual(validate(template, parameters), [
+      "parameter 'unknown' is not declared in the template",
+      "length of parameter 'resourceBaseName' should not be less than 4",
+      `parameter 'sku' has value "S1", which is not one of the allowed values: "F1", "B1"`,
+      "parameter 'instanceCount' should be of type 'int', but got string",
+      "parameter 'enableLogs' should be of type 'bool', but got string",
+      "parameter 'tags' should be of type 'object', but got array",
+      `parameter 'locations' has value "northeurope", which is not one of the allowed values: "eastus", "westus"`,
+      "parameter 'botPassword' should be of type 'securestring', but got number",
+    ]);
+  });
+
+  it("range of values", () => {
+    const parameters = {
+      parameters: {
+        resourceBaseName: { value: "a".repeat(21) },
+        instanceCount: { value: 4 },
+        botPassword: { value: "password" },
+        optionalName: { value: null },
+      },
+    };
+    assert.deepEqual(validate(template, parameters), [
+      "length of parameter 'resourceBaseName' should not be greater than 20",
+      "parameter 'instanceCount' should not be greater than 3",
+    ]);
+  });
+
+  it("parameter without value", () => {
+    const parameters = {
+      parameters: { resourceBaseName: "bot1234", botPassword: { value: "password" } },
+    };
+    assert.deepEqual(validate(template, parameters), [
+      "parameter 'resourceBaseName' should be an object with a 'value' or 'reference' property",
+    ]);
+  });
+
+  it("values of secure parameters are not printed", () => {
+    const secureTemplate = {
+      parameters: {
+        botPassword: { type: "securestring", allowedValues: ["allowed-password"] },
+        botSecrets: { type: "secureobject", allowedValues: [{ password: "allowed-password" }] },
+      },
+    };
+    const parameters = {
+      parameters: {
+        botPassword: { value: "secret-password" },
+        botSecrets: { value: { password: "secret-password" } },
+      },
+    };
+    const issues = validate(secureTemplate, parameters);
+    assert.deepEqual(issues, [
+      "parameter 'botPassword' has a value which is not one of the allowed values",
+      "parameter 'botSecrets' has a value which is not one of the allowed values",
+    ]);
+    assert.notInclude(issues.join(), 'password"');
+  });
+});
@@ -316,4 +316,57 @@ describe("botAadAppCreate", async () => {
       expect(e instanceof UnhandledError).to.be.true;
     }
   });
+  it("should delete the bot app and clear outputs when undo", async () => {
+    envRestore = mockedEnv({
+      [outputKeys.botId]: expectedClientId,
+      [outputKeys.botPassword]: expectedSecretText,
+    });
+    const deleteStub = sinon.stub(AadAppClient.prototype, "deleteAadAppByClientId").resolves();
+
+    const result = await createBotAadAppDriver.undo(
+      {} as any,
+      mockedDriverContext,
+      outputEnvVarNames
+    );
+
+    expect(result.result.isOk()).to.be.true;
+    expect(deleteStub.calledOnceWith(expectedClientId)).to.be.true;
+    expect(result.result._unsafeUnwrap().get(outputKeys.botId)).to.equal("");
+    expect(result.result._unsafeUnwrap().get(outputKeys.botPassword)).to.equal("");
+    expect(result.summaries.length).to.equal(1);
+  });
+
+  it("should return error when failed to delete the bot app when undo", async () => {
+    envRestore = mockedEnv({
+      [outputKeys.botId]: expectedClientId,
+    });
+    sinon
+      .stub(AadAppClient.prototype, "deleteAadAppByClientId")
+      .rejects(new UserError("test", "test", "test"));
+
+    const result = await createBotAadAppDriver.undo(
+      {} as any,
+      mockedDriverContext,
+      outputEnvVarNames
+    );
+
+    expect(result.result.isErr()).to.be.true;
+    expect(result.summaries.length).to.equal(0);
+  });
+
+  it("should do nothing when undo without bot id in env", async () => {
+    envRestore = mockedEnv({
+      [outputKeys.botId]: "",
+    });
+    const deleteStub = sinon.stub(AadAppClient.prototype, "deleteAadAppByClientId").resolves();
+
+    const result = await createBotAadAppDriver.undo(
+      {} as any,
+      mockedDriverContext,
+      outputEnvVarNames
+    );
+
+    expect(result.result.isOk()).to.be.true;
+    expect(deleteStub.notCalled).to.be.true;
+  });
 });
@@ -34,6 +34,8 @@ describe("CreateOrUpdateM365BotDriver", () => {
         return util.format("The bot registration has been created successfully (%s).", ...params);
       } else if (key === "driver.botFramework.summary.update") {
         return util.format("The bot registration has been updated successfully (%s).", ...params);
+      } else if (key === "driver.botFramework.summary.delete") {
+        return util.format("The bot registration has been deleted successfully (%s).", ...params);
       }
       return "";
     });
@@ -398,4 +400,46 @@ describe("CreateOrUpdateM365BotDriver", () => {
       chai.assert(updateBotRegistrationCalled);
     });
   });
+  describe("undo", () => {
+    it("should delete the bot registration", async () => {
+      const deleteStub = sinon.stub(AppStudioClient, "deleteBot").resolves();
+      const args: any = {
+        botId: "11111111-1111-1111-1111-111111111111",
+        name: "test-bot",
+        messagingEndpoint: "https://test.ngrok.io/api/messages",
+      };
+      const executionResult = await driver.undo(args, mockedDriverContext);
+      chai.assert(executionResult.result.isOk());
+      chai.assert(deleteStub.calledOnce);
+      chai.assert.equal(deleteStub.firstCall.args[1], args.botId);
+      chai.assert.deepEqual(executionResult.summaries, [
+        "The bot registration has been deleted successfully (11111111-1111-1111-1111-111111111111).",
+      ]);
+    });
+
+    it("invalid args: missing botId", async () => {
+      const deleteStub = sinon.stub(AppStudioClient, "deleteBot").resolves();
+      const args: any = {
+        name: "test-bot",
+      };
+      const executionResult = await driver.undo(args, mockedDriverContext);
+      chai.assert(executionResult.result.isErr());
+      if (executionResult.result.isErr()) {
+        chai.assert(executionResult.result.error instanceof InvalidActionInputError);
+      }
+      chai.assert(deleteStub.notCalled);
+    });
+
+    it("should return error if failed to delete the bot registration", async () => {
+      sinon.stub(AppStudioClient, "deleteBot").rejects(new Error("failed"));
+      const args: any = {
+        botId: "11111111-1111-1111-1111-111111111111",
+      };
+      const executionResult = await driver.undo(args, mockedDriverContext);
+      chai.assert(executionResult.result.isErr());
+      if (executionResult.result.isErr()) {
+        chai.assert(executionResult.result.error instanceof UnhandledError);
+      }
+    });
+  });
 });
@@ -277,6 +277,7 @@ describe("Azure App Service Deploy Driver test", () => {
     // read deploy zip file error
     sandbox
       .stub(fs, "readFile")
+      .callThrough()
       .withArgs(
         `./${DeployConstant.DEPLOYMENT_TMP_FOLDER}/${DeployConstant.DEPLOYMENT_ZIP_CACHE_FILE}`
       )
@@ -568,4 +569,200 @@ describe("Azure App Service Deploy Driver test", () => {
     const res = await deploy.execute(args, context);
     assert.equal(res.result.isOk(), false);
   });
+
+  it("incremental deploy", async () => {
+    const workingDirectory = path.join(sysTmp, uuid.v4());
+    const distDirectory = path.join(workingDirectory, "dist");
+    await fs.mkdirs(distDirectory);
+    await fs.writeFile(path.join(distDirectory, "index.js"), "v1");
+    await fs.writeFile(path.join(distDirectory, "package.json"), "{}");
+    const deploy = new AzureAppServiceDeployDriver();
+    const args = {
+      workingDirectory,
+      artifactFolder: "./dist",
+      resourceId:
+        "/subscriptions/e24d88be-bbbb-1234-ba25-aa11aaaa1aa1/resourceGroups/hoho-rg/providers/Microsoft.Web/sites/some-server-farm",
+    } as DeployArgs;
+    const context = {
+      azureAccountProvider: new TestAzureAccountProvider(),
+      logProvider: new TestLogProvider(),
+      ui: new MockUserInteraction(),
+      telemetryReporter: new MockTelemetryReporter(),
+    } as any;
+    const credential = new MyTokenCredential();
+    sandbox.stub(context.azureAccountProvider, "getIdentityCredentialAsync").resolves(credential);
+    const client = new appService.WebSiteManagementClient(credential, "z");
+    sandbox.stub(appService, "WebSiteManagementClient").returns(client);
+    sandbox.stub(client.webApps, "beginListPublishingCredentialsAndWait").resolves({
+      publishingUserName: "test-username",
+      publishingPassword: "test-password",
+    } as Models.WebAppsListPublishingCredentialsResponse);
+    sandbox.stub(client.webApps, "restart").resolves();
+    const postStub = sandbox.stub(AzureDeployImpl.AXIOS_INSTANCE, "post").resolves({
+      status: 200,
+      headers: { location: "/api/123" },
+    });
+    sandbox.stub(AzureDeployImpl.AXIOS_INSTANCE, "get").resolves({ status: 200, data: {} });
+
+    try {
+      // the first deployment is a full one
+      const first = await deploy.execute(args, context);
+      assert.isTrue(first.result.isOk());
+      assert.equal(postStub.callCount, 1);
+      assert.isTrue(
+        await fs.pathExists(
+          path.join(workingDirectory, ".deployment", DeployConstant.DEPLOYMENT_MANIFEST_FILE)
+        )
+      );
+
+      // nothing changed
+      const second = await deploy.execute(args, context);
+      assert.isTrue(second.result.isOk());
+      assert.equal(postStub.callCount, 1);
+      assert.equal(second.summaries.length, 1);
+      assert.include(second.summaries[0], "Deployment is skipped");
+      assert.include(second.summaries[0], DeployConstant.DEPLOYMENT_MANIFEST_FILE);
+      assert.include(second.summaries[0], "incremental: false");
+
+      // deploy changed files
+      await fs.writeFile(path.join(distDirectory, "index.js"), "v2");
+      await fs.writeFile(path.join(distDirectory, "new.js"), "v1");
+      await fs.remove(path.join(distDirectory, "package.json"));
+      const third = await deploy.execute(args, context);
+      assert.isTrue(third.result.isOk());
+      assert.equal(postStub.callCount, 2);
+      assert.include(third.summaries[1], "3 file(s) changed");
+      assert.include(third.summaries[1], "+new.js, ~index.js, -package.json");
+
+      // always deploy if incremental is false
+      const fourth = await deploy.execute({ ...args, incremental: false }, context);
+      assert.isTrue(fourth.result.isOk());
+      assert.equal(postStub.callCount, 3);
+    } finally {
+      await fs.remove(workingDirectory);
+    }
+  });
+
+  describe("deployment slot", () => {
+    const site = "some-server-farm";
+    const slot = "staging";
+    const resourceId = `/subscriptions/e24d88be-bbbb-1234-ba25-aa11aaaa1aa1/resourceGroups/hoho-rg/providers/Microsoft.Web/sites/${site}`;
+    let requests: string[];
+    let productionHealthy: boolean;
+    let workingDirectory: string;
+
+    beforeEach(async () => {
+      requests = [];
+      productionHealthy = true;
+      // stand-ins of the Kudu, site and ARM endpoints
+      const respond = (method: string, url: string) => {
+        requests.push(`${method} ${url}`);
+        if (url.endsWith("/api/zipdeploy?isAsync=true")) {
+          return {
+            status: 202,
+            headers: {
+              location: `https://${site}-${slot}.scm.azurewebsites.net/api/deployments/latest`,
+            },
+          };
+        } else if (url.endsWith("/api/deployments/latest")) {
+          return { status: 200, headers: {}, data: { status: 4 } };
+        } else if (url.startsWith(`https://${site}-${slot}.azurewebsites.net/`)) {
+          return { status: 200, headers: {} };
+        } else if (url.startsWith(`https://${site}.azurewebsites.net/`) && productionHealthy) {
+          return { status: 200, headers: {} };
+        } else if (
+          url.startsWith(`${DeployConstant.ARM_ENDPOINT}/`) &&
+          url.includes(`/slots/${slot}/slotsswap`)
+        ) {
+          return { status: 200, headers: {} };
+        }
+        throw { isAxiosError: true, response: { status: url.includes(site) ? 503 : 404 } };
+      };
+      sandbox
+        .stub(AzureDeployImpl.AXIOS_INSTANCE, "post")
+        .callsFake(async (url: string) => Promise.resolve(respond("POST", url)));
+      sandbox
+        .stub(AzureDeployImpl.AXIOS_INSTANCE, "get")
+        .callsFake(async (url: string) => Promise.resolve(respond("GET", url)));
+      workingDirectory = path.join(sysTmp, uuid.v4());
+      await fs.mkdirs(path.join(workingDirectory, "dist"));
+      await fs.writeFile(path.join(workingDirectory, "dist", "index.js"), "v1");
+    });
+
+    afterEach(async () => {
+      await fs.remove(workingDirectory);
+    });
+
+    function createContext() {
+      const context = {
+        azureAccountProvider: new TestAzureAccountProvider(),
+        logProvider: new TestLogProvider(),
+        ui: new MockUserInteraction(),
+        telemetryReporter: new MockTelemetryReporter(),
+      } as any;
+      sandbox
+        .stub(context.azureAccountProvider, "getIdentityCredentialAsync")
+        .resolves(new MyTokenCredential());
+      return context;
+    }
+
+    it("deploy to a slot, check health and swap", async () => {
+      const deploy = new AzureAppServiceDeployDriver();
+      const args = {
+        workingDirectory,
+        artifactFolder: "./dist",
+        resourceId,
+        slot,
+        healthCheckPath: "/api/health",
+      } as DeployArgs;
+      const res = await deploy.execute(args, createContext());
+      assert.isTrue(res.result.isOk(), res.result.isErr() ? res.result.error.message : "");
+      assert.deepEqual(
+        requests.map((request) => request.split("?")[0]),
+        [
+          `POST https://${site}-${slot}.scm.azurewebsites.net/api/zipdeploy`,
+          `GET https://${site}-${slot}.scm.azurewebsites.net/api/deployments/latest`,
+          `GET https://${site}-${slot}.azurewebsites.net/api/health`,
+          `POST ${DeployConstant.ARM_ENDPOINT}${resourceId}/slots/${slot}/slotsswap`,
+          `GET https://${site}.azurewebsites.net/api/health`,
+        ]
+      );
+      assert.include(res.summaries[1], `Swapped deployment slot '${slot}' with production`);
+    });
+
+    it("swap back if the health check of production fails", async () => {
+      productionHealthy = false;
+      const deploy = new AzureAppServiceDeployDriver();
+      const args = {
+        workingDirectory,
+        artifactFolder: "./dist",
+        resourceId,
+        slot,
+        healthCheckPath: "api/health",
+      } as DeployArgs;
+      const res = await deploy.execute(args, createContext());
+      assert.isTrue(res.result.isErr() && res.result.error.name === "HealthCheckFailedError");
+      const swaps = requests.filter((request) => request.includes("/slotsswap"));
+      assert.equal(swaps.length, 2);
+      assert.equal(
+        requests.filter((request) => request.startsWith(`GET https://${site}.azurewebsites.net/`))
+          .length,
+        DeployConstant.HEALTH_CHECK_RETRY_TIMES
+      );
+    });
+
+    it("deploy to a slot without swapping", async () => {
+      const deploy = new AzureAppServiceDeployDriver();
+      const args = {
+        workingDirectory,
+        artifactFolder: "./dist",
+        resourceId,
+        slot,
+        swap: false,
+      } as DeployArgs;
+      const res = await deploy.execute(args, createContext());
+      assert.isTrue(res.result.isOk());
+      assert.isFalse(requests.some((request) => request.includes("/slotsswap")));
+    });
+  });
 });
@@ -0,0 +1,224 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert } from "chai";
+import "mocha";
+import * as sinon from "sinon";
+import * as tools from "../../../../../src/common/tools";
+import { DeployConstant } from "../../../../../src/component/constant/deployConstant";
+import {
+  AzureContainerAppsDeployDriver,
+  AzureContainerAppsDeployDriverImpl,
+} from "../../../../../src/component/driver/deploy/azure/azureContainerAppsDeployDriver";
+import { cpUtils } from "../../../../../src/component/utils/depsChecker/cpUtils";
+import { MyTokenCredential } from "../../../../plugins/solution/util";
+import { MockTelemetryReporter, MockUserInteraction } from "../../../../core/utils";
+import { TestAzureAccountProvider } from "../../../util/azureAccountMock";
+import { TestLogProvider } from "../../../util/logProviderMock";
+
+describe("Azure Container Apps Deploy Driver test", () => {
+  const sandbox = sinon.createSandbox();
+  const appPath =
+    "/subscriptions/e24d88be-bbbb-1234-ba25-aa11aaaa1aa1/resourceGroups/hoho-rg/providers/Microsoft.App/containerApps/bot-app";
+  const appUrl = `${DeployConstant.ARM_ENDPOINT}${appPath}`;
+  let app: any;
+  let patches: any[];
+  let staleReads: number;
+  let revisionStates: { healthState: string; provisioningState: string }[];
+  let requests: string[];
+
+  beforeEach(() => {
+    sandbox.stub(tools, "waitSeconds").resolves();
+    app = {
+      properties: {
+        provisioningState: "Succeeded",
+        latestRevisionName: "bot-app--rev1",
+        template: {
+          containers: [
+            { name: "bot", image: "contoso.azurecr.io/bot:1" },
+            { name: "sidecar", image: "contoso.azurecr.io/sidecar:1" },
+          ],
+        },
+      },
+    };
+    patches = [];
+    // reads of the app that still report the previous revision after the update
+    staleReads = 0;
+    revisionStates = [{ healthState: "Healthy", provisioningState: "Provisioned" }];
+    requests = [];
+    const clone = (data: any) => JSON.parse(JSON.stringify(data));
+    sandbox.stub(AzureContainerAppsDeployDriverImpl.AXIOS_INSTANCE, "get").callsFake((async (
+      url: string
+    ) => {
+      const path = url.split("?")[0];
+      requests.push(`GET ${path}`);
+      if (path === appUrl) {
+        const data = clone(app);
+        if (app.properties.provisioningState === "InProgress") {
+          if (staleReads > 0) {
+            --staleReads;
+            data.properties.provisioningState = "Succeeded";
+          } else {
+            app.properties.provisioningState = "Succeeded";
+            app.properties.latestRevisionName = "bot-app--rev2";
+            data.properties = clone(app.properties);
+          }
+        }
+        return { status: 200, data };
+      } else if (path === `${appUrl}/revisions/bot-app--rev2`) {
+        const state = revisionStates.length > 1 ? revisionStates.shift() : revisionStates[0];
+        return {
+          status: 200,
+          data: { properties: { ...state, replicas: 1, template: clone(app.properties.template) } },
+        };
+      }
+      throw { isAxiosError: true, response: { status: 404 } };
+    }) as any);
+    sandbox.stub(AzureContainerAppsDeployDriverImpl.AXIOS_INSTANCE, "patch").callsFake((async (
+      url: string,
+      body: any
+    ) => {
+      requests.push(`PATCH ${url.split("?")[0]}`);
+      patches.push(clone(body));
+      app.properties.provisioningState = "InProgress";
+      app.properties.template = clone(body.properties.template);
+      return { status: 202 };
+    }) as any);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  function createContext() {
+    const context = {
+      azureAccountProvider: new TestAzureAccountProvider(),
+      logProvider: new TestLogProvider(),
+      ui: new MockUserInteraction(),
+      telemetryReporter: new MockTelemetryReporter(),
+      projectPath: "./",
+    } as any;
+    sandbox
+      .stub(context.azureAccountProvider, "getIdentityCredentialAsync")
+      .resolves(new MyTokenCredential());
+    return context;
+  }
+
+  it("deploy a prebuilt image", async () => {
+    const driver = new AzureContainerAppsDeployDriver();
+    const args = {
+      resourceId: appPath,
+      image: "contoso.azurecr.io/bot:2",
+      containerName: "sidecar",
+    };
+    const res = await driver.execute(args, createContext());
+    assert.isTrue(res.result.isOk(), res.result.isErr() ? res.result.error.message : "");
+    assert.equal(patches.length, 1);
+    assert.deepEqual(patches[0].properties.template.containers, [
+      { name: "bot", image: "contoso.azurecr.io/bot:1" },
+      { name: "sidecar", image: "contoso.azurecr.io/bot:2" },
+    ]);
+    assert.include(res.summaries[0], "bot-app--rev2");
+    assert.isTrue(requests.every((r) => r.includes(` ${DeployConstant.ARM_ENDPOINT}/`)));
+  });
+
+  it("wait for the new revision instead of the previous one", async () => {
+    staleReads = 2;
+    const driver = new AzureContainerAppsDeployDriver();
+    const args = { resourceId: appPath, image: "contoso.azurecr.io/bot:2" };
+    const res = await driver.execute(args, createContext());
+    assert.isTrue(res.result.isOk(), res.result.isErr() ? res.result.error.message : "");
+    assert.include(res.summaries[0], "bot-app--rev2");
+    assert.notInclude(requests, `GET ${appUrl}/revisions/bot-app--rev1`);
+  });
+
+  it("build and push the image", async () => {
+    const commandStub = sandbox.stub(cpUtils, "executeCommand").resolves("");
+    const driver = new AzureContainerAppsDeployDriver();
+    const args = {
+      resourceId: appPath,
+      registry: "contoso.azurecr.io",
+      imageName: "bot",
+      tag: "2",
+    };
+    const res = await driver.execute(args, createContext());
+    assert.isTrue(res.result.isOk());
+    assert.deepEqual(commandStub.firstCall.args.slice(3), [
+      "docker",
+      "build",
+      "-t",
+      "contoso.azurecr.io/bot:2",
+      "-f",
+      "Dockerfile",
+      ".",
+    ]);
+    assert.deepEqual(commandStub.secondCall.args.slice(3), [
+      "docker",
+      "push",
+      "contoso.azurecr.io/bot:2",
+    ]);
+    assert.equal(patches[0].properties.template.containers[0].image, "contoso.azurecr.io/bot:2");
+  });
+
+  it("only build the image in dry run", async () => {
+    const commandStub = sandbox.stub(cpUtils, "executeCommand").resolves("");
+    const driver = new AzureContainerAppsDeployDriver();
+    const args = {
+      resourceId: appPath,
+      registry: "contoso.azurecr.io",
+      imageName: "bot",
+      dryRun: true,
+    };
+    const res = await driver.execute(args, createContext());
+    assert.isTrue(res.result.isOk());
+    assert.isTrue(commandStub.calledOnce);
+    assert.equal(patches.length, 0);
+    assert.include(res.summaries[0], "contoso.azurecr.io/bot:");
+  });
+
+  it("build error", async () => {
+    sandbox.stub(cpUtils, "executeCommand").rejects(new Error("docker is not running"));
+    const driver = new AzureContainerAppsDeployDriver();
+    const args = { resourceId: appPath, registry: "contoso.azurecr.io", imageName: "bot" };
+    const res = await driver.execute(args, createContext());
+    assert.isTrue(res.result.isErr() && res.result.error.name === "BuildContainerImageError");
+  });
+
+  it("missing image and registry", async () => {
+    const driver = new AzureContainerAppsDeployDriver();
+    const res = await driver.execute({ resourceId: appPath }, createContext());
+    assert.isTrue(res.result.isErr());
+    assert.equal(patches.length, 0);
+  });
+
+  it("container not found", async () => {
+    const driver = new AzureContainerAppsDeployDriver();
+    const args = { resourceId: appPath, image: "contoso.azurecr.io/bot:2", containerName: "web" };
+    const res = await driver.execute(args, createContext());
+    assert.isTrue(res.result.isErr() && res.result.error.name === "ContainerAppUpdateError");
+    assert.equal(patches.length, 0);
+  });
+
+  it("wait until the revision is healthy", async () => {
+    revisionStates = [
+      { healthState: "None", provisioningState: "Provisioning" },
+      { healthState: "None", provisioningState: "Provisioned" },
+      { healthState: "Healthy", provisioningState: "Provisioned" },
+    ];
+    const driver = new AzureContainerAppsDeployDriver();
+    const args = { resourceId: appPath, image: "contoso.azurecr.io/bot:2" };
+    const res = await driver.execute(args, createContext());
+    assert.isTrue(res.result.isOk());
+    assert.equal(revisionStates.length, 1);
+  });
+
+  it("unhealthy revision", async () => {
+    revisionStates = [{ healthState: "Unhealthy", provisioningState: "Provisioned" }];
+    const driver = new AzureContainerAppsDeployDriver();
+    const args = { resourceId: appPath, image: "contoso.azurecr.io/bot:2" };
+    const res = await driver.execute(args, createContext());
+    assert.isTrue(
+      res.result.isErr() && res.result.error.name === "ContainerAppRevisionUnhealthyError"
+    );
+  });
+});
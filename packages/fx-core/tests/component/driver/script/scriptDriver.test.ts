@@ -32,6 +32,15 @@ describe("Script Driver test", () => {
   afterEach(async () => {
     sandbox.restore();
   });
+  it("preview should describe the command without running it", async () => {
+    const execStub = sandbox.stub(child_process, "exec");
+    const res = await scriptDriver.preview({ run: "npm install", workingDirectory: "./api" });
+    assert.isTrue(res.isOk());
+    if (res.isOk()) {
+      assert.deepEqual(res.value, ["Command npm install will be executed in ./api"]);
+    }
+    sinon.assert.notCalled(execStub);
+  });
   it("execute success: set-output and append to file", async () => {
     const appendFileSyncStub = sandbox.stub(fs, "appendFileSync");
     const args = {
@@ -75,6 +84,21 @@ describe("Script Driver test", () => {
     const res = await scriptDriver.execute(args, context);
     assert.isTrue(res.result.isErr());
   });
+  it("runHook passes the given env variables to the script", async () => {
+    sandbox.stub(charsetUtils, "getSystemEncoding").resolves("utf-8");
+    const execStub = sandbox.stub(child_process, "exec").callsArgWith(2, null, "", "");
+    const context = {
+      azureAccountProvider: new TestAzureAccountProvider(),
+      logProvider: new TestLogProvider(),
+      ui: new MockUserInteraction(),
+      projectPath: "./",
+    } as any;
+    const res = await scriptDriver.runHook({ run: "echo hook" }, context, {
+      OUTPUT_A: "VALUE_A",
+    });
+    assert.isTrue(res.isOk());
+    assert.equal(execStub.firstCall.args[1]?.env?.OUTPUT_A, "VALUE_A");
+  });
   it("convertScriptErrorToFxError ScriptTimeoutError", async () => {
     const error = { killed: true } as child_process.ExecException;
     const res = convertScriptErrorToFxError(error, "test");
@@ -0,0 +1,121 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import AdmZip from "adm-zip";
+import chai from "chai";
+import "mocha";
+import {
+  diffAppPackage,
+  diffJson,
+  formatManifestChange,
+} from "../../../../src/component/driver/teamsApp/utils/appPackageDiff";
+
+describe("appPackageDiff", async () => {
+  function createPackage(manifest: any, files: Record<string, string> = {}): Buffer {
+    const zip = new AdmZip();
+    zip.addFile("manifest.json", Buffer.from(JSON.stringify(manifest)));
+    for (const [name, content] of Object.entries(files)) {
+      zip.addFile(name, Buffer.from(content));
+    }
+    return zip.toBuffer();
+  }
+
+  const manifest = {
+    id: "00000000-0000-0000-0000-000000000000",
+    name: { short: "App", full: "My App" },
+    icons: { color: "color.png", outline: "outline.png" },
+    staticTabs: [
+      { entityId: "index", name: "Home" },
+      { entityId: "about", name: "About" },
+    ],
+    localizationInfo: {
+      defaultLanguageTag: "en-us",
+      additionalLanguages: [{ languageTag: "fr", file: "fr.json" }],
+    },
+  };
+
+  describe("diffJson", async () => {
+    it("ignores the order of keys and of items with an id", async () => {
+      const local = {
+        staticTabs: [manifest.staticTabs[1], manifest.staticTabs[0]],
+        name: { full: "My App", short: "App" },
+      };
+      const remote = { name: manifest.name, staticTabs: manifest.staticTabs };
+      chai.assert.deepEqual(diffJson(remote, local), []);
+    });
+
+    it("reports added, removed and modified fields", async () => {
+      const remote = { name: { short: "App" }, developer: { name: "Contoso" }, tags: ["a"] };
+      const local = { name: { short: "My App" }, tags: ["a", "b"], bots: [{ botId: "bot" }] };
+      chai.assert.deepEqual(diffJson(remote, local), [
+        { path: "name.short", kind: "modified", remote: "App", local: "My App" },
+        { path: "developer", kind: "removed", remote: { name: "Contoso" } },
+        { path: "tags[1]", kind: "added", local: "b" },
+        { path: "bots", kind: "added", local: [{ botId: "bot" }] },
+      ]);
+    });
+
+    it("matches array items by id", async () => {
+      const local = {
+        staticTabs: [{ entityId: "about", name: "About us" }, manifest.staticTabs[0]],
+      };
+      chai.assert.deepEqual(diffJson({ staticTabs: manifest.staticTabs }, local), [
+        {
+          path: "staticTabs[entityId=about].name",
+          kind: "modified",
+          remote: "About",
+          local: "About us",
+        },
+      ]);
+    });
+  });
+
+  describe("diffAppPackage", async () => {
+    it("no change", async () => {
+      const files = { "color.png": "color", "outline.png": "outline", "fr.json": "{}" };
+      const remote = createPackage(manifest, files);
+      const local = createPackage(manifest, files);
+      chai.assert.deepEqual(diffAppPackage(remote, local), []);
+    });
+
+    it("compares icons and localization files by content", async () => {
+      const remote = createPackage(manifest, {
+        "color.png": "color",
+        "outline.png": "outline",
+        "fr.json": "\uFEFF" + JSON.stringify({ "name.short": "Appli" }),
+      });
+      const localManifest = {
+        ...manifest,
+        icons: { color: "resources/color.png", outline: "outline.png" },
+        localizationInfo: {
+          ...manifest.localizationInfo,
+          additionalLanguages: [
+            { languageTag: "fr", file: "fr.json" },
+            { languageTag: "de", file: "de.json" },
+          ],
+        },
+      };
+      const local = createPackage(localManifest, {
+        "resources/color.png": "color",
+        "outline.png": "new outline",
+        "fr.json": JSON.stringify({ "name.short": "Mon appli" }),
+        "de.json": "{}",
+      });
+      const changes = diffAppPackage(remote, local);
+      chai.assert.deepEqual(
+        changes.map((change) => `${change.file} ${change.path} ${change.kind}`),
+        [
+          "manifest.json localizationInfo.additionalLanguages[languageTag=de] added",
+          "icons.outline  modified",
+          "localization[fr] name.short modified",
+          "localization[de]  added",
+        ]
+      );
+      chai.assert.equal(
+        formatManifestChange(changes[2]),
+        '~ localization[fr]: name.short: "Appli" -> "Mon appli"'
+      );
+      chai.assert.equal(formatManifestChange(changes[1]), "~ icons.outline");
+    });
+  });
+});
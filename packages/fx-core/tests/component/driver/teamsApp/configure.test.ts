@@ -6,8 +6,9 @@ import * as sinon from "sinon";
 import chai from "chai";
 import fs from "fs-extra";
 import AdmZip from "adm-zip";
+import mockedEnv from "mocked-env";
 import { v4 as uuid } from "uuid";
-import { TeamsAppManifest } from "@microsoft/teamsfx-api";
+import { TeamsAppManifest, ok } from "@microsoft/teamsfx-api";
 import { ConfigureTeamsAppDriver } from "../../../../src/component/driver/teamsApp/configure";
 import { ConfigureTeamsAppArgs } from "../../../../src/component/driver/teamsApp/interfaces/ConfigureTeamsAppArgs";
 import { AppStudioError } from "../../../../src/component/driver/teamsApp/errors";
@@ -213,4 +214,73 @@ describe("teamsApp/update", async () => {
     const result = await teamsAppDriver.execute(args, mockedDriverContext);
     chai.assert.isTrue(result.result.isOk());
   });
+
+  describe("checkDrift", async () => {
+    const teamsAppId = uuid();
+    let restore: () => void;
+
+    function createPackage(name: string): Buffer {
+      const zip = new AdmZip();
+      const manifest = new TeamsAppManifest();
+      manifest.id = teamsAppId;
+      manifest.name.short = name;
+      zip.addFile(Constants.MANIFEST_FILE, Buffer.from(JSON.stringify(manifest)));
+      return zip.toBuffer();
+    }
+
+    beforeEach(() => {
+      restore = mockedEnv({ TEAMS_APP_UPDATE_TIME: "2023-01-01T00:00:00.000Z" });
+      sinon.stub(fs, "pathExists").resolves(true);
+      sinon.stub(fs, "readFile").resolves(createPackage("local") as any);
+      sinon
+        .stub(AppStudioClient, "getAppPackage")
+        .resolves(createPackage("remote").toString("base64"));
+    });
+
+    afterEach(() => {
+      restore();
+    });
+
+    it("overwrite the changes made in Developer Portal", async () => {
+      sinon
+        .stub(AppStudioClient, "getApp")
+        .resolves({ ...appDef, updatedAt: "2023-01-02T00:00:00.000Z" });
+      const importStub = sinon.stub(AppStudioClient, "importApp").resolves(appDef);
+      const showMessageStub = sinon
+        .stub(mockedDriverContext.ui, "showMessage")
+        .resolves(ok("Overwrite and update"));
+
+      const args: ConfigureTeamsAppArgs = { appPackagePath: "fakePath", checkDrift: true };
+      const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+      chai.assert.isTrue(result.isOk());
+      chai.assert.isTrue(importStub.calledOnce);
+      chai.assert.include(showMessageStub.firstCall.args[1], 'name.short: "remote" -> "local"');
+    });
+
+    it("cancel", async () => {
+      sinon
+        .stub(AppStudioClient, "getApp")
+        .resolves({ ...appDef, updatedAt: "2023-01-02T00:00:00.000Z" });
+      const importStub = sinon.stub(AppStudioClient, "importApp").resolves(appDef);
+      sinon.stub(mockedDriverContext.ui, "showMessage").resolves(ok(undefined));
+
+      const args: ConfigureTeamsAppArgs = { appPackagePath: "fakePath", checkDrift: true };
+      const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+      chai.assert.isTrue(result.isErr() && result.error.name === "UserCancel");
+      chai.assert.isTrue(importStub.notCalled);
+    });
+
+    it("not changed in Developer Portal", async () => {
+      sinon
+        .stub(AppStudioClient, "getApp")
+        .resolves({ ...appDef, updatedAt: "2023-01-01T00:00:00.000Z" });
+      sinon.stub(AppStudioClient, "importApp").resolves(appDef);
+      const showMessageStub = sinon.stub(mockedDriverContext.ui, "showMessage");
+
+      const args: ConfigureTeamsAppArgs = { appPackagePath: "fakePath", checkDrift: true };
+      const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+      chai.assert.isTrue(result.isOk());
+      chai.assert.isTrue(showMessageStub.notCalled);
+    });
+  });
 });
@@ -20,6 +20,8 @@ import { AppStudioClient } from "../../../../src/component/driver/teamsApp/clien
 import { AppDefinition } from "./../../../../src/component/driver/teamsApp/interfaces/appdefinitions/appDefinition";
 import { Constants } from "./../../../../src/component/driver/teamsApp/constants";
 import { ExecutionResult } from "../../../../src/component/driver/interface/stepDriver";
+import { AuthSvcClient } from "../../../../src/component/driver/teamsApp/clients/authSvcClient";
+import mockedEnv from "mocked-env";
 
 describe("teamsApp/create", async () => {
   const teamsAppDriver = new CreateTeamsAppDriver();
@@ -122,4 +124,52 @@ describe("teamsApp/create", async () => {
     const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
     chai.assert.isTrue(result.isErr());
   });
+  it("undo: should delete the Teams app and clear outputs", async () => {
+    const restore = mockedEnv({ TEAMS_APP_ID: appDef.teamsAppId, TEAMS_APP_TENANT_ID: uuid() });
+    try {
+      sinon.stub(AuthSvcClient, "getRegion").resolves(undefined);
+      const deleteStub = sinon.stub(AppStudioClient, "deleteApp").resolves(true);
+
+      const result = await teamsAppDriver.undo({ name: appDef.appName! }, mockedDriverContext);
+      chai.assert.isTrue(result.result.isOk());
+      chai.assert.isTrue(deleteStub.calledOnce);
+      chai.assert.equal(deleteStub.firstCall.args[0], appDef.teamsAppId);
+      if (result.result.isOk()) {
+        chai.assert.equal(result.result.value.get("TEAMS_APP_ID"), "");
+        chai.assert.equal(result.result.value.get("TEAMS_APP_TENANT_ID"), "");
+      }
+      chai.assert.equal(result.summaries.length, 1);
+    } finally {
+      restore();
+    }
+  });
+
+  it("undo: should return error if failed to delete the Teams app", async () => {
+    const restore = mockedEnv({ TEAMS_APP_ID: appDef.teamsAppId });
+    try {
+      sinon.stub(AuthSvcClient, "getRegion").resolves(undefined);
+      sinon.stub(AppStudioClient, "deleteApp").throws(new Error("failed"));
+
+      const result = await teamsAppDriver.undo({ name: appDef.appName! }, mockedDriverContext);
+      chai.assert.isTrue(result.result.isErr());
+      if (result.result.isErr()) {
+        chai.assert.equal(result.result.error.name, "TeamsAppDeleteFailed");
+      }
+    } finally {
+      restore();
+    }
+  });
+
+  it("undo: should do nothing if there is no Teams app id", async () => {
+    const restore = mockedEnv({ TEAMS_APP_ID: "" });
+    try {
+      const deleteStub = sinon.stub(AppStudioClient, "deleteApp").resolves(true);
+
+      const result = await teamsAppDriver.undo({ name: appDef.appName! }, mockedDriverContext);
+      chai.assert.isTrue(result.result.isOk());
+      chai.assert.isTrue(deleteStub.notCalled);
+    } finally {
+      restore();
+    }
+  });
 });
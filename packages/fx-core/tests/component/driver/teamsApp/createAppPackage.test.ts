@@ -621,6 +621,78 @@ describe("teamsApp/createAppPackage", async () => {
     }
   });
 
+  it("happy path - localization files", async () => {
+    const args: CreateAppPackageArgs = {
+      manifestPath:
+        "./tests/plugins/resource/appstudio/resources-multi-env/templates/appPackage/v3.manifest.template.json",
+      outputZipPath:
+        "./tests/plugins/resource/appstudio/resources-multi-env/build/appPackage/appPackage.dev.zip",
+      outputJsonPath:
+        "./tests/plugins/resource/appstudio/resources-multi-env/build/appPackage/manifest.dev.json",
+    };
+
+    const manifest = new TeamsAppManifest();
+    manifest.icons = {
+      color: "resources/color.png",
+      outline: "resources/outline.png",
+    };
+    manifest.localizationInfo = {
+      defaultLanguageTag: "en",
+      defaultLanguageFile: "resources/en.json",
+      additionalLanguages: [
+        {
+          languageTag: "de",
+          file: "resources/de.json",
+        },
+      ],
+    };
+    sinon.stub(manifestUtils, "getManifestV3").resolves(ok(manifest));
+    sinon.stub(fs, "chmod").callsFake(async () => {});
+    sinon.stub(fs, "writeFile").callsFake(async () => {});
+    const warningStub = sinon.stub(mockedDriverContext.logProvider, "warning");
+
+    const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+    chai.assert.isTrue(result.isOk());
+    const zip = new AdmZip(args.outputZipPath);
+    const defaultLanguage = JSON.parse(zip.getEntry("resources/en.json")!.getData().toString());
+    chai.assert.equal(defaultLanguage["name.short"], "fakeName");
+    chai.assert.equal(defaultLanguage["description.full"], "Full description of fakeName");
+    chai.assert.isDefined(zip.getEntry("resources/de.json"));
+    // de.json translates a static tab which is not in the manifest
+    chai.assert.isTrue(warningStub.calledOnce);
+    chai.assert.include(warningStub.firstCall.args[0], "staticTabs[0].name");
+    await fs.remove(args.outputZipPath);
+  });
+
+  it("should return error when placeholder is not resolved in localization file", async () => {
+    const args: CreateAppPackageArgs = {
+      manifestPath:
+        "./tests/plugins/resource/appstudio/resources-multi-env/templates/appPackage/v3.manifest.template.json",
+      outputZipPath:
+        "./tests/plugins/resource/appstudio/resources-multi-env/build/appPackage/appPackage.dev.zip",
+      outputJsonPath:
+        "./tests/plugins/resource/appstudio/resources-multi-env/build/appPackage/manifest.dev.json",
+    };
+
+    const manifest = new TeamsAppManifest();
+    manifest.icons = {
+      color: "resources/color.png",
+      outline: "resources/outline.png",
+    };
+    manifest.localizationInfo = {
+      defaultLanguageTag: "en",
+      defaultLanguageFile: "resources/en.json",
+    };
+    sinon.stub(manifestUtils, "getManifestV3").resolves(ok(manifest));
+
+    delete process.env["CONFIG_TEAMS_APP_NAME"];
+    const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+    chai.assert.isTrue(result.isErr());
+    if (result.isErr()) {
+      chai.assert.equal(result.error.name, "MissingEnvironmentVariablesError");
+    }
+  });
+
   it("invalid color file", async () => {
     const args: CreateAppPackageArgs = {
       manifestPath:
@@ -0,0 +1,140 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import "mocha";
+import * as sinon from "sinon";
+import chai from "chai";
+import fs from "fs-extra";
+import mockedEnv, { RestoreFn } from "mocked-env";
+import { TeamsAppManifest } from "@microsoft/teamsfx-api";
+import { localizationUtils } from "../../../../src/component/driver/teamsApp/utils/LocalizationUtils";
+
+describe("localizationUtils", () => {
+  const sandbox = sinon.createSandbox();
+  let mockedEnvRestore: RestoreFn | undefined;
+
+  afterEach(() => {
+    sandbox.restore();
+    mockedEnvRestore?.();
+    mockedEnvRestore = undefined;
+  });
+
+  function createManifest(): TeamsAppManifest {
+    const manifest = new TeamsAppManifest();
+    manifest.name = { short: "app", full: "my app" };
+    manifest.description = { short: "short", full: "full" };
+    manifest.staticTabs = [{ entityId: "index", name: "Home", scopes: ["personal"] }];
+    manifest.composeExtensions = [
+      {
+        botId: "bot",
+        commands: [
+          {
+            id: "search",
+            title: "Search",
+            parameters: [{ name: "query", title: "Query", value: "default" }],
+          },
+        ],
+      },
+    ];
+    manifest.localizationInfo = {
+      defaultLanguageTag: "en",
+      defaultLanguageFile: "en.json",
+      additionalLanguages: [{ languageTag: "fr", file: "resources/fr.json" }],
+    };
+    return manifest;
+  }
+
+  it("getLanguageFiles", () => {
+    const files = localizationUtils.getLanguageFiles(createManifest());
+    chai.assert.deepEqual(files, [
+      { languageTag: "en", file: "en.json" },
+      { languageTag: "fr", file: "resources/fr.json" },
+    ]);
+    chai.assert.deepEqual(localizationUtils.getLanguageFiles(new TeamsAppManifest()), []);
+  });
+
+  it("checkTranslationKeys", () => {
+    const result = localizationUtils.checkTranslationKeys(createManifest(), {
+      $schema:
+        "https://developer.microsoft.com/json-schemas/teams/v1.16/MicrosoftTeams.Localization.schema.json",
+      "name.short": "app",
+      "name.full": "mon app",
+      "description.short": "court",
+      "staticTabs[0].name": "Accueil",
+      "staticTabs[1].name": "Paramètres",
+      "composeExtensions[0].commands[0].title": "Rechercher",
+    });
+    chai.assert.deepEqual(result.missing, [
+      "description.full",
+      "composeExtensions[0].commands[0].parameters[0].title",
+    ]);
+    chai.assert.deepEqual(result.extra, ["staticTabs[1].name"]);
+  });
+
+  it("optional fields can be translated", () => {
+    const result = localizationUtils.checkTranslationKeys(createManifest(), {
+      "composeExtensions[0].commands[0].parameters[0].value": "défaut",
+    });
+    chai.assert.deepEqual(result.extra, []);
+    chai.assert.notInclude(result.missing, "composeExtensions[0].commands[0].parameters[0].value");
+  });
+
+  it("getTranslationKeyWarnings", () => {
+    const manifest = new TeamsAppManifest();
+    const localization = {
+      "name.short": "app",
+      "name.full": "mon app",
+      "description.short": "court",
+      "description.full": "long",
+    };
+    chai.assert.deepEqual(
+      localizationUtils.getTranslationKeyWarnings(manifest, localization, "fr.json"),
+      []
+    );
+    const warnings = localizationUtils.getTranslationKeyWarnings(
+      manifest,
+      { "name.short": "app", "bots[0].commandLists[0].commands[0].title": "help" },
+      "fr.json"
+    );
+    chai.assert.equal(warnings.length, 2);
+    chai.assert.include(warnings[0], "name.full, description.short, description.full");
+    chai.assert.include(warnings[1], "bots[0].commandLists[0].commands[0].title");
+  });
+
+  describe("readLocalizationFile", () => {
+    it("resolve placeholders", async () => {
+      mockedEnvRestore = mockedEnv({ APP_NAME_SUFFIX: "dev" });
+      sandbox.stub(fs, "pathExists").resolves(true);
+      sandbox
+        .stub(fs, "readFile")
+        .resolves('\uFEFF{ "name.short": "app-${{APP_NAME_SUFFIX}}" }' as any);
+      const res = await localizationUtils.readLocalizationFile("fr.json");
+      chai.assert.isTrue(res.isOk());
+      chai.assert.deepEqual(res._unsafeUnwrap(), { "name.short": "app-dev" });
+    });
+
+    it("missing environment variable", async () => {
+      mockedEnvRestore = mockedEnv({ APP_NAME_SUFFIX: undefined });
+      sandbox.stub(fs, "pathExists").resolves(true);
+      sandbox.stub(fs, "readFile").resolves('{ "name.short": "app-${{APP_NAME_SUFFIX}}" }' as any);
+      const res = await localizationUtils.readLocalizationFile("fr.json");
+      chai.assert.isTrue(res.isErr());
+      chai.assert.equal(res._unsafeUnwrapErr().name, "MissingEnvironmentVariablesError");
+    });
+
+    it("file not found", async () => {
+      sandbox.stub(fs, "pathExists").resolves(false);
+      const res = await localizationUtils.readLocalizationFile("fr.json");
+      chai.assert.isTrue(res.isErr());
+      chai.assert.equal(res._unsafeUnwrapErr().name, "FileNotFoundError");
+    });
+
+    it("invalid JSON", async () => {
+      sandbox.stub(fs, "pathExists").resolves(true);
+      sandbox.stub(fs, "readFile").resolves("{" as any);
+      const res = await localizationUtils.readLocalizationFile("fr.json");
+      chai.assert.isTrue(res.isErr());
+      chai.assert.equal(res._unsafeUnwrapErr().name, "JSONSyntaxError");
+    });
+  });
+});
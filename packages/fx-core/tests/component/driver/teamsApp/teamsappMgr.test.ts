@@ -3,8 +3,10 @@
 
 import { Platform, TeamsAppManifest, err, ok } from "@microsoft/teamsfx-api";
 import chai from "chai";
+import AdmZip from "adm-zip";
 import fs from "fs-extra";
 import "mocha";
+import mockedEnv from "mocked-env";
 import * as sinon from "sinon";
 import { teamsappMgr } from "../../../../src/component/driver/teamsApp/teamsappMgr";
 import {
@@ -21,6 +23,9 @@ import { ValidateManifestDriver } from "../../../../src/component/driver/teamsAp
 import { ValidateAppPackageDriver } from "../../../../src/component/driver/teamsApp/validateAppPackage";
 import { ConfigureTeamsAppDriver } from "../../../../src/component/driver/teamsApp/configure";
 import { PublishAppPackageDriver } from "../../../../src/component/driver/teamsApp/publishAppPackage";
+import { AppStudioClient } from "../../../../src/component/driver/teamsApp/clients/appStudioClient";
+import { AppStudioError } from "../../../../src/component/driver/teamsApp/errors";
+import { manifestUtils } from "../../../../src/component/driver/teamsApp/utils/ManifestUtils";
 
 describe("TeamsAppMgr", async () => {
   const sandbox = sinon.createSandbox();
@@ -313,6 +318,24 @@ describe("TeamsAppMgr", async () => {
       });
       chai.assert(result.isOk());
     });
+    it("input manifest file with lint options", async () => {
+      sandbox.stub(fs, "pathExists").resolves(true);
+      sandbox.stub(teamsappMgr, "checkAndTryToLoadEnv").resolves(ok(undefined));
+      const executeStub = sandbox
+        .stub(ValidateManifestDriver.prototype, "execute")
+        .resolves({ result: ok(new Map()), summaries: [] });
+      const result = await teamsappMgr.validateTeamsApp({
+        projectPath: "xxx",
+        platform: Platform.CLI,
+        "manifest-file": "xxx",
+        "lint-config": "lint.json",
+        fix: true,
+      });
+      chai.assert(result.isOk());
+      const args = executeStub.firstCall.args[0];
+      chai.assert.equal(args.lintConfig, "lint.json");
+      chai.assert.isTrue(args.fix);
+    });
     it("input package file, run driver success", async () => {
       sandbox
         .stub(ValidateAppPackageDriver.prototype, "execute")
@@ -469,4 +492,176 @@ describe("TeamsAppMgr", async () => {
       chai.assert(result.isOk());
     });
   });
+
+  describe("diffTeamsApp", async () => {
+    const tools = new MockTools();
+    setTools(tools);
+    const teamsAppId = "00000000-0000-0000-0000-000000000000";
+
+    function createPackage(name: string): Buffer {
+      const zip = new AdmZip();
+      zip.addFile("manifest.json", Buffer.from(JSON.stringify({ id: teamsAppId, name })));
+      return zip.toBuffer();
+    }
+
+    it("ensureAppPackageFile fail", async () => {
+      sandbox.stub(teamsappMgr, "ensureAppPackageFile").resolves(err(new UserCancelError()));
+      const result = await teamsappMgr.diffTeamsApp({
+        projectPath: "xxx",
+        platform: Platform.CLI,
+      });
+      chai.assert(result.isErr());
+    });
+
+    it("Teams app not exists", async () => {
+      sandbox.stub(TOOLS.tokenProvider.m365TokenProvider, "getAccessToken").resolves(ok("token"));
+      sandbox.stub(teamsappMgr, "ensureAppPackageFile").resolves(ok(undefined));
+      sandbox.stub(fs, "readFile").resolves(createPackage("local") as any);
+      sandbox.stub(AppStudioClient, "getApp").rejects(new Error("not found"));
+      const result = await teamsappMgr.diffTeamsApp({
+        projectPath: "xxx",
+        platform: Platform.CLI,
+        "package-file": "appPackage.zip",
+      });
+      chai.assert(
+        result.isErr() && result.error.name === AppStudioError.TeamsAppNotExistsError.name
+      );
+    });
+
+    it("download app package fails", async () => {
+      sandbox.stub(TOOLS.tokenProvider.m365TokenProvider, "getAccessToken").resolves(ok("token"));
+      sandbox.stub(teamsappMgr, "ensureAppPackageFile").resolves(ok(undefined));
+      sandbox.stub(fs, "readFile").resolves(createPackage("local") as any);
+      sandbox.stub(AppStudioClient, "getApp").resolves({ teamsAppId } as any);
+      sandbox.stub(AppStudioClient, "getAppPackage").rejects(new Error("network error"));
+      const result = await teamsappMgr.diffTeamsApp({
+        projectPath: "xxx",
+        platform: Platform.CLI,
+        "package-file": "appPackage.zip",
+      });
+      chai.assert(
+        result.isErr() && result.error.name === AppStudioError.GetAppPackageFailedError.name
+      );
+      if (result.isErr()) {
+        chai.assert.include(result.error.message, "network error");
+      }
+    });
+
+    it("read TEAMS_APP_UPDATE_TIME from the .user file of the env file", async () => {
+      const restore = mockedEnv({
+        TEAMS_APP_UPDATE_TIME: undefined,
+        SECRET_BOT_PASSWORD: undefined,
+      });
+      sandbox.stub(TOOLS.tokenProvider.m365TokenProvider, "getAccessToken").resolves(ok("token"));
+      sandbox.stub(teamsappMgr, "ensureAppPackageFile").resolves(ok(undefined));
+      sandbox.stub(fs, "pathExists").resolves(true);
+      sandbox
+        .stub(fs, "readFile")
+        .callsFake((async (file: string) =>
+          file === ".env.dev.user"
+            ? "TEAMS_APP_UPDATE_TIME=2023-01-01T00:00:00.000Z\nSECRET_BOT_PASSWORD=crypto_abc"
+            : createPackage("local")) as any);
+      sandbox
+        .stub(AppStudioClient, "getApp")
+        .resolves({ teamsAppId, updatedAt: "2023-01-02T00:00:00.000Z" } as any);
+      sandbox
+        .stub(AppStudioClient, "getAppPackage")
+        .resolves(createPackage("local").toString("base64"));
+      try {
+        const result = await teamsappMgr.diffTeamsApp({
+          projectPath: "xxx",
+          platform: Platform.CLI,
+          env: "dev",
+          "env-file": ".env.dev",
+          "package-file": "appPackage.zip",
+        });
+        chai.assert(result.isOk());
+        if (result.isOk()) {
+          chai.assert.isTrue(result.value.drifted);
+          chai.assert.deepEqual(result.value.changes, []);
+        }
+        chai.assert.isUndefined(process.env.SECRET_BOT_PASSWORD);
+      } finally {
+        restore();
+      }
+    });
+
+    it("success", async () => {
+      const restore = mockedEnv({ TEAMS_APP_UPDATE_TIME: "2023-01-01T00:00:00.000Z" });
+      sandbox.stub(TOOLS.tokenProvider.m365TokenProvider, "getAccessToken").resolves(ok("token"));
+      sandbox.stub(teamsappMgr, "ensureAppPackageFile").resolves(ok(undefined));
+      sandbox.stub(fs, "readFile").resolves(createPackage("local") as any);
+      sandbox
+        .stub(AppStudioClient, "getApp")
+        .resolves({ teamsAppId, updatedAt: "2023-01-02T00:00:00.000Z" } as any);
+      sandbox
+        .stub(AppStudioClient, "getAppPackage")
+        .resolves(createPackage("remote").toString("base64"));
+      try {
+        const result = await teamsappMgr.diffTeamsApp({
+          projectPath: "xxx",
+          platform: Platform.CLI,
+          "package-file": "appPackage.zip",
+        });
+        chai.assert(result.isOk());
+        if (result.isOk()) {
+          chai.assert.isTrue(result.value.drifted);
+          chai.assert.deepEqual(result.value.changes, [
+            {
+              file: "manifest.json",
+              path: "name",
+              kind: "modified",
+              remote: "remote",
+              local: "local",
+            },
+          ]);
+        }
+      } finally {
+        restore();
+      }
+    });
+  });
+
+  describe("upgradeManifest", async () => {
+    const tools = new MockTools();
+    setTools(tools);
+
+    it("missing target version", async () => {
+      const result = await teamsappMgr.upgradeManifest({
+        projectPath: "xxx",
+        platform: Platform.CLI,
+      });
+      chai.assert(result.isErr() && result.error instanceof MissingRequiredInputError);
+    });
+
+    it("invalid target version", async () => {
+      const manifest = new TeamsAppManifest();
+      sandbox.stub(manifestUtils, "_readAppManifest").resolves(ok(manifest));
+      const writeStub = sandbox.stub(manifestUtils, "_writeAppManifest").resolves(ok(undefined));
+      const result = await teamsappMgr.upgradeManifest({
+        projectPath: "xxx",
+        platform: Platform.CLI,
+        "target-version": "1.11",
+      });
+      chai.assert(result.isErr() && result.error.name === "InputValidationError");
+      chai.assert(writeStub.notCalled);
+    });
+
+    it("success", async () => {
+      const manifest = new TeamsAppManifest();
+      manifest.id = "${{TEAMS_APP_ID}}";
+      sandbox.stub(manifestUtils, "_readAppManifest").resolves(ok(manifest));
+      const writeStub = sandbox.stub(manifestUtils, "_writeAppManifest").resolves(ok(undefined));
+      const result = await teamsappMgr.upgradeManifest({
+        projectPath: "xxx",
+        platform: Platform.CLI,
+        "manifest-file": "manifest.json",
+        "target-version": "1.17",
+      });
+      chai.assert(result.isOk());
+      chai.assert.equal(writeStub.firstCall.args[0].manifestVersion, "1.17");
+      chai.assert.equal(writeStub.firstCall.args[0].id, "${{TEAMS_APP_ID}}");
+      chai.assert.equal(writeStub.firstCall.args[1], "manifest.json");
+    });
+  });
 });
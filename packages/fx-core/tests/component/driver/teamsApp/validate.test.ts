@@ -5,7 +5,8 @@ import "mocha";
 import * as sinon from "sinon";
 import chai from "chai";
 import fs from "fs-extra";
-import { ManifestUtil, SystemError, err } from "@microsoft/teamsfx-api";
+import * as path from "path";
+import { ManifestUtil, SystemError, err, ok } from "@microsoft/teamsfx-api";
 import * as tools from "../../../../src/common/tools";
 import { ValidateManifestDriver } from "../../../../src/component/driver/teamsApp/validate";
 import { ValidateManifestArgs } from "../../../../src/component/driver/teamsApp/interfaces/ValidateManifestArgs";
@@ -25,6 +26,7 @@ import { Platform, TeamsAppManifest } from "@microsoft/teamsfx-api";
 import AdmZip from "adm-zip";
 import { Constants } from "../../../../src/component/driver/teamsApp/constants";
 import { metadataUtil } from "../../../../src/component/utils/metadataUtil";
+import { manifestUtils } from "../../../../src/component/driver/teamsApp/utils/ManifestUtils";
 import { InvalidActionInputError } from "../../../../src/error/common";
 import { AsyncAppValidationStatus } from "../../../../src/component/driver/teamsApp/interfaces/AsyncAppValidationResponse";
 
@@ -77,6 +79,26 @@ describe("teamsApp/validateManifest", async () => {
     chai.assert(result.isOk());
   });
 
+  it("validate against the schema in the schema directory", async () => {
+    const args: ValidateManifestArgs = {
+      manifestPath:
+        "./tests/plugins/resource/appstudio/resources-multi-env/templates/appPackage/v3.manifest.template.json",
+      schemaDirectory: "schemas",
+    };
+    const validateStub = sinon.stub(ManifestUtil, "validateManifest").resolves([]);
+    const validateLocalizationStub = sinon.stub(ManifestUtil, "validateLocalization").resolves([]);
+
+    process.env.CONFIG_TEAMS_APP_NAME = "fakeName";
+
+    const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+    chai.assert(result.isOk());
+    chai.assert.equal(validateStub.firstCall.args[1]?.schemaDirectory, path.join("./", "schemas"));
+    chai.assert.equal(
+      validateLocalizationStub.firstCall.args[1]?.schemaDirectory,
+      path.join("./", "schemas")
+    );
+  });
+
   it("execute", async () => {
     const args: ValidateManifestArgs = {
       manifestPath:
@@ -200,6 +222,150 @@ describe("teamsApp/validateManifest", async () => {
       chai.assert(result.error.name, AppStudioError.ValidationFailedError.name);
     }
   });
+
+  it("validation error - localization file", async () => {
+    sinon.stub(ManifestUtil, "validateManifest").resolves([]);
+    sinon
+      .stub(ManifestUtil, "validateLocalization")
+      .resolves(["/name.short must NOT have more than 30 characters"]);
+    const warningStub = sinon.stub(mockedDriverContext.logProvider, "warning");
+    const args: ValidateManifestArgs = {
+      manifestPath:
+        "./tests/plugins/resource/appstudio/resources-multi-env/templates/appPackage/v3.manifest.template.json",
+    };
+
+    process.env.CONFIG_TEAMS_APP_NAME = "fakeName";
+
+    const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+    chai.assert(result.isErr());
+    if (result.isErr()) {
+      chai.assert.equal(result.error.name, AppStudioError.ValidationFailedError.name);
+    }
+    // staticTabs is empty in the manifest
+    chai.assert.isTrue(
+      warningStub.calledWith(
+        sinon.match("resources/de.json").and(sinon.match("staticTabs[0].name"))
+      )
+    );
+  });
+
+  it("validation error - download localization schema failed", async () => {
+    sinon.stub(ManifestUtil, "validateManifest").resolves([]);
+    sinon
+      .stub(ManifestUtil, "validateLocalization")
+      .throws(new Error(`Failed to get schema at url due to: unknown error`));
+    const args: ValidateManifestArgs = {
+      manifestPath:
+        "./tests/plugins/resource/appstudio/resources-multi-env/templates/appPackage/v3.manifest.template.json",
+    };
+
+    process.env.CONFIG_TEAMS_APP_NAME = "fakeName";
+
+    const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+    chai.assert(result.isErr());
+    if (result.isErr()) {
+      chai.assert.equal(result.error.name, AppStudioError.ValidationFailedError.name);
+      chai.assert.include(result.error.message, "MicrosoftTeams.Localization.schema.json");
+    }
+  });
+
+  describe("lint", () => {
+    function createManifest(): TeamsAppManifest {
+      const manifest = new TeamsAppManifest();
+      manifest.validDomains = [];
+      manifest.staticTabs = [
+        { entityId: "index", scopes: ["personal"], contentUrl: "https://contoso.com/index.html" },
+      ];
+      manifest.description.short = manifest.name.short;
+      return manifest;
+    }
+
+    beforeEach(() => {
+      sinon.stub(ManifestUtil, "validateManifest").resolves([]);
+    });
+
+    it("lint errors fail the validation", async () => {
+      sinon.stub(manifestUtils, "getManifestV3").resolves(ok(createManifest()));
+      const warningStub = sinon.stub(mockedDriverContext.logProvider, "warning");
+      const args: ValidateManifestArgs = {
+        manifestPath: "./appPackage/manifest.json",
+        lint: true,
+      };
+
+      const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+      chai.assert.isTrue(result.isErr());
+      if (result.isErr()) {
+        chai.assert.equal(result.error.name, AppStudioError.ValidationFailedError.name);
+      }
+      chai.assert.isTrue(
+        warningStub.calledWith(sinon.match("[short-description-differs-from-name]"))
+      );
+    });
+
+    it("rules turned off in the lint config", async () => {
+      sinon.stub(manifestUtils, "getManifestV3").resolves(ok(createManifest()));
+      sinon.stub(fs, "pathExists").resolves(true);
+      sinon
+        .stub(fs, "readJson")
+        .resolves({ rules: { "valid-domains-for-tab-urls": "off" } } as any);
+      const args: ValidateManifestArgs = {
+        manifestPath: "./appPackage/manifest.json",
+        lint: true,
+        lintConfig: "./lint.json",
+      };
+
+      const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+      chai.assert.isTrue(result.isOk());
+    });
+
+    it("unknown rule in the lint config", async () => {
+      sinon.stub(manifestUtils, "getManifestV3").resolves(ok(createManifest()));
+      sinon.stub(fs, "pathExists").resolves(true);
+      sinon.stub(fs, "readJson").resolves({ rules: { "no-such-rule": "off" } } as any);
+      const args: ValidateManifestArgs = {
+        manifestPath: "./appPackage/manifest.json",
+        lint: true,
+      };
+
+      const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+      chai.assert.isTrue(result.isErr());
+      if (result.isErr()) {
+        chai.assert.equal(result.error.name, "InputValidationError");
+      }
+    });
+
+    it("lint config not found", async () => {
+      const args: ValidateManifestArgs = {
+        manifestPath: "./appPackage/manifest.json",
+        lint: true,
+        lintConfig: "./not-exist.lint.json",
+      };
+
+      const result = (await teamsAppDriver.execute(args, mockedDriverContext)).result;
+      chai.assert.isTrue(result.isErr());
+      if (result.isErr()) {
+        chai.assert.equal(result.error.name, "FileNotFoundError");
+      }
+    });
+
+    it("fix the manifest", async () => {
+      const fixed = createManifest();
+      fixed.validDomains = ["contoso.com"];
+      sinon.stub(manifestUtils, "_readAppManifest").resolves(ok(createManifest()));
+      const writeStub = sinon.stub(manifestUtils, "_writeAppManifest").resolves(ok(undefined));
+      sinon.stub(manifestUtils, "getManifestV3").resolves(ok(fixed));
+      const args: ValidateManifestArgs = {
+        manifestPath: "./appPackage/manifest.json",
+        fix: true,
+      };
+
+      const res = await teamsAppDriver.execute(args, mockedDriverContext);
+      chai.assert.isTrue(res.result.isOk());
+      chai.assert.isTrue(writeStub.calledOnce);
+      chai.assert.deepEqual(writeStub.firstCall.args[0].validDomains, ["contoso.com"]);
+      chai.assert.equal(res.summaries.length, 1);
+    });
+  });
 });
 
 describe("teamsApp/validateAppPackage", async () => {
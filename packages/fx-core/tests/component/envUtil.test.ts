@@ -21,6 +21,7 @@ import { yamlParser } from "../../src/component/configManager/parser";
 import { EnvLoaderMW, EnvWriterMW } from "../../src/component/middleware/envMW";
 import { DotenvOutput, dotenvUtil, envUtil } from "../../src/component/utils/envUtil";
 import { pathUtils } from "../../src/component/utils/pathUtils";
+import { FileSecretProvider } from "../../src/component/utils/secretProvider";
 import { settingsUtil } from "../../src/component/utils/settingsUtil";
 import { LocalCrypto } from "../../src/core/crypto";
 import { environmentManager } from "../../src/core/environment";
@@ -175,6 +176,54 @@ describe("envUtils", () => {
       assert.isTrue(res.isOk());
       assert.equal(process.env.SECRET_ABC, decrypted);
     });
+    it("resolve secrets from the secret provider selected in .env file", async () => {
+      sandbox.stub(pathUtils, "getEnvFilePath").resolves(ok("."));
+      const encRes = await cryptoProvider.encrypt(decrypted);
+      if (encRes.isErr()) throw encRes.error;
+      sandbox
+        .stub(fs, "readFile")
+        .onFirstCall()
+        .resolves("TEAMSFX_SECRET_PROVIDER=file\nTEAMSFX_SECRET_FILE=secrets.json" as any)
+        .onSecondCall()
+        .resolves(
+          ("SECRET_PROVIDER_TEST_READ=\nSECRET_PROVIDER_TEST_LOCAL=" + encRes.value) as any
+        );
+      sandbox.stub(fs, "pathExists").resolves(true);
+      sandbox.stub(settingsUtil, "readSettings").resolves(ok(mockSettings));
+      sandbox
+        .stub(FileSecretProvider.prototype, "getSecret")
+        .callsFake(async (key: string) =>
+          ok(key === "SECRET_PROVIDER_TEST_READ" ? "from-file" : undefined)
+        );
+      mockedEnvRestore = mockedEnv({});
+      const res = await envUtil.readEnv(".", "dev");
+      assert.isTrue(res.isOk());
+      assert.equal(process.env.SECRET_PROVIDER_TEST_READ, "from-file");
+      assert.equal(process.env.SECRET_PROVIDER_TEST_LOCAL, decrypted);
+    });
+    it("resolve secrets referenced in the yml file from the secret provider without .env.xxx.user file", async () => {
+      sandbox.stub(pathUtils, "getEnvFilePath").resolves(ok(".env.dev"));
+      sandbox.stub(pathUtils, "getYmlFilePath").returns("teamsapp.yml");
+      sandbox.stub(fs, "pathExists").callsFake(async (p: string) => !p.endsWith(".user"));
+      sandbox
+        .stub(fs, "readFile")
+        .onFirstCall()
+        .resolves("TEAMSFX_SECRET_PROVIDER=file\nTEAMSFX_SECRET_FILE=secrets.json" as any)
+        .onSecondCall()
+        .resolves(
+          "env:\n  BOT_PASSWORD: ${{SECRET_PROVIDER_TEST_YML}}\n  BOT_ID: ${{BOT_ID}}" as any
+        );
+      const readSettings = sandbox.stub(settingsUtil, "readSettings");
+      const getSecret = sandbox
+        .stub(FileSecretProvider.prototype, "getSecret")
+        .resolves(ok("from-file"));
+      mockedEnvRestore = mockedEnv({});
+      const res = await envUtil.readEnv(".", "dev");
+      assert.isTrue(res.isOk());
+      assert.equal(process.env.SECRET_PROVIDER_TEST_YML, "from-file");
+      assert.isTrue(getSecret.calledOnceWith("SECRET_PROVIDER_TEST_YML"));
+      assert.isTrue(readSettings.notCalled);
+    });
     it("silent", async () => {
       sandbox.stub(fs, "pathExists").resolves(false);
       sandbox.stub(pathUtils, "getEnvFilePath").resolves(ok("."));
@@ -266,6 +315,51 @@ describe("envUtils", () => {
       assert.isTrue(decRes.isOk());
       assert.equal(decRes.value, decrypted);
     });
+    it("empty secret is kept in the secret file", async () => {
+      sandbox.stub(pathUtils, "getEnvFilePath").resolves(ok(".env.dev"));
+      sandbox.stub(fs, "pathExists").resolves(false);
+      const written = new Map<string, string>();
+      sandbox.stub(fs, "writeFile").callsFake(async (file: fs.PathLike | number, data: any) => {
+        written.set(file as string, data as string);
+        return Promise.resolve();
+      });
+      sandbox.stub(settingsUtil, "readSettings").resolves(ok(mockSettings));
+      const res = await envUtil.writeEnv(".", "dev", { SECRET_ABC: "" });
+      assert.isTrue(res.isOk());
+      assert.include(written.get(".env.dev.user"), "SECRET_ABC=");
+      assert.notInclude(written.get(".env.dev"), "SECRET_ABC");
+    });
+    it("secrets are saved to the secret provider selected in .env file", async () => {
+      sandbox.stub(pathUtils, "getEnvFilePath").resolves(ok(".env.dev"));
+      sandbox.stub(fs, "pathExists").resolves(true);
+      sandbox
+        .stub(fs, "readFile")
+        .onFirstCall()
+        .resolves("TEAMSFX_SECRET_PROVIDER=file\nTEAMSFX_SECRET_FILE=secrets.json" as any)
+        .onSecondCall()
+        .resolves("" as any);
+      const written = new Map<string, string>();
+      sandbox.stub(fs, "writeFile").callsFake(async (file: fs.PathLike | number, data: any) => {
+        written.set(file as string, data as string);
+        return Promise.resolve();
+      });
+      sandbox.stub(settingsUtil, "readSettings").resolves(ok(mockSettings));
+      const setStub = sandbox
+        .stub(FileSecretProvider.prototype, "setSecret")
+        .resolves(ok(undefined));
+      const res = await envUtil.writeEnv(".", "dev", { SECRET_PROVIDER_TEST_WRITE: decrypted });
+      assert.isTrue(res.isOk());
+      assert.isTrue(setStub.calledOnceWith("SECRET_PROVIDER_TEST_WRITE", decrypted));
+      assert.equal(written.get(".env.dev.user")?.trim(), "SECRET_PROVIDER_TEST_WRITE=");
+    });
+    it("unsupported secret provider", async () => {
+      sandbox.stub(pathUtils, "getEnvFilePath").resolves(ok(".env.dev"));
+      sandbox.stub(fs, "pathExists").resolves(true);
+      sandbox.stub(fs, "readFile").resolves("TEAMSFX_SECRET_PROVIDER=unknown" as any);
+      sandbox.stub(settingsUtil, "readSettings").resolves(ok(mockSettings));
+      const res = await envUtil.writeEnv(".", "dev", { SECRET_ABC: decrypted });
+      assert.isTrue(res.isErr());
+    });
     it("no variables", async () => {
       sandbox.stub(pathUtils, "getEnvFilePath").resolves(ok(".env.dev"));
       sandbox.stub(fs, "readFile").resolves("" as any);
@@ -24,6 +24,7 @@ import {
 import {
   checkIfAppInDifferentAcountSameTenant,
   getAppPackage,
+  isUpdatedInDeveloperPortal,
   updateManifestV3,
   updateTeamsAppV3ForPublish,
 } from "../../../../src/component/driver/teamsApp/appStudio";
@@ -31,7 +32,7 @@ import { AppStudioClient } from "../../../../src/component/driver/teamsApp/clien
 import AdmZip from "adm-zip";
 import { RetryHandler } from "../../../../src/component/driver/teamsApp/utils/utils";
 import { createContextV3 } from "../../../../src/component/utils";
-import { RestoreFn } from "mocked-env";
+import mockedEnv, { RestoreFn } from "mocked-env";
 import Container from "typedi";
 import { ConfigureTeamsAppDriver } from "../../../../src/component/driver/teamsApp/configure";
 import { CreateAppPackageDriver } from "../../../../src/component/driver/teamsApp/createAppPackage";
@@ -528,3 +529,22 @@ describe("App-manifest Component - v3", () => {
     chai.assert.isTrue(res.isErr());
   });
 });
+
+describe("isUpdatedInDeveloperPortal", () => {
+  let restore: RestoreFn | undefined;
+  afterEach(() => {
+    restore?.();
+  });
+
+  it("compares the update time in Teams Developer Portal with TEAMS_APP_UPDATE_TIME", () => {
+    restore = mockedEnv({ TEAMS_APP_UPDATE_TIME: "2023-01-01T00:00:00.000Z" });
+    chai.assert.isTrue(isUpdatedInDeveloperPortal("2023-01-02T00:00:00.000Z"));
+    chai.assert.isFalse(isUpdatedInDeveloperPortal("2023-01-01T00:00:00.000Z"));
+    chai.assert.isFalse(isUpdatedInDeveloperPortal(undefined));
+  });
+
+  it("not updated from this environment yet", () => {
+    restore = mockedEnv({ TEAMS_APP_UPDATE_TIME: undefined });
+    chai.assert.isFalse(isUpdatedInDeveloperPortal("2023-01-02T00:00:00.000Z"));
+  });
+});
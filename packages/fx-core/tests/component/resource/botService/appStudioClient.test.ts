@@ -12,7 +12,7 @@ import { MockTools } from "../../../core/utils";
 import { AppStudioClient } from "../../../../src/component/resource/botService/appStudio/appStudioClient";
 import { IBotRegistration } from "../../../../src/component/resource/botService/appStudio/interfaces/IBotRegistration";
 import { RetryHandler } from "../../../../src/component/resource/botService/retryHandler";
-import axios from "axios";
+import axios, { InternalAxiosRequestConfig } from "axios";
 import { ErrorNames } from "../../../../src/component/resource/botService/constants";
 import { Messages } from "./messages";
 import { DeveloperPortalAPIFailedError } from "../../../../src/error/teamsApp";
@@ -419,6 +419,28 @@ describe("AppStudio Client", () => {
         assert.fail(Messages.ShouldNotReachHere);
       }
     });
+    it("should send the token in the delete request", async () => {
+      // Arrange
+      const axiosInstance = AppStudioClient.newAxiosInstance("token");
+      let request: InternalAxiosRequestConfig | undefined;
+      axiosInstance.defaults.adapter = (config: InternalAxiosRequestConfig) => {
+        request = config;
+        return Promise.resolve({
+          status: 200,
+          statusText: "OK",
+          data: {},
+          headers: {},
+          config,
+          request: { method: config.method, host: "dev.teams.microsoft.com", path: config.url },
+        });
+      };
+      sandbox.stub(AppStudioClient, "newAxiosInstance").returns(axiosInstance);
+      // Act
+      await AppStudioClient.deleteBot("token", "botId");
+      // Assert
+      assert.equal(request?.method, "delete");
+      assert.equal(request?.headers.Authorization, "Bearer token");
+    });
     it("api failure", async () => {
       // Arrange
       const mockAxiosInstance = axios.create();
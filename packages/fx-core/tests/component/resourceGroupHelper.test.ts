@@ -12,6 +12,7 @@ import * as armSubscriptions from "@azure/arm-subscriptions";
 import {
   CheckResourceGroupExistenceError,
   CreateResourceGroupError,
+  DeleteResourceGroupError,
   GetResourceGroupError,
   ListResourceGroupLocationsError,
   ListResourceGroupsError,
@@ -158,6 +159,81 @@ describe("resouce group helper test", () => {
     }
   });
 
+  it("deleteResourceGroup success", async () => {
+    const mockResourceManagementClient = new ResourceManagementClient(
+      new MyTokenCredential(),
+      "id"
+    );
+    sandbox.stub(resourceGroupHelper, "checkResourceGroupExistence").resolves(ok(true));
+    sandbox
+      .stub(mockResourceManagementClient.resourceGroups, "get")
+      .resolves({ name: "mockRG", location: "east us", tags: { "created-by": "teamsfx" } });
+    const deleteStub = sandbox
+      .stub(mockResourceManagementClient.resourceGroups, "beginDeleteAndWait")
+      .resolves();
+    const res = await resourceGroupHelper.deleteResourceGroup(
+      "mockRG",
+      mockResourceManagementClient
+    );
+    assert.isTrue(res.isOk() && res.value);
+    assert.isTrue(deleteStub.calledOnce);
+  });
+
+  it("deleteResourceGroup skips resource group not created by teamsfx", async () => {
+    const mockResourceManagementClient = new ResourceManagementClient(
+      new MyTokenCredential(),
+      "id"
+    );
+    sandbox.stub(resourceGroupHelper, "checkResourceGroupExistence").resolves(ok(true));
+    sandbox
+      .stub(mockResourceManagementClient.resourceGroups, "get")
+      .resolves({ name: "mockRG", location: "east us" });
+    const deleteStub = sandbox
+      .stub(mockResourceManagementClient.resourceGroups, "beginDeleteAndWait")
+      .resolves();
+    const res = await resourceGroupHelper.deleteResourceGroup(
+      "mockRG",
+      mockResourceManagementClient
+    );
+    assert.isTrue(res.isOk() && !res.value);
+    assert.isTrue(deleteStub.notCalled);
+  });
+
+  it("deleteResourceGroup skips resource group not existing", async () => {
+    const mockResourceManagementClient = new ResourceManagementClient(
+      new MyTokenCredential(),
+      "id"
+    );
+    sandbox.stub(resourceGroupHelper, "checkResourceGroupExistence").resolves(ok(false));
+    const res = await resourceGroupHelper.deleteResourceGroup(
+      "mockRG",
+      mockResourceManagementClient
+    );
+    assert.isTrue(res.isOk() && !res.value);
+  });
+
+  it("deleteResourceGroup throw Error", async () => {
+    const mockResourceManagementClient = new ResourceManagementClient(
+      new MyTokenCredential(),
+      "id"
+    );
+    sandbox.stub(resourceGroupHelper, "checkResourceGroupExistence").resolves(ok(true));
+    sandbox
+      .stub(mockResourceManagementClient.resourceGroups, "get")
+      .resolves({ name: "mockRG", location: "east us", tags: { "created-by": "teamsfx" } });
+    sandbox
+      .stub(mockResourceManagementClient.resourceGroups, "beginDeleteAndWait")
+      .rejects(new Error("test error"));
+    const res = await resourceGroupHelper.deleteResourceGroup(
+      "mockRG",
+      mockResourceManagementClient
+    );
+    assert.isTrue(res.isErr());
+    if (res.isErr()) {
+      assert.isTrue(res.error instanceof DeleteResourceGroupError);
+    }
+  });
+
   it("getResourceGroupInfo success", async () => {
     const mockResourceManagementClient = new ResourceManagementClient(
       new MyTokenCredential(),
@@ -0,0 +1,180 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { ok } from "@microsoft/teamsfx-api";
+import { assert } from "chai";
+import axios from "axios";
+import fs from "fs-extra";
+import "mocha";
+import mockedEnv, { RestoreFn } from "mocked-env";
+import * as os from "os";
+import * as path from "path";
+import * as sinon from "sinon";
+import {
+  EnvSecretProvider,
+  FileSecretProvider,
+  KeyVaultSecretProvider,
+  secretProviderRegistry,
+} from "../../src/component/utils/secretProvider";
+import { setTools, TOOLS } from "../../src/core/globalVars";
+import { MockTools } from "../core/utils";
+
+describe("secret providers", () => {
+  const tools = new MockTools();
+  setTools(tools);
+  const sandbox = sinon.createSandbox();
+  let mockedEnvRestore: RestoreFn | undefined;
+  afterEach(() => {
+    sandbox.restore();
+    if (mockedEnvRestore) {
+      mockedEnvRestore();
+      mockedEnvRestore = undefined;
+    }
+  });
+
+  describe("secretProviderRegistry", () => {
+    it("no provider is selected by default", () => {
+      const res = secretProviderRegistry.create(".", "dev", {});
+      assert.isTrue(res.isOk() && res.value === undefined);
+      const local = secretProviderRegistry.create(".", "dev", { TEAMSFX_SECRET_PROVIDER: "local" });
+      assert.isTrue(local.isOk() && local.value === undefined);
+    });
+    it("create in-box providers", () => {
+      const file = secretProviderRegistry.create(".", "dev", {
+        TEAMSFX_SECRET_PROVIDER: "file",
+        TEAMSFX_SECRET_FILE: "./secrets.json",
+      });
+      assert.isTrue(file.isOk() && file.value instanceof FileSecretProvider);
+      const env = secretProviderRegistry.create(".", "dev", { TEAMSFX_SECRET_PROVIDER: "env" });
+      assert.isTrue(env.isOk() && env.value instanceof EnvSecretProvider);
+      const keyVault = secretProviderRegistry.create(".", "dev", {
+        TEAMSFX_SECRET_PROVIDER: "keyvault",
+        TEAMSFX_KEY_VAULT_ENDPOINT: "https://contoso.vault.azure.net",
+      });
+      assert.isTrue(keyVault.isOk() && keyVault.value instanceof KeyVaultSecretProvider);
+    });
+    it("reject the Key Vault endpoint which is not https", () => {
+      const res = secretProviderRegistry.create(".", "dev", {
+        TEAMSFX_SECRET_PROVIDER: "keyvault",
+        TEAMSFX_KEY_VAULT_ENDPOINT: "http://contoso.vault.azure.net",
+      });
+      assert.isTrue(res.isErr() && res.error.name === "InputValidationError");
+    });
+    it("MissingEnvironmentVariablesError", () => {
+      const res = secretProviderRegistry.create(".", "dev", { TEAMSFX_SECRET_PROVIDER: "file" });
+      assert.isTrue(res.isErr() && res.error.name === "MissingEnvironmentVariablesError");
+    });
+    it("unsupported provider", () => {
+      const res = secretProviderRegistry.create(".", "dev", { TEAMSFX_SECRET_PROVIDER: "unknown" });
+      assert.isTrue(res.isErr() && res.error.message.includes("unknown"));
+    });
+    it("register a custom provider", () => {
+      const provider = new EnvSecretProvider();
+      secretProviderRegistry.register("test-custom", () => ok(provider));
+      const res = secretProviderRegistry.create(".", "dev", {
+        TEAMSFX_SECRET_PROVIDER: "test-custom",
+      });
+      assert.isTrue(res.isOk() && res.value === provider);
+    });
+  });
+
+  describe("FileSecretProvider", () => {
+    let tmpDir: string;
+    beforeEach(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "secret-provider-"));
+    });
+    afterEach(async () => {
+      await fs.remove(tmpDir);
+    });
+    it("set and get secrets", async () => {
+      const provider = new FileSecretProvider(path.join(tmpDir, "dev", "secrets.json"));
+      const before = await provider.getSecret("SECRET_ABC");
+      assert.isTrue(before.isOk() && before.value === undefined);
+      assert.isTrue((await provider.setSecret("SECRET_ABC", "123")).isOk());
+      const after = await provider.getSecret("SECRET_ABC");
+      assert.isTrue(after.isOk() && after.value === "123");
+    });
+    it("JSONSyntaxError", async () => {
+      const filePath = path.join(tmpDir, "secrets.json");
+      await fs.writeFile(filePath, "{ invalid");
+      const provider = new FileSecretProvider(filePath);
+      const res = await provider.getSecret("SECRET_ABC");
+      assert.isTrue(res.isErr() && res.error.name === "JSONSyntaxError");
+      assert.isTrue(res.isErr() && res.error.message.includes(filePath));
+      const setRes = await provider.setSecret("SECRET_ABC", "123");
+      assert.isTrue(setRes.isErr() && setRes.error.name === "JSONSyntaxError");
+    });
+  });
+
+  describe("EnvSecretProvider", () => {
+    it("read secrets from environment variables", async () => {
+      mockedEnvRestore = mockedEnv({ SECRET_PROVIDER_TEST_ENV: "123" });
+      const res = await new EnvSecretProvider().getSecret("SECRET_PROVIDER_TEST_ENV");
+      assert.isTrue(res.isOk() && res.value === "123");
+    });
+  });
+
+  describe("KeyVaultSecretProvider", () => {
+    it("get secret from a local mock without token", async () => {
+      const getStub = sandbox.stub(axios, "get").resolves({ data: { value: "123" } });
+      const provider = new KeyVaultSecretProvider("http://localhost:8080/", true);
+      const res = await provider.getSecret("SECRET_BOT_PASSWORD");
+      assert.isTrue(res.isOk() && res.value === "123");
+      assert.equal(
+        getStub.firstCall.args[0],
+        "http://localhost:8080/secrets/SECRET-BOT-PASSWORD?api-version=7.4"
+      );
+      assert.deepEqual(getStub.firstCall.args[1], { headers: {} });
+    });
+    it("secret not found", async () => {
+      sandbox.stub(axios, "get").rejects({ isAxiosError: true, response: { status: 404 } });
+      sandbox.stub(axios, "isAxiosError").returns(true);
+      const provider = new KeyVaultSecretProvider("http://localhost:8080", true);
+      const res = await provider.getSecret("SECRET_BOT_PASSWORD");
+      assert.isTrue(res.isOk() && res.value === undefined);
+    });
+    it("set secret with token", async () => {
+      sandbox
+        .stub(TOOLS.tokenProvider.azureAccountProvider, "getIdentityCredentialAsync")
+        .resolves({
+          getToken: () => Promise.resolve({ token: "token", expiresOnTimestamp: 0 }),
+        });
+      const putStub = sandbox.stub(axios, "put").resolves({ data: {} });
+      const provider = new KeyVaultSecretProvider("https://contoso.vault.azure.net");
+      const res = await provider.setSecret("SECRET_BOT_PASSWORD", "123");
+      assert.isTrue(res.isOk());
+      assert.deepEqual(putStub.firstCall.args[1], { value: "123" });
+      assert.deepEqual(putStub.firstCall.args[2], { headers: { Authorization: "Bearer token" } });
+    });
+    it("HttpClientError", async () => {
+      sandbox
+        .stub(axios, "put")
+        .rejects({ isAxiosError: true, response: { status: 403, data: { error: "forbidden" } } });
+      sandbox.stub(axios, "isAxiosError").returns(true);
+      const provider = new KeyVaultSecretProvider("http://localhost:8080", true);
+      const res = await provider.setSecret("SECRET_BOT_PASSWORD", "123");
+      assert.isTrue(res.isErr() && res.error.name === "HttpClientError");
+    });
+    it("HttpServerError", async () => {
+      sandbox.stub(axios, "get").rejects(new Error("socket hang up"));
+      const provider = new KeyVaultSecretProvider("http://localhost:8080", true);
+      const res = await provider.getSecret("SECRET_BOT_PASSWORD");
+      assert.isTrue(res.isErr() && res.error.name === "HttpServerError");
+    });
+    it("never send secrets to an http endpoint", async () => {
+      const getStub = sandbox.stub(axios, "get").resolves({ data: { value: "123" } });
+      const putStub = sandbox.stub(axios, "put").resolves({ data: {} });
+      // http is only allowed on localhost with the test hook
+      for (const provider of [
+        new KeyVaultSecretProvider("http://localhost:8080"),
+        new KeyVaultSecretProvider("http://contoso.vault.azure.net", true),
+      ]) {
+        const getRes = await provider.getSecret("SECRET_BOT_PASSWORD");
+        assert.isTrue(getRes.isErr() && getRes.error.name === "InputValidationError");
+        const setRes = await provider.setSecret("SECRET_BOT_PASSWORD", "123");
+        assert.isTrue(setRes.isErr() && setRes.error.name === "InputValidationError");
+      }
+      assert.isTrue(getStub.notCalled && putStub.notCalled);
+    });
+  });
+});
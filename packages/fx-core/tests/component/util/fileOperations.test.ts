@@ -6,13 +6,14 @@ import "mocha";
 import * as sinon from "sinon";
 import fs from "fs-extra";
 import * as chai from "chai";
-import { zipFolderAsync } from "../../../src/component/utils/fileOperation";
+import { hashFolderAsync, zipFolderAsync } from "../../../src/component/utils/fileOperation";
 import ignore from "ignore";
 import { CacheFileInUse, DeployEmptyFolderError, ZipFileError } from "../../../src";
 import * as os from "os";
 import * as uuid from "uuid";
 import * as path from "path";
 import AdmZip from "adm-zip";
+import { createHash } from "crypto";
 import proxyquire from "proxyquire";
 
 describe("Test", () => {
@@ -77,4 +78,32 @@ describe("Test", () => {
       chai.expect(e instanceof ZipFileError).to.equal(true);
     });
   });
+
+  it("hash files with bounded concurrency", async () => {
+    const folder = path.join(tmp, "hash");
+    await fs.mkdirs(path.join(folder, "sub"));
+    await fs.writeFile(path.join(folder, "a.js"), "a");
+    await fs.writeFile(path.join(folder, "b.js"), "b");
+    await fs.writeFile(path.join(folder, "sub", "c.js"), "c");
+    await fs.writeFile(path.join(folder, "ignored.txt"), "ignored");
+    let open = 0;
+    let maxOpen = 0;
+    const createReadStream = fs.createReadStream;
+    sandbox.stub(fs, "createReadStream").callsFake((filePath: any) => {
+      maxOpen = Math.max(maxOpen, ++open);
+      return createReadStream(filePath).on("close", () => open--);
+    });
+    try {
+      const hashes = await hashFolderAsync(folder, ignore().add("*.txt"), 2);
+      const sha256 = (content: string) => createHash("sha256").update(content).digest("hex");
+      chai.expect(hashes).to.deep.equal({
+        "a.js": sha256("a"),
+        "b.js": sha256("b"),
+        "sub/c.js": sha256("c"),
+      });
+      chai.expect(maxOpen).to.equal(2);
+    } finally {
+      await fs.remove(folder);
+    }
+  });
 });
@@ -27,6 +27,7 @@ import * as path from "path";
 import sinon from "sinon";
 import { FxCore, getUuid } from "../../src";
 import { FeatureFlagName } from "../../src/common/constants";
+import { getLocalizedString } from "../../src/common/localizeUtils";
 import { LaunchHelper } from "../../src/common/m365/launchHelper";
 import {
   TeamsfxConfigType,
@@ -74,6 +75,7 @@ import { setTools } from "../../src/core/globalVars";
 import * as projectMigratorV3 from "../../src/core/middleware/projectMigratorV3";
 import {
   FileNotFoundError,
+  InputValidationError,
   InvalidProjectError,
   MissingEnvironmentVariablesError,
   MissingRequiredInputError,
@@ -3170,6 +3172,97 @@ describe("copilotPlugin", async () => {
     assert.isTrue(result.isErr());
   });
 
+  it("sync API spec", async () => {
+    const appName = await mockV3Project();
+    const manifest = new TeamsAppManifest();
+    manifest.composeExtensions = [
+      {
+        composeExtensionType: "apiBased",
+        apiSpecificationFile: "apiSpecificationFiles/openapi.json",
+        commands: [],
+      },
+    ];
+    const core = new FxCore(tools);
+    const syncStub = sinon.stub(SpecParser.prototype, "sync").resolves({
+      allSuccess: true,
+      warnings: [],
+      diff: {
+        removed: ["DELETE /user/{userId}"],
+        changed: ["GET /user/{userId}"],
+        unchanged: [],
+      },
+      notSelected: ["GET /store/order"],
+      preservedCards: ["getUserById"],
+    });
+    sinon.stub(manifestUtils, "_readAppManifest").resolves(ok(manifest));
+    const showMessageStub = sinon.stub(tools.ui, "showMessage").resolves(ok(undefined));
+
+    const projectPath = path.join(os.tmpdir(), appName);
+    const result = await core.syncApiSpecCLIV3({
+      platform: Platform.CLI,
+      projectPath,
+      "spec-path": "openapi.yaml",
+    });
+    assert.isTrue(result.isOk());
+    assert.deepEqual(syncStub.firstCall.args, [
+      path.join(projectPath, "appPackage", "manifest.json"),
+      path.join(projectPath, "appPackage", "apiSpecificationFiles", "openapi.json"),
+      path.join(projectPath, "appPackage", "responseTemplates"),
+    ]);
+    const message = showMessageStub.firstCall.args[1] as unknown as string;
+    assert.include(
+      message,
+      getLocalizedString("core.copilot.syncAPI.notSelected", "GET /store/order")
+    );
+    assert.include(message, "DELETE /user/{userId}");
+    assert.include(message, "getUserById");
+  });
+
+  it("sync API spec - missing spec path", async () => {
+    const appName = await mockV3Project();
+    const core = new FxCore(tools);
+    const result = await core.syncApiSpecCLIV3({
+      platform: Platform.CLI,
+      projectPath: path.join(os.tmpdir(), appName),
+    });
+    assert.isTrue(result.isErr() && result.error instanceof MissingRequiredInputError);
+  });
+
+  it("sync API spec - no API specification file in manifest", async () => {
+    const appName = await mockV3Project();
+    const core = new FxCore(tools);
+    sinon.stub(manifestUtils, "_readAppManifest").resolves(ok(new TeamsAppManifest()));
+    const result = await core.syncApiSpecCLIV3({
+      platform: Platform.CLI,
+      projectPath: path.join(os.tmpdir(), appName),
+      "spec-path": "openapi.yaml",
+    });
+    assert.isTrue(result.isErr() && result.error instanceof InputValidationError);
+  });
+
+  it("sync API spec - SpecParserError", async () => {
+    const appName = await mockV3Project();
+    const manifest = new TeamsAppManifest();
+    manifest.composeExtensions = [
+      {
+        composeExtensionType: "apiBased",
+        apiSpecificationFile: "apiSpecificationFiles/openapi.json",
+        commands: [],
+      },
+    ];
+    const core = new FxCore(tools);
+    sinon
+      .stub(SpecParser.prototype, "sync")
+      .throws(new SpecParserError("fakeMessage", ErrorType.SyncFailed));
+    sinon.stub(manifestUtils, "_readAppManifest").resolves(ok(manifest));
+    const result = await core.syncApiSpecCLIV3({
+      platform: Platform.CLI,
+      projectPath: path.join(os.tmpdir(), appName),
+      "spec-path": "openapi.yaml",
+    });
+    assert.isTrue(result.isErr() && result.error.name === ErrorType.SyncFailed);
+  });
+
   it("load OpenAI manifest - should run successful", async () => {
     const core = new FxCore(tools);
     const inputs = { domain: "mydomain.com" };
@@ -0,0 +1,22 @@
+// Generate src/devPreviewManifest.ts from the bundled devPreview schema.
+// The schema has no title, so the root interface is named explicitly to keep it as DevPreviewSchema
+// instead of being derived from the file name.
+const fs = require("fs");
+const path = require("path");
+const { compile } = require("json-schema-to-typescript");
+
+const schemaPath = path.resolve(
+  __dirname,
+  "../schemas/teams/vDevPreview/MicrosoftTeams.schema.json"
+);
+const outputPath = path.resolve(__dirname, "../src/devPreviewManifest.ts");
+
+compile(require(schemaPath), "DevPreviewSchema", {
+  cwd: path.dirname(schemaPath),
+  ignoreMinAndMaxItems: true,
+})
+  .then((ts) => fs.writeFileSync(outputPath, ts))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -1,18 +1,38 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { TeamsAppManifest, IComposeExtension } from "./manifest";
+import { TeamsAppManifest, IComposeExtension, ILocalizationFile } from "./manifest";
 import fs from "fs-extra";
 import Ajv from "ajv-draft-04";
-import { JSONSchemaType } from "ajv";
+import { AnySchema, JSONSchemaType } from "ajv";
 import { DevPreviewSchema } from "./devPreviewManifest";
 import { ManifestCommonProperties } from "./ManifestCommonProperties";
 import { SharePointAppId } from "./constants";
 import fetch from "node-fetch";
+import { loadLocalSchema, SchemaResolverOptions } from "./schemaResolver";
+import { ManifestUpgradeResult, upgradeManifest } from "./upgrade";
+import { LintOptions, LintResult, lintManifest } from "./lint";
 
 export * from "./manifest";
 export * as devPreview from "./devPreviewManifest";
 export * from "./pluginManifest";
+export {
+  BundledSchemaDirectory,
+  getSchemaRelativePath,
+  SchemaDirectoryEnvName,
+  SchemaResolverOptions,
+} from "./schemaResolver";
+export { DevPreviewManifestVersion, getManifestSchemaUrl, ManifestUpgradeResult } from "./upgrade";
+export {
+  builtInLintRules,
+  LintConfig,
+  LintOptions,
+  LintProblem,
+  LintResult,
+  LintRule,
+  LintSeverity,
+  LintViolation,
+} from "./lint";
 
 export type TeamsAppManifestJSONSchema = JSONSchemaType<TeamsAppManifest>;
 export type DevPreviewManifestJSONSchema = JSONSchemaType<DevPreviewSchema>;
@@ -58,54 +78,141 @@ export class ManifestUtil {
     manifest: T,
     schema: JSONSchemaType<T>
   ): Promise<string[]> {
-    const ajv = new Ajv({ formats: { uri: true }, allErrors: true, strictTypes: false });
-    const validate = ajv.compile(schema);
-    const valid = validate(manifest);
-    if (!valid && validate.errors) {
-      return Promise.resolve(
-        validate.errors?.map((error) => `${error.instancePath} ${error.message || ""}`)
-      );
-    } else {
-      return Promise.resolve([]);
-    }
+    return Promise.resolve(ManifestUtil.validateAgainstSchema(manifest, schema));
   }
 
+  /**
+   * Get the schema of {@link TeamsAppManifest#$schema}. The local copy in the custom schema directory
+   * or the schemas bundled with this package is preferred, and the schema is only downloaded without a local copy.
+   *
+   * @param manifest - Manifest object
+   * @param options - Where to look for the local copy of the schema
+   * @throws Will throw if {@link TeamsAppManifest#$schema} is undefined, or there is any network failure when downloading the schema.
+   *
+   * @returns The schema.
+   */
   static async fetchSchema<T extends Manifest = TeamsAppManifest>(
-    manifest: T
+    manifest: T,
+    options?: SchemaResolverOptions
   ): Promise<JSONSchemaType<T>> {
     if (!manifest.$schema) {
       throw new Error("Manifest does not have a $schema property");
     }
-    let result: JSONSchemaType<T>;
-    try {
-      const res = await fetch(manifest.$schema);
-      result = (await res.json()) as JSONSchemaType<T>;
-    } catch (e: unknown) {
-      if (e instanceof Error) {
-        throw new Error(`Failed to get manifest at url ${manifest.$schema} due to: ${e.message}`);
-      } else {
-        throw new Error(`Failed to get manifest at url ${manifest.$schema} due to: unknown error`);
-      }
-    }
-    return result;
+    return ManifestUtil.fetchSchemaFromUrl<JSONSchemaType<T>>(manifest.$schema, options);
   }
 
   /**
    * Validate manifest against {@link TeamsAppManifest#$schema}.
    *
    * @param manifest - Manifest object to be validated
+   * @param options - Where to look for the local copy of the schema, see {@link ManifestUtil.fetchSchema}
    * @throws Will throw if {@link TeamsAppManifest#$schema} is undefined, not valid
    *         or there is any network failure when getting the schema.
    *
    * @returns An empty array if schema validation passes, or an array of error string otherwise.
    */
   static async validateManifest<T extends Manifest = TeamsAppManifest>(
-    manifest: T
+    manifest: T,
+    options?: SchemaResolverOptions
   ): Promise<string[]> {
-    const schema = await this.fetchSchema(manifest);
+    const schema = await this.fetchSchema(manifest, options);
     return ManifestUtil.validateManifestAgainstSchema(manifest, schema);
   }
 
+  /**
+   * Validate a localization file against {@link ILocalizationFile#$schema}, the schema is resolved
+   * the same way as {@link ManifestUtil.fetchSchema}.
+   *
+   * @param localization - Content of the localization file
+   * @param options - Where to look for the local copy of the schema
+   * @throws Will throw if {@link ILocalizationFile#$schema} is undefined
+   *         or there is any network failure when getting the schema.
+   *
+   * @returns An empty array if schema validation passes, or an array of error string otherwise.
+   */
+  static async validateLocalization(
+    localization: ILocalizationFile,
+    options?: SchemaResolverOptions
+  ): Promise<string[]> {
+    if (!localization.$schema) {
+      throw new Error("Localization file does not have a $schema property");
+    }
+    const schema = await ManifestUtil.fetchSchemaFromUrl<AnySchema>(localization.$schema, options);
+    return ManifestUtil.validateAgainstSchema(localization, schema);
+  }
+
+  /**
+   * Upgrade the manifest to the target manifest version, applying the known field renames and removals
+   * between the versions, and rewriting {@link TeamsAppManifest#$schema} and {@link TeamsAppManifest#manifestVersion}.
+   *
+   * @param manifest - Manifest object to be upgraded, it is not modified
+   * @param targetVersion - The target manifest version, e.g. "1.17" or "devPreview"
+   * @throws Will throw if the target version is invalid or lower than the version of the manifest.
+   *
+   * @returns The upgraded manifest, the changes applied and the fields that need manual attention.
+   */
+  static upgradeManifest<T extends Manifest = TeamsAppManifest>(
+    manifest: T,
+    targetVersion: string
+  ): ManifestUpgradeResult<T> {
+    return upgradeManifest(manifest, targetVersion);
+  }
+
+  /**
+   * Check the manifest with lint rules, for problems which pass the schema validation
+   * but are rejected by the store, e.g. tab urls not in validDomains.
+   *
+   * @param manifest - Manifest object to be linted, it is not modified
+   * @param options - Severity of the rules, custom rules and whether to fix the auto-fixable problems
+   * @throws Will throw if the config has an unknown rule.
+   *
+   * @returns The problems found, and the manifest with the fixes applied.
+   */
+  static lintManifest<T extends Manifest = TeamsAppManifest>(
+    manifest: T,
+    options?: LintOptions
+  ): LintResult<T> {
+    return lintManifest(manifest, options);
+  }
+
+  private static async fetchSchemaFromUrl<S>(
+    schemaUrl: string,
+    options?: SchemaResolverOptions
+  ): Promise<S> {
+    const localSchema = await loadLocalSchema<S>(schemaUrl, options);
+    if (localSchema) {
+      return localSchema;
+    }
+    let result: S;
+    try {
+      const res = await fetch(schemaUrl);
+      result = (await res.json()) as S;
+    } catch (e: unknown) {
+      if (e instanceof Error) {
+        throw new Error(`Failed to get manifest at url ${schemaUrl} due to: ${e.message}`);
+      } else {
+        throw new Error(`Failed to get manifest at url ${schemaUrl} due to: unknown error`);
+      }
+    }
+    return result;
+  }
+
+  private static validateAgainstSchema(data: unknown, schema: AnySchema): string[] {
+    // the published localization schemas use patterns which are not valid unicode regular expressions
+    const ajv = new Ajv({
+      formats: { uri: true, email: true },
+      allErrors: true,
+      strictTypes: false,
+      unicodeRegExp: false,
+    });
+    const validate = ajv.compile(schema);
+    const valid = validate(data);
+    if (!valid && validate.errors) {
+      return validate.errors.map((error) => `${error.instancePath} ${error.message || ""}`);
+    }
+    return [];
+  }
+
   /**
    * Parse the manifest and get properties
    * @param manifest
@@ -0,0 +1,248 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { AppManifest } from "./manifest";
+
+export type LintSeverity = "error" | "warning" | "off";
+
+/**
+ * A problem reported by a lint rule.
+ */
+export interface LintViolation {
+  message: string;
+  /**
+   * The JSON path of the field with the problem, e.g. "staticTabs[0].contentUrl"
+   */
+  path?: string;
+  /**
+   * Fix the problem in place, only available for auto-fixable problems.
+   */
+  fix?: (manifest: AppManifest) => void;
+}
+
+/**
+ * A lint rule checks the manifest for problems which are valid against the schema
+ * but rejected by the store or at runtime.
+ */
+export interface LintRule {
+  /**
+   * The unique id of the rule, used in the rule config, e.g. "valid-domains"
+   */
+  id: string;
+  description: string;
+  defaultSeverity: Exclude<LintSeverity, "off">;
+  check(manifest: AppManifest): LintViolation[];
+}
+
+/**
+ * Per-project lint config.
+ */
+export interface LintConfig {
+  /**
+   * Severity of the rules by rule id, rules not listed use their default severity.
+   */
+  rules?: Record<string, LintSeverity>;
+}
+
+export interface LintOptions {
+  config?: LintConfig;
+  /**
+   * Rules in addition to the built-in rules.
+   */
+  rules?: LintRule[];
+  /**
+   * Apply the fixes of auto-fixable problems to the returned manifest.
+   */
+  fix?: boolean;
+}
+
+export interface LintProblem {
+  ruleId: string;
+  severity: Exclude<LintSeverity, "off">;
+  message: string;
+  path?: string;
+  fixable: boolean;
+}
+
+export interface LintResult<T extends AppManifest = AppManifest> {
+  /**
+   * A copy of the manifest with the fixes applied, the original one is not modified.
+   */
+  manifest: T;
+  /**
+   * Problems not fixed.
+   */
+  problems: LintProblem[];
+  /**
+   * Problems fixed, empty unless {@link LintOptions#fix} is set.
+   */
+  fixed: LintProblem[];
+}
+
+export const builtInLintRules: LintRule[] = [
+  {
+    id: "short-description-differs-from-name",
+    description: "The short description should describe the app instead of repeating its name.",
+    defaultSeverity: "warning",
+    check(manifest) {
+      const name = (manifest.name?.short as string | undefined)?.trim().toLowerCase();
+      const description = (manifest.description?.short as string | undefined)?.trim().toLowerCase();
+      return name && name === description
+        ? [{ message: "description.short is the same as name.short", path: "description.short" }]
+        : [];
+    },
+  },
+  {
+    id: "valid-domains-format",
+    description: "Entries of validDomains are domains, without the protocol or a path.",
+    defaultSeverity: "error",
+    check(manifest) {
+      const domains = (manifest.validDomains ?? []) as string[];
+      const violations: LintViolation[] = [];
+      domains.forEach((domain, index) => {
+        const host = getHost(domain);
+        if (host && host !== domain) {
+          violations.push({
+            message: `validDomains[${index}] '${domain}' should be '${host}'`,
+            path: `validDomains[${index}]`,
+            fix: (manifest) => {
+              manifest.validDomains = (manifest.validDomains as string[]).map((d) =>
+                d === domain ? host : d
+              );
+            },
+          });
+        }
+      });
+      return violations;
+    },
+  },
+  {
+    id: "valid-domains-for-tab-urls",
+    description: "The domains of the tab urls are listed in validDomains.",
+    defaultSeverity: "error",
+    check(manifest) {
+      const urls: { path: string; url: unknown }[] = [];
+      ((manifest.staticTabs ?? []) as Record<string, unknown>[]).forEach((tab, index) => {
+        urls.push({ path: `staticTabs[${index}].contentUrl`, url: tab.contentUrl });
+        urls.push({ path: `staticTabs[${index}].websiteUrl`, url: tab.websiteUrl });
+      });
+      ((manifest.configurableTabs ?? []) as Record<string, unknown>[]).forEach((tab, index) => {
+        urls.push({
+          path: `configurableTabs[${index}].configurationUrl`,
+          url: tab.configurationUrl,
+        });
+      });
+      const violations: LintViolation[] = [];
+      for (const { path, url } of urls) {
+        const host = typeof url === "string" ? getHost(url, true) : undefined;
+        if (!host || isValidDomain(host, (manifest.validDomains ?? []) as string[])) {
+          continue;
+        }
+        violations.push({
+          message: `${path} is in domain '${host}' which is not in validDomains`,
+          path,
+          fix: (manifest) => {
+            const domains = (manifest.validDomains ?? []) as string[];
+            if (!domains.includes(host)) {
+              manifest.validDomains = [...domains, host];
+            }
+          },
+        });
+      }
+      return violations;
+    },
+  },
+  {
+    id: "bot-id-matches-web-application-info",
+    description:
+      "For bot SSO, webApplicationInfo.resource references a bot in the manifest and webApplicationInfo.id is the bot id.",
+    defaultSeverity: "error",
+    check(manifest) {
+      const resource = manifest.webApplicationInfo?.resource as string | undefined;
+      const match = resource ? /botid-([^/]+)/i.exec(resource) : null;
+      if (!match) {
+        return [];
+      }
+      const botId = match[1];
+      const bots = (manifest.bots ?? []) as { botId?: string }[];
+      if (!bots.some((bot) => bot.botId === botId)) {
+        return [
+          {
+            message: `webApplicationInfo.resource references bot id '${botId}' which is not in bots`,
+            path: "webApplicationInfo.resource",
+          },
+        ];
+      }
+      if (manifest.webApplicationInfo.id !== botId) {
+        return [
+          {
+            message: `webApplicationInfo.id should be the bot id '${botId}'`,
+            path: "webApplicationInfo.id",
+          },
+        ];
+      }
+      return [];
+    },
+  },
+];
+
+/**
+ * Lint the manifest, see {@link ManifestUtil.lintManifest}.
+ */
+export function lintManifest<T extends AppManifest>(
+  manifest: T,
+  options?: LintOptions
+): LintResult<T> {
+  const rules = [...builtInLintRules, ...(options?.rules ?? [])];
+  const configured = options?.config?.rules ?? {};
+  for (const id of Object.keys(configured)) {
+    if (!rules.some((rule) => rule.id === id)) {
+      throw new Error(`Unknown lint rule ${id}`);
+    }
+  }
+
+  const linted = JSON.parse(JSON.stringify(manifest)) as AppManifest;
+  const result: LintResult<T> = { manifest: linted as T, problems: [], fixed: [] };
+  for (const rule of rules) {
+    const severity = configured[rule.id] ?? rule.defaultSeverity;
+    if (severity === "off") {
+      continue;
+    }
+    for (const violation of rule.check(linted)) {
+      const problem: LintProblem = {
+        ruleId: rule.id,
+        severity,
+        message: violation.message,
+        path: violation.path,
+        fixable: violation.fix !== undefined,
+      };
+      if (options?.fix && violation.fix) {
+        violation.fix(linted);
+        result.fixed.push(problem);
+      } else {
+        result.problems.push(problem);
+      }
+    }
+  }
+  return result;
+}
+
+// e.g. "https://contoso.com:8080/tab?x=1" -> "contoso.com:8080", placeholders like ${{TAB_DOMAIN}} are kept
+function getHost(url: string, requireProtocol = false): string | undefined {
+  const protocol = requireProtocol ? "[a-z][a-z0-9+.-]*:\\/\\/" : "(?:[a-z][a-z0-9+.-]*:\\/\\/)?";
+  const match = new RegExp(`^${protocol}([^/?#]+)`, "i").exec(url.trim());
+  return match ? match[1] : undefined;
+}
+
+// validDomains supports wildcards like *.contoso.com
+function isValidDomain(host: string, validDomains: string[]): boolean {
+  return validDomains.some((domain) => {
+    if (domain === host) {
+      return true;
+    }
+    if (domain.startsWith("*.")) {
+      return host.endsWith(domain.substring(1));
+    }
+    return false;
+  });
+}
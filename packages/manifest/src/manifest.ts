@@ -341,6 +341,10 @@ export interface ILocalizationInfo {
    * The language tag of the strings in this top level manifest file.
    */
   defaultLanguageTag: string;
+  /**
+   * A relative file path to the .json file containing the strings in the default language.
+   */
+  defaultLanguageFile?: string;
   additionalLanguages?: {
     languageTag: string;
     /**
@@ -350,6 +354,15 @@ export interface ILocalizationInfo {
   }[];
 }
 
+/**
+ * The content of a localization file, the translated strings are keyed by the JSON path of the field in the manifest,
+ * e.g. "name.short" or "staticTabs[0].name".
+ */
+export interface ILocalizationFile {
+  $schema?: string;
+  [key: string]: string | undefined;
+}
+
 export interface IAppPermission {
   name: string;
   type: "Application" | "Delegated";
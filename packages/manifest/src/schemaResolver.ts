@@ -0,0 +1,81 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import fs from "fs-extra";
+import path from "path";
+
+/**
+ * Environment variable of the custom schema directory, used when {@link SchemaResolverOptions#schemaDirectory} is not set.
+ */
+export const SchemaDirectoryEnvName = "TEAMSFX_MANIFEST_SCHEMA_DIR";
+
+/**
+ * The schemas bundled with this package.
+ */
+export const BundledSchemaDirectory = path.join(__dirname, "..", "schemas");
+
+export interface SchemaResolverOptions {
+  /**
+   * A directory with local copies of the schemas, checked before the bundled schemas.
+   * The schemas are placed by the path of their url after "json-schemas/",
+   * e.g. `<schemaDirectory>/teams/v1.16/MicrosoftTeams.schema.json`
+   * for https://developer.microsoft.com/en-us/json-schemas/teams/v1.16/MicrosoftTeams.schema.json.
+   */
+  schemaDirectory?: string;
+}
+
+/**
+ * Get the path of the schema relative to a schema directory.
+ *
+ * @param schemaUrl - The url of the schema, e.g. the `$schema` of the manifest
+ * @returns The relative path, or undefined if the schema is not published under json-schemas.
+ */
+export function getSchemaRelativePath(schemaUrl: string): string | undefined {
+  const match = /\/json-schemas\/(.+)$/.exec(schemaUrl.split(/[?#]/)[0]);
+  if (!match) {
+    return undefined;
+  }
+  const relativePath = path.normalize(match[1]);
+  // the url should never point outside of the schema directory
+  return relativePath.startsWith("..") || path.isAbsolute(relativePath) ? undefined : relativePath;
+}
+
+/**
+ * Load the schema from the custom schema directory or the bundled schemas.
+ *
+ * @returns The schema, or undefined if there is no local copy of it.
+ */
+export async function loadLocalSchema<T>(
+  schemaUrl: string,
+  options?: SchemaResolverOptions
+): Promise<T | undefined> {
+  const relativePath = getSchemaRelativePath(schemaUrl);
+  if (!relativePath) {
+    return undefined;
+  }
+  const customDirectory = options?.schemaDirectory ?? process.env[SchemaDirectoryEnvName];
+  const directories = customDirectory
+    ? [customDirectory, BundledSchemaDirectory]
+    : [BundledSchemaDirectory];
+  for (const directory of directories) {
+    const schemaPath = path.join(directory, relativePath);
+    if (await fs.pathExists(schemaPath)) {
+      return (await fs.readJson(schemaPath)) as T;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load the schema bundled with this package synchronously, the custom schema directory is not checked.
+ *
+ * @returns The schema, or undefined if it is not bundled.
+ */
+export function loadBundledSchemaSync<T>(schemaUrl: string): T | undefined {
+  const relativePath = getSchemaRelativePath(schemaUrl);
+  if (!relativePath) {
+    return undefined;
+  }
+  const schemaPath = path.join(BundledSchemaDirectory, relativePath);
+  return fs.pathExistsSync(schemaPath) ? (fs.readJsonSync(schemaPath) as T) : undefined;
+}
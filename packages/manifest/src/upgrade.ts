@@ -0,0 +1,255 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { AppManifest } from "./manifest";
+import { loadBundledSchemaSync } from "./schemaResolver";
+
+export const DevPreviewManifestVersion = "devPreview";
+
+/**
+ * The result of upgrading a manifest to another manifest version.
+ */
+export interface ManifestUpgradeResult<T extends AppManifest = AppManifest> {
+  /**
+   * The upgraded copy of the manifest, the original one is not modified.
+   */
+  manifest: T;
+  /**
+   * Changes applied automatically.
+   */
+  changes: string[];
+  /**
+   * Fields that cannot be migrated automatically and need manual attention.
+   */
+  warnings: string[];
+}
+
+interface Scoped {
+  scopes?: string[];
+}
+
+interface UpgradeRule {
+  /**
+   * The first manifest version with this change.
+   */
+  version: string;
+  apply(manifest: AppManifest, result: ManifestUpgradeResult): void;
+}
+
+/**
+ * Known breaking changes between manifest versions, applied in order when a manifest is upgraded across the version.
+ * Refer to https://learn.microsoft.com/microsoftteams/platform/resources/schema/manifest-schema for the changelog.
+ * Versions 1.13 to 1.15 only added optional fields, so there are no rules for them.
+ */
+const upgradeRules: UpgradeRule[] = [
+  {
+    // resource-specific consent permissions moved to authorization
+    version: "1.12",
+    apply(manifest, result) {
+      const permissions = manifest.webApplicationInfo?.applicationPermissions as
+        | string[]
+        | undefined;
+      if (!permissions) {
+        return;
+      }
+      const resourceSpecific = (manifest.authorization?.permissions?.resourceSpecific ?? []) as {
+        name: string;
+        type: string;
+      }[];
+      for (const name of permissions) {
+        if (!resourceSpecific.some((permission) => permission.name === name)) {
+          resourceSpecific.push({ name, type: "Application" });
+        }
+      }
+      manifest.authorization = {
+        ...manifest.authorization,
+        permissions: { ...manifest.authorization?.permissions, resourceSpecific },
+      };
+      delete manifest.webApplicationInfo.applicationPermissions;
+      result.changes.push(
+        "Moved webApplicationInfo.applicationPermissions to authorization.permissions.resourceSpecific"
+      );
+      result.warnings.push(
+        "authorization.permissions.resourceSpecific: all permissions were added as 'Application' permissions, change the type of delegated permissions to 'Delegated'"
+      );
+    },
+  },
+  {
+    // name.full became required
+    version: "1.16",
+    apply(manifest, result) {
+      if (manifest.name && !manifest.name.full && manifest.name.short) {
+        manifest.name.full = manifest.name.short;
+        result.changes.push("Set name.full to name.short");
+      }
+    },
+  },
+  {
+    // packageName was removed
+    version: "1.17",
+    apply(manifest, result) {
+      if (manifest.packageName !== undefined) {
+        delete manifest.packageName;
+        result.changes.push("Removed packageName");
+      }
+    },
+  },
+  {
+    // the lower case scope 'groupchat' was removed in favor of 'groupChat'
+    version: "1.17",
+    apply(manifest, result) {
+      const renameScopes = (scopes: string[] | undefined, field: string) => {
+        if (scopes?.includes("groupchat")) {
+          const renamed = scopes.map((scope) => (scope === "groupchat" ? "groupChat" : scope));
+          scopes.splice(0, scopes.length, ...new Set(renamed));
+          result.changes.push(`Renamed scope 'groupchat' to 'groupChat' in ${field}`);
+        }
+      };
+      const bots = (manifest.bots ?? []) as { scopes?: string[]; commandLists?: Scoped[] }[];
+      bots.forEach((bot, i) => {
+        renameScopes(bot.scopes, `bots[${i}].scopes`);
+        bot.commandLists?.forEach((commandList, j) =>
+          renameScopes(commandList.scopes, `bots[${i}].commandLists[${j}].scopes`)
+        );
+      });
+      for (const field of ["configurableTabs", "staticTabs"]) {
+        ((manifest[field] ?? []) as Scoped[]).forEach((tab, i) =>
+          renameScopes(tab.scopes, `${field}[${i}].scopes`)
+        );
+      }
+      if (manifest.defaultInstallScope === "groupchat") {
+        manifest.defaultInstallScope = "groupChat";
+        result.changes.push("Renamed defaultInstallScope 'groupchat' to 'groupChat'");
+      }
+    },
+  },
+  {
+    // the context 'callingSidePanel' of configurable tabs was removed
+    version: "1.17",
+    apply(manifest, result) {
+      const tabs = (manifest.configurableTabs ?? []) as { context?: string[] }[];
+      tabs.forEach((tab, i) => {
+        if (tab.context?.includes("callingSidePanel")) {
+          tab.context = tab.context.filter((value) => value !== "callingSidePanel");
+          result.changes.push(`Removed context 'callingSidePanel' from configurableTabs[${i}]`);
+          result.warnings.push(
+            `configurableTabs[${i}].context: 'callingSidePanel' is no longer supported, use 'meetingSidePanel' instead if the tab is used in meetings`
+          );
+        }
+      });
+    },
+  },
+];
+
+/**
+ * The last manifest version with known upgrade rules, the fields changed in later versions are not migrated.
+ */
+const latestRuleVersion = "1.17";
+
+/**
+ * Fields only supported by the developer preview manifest.
+ */
+const devPreviewOnlyFields = ["scopeConstraints", "dashboardCards", "extensions"];
+
+/**
+ * Upgrade the manifest to the target manifest version, see {@link ManifestUtil.upgradeManifest}.
+ */
+export function upgradeManifest<T extends AppManifest>(
+  manifest: T,
+  targetVersion: string
+): ManifestUpgradeResult<T> {
+  if (typeof manifest.manifestVersion !== "string") {
+    throw new Error("Manifest does not have a valid manifestVersion property");
+  }
+  const sourceVersion = normalizeVersion(manifest.manifestVersion);
+  const target = normalizeVersion(targetVersion);
+  if (target !== DevPreviewManifestVersion && !/^\d+\.\d+$/.test(target)) {
+    throw new Error(`Invalid target manifest version ${targetVersion}`);
+  }
+  if (compareVersion(sourceVersion, target) > 0 && sourceVersion !== DevPreviewManifestVersion) {
+    throw new Error(
+      `Manifest version ${sourceVersion} cannot be downgraded to ${target}, only upgrade is supported`
+    );
+  }
+
+  const upgraded = JSON.parse(JSON.stringify(manifest)) as AppManifest;
+  const result: ManifestUpgradeResult<T> = { manifest: upgraded as T, changes: [], warnings: [] };
+  for (const rule of upgradeRules) {
+    if (
+      compareVersion(sourceVersion, rule.version) < 0 &&
+      compareVersion(target, rule.version) >= 0
+    ) {
+      rule.apply(upgraded, result);
+    }
+  }
+  if (sourceVersion === DevPreviewManifestVersion && target !== DevPreviewManifestVersion) {
+    for (const field of devPreviewOnlyFields) {
+      if (upgraded[field] !== undefined) {
+        result.warnings.push(
+          `${field}: only supported by the developer preview manifest, remove it or keep using ${DevPreviewManifestVersion}`
+        );
+      }
+    }
+  }
+
+  if (target !== DevPreviewManifestVersion && compareVersion(target, latestRuleVersion) > 0) {
+    result.warnings.push(
+      `manifestVersion: no upgrade rules are known after ${latestRuleVersion}, check the changes of ${target} manually`
+    );
+  }
+
+  const schema = getManifestSchemaUrl(target);
+  for (const field of getUnsupportedFields(upgraded, schema)) {
+    if (!result.warnings.some((warning) => warning.startsWith(`${field}:`))) {
+      result.warnings.push(
+        `${field}: not supported by manifest version ${target} and cannot be migrated automatically`
+      );
+    }
+  }
+  if (upgraded.manifestVersion !== target) {
+    result.changes.push(`Changed manifestVersion from ${manifest.manifestVersion} to ${target}`);
+    upgraded.manifestVersion = target;
+  }
+  if (upgraded.$schema !== schema) {
+    result.changes.push(`Changed $schema to ${schema}`);
+    upgraded.$schema = schema;
+  }
+  return result;
+}
+
+export function getManifestSchemaUrl(manifestVersion: string): string {
+  const version =
+    normalizeVersion(manifestVersion) === DevPreviewManifestVersion
+      ? "vDevPreview"
+      : `v${manifestVersion}`;
+  return `https://developer.microsoft.com/en-us/json-schemas/teams/${version}/MicrosoftTeams.schema.json`;
+}
+
+// Top level fields of the manifest which are not in the bundled schema of the target version
+function getUnsupportedFields(manifest: AppManifest, schemaUrl: string): string[] {
+  const schema = loadBundledSchemaSync<{ properties?: Record<string, unknown> }>(schemaUrl);
+  if (!schema?.properties) {
+    return [];
+  }
+  const properties = schema.properties;
+  return Object.keys(manifest).filter((field) => !(field in properties));
+}
+
+function normalizeVersion(version: string): string {
+  // m365DevPreview is the legacy name of devPreview
+  return version.toLowerCase().endsWith("devpreview") ? DevPreviewManifestVersion : version;
+}
+
+// devPreview is newer than any released version
+function compareVersion(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  } else if (a === DevPreviewManifestVersion) {
+    return 1;
+  } else if (b === DevPreviewManifestVersion) {
+    return -1;
+  }
+  const [aMajor, aMinor] = a.split(".").map((part) => parseInt(part) || 0);
+  const [bMajor, bMinor] = b.split(".").map((part) => parseInt(part) || 0);
+  return aMajor !== bMajor ? aMajor - bMajor : (aMinor ?? 0) - (bMinor ?? 0);
+}
@@ -1,10 +1,18 @@
 import "mocha";
 import * as chai from "chai";
+import * as os from "os";
 import * as path from "path";
 import fs from "fs-extra";
 import chaiAsPromised from "chai-as-promised";
 import sinon from "sinon";
-import { ManifestUtil, TeamsAppManifest, TeamsAppManifestJSONSchema } from "../src";
+import {
+  getSchemaRelativePath,
+  LintOptions,
+  ManifestUtil,
+  SchemaDirectoryEnvName,
+  TeamsAppManifest,
+  TeamsAppManifestJSONSchema,
+} from "../src";
 chai.use(chaiAsPromised);
 
 describe("Manifest manipulation", async () => {
@@ -99,6 +107,357 @@ describe("Manifest manipulation", async () => {
       chai.expect(result[0]).to.contain("/manifestVersion");
     });
   });
+
+  describe("fetchSchema", async () => {
+    const schemaDirectory = path.join(os.tmpdir(), "manifest-schema-test");
+    const customSchema = { title: "custom schema" };
+
+    before(async () => {
+      await fs.outputJson(
+        path.join(schemaDirectory, "teams", "v1.16", "MicrosoftTeams.schema.json"),
+        customSchema
+      );
+    });
+
+    after(async () => {
+      await fs.remove(schemaDirectory);
+    });
+
+    it("should load the bundled schema", async () => {
+      const manifest = new TeamsAppManifest();
+      manifest.$schema =
+        "https://developer.microsoft.com/en-us/json-schemas/teams/v1.11/MicrosoftTeams.schema.json";
+      const result = await ManifestUtil.fetchSchema(manifest);
+      chai.expect(result).deep.equals(await loadSchema());
+    });
+
+    it("should load the bundled devPreview schema", async () => {
+      const manifest = new TeamsAppManifest();
+      manifest.$schema =
+        "https://developer.microsoft.com/json-schemas/teams/vDevPreview/MicrosoftTeams.schema.json";
+      const result = await ManifestUtil.fetchSchema(manifest);
+      chai.expect((result as any).properties.manifestVersion.enum).contains("devPreview");
+    });
+
+    it("should validate a v1.16 manifest with the bundled schema offline", async () => {
+      const manifest = await ManifestUtil.loadFromPath(path.join(__dirname, "manifest.json"));
+      manifest.$schema =
+        "https://developer.microsoft.com/en-us/json-schemas/teams/v1.16/MicrosoftTeams.schema.json";
+      manifest.manifestVersion = "1.16";
+      manifest.name.full = "Hello world";
+      const result = await ManifestUtil.validateManifest(manifest);
+      chai.expect(result).to.be.empty;
+    });
+
+    it("should bundle the schemas of every supported manifest version", async () => {
+      for (let minor = 0; minor <= 17; minor++) {
+        const manifest = new TeamsAppManifest();
+        manifest.$schema = `https://developer.microsoft.com/json-schemas/teams/v1.${minor}/MicrosoftTeams.schema.json`;
+        const result = await ManifestUtil.fetchSchema(manifest);
+        chai.expect((result as any).properties.manifestVersion).to.exist;
+      }
+    });
+
+    it("should prefer the custom schema directory", async () => {
+      const manifest = new TeamsAppManifest();
+      manifest.$schema =
+        "https://developer.microsoft.com/en-us/json-schemas/teams/v1.16/MicrosoftTeams.schema.json";
+      const result = await ManifestUtil.fetchSchema(manifest, { schemaDirectory });
+      chai.expect(result).deep.equals(customSchema);
+    });
+
+    it("should read the custom schema directory from the environment variable", async () => {
+      const manifest = new TeamsAppManifest();
+      manifest.$schema =
+        "https://developer.microsoft.com/en-us/json-schemas/teams/v1.16/MicrosoftTeams.schema.json";
+      process.env[SchemaDirectoryEnvName] = schemaDirectory;
+      try {
+        const result = await ManifestUtil.fetchSchema(manifest);
+        chai.expect(result).deep.equals(customSchema);
+      } finally {
+        delete process.env[SchemaDirectoryEnvName];
+      }
+    });
+
+    it("should not resolve schemas outside of the schema directory", async () => {
+      chai.expect(getSchemaRelativePath("https://contoso.com/schema.json")).to.be.undefined;
+      chai.expect(getSchemaRelativePath("https://contoso.com/json-schemas/../../secret.json")).to.be
+        .undefined;
+      chai
+        .expect(getSchemaRelativePath("https://contoso.com/json-schemas/teams/v1.16/a.json?x=1"))
+        .equals(path.join("teams", "v1.16", "a.json"));
+    });
+  });
+
+  describe("validateLocalization", async () => {
+    const schemaDirectory = path.join(os.tmpdir(), "localization-schema-test");
+    const $schema =
+      "https://developer.microsoft.com/json-schemas/teams/v1.16/MicrosoftTeams.Localization.schema.json";
+
+    before(async () => {
+      await fs.outputJson(
+        path.join(schemaDirectory, "teams", "v1.16", "MicrosoftTeams.Localization.schema.json"),
+        {
+          type: "object",
+          properties: { $schema: { type: "string" }, "name.short": { maxLength: 5 } },
+          additionalProperties: false,
+        }
+      );
+    });
+
+    after(async () => {
+      await fs.remove(schemaDirectory);
+    });
+
+    it("should validate against the schema of the localization file", async () => {
+      const result = await ManifestUtil.validateLocalization(
+        { $schema, "name.short": "App", "name.foo": "Foo" },
+        { schemaDirectory }
+      );
+      chai.expect(result.length).equals(1);
+      chai.expect(result[0]).to.contain("additional properties");
+    });
+
+    it("should validate against the bundled localization schema", async () => {
+      const result = await ManifestUtil.validateLocalization({
+        $schema,
+        "name.short": "App",
+        "name.full": "Full name of the app",
+        "description.short": "Short description",
+        "description.full": "Full description of the app",
+        "activities.activityTypes[0].description": "Description",
+      });
+      chai.expect(result).to.be.empty;
+    });
+
+    it("should throw if $schema is undefined", async () => {
+      await chai
+        .expect(ManifestUtil.validateLocalization({ "name.short": "App" }))
+        .to.be.rejectedWith(Error);
+    });
+  });
+
+  describe("upgradeManifest", async () => {
+    it("should rewrite $schema and manifestVersion", async () => {
+      const filePath = path.join(__dirname, "manifest.json");
+      const manifest = await ManifestUtil.loadFromPath(filePath);
+      const result = ManifestUtil.upgradeManifest(manifest, "1.17");
+      chai.expect(result.manifest.manifestVersion).equals("1.17");
+      chai
+        .expect(result.manifest.$schema)
+        .equals(
+          "https://developer.microsoft.com/en-us/json-schemas/teams/v1.17/MicrosoftTeams.schema.json"
+        );
+      chai
+        .expect(result.changes)
+        .deep.equals([
+          "Set name.full to name.short",
+          "Removed packageName",
+          "Changed manifestVersion from 1.11 to 1.17",
+          `Changed $schema to ${result.manifest.$schema}`,
+        ]);
+      chai.expect(result.warnings).to.be.empty;
+      // the original manifest is not modified
+      chai.expect(manifest.manifestVersion).equals("1.11");
+      chai.expect(manifest.packageName).equals("helloworld");
+    });
+
+    it("should rename the removed groupchat scope and callingSidePanel context", async () => {
+      const manifest = new TeamsAppManifest() as any;
+      manifest.manifestVersion = "1.16";
+      manifest.defaultInstallScope = "groupchat";
+      manifest.bots = [
+        {
+          botId: "id",
+          scopes: ["groupchat", "groupChat"],
+          commandLists: [{ scopes: ["groupchat"] }],
+        },
+      ];
+      manifest.configurableTabs = [
+        {
+          configurationUrl: "https://a.com",
+          scopes: ["team"],
+          context: ["callingSidePanel", "channelTab"],
+        },
+      ];
+      const result = ManifestUtil.upgradeManifest(manifest, "1.17");
+      chai.expect(result.manifest.defaultInstallScope).equals("groupChat");
+      chai.expect(result.manifest.bots?.[0].scopes).deep.equals(["groupChat"]);
+      chai.expect(result.manifest.bots?.[0].commandLists?.[0].scopes).deep.equals(["groupChat"]);
+      chai.expect(result.manifest.configurableTabs?.[0].context).deep.equals(["channelTab"]);
+      chai.expect(result.warnings.length).equals(1);
+      chai.expect(result.warnings[0]).to.contain("callingSidePanel");
+      chai.expect(manifest.bots[0].scopes).deep.equals(["groupchat", "groupChat"]);
+    });
+
+    it("should report the fields not supported by the target version", async () => {
+      const manifest = new TeamsAppManifest() as any;
+      manifest.manifestVersion = "1.16";
+      manifest.unknownField = "value";
+      const result = ManifestUtil.upgradeManifest(manifest, "1.17");
+      chai.expect(result.warnings.length).equals(1);
+      chai.expect(result.warnings[0]).to.contain("unknownField");
+    });
+
+    it("should report the versions without upgrade rules", async () => {
+      const manifest = new TeamsAppManifest();
+      const result = ManifestUtil.upgradeManifest(manifest, "1.18");
+      chai.expect(result.manifest.manifestVersion).equals("1.18");
+      chai.expect(result.warnings.length).equals(1);
+      chai.expect(result.warnings[0]).to.contain("1.18");
+    });
+
+    it("should move application permissions to authorization", async () => {
+      const manifest = new TeamsAppManifest();
+      manifest.manifestVersion = "1.11";
+      manifest.webApplicationInfo = {
+        id: "id",
+        applicationPermissions: ["TeamSettings.Read.Group", "ChannelMessage.Read.Group"],
+      };
+      manifest.authorization = {
+        permissions: {
+          resourceSpecific: [{ name: "TeamSettings.Read.Group", type: "Application" }],
+        },
+      };
+      const result = ManifestUtil.upgradeManifest(manifest, "1.12");
+      chai.expect(result.manifest.webApplicationInfo).deep.equals({ id: "id" });
+      chai.expect(result.manifest.authorization?.permissions?.resourceSpecific).deep.equals([
+        { name: "TeamSettings.Read.Group", type: "Application" },
+        { name: "ChannelMessage.Read.Group", type: "Application" },
+      ]);
+      chai.expect(result.warnings.length).equals(1);
+    });
+
+    it("should report preview only fields when moving from devPreview", async () => {
+      const manifest = new TeamsAppManifest() as any;
+      manifest.manifestVersion = "devPreview";
+      manifest.dashboardCards = [];
+      const result = ManifestUtil.upgradeManifest(manifest, "1.17");
+      chai.expect(result.manifest.manifestVersion).equals("1.17");
+      chai.expect(result.warnings.length).equals(2);
+      chai.expect(result.warnings[0]).to.contain("dashboardCards");
+      // packageName of the default manifest is removed since 1.17
+      chai.expect(result.warnings[1]).to.contain("packageName");
+    });
+
+    it("should upgrade to devPreview", async () => {
+      const manifest = new TeamsAppManifest();
+      const result = ManifestUtil.upgradeManifest(manifest, "devPreview");
+      chai
+        .expect(result.manifest.$schema)
+        .equals(
+          "https://developer.microsoft.com/en-us/json-schemas/teams/vDevPreview/MicrosoftTeams.schema.json"
+        );
+    });
+
+    it("should throw when downgrading or the target version is invalid", async () => {
+      const manifest = new TeamsAppManifest();
+      chai.expect(() => ManifestUtil.upgradeManifest(manifest, "1.11")).to.throw(Error);
+      chai.expect(() => ManifestUtil.upgradeManifest(manifest, "latest")).to.throw(Error);
+    });
+  });
+
+  describe("lintManifest", async () => {
+    it("should pass the default manifest", async () => {
+      const result = ManifestUtil.lintManifest(new TeamsAppManifest());
+      chai.expect(result.problems).to.be.empty;
+    });
+
+    it("should report and fix tab urls not in validDomains", async () => {
+      const manifest = new TeamsAppManifest();
+      manifest.validDomains = ["https://contoso.com/", "*.fabrikam.com"];
+      manifest.staticTabs = [
+        {
+          entityId: "index",
+          scopes: ["personal"],
+          contentUrl: "https://contoso.com/index.html#/tab",
+          websiteUrl: "https://app.fabrikam.com/tab",
+        },
+        {
+          entityId: "about",
+          scopes: ["personal"],
+          contentUrl: "https://${{TAB_DOMAIN}}/about",
+        },
+      ];
+      const result = ManifestUtil.lintManifest(manifest);
+      chai
+        .expect(result.problems.map((problem) => problem.path))
+        .deep.equals(["validDomains[0]", "staticTabs[0].contentUrl", "staticTabs[1].contentUrl"]);
+      chai.expect(result.problems.every((problem) => problem.fixable)).to.be.true;
+
+      const fixed = ManifestUtil.lintManifest(manifest, { fix: true });
+      chai.expect(fixed.problems).to.be.empty;
+      // contoso.com is in validDomains once the format is fixed
+      chai.expect(fixed.fixed.length).equals(2);
+      chai
+        .expect(fixed.manifest.validDomains)
+        .deep.equals(["contoso.com", "*.fabrikam.com", "${{TAB_DOMAIN}}"]);
+      // the original manifest is not modified
+      chai.expect(manifest.validDomains[0]).equals("https://contoso.com/");
+    });
+
+    it("should report the short description equal to name", async () => {
+      const manifest = new TeamsAppManifest();
+      manifest.name.short = "Contoso";
+      manifest.description.short = "contoso ";
+      const result = ManifestUtil.lintManifest(manifest);
+      chai.expect(result.problems.length).equals(1);
+      chai.expect(result.problems[0].ruleId).equals("short-description-differs-from-name");
+      chai.expect(result.problems[0].severity).equals("warning");
+      chai.expect(result.problems[0].fixable).to.be.false;
+    });
+
+    it("should report bot SSO with a mismatched webApplicationInfo", async () => {
+      const manifest = new TeamsAppManifest();
+      manifest.bots = [{ botId: "bot-id", scopes: ["personal"] }];
+      manifest.webApplicationInfo = { id: "other-id", resource: "api://botid-bot-id" };
+      let result = ManifestUtil.lintManifest(manifest);
+      chai
+        .expect(result.problems.map((problem) => problem.path))
+        .deep.equals(["webApplicationInfo.id"]);
+
+      manifest.webApplicationInfo = { id: "bot-id", resource: "api://botid-unknown" };
+      result = ManifestUtil.lintManifest(manifest);
+      chai
+        .expect(result.problems.map((problem) => problem.path))
+        .deep.equals(["webApplicationInfo.resource"]);
+    });
+
+    it("should apply the rule config and custom rules", async () => {
+      const manifest = new TeamsAppManifest();
+      manifest.description.short = manifest.name.short;
+      delete manifest.packageName;
+      const options: LintOptions = {
+        config: { rules: { "short-description-differs-from-name": "off" } },
+        rules: [
+          {
+            id: "require-package-name",
+            description: "packageName is set",
+            defaultSeverity: "error",
+            check: (manifest) =>
+              manifest.packageName ? [] : [{ message: "packageName is empty" }],
+          },
+        ],
+      };
+      const result = ManifestUtil.lintManifest(manifest, options);
+      chai.expect(result.problems.length).equals(1);
+      chai.expect(result.problems[0].ruleId).equals("require-package-name");
+      chai.expect(result.problems[0].severity).equals("error");
+
+      options.config!.rules!["require-package-name"] = "warning";
+      chai
+        .expect(ManifestUtil.lintManifest(manifest, options).problems[0].severity)
+        .equals("warning");
+    });
+
+    it("should throw on unknown rules in the config", async () => {
+      chai
+        .expect(() =>
+          ManifestUtil.lintManifest(new TeamsAppManifest(), { config: { rules: { foo: "off" } } })
+        )
+        .to.throw("Unknown lint rule foo");
+    });
+  });
 });
 
 async function loadSchema(): Promise<TeamsAppManifestJSONSchema> {
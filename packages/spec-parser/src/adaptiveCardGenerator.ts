@@ -6,10 +6,10 @@ import { OpenAPIV3 } from "openapi-types";
 import { Utils } from "./utils";
 import {
   AdaptiveCard,
-  ArrayElement,
+  CardElement,
+  ContainerElement,
   ErrorType,
-  ImageElement,
-  TextBlockElement,
+  FactSetElement,
 } from "./interfaces";
 import { ConstantString } from "./constants";
 import { SpecParserError } from "./specParserError";
@@ -19,7 +19,7 @@ export class AdaptiveCardGenerator {
     try {
       const json = Utils.getResponseJson(operationItem);
 
-      let cardBody: Array<TextBlockElement | ImageElement | ArrayElement> = [];
+      let cardBody: CardElement[] = [];
 
       let schema = json.schema as OpenAPIV3.SchemaObject;
       let jsonPath = "$";
@@ -71,7 +71,8 @@ export class AdaptiveCardGenerator {
     schema: OpenAPIV3.SchemaObject,
     name: string,
     parentArrayName = ""
-  ): Array<TextBlockElement | ImageElement | ArrayElement> {
+  ): CardElement[] {
+    schema = Utils.resolveComposedSchema(schema);
     if (schema.type === "array") {
       // schema.items can be arbitrary object: schema { type: array, items: {} }
       if (Object.keys(schema.items).length === 0) {
@@ -92,23 +93,38 @@ export class AdaptiveCardGenerator {
       const template = {
         type: ConstantString.ContainerType,
         $data: name ? `\${${name}}` : "${$root}",
-        items: Array<TextBlockElement | ImageElement | ArrayElement>(),
+        items: Array<CardElement>(),
       };
 
       template.items.push(...obj);
       return [template];
     }
     // some schema may not contain type but contain properties
-    if (schema.type === "object" || (!schema.type && schema.properties)) {
+    if (Utils.isObjectSchema(schema)) {
       const { properties } = schema;
-      const result: Array<TextBlockElement | ImageElement | ArrayElement> = [];
+      const result: CardElement[] = [];
       for (const property in properties) {
-        const obj = AdaptiveCardGenerator.generateCardFromResponse(
-          properties[property] as OpenAPIV3.SchemaObject,
-          name ? `${name}.${property}` : property,
-          parentArrayName
+        const propertySchema = Utils.resolveComposedSchema(
+          properties[property] as OpenAPIV3.SchemaObject
         );
-        result.push(...obj);
+        const propertyName = name ? `${name}.${property}` : property;
+        if (Utils.isObjectSchema(propertySchema)) {
+          result.push(
+            AdaptiveCardGenerator.generateSectionFromObject(
+              propertySchema,
+              propertyName,
+              parentArrayName
+            )
+          );
+        } else {
+          result.push(
+            ...AdaptiveCardGenerator.generateCardFromResponse(
+              propertySchema,
+              propertyName,
+              parentArrayName
+            )
+          );
+        }
       }
 
       if (schema.additionalProperties) {
@@ -118,18 +134,13 @@ export class AdaptiveCardGenerator {
 
       return result;
     }
-    if (
-      schema.type === "string" ||
-      schema.type === "integer" ||
-      schema.type === "boolean" ||
-      schema.type === "number"
-    ) {
+    if (Utils.isPrimitiveSchema(schema)) {
       if (!AdaptiveCardGenerator.isImageUrlProperty(schema, name, parentArrayName)) {
         // string in root: "ddd"
         let text = "result: ${$root}";
         if (name) {
           // object { id: "1" }
-          text = `${name}: \${if(${name}, ${name}, 'N/A')}`;
+          text = `${name}: ${AdaptiveCardGenerator.getValueExpression(schema, name)}`;
           if (parentArrayName) {
             // object types inside array: { tags: ["id": 1, "name": "name"] }
             text = `${parentArrayName}.${text}`;
@@ -167,13 +178,138 @@ export class AdaptiveCardGenerator {
       }
     }
 
-    if (schema.oneOf || schema.anyOf || schema.not || schema.allOf) {
+    if (schema.not) {
       throw new Error(Utils.format(ConstantString.SchemaNotSupported, JSON.stringify(schema)));
     }
 
+    // 'oneOf' or 'anyOf' with variants of different kinds, e.g. an object or an array
+    if (schema.oneOf || schema.anyOf) {
+      const label = parentArrayName ? `${parentArrayName}.${name}` : name;
+      return [
+        {
+          type: ConstantString.TextBlockType,
+          text: name
+            ? `${label}: \${jsonStringify(${name})}`
+            : `${parentArrayName || "result"}: \${jsonStringify(${
+                parentArrayName ? "$data" : "$root"
+              })}`,
+          wrap: true,
+        },
+      ];
+    }
+
     throw new Error(Utils.format(ConstantString.UnknownSchema, JSON.stringify(schema)));
   }
 
+  /**
+   * Generates a section for a nested object: a Container with the name of the object as the header,
+   * a FactSet of its primitive properties, and the sections of its nested objects and arrays.
+   */
+  static generateSectionFromObject(
+    schema: OpenAPIV3.SchemaObject,
+    name: string,
+    parentArrayName = ""
+  ): CardElement {
+    const label = parentArrayName ? `${parentArrayName}.${name}` : name;
+    // free-form object
+    if (!schema.properties || Object.keys(schema.properties).length === 0) {
+      return {
+        type: ConstantString.TextBlockType,
+        text: `${label}: \${jsonStringify(${name})}`,
+        wrap: true,
+      };
+    }
+
+    const facts: FactSetElement["facts"] = [];
+    const items: CardElement[] = [];
+    for (const property in schema.properties) {
+      const propertySchema = Utils.resolveComposedSchema(
+        schema.properties[property] as OpenAPIV3.SchemaObject
+      );
+      const propertyName = `${name}.${property}`;
+      if (
+        Utils.isPrimitiveSchema(propertySchema) &&
+        !AdaptiveCardGenerator.isImageUrlProperty(propertySchema, propertyName, parentArrayName)
+      ) {
+        facts.push({
+          title: property,
+          value: AdaptiveCardGenerator.getValueExpression(propertySchema, propertyName),
+        });
+      } else if (Utils.isObjectSchema(propertySchema)) {
+        items.push(
+          AdaptiveCardGenerator.generateSectionFromObject(
+            propertySchema,
+            propertyName,
+            parentArrayName
+          )
+        );
+      } else {
+        items.push(
+          ...AdaptiveCardGenerator.generateCardFromResponse(
+            propertySchema,
+            propertyName,
+            parentArrayName
+          )
+        );
+      }
+    }
+
+    const section: ContainerElement = {
+      type: ConstantString.ContainerType,
+      items: [
+        {
+          type: ConstantString.TextBlockType,
+          text: label,
+          weight: "Bolder",
+          wrap: true,
+        },
+      ],
+    };
+    if (facts.length > 0) {
+      section.items.push({ type: ConstantString.FactSetType, facts });
+    }
+    section.items.push(...items);
+    return section;
+  }
+
+  /**
+   * Gets the template expression of a primitive property, dates are formatted
+   * and enum values are displayed in a readable form, e.g. "in_progress" as "In progress".
+   */
+  static getValueExpression(schema: OpenAPIV3.SchemaObject, name: string): string {
+    let value = name;
+    if (schema.type === "string" && schema.format === "date-time") {
+      value = `formatDateTime(${name}, '${ConstantString.DateTimeFormat}')`;
+    } else if (schema.type === "string" && schema.format === "date") {
+      value = `formatDateTime(${name}, '${ConstantString.DateFormat}')`;
+    } else if (
+      schema.type === "string" &&
+      schema.enum &&
+      schema.enum.length <= ConstantString.EnumDisplayMaxNum &&
+      schema.enum.every((item) => typeof item === "string" && !/['\\]/.test(item))
+    ) {
+      value = (schema.enum as string[]).reduceRight(
+        (expression, item) =>
+          `if(${name} == '${item}', '${AdaptiveCardGenerator.getEnumDisplayName(
+            item
+          )}', ${expression})`,
+        name
+      );
+    }
+    return `\${if(${name}, ${value}, 'N/A')}`;
+  }
+
+  // e.g. "in_progress", "inProgress" and "IN_PROGRESS" are all displayed as "In progress"
+  static getEnumDisplayName(value: string): string {
+    const words = value
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .split(/[\s_-]+/)
+      .filter((word) => word.length > 0)
+      .map((word) => word.toLowerCase());
+    const displayName = words.join(" ");
+    return displayName.charAt(0).toUpperCase() + displayName.slice(1);
+  }
+
   // Find the first array property in the response schema object with the well-known name
   static getResponseJsonPathFromSchema(schema: OpenAPIV3.SchemaObject): string {
     if (schema.type === "object" || (!schema.type && schema.properties)) {
@@ -193,7 +329,7 @@ export class AdaptiveCardGenerator {
   }
 
   static isImageUrlProperty(
-    schema: OpenAPIV3.NonArraySchemaObject,
+    schema: OpenAPIV3.SchemaObject,
     name: string,
     parentArrayName: string
   ): boolean {
@@ -5,8 +5,7 @@
 import { ConstantString } from "./constants";
 import {
   AdaptiveCard,
-  ArrayElement,
-  ImageElement,
+  CardElement,
   PreviewCardTemplate,
   TextBlockElement,
   WrappedAdaptiveCard,
@@ -43,9 +42,10 @@ export function inferPreviewCardTemplate(card: AdaptiveCard): PreviewCardTemplat
   };
   const textBlockElements = new Set<TextBlockElement>();
 
-  let rootObject: (TextBlockElement | ArrayElement | ImageElement)[];
-  if (card.body[0]?.type === ConstantString.ContainerType) {
-    rootObject = (card.body[0] as ArrayElement).items;
+  let rootObject: CardElement[];
+  // an array in the root, other containers are sections of nested objects
+  if (card.body[0]?.type === ConstantString.ContainerType && "$data" in card.body[0]) {
+    rootObject = card.body[0].items;
   } else {
     rootObject = card.body;
   }
@@ -13,7 +13,7 @@ export class ConstantString {
 
   static readonly AdditionalPropertiesNotSupported =
     "'additionalProperties' is not supported, and will be ignored.";
-  static readonly SchemaNotSupported = "'oneOf', 'anyOf', and 'not' schema are not supported: %s.";
+  static readonly SchemaNotSupported = "'not' schema is not supported: %s.";
   static readonly UnknownSchema = "Unknown schema: %s.";
 
   static readonly UrlProtocolNotSupported =
@@ -27,11 +27,17 @@ export class ConstantString {
   static readonly ConvertSwaggerToOpenAPI =
     "The Swagger 2.0 file has been converted to OpenAPI 3.0.";
 
-  static readonly SwaggerNotSupported =
-    "Swagger 2.0 is not supported. Please convert to OpenAPI 3.0 manually before proceeding.";
+  static readonly WebhooksNotSupported = "Webhooks are not supported and have been ignored: %s.";
+  static readonly NormalizedOpenAPIVersion = "3.0.3";
 
   static readonly MultipleAuthNotSupported =
-    "Multiple authentication methods are unsupported. Ensure all selected APIs use identical authentication.";
+    "Multiple authentication methods are unsupported. Ensure all selected APIs share at least one supported authentication.";
+  static readonly AuthAlternativesIgnored =
+    "Operation %s supports multiple authentication methods: %s. Only '%s' is used.";
+  static readonly BasicAuthNotSupported =
+    "HTTP basic authentication '%s' used by operation %s is not supported: Teams can only send a registered API secret as an API key or a bearer token. Use API key or bearer token authentication instead.";
+  static readonly ClientCredentialsAuthDowngraded =
+    "OAuth client credentials flow '%s' is registered as an OAuth client registration, which signs in users with the authorization code flow. Ensure the OAuth server supports it.";
 
   static readonly UnsupportedSchema = "Unsupported schema in %s %s: %s";
 
@@ -45,8 +51,13 @@ export class ConstantString {
   static readonly AdaptiveCardVersion = "1.5";
   static readonly AdaptiveCardSchema = "http://adaptivecards.io/schemas/adaptive-card.json";
   static readonly AdaptiveCardType = "AdaptiveCard";
+  static readonly AdaptiveCardHashFile = ".cardHashes.json";
   static readonly TextBlockType = "TextBlock";
   static readonly ContainerType = "Container";
+  static readonly FactSetType = "FactSet";
+  static readonly DateTimeFormat = "yyyy-MM-dd HH:mm";
+  static readonly DateFormat = "yyyy-MM-dd";
+  static readonly EnumDisplayMaxNum = 10;
   static readonly RegistrationIdPostfix = "REGISTRATION_ID";
   static readonly OAuthRegistrationIdPostFix = "OAUTH_REGISTRATION_ID";
   static readonly ResponseCodeFor20X = [
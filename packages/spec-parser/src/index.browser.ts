@@ -13,7 +13,12 @@ export type {
   ParseOptions,
   AdaptiveCard,
   ProjectType,
+  NormalizeResult,
+  SpecDiffResult,
+  SyncResult,
 } from "./interfaces";
 export { ConstantString } from "./constants";
 export { Utils } from "./utils";
+export { SpecNormalizer } from "./specNormalizer";
+export { SpecDiff } from "./specDiff";
 export { AdaptiveCardGenerator } from "./adaptiveCardGenerator";
@@ -65,11 +65,67 @@ export interface ErrorResult {
   data?: any;
 }
 
+/**
+ * An interface that represents the result of normalizing an OpenAPI description document into OpenAPI 3.0.
+ */
+export interface NormalizeResult {
+  spec: OpenAPIV3.Document;
+
+  /**
+   * Warnings of the features which are not supported and have been removed.
+   */
+  warnings: WarningResult[];
+}
+
 export interface GenerateResult {
   allSuccess: boolean;
   warnings: WarningResult[];
 }
 
+/**
+ * An interface that represents the differences between the operations of two OpenAPI specification files.
+ * Operations are represented by the HTTP method and path, such as 'GET /pets/{petId}'.
+ */
+export interface SpecDiffResult {
+  /**
+   * Operations only in the new specification file.
+   */
+  added: string[];
+
+  /**
+   * Operations only in the old specification file.
+   */
+  removed: string[];
+
+  /**
+   * Operations in both specification files, but with different definitions.
+   */
+  changed: string[];
+
+  /**
+   * Operations in both specification files with the same definitions.
+   */
+  unchanged: string[];
+}
+
+export interface SyncResult extends GenerateResult {
+  /**
+   * Differences between the operations selected in the project and the latest specification file.
+   */
+  diff: Omit<SpecDiffResult, "added">;
+
+  /**
+   * Operations in the latest specification file which are not selected in the project, including the newly added ones.
+   * They are not synced.
+   */
+  notSelected: string[];
+
+  /**
+   * Operation ids of the operations whose Adaptive Cards have been customized and are not regenerated.
+   */
+  preservedCards: string[];
+}
+
 /**
  * An enum that represents the types of errors that can occur during validation.
  */
@@ -82,8 +138,8 @@ export enum ErrorType {
   NoSupportedApi = "no-supported-api",
   NoExtraAPICanBeAdded = "no-extra-api-can-be-added",
   ResolveServerUrlFailed = "resolve-server-url-failed",
-  SwaggerNotSupported = "swagger-not-supported",
   MultipleAuthNotSupported = "multiple-auth-not-supported",
+  BasicAuthNotSupported = "basic-auth-not-supported",
 
   ListFailed = "list-failed",
   listSupportedAPIInfoFailed = "list-supported-api-info-failed",
@@ -93,6 +149,7 @@ export enum ErrorType {
   GenerateFailed = "generate-failed",
   ValidateFailed = "validate-failed",
   GetSpecFailed = "get-spec-failed",
+  SyncFailed = "sync-failed",
 
   Cancelled = "cancelled",
   Unknown = "unknown",
@@ -106,6 +163,8 @@ export enum WarningType {
   GenerateCardFailed = "generate-card-failed",
   OperationOnlyContainsOptionalParam = "operation-only-contains-optional-param",
   ConvertSwaggerToOpenAPI = "convert-swagger-to-openapi",
+  WebhooksNotSupported = "webhooks-not-supported",
+  AuthDowngraded = "auth-downgraded",
   Unknown = "unknown",
 }
 
@@ -122,6 +181,7 @@ export interface TextBlockElement {
   type: string;
   text: string;
   wrap: boolean;
+  weight?: string;
 }
 
 export interface ImageElement {
@@ -133,14 +193,37 @@ export interface ImageElement {
 export interface ArrayElement {
   type: string;
   $data: string;
-  items: Array<TextBlockElement | ImageElement | ArrayElement>;
+  items: CardElement[];
 }
 
+export interface FactSetElement {
+  type: string;
+  facts: {
+    title: string;
+    value: string;
+  }[];
+}
+
+/**
+ * A section of a nested object, with a header and the facts of its properties
+ */
+export interface ContainerElement {
+  type: string;
+  items: CardElement[];
+}
+
+export type CardElement =
+  | TextBlockElement
+  | ImageElement
+  | ArrayElement
+  | FactSetElement
+  | ContainerElement;
+
 export interface AdaptiveCard {
   type: string;
   $schema: string;
   version: string;
-  body: Array<TextBlockElement | ImageElement | ArrayElement>;
+  body: CardElement[];
 }
 
 export interface PreviewCardTemplate {
@@ -174,11 +257,6 @@ export interface ParseOptions {
    */
   allowMissingId?: boolean;
 
-  /**
-   * If true, the parser will allow parsing of Swagger specifications.
-   */
-  allowSwagger?: boolean;
-
   /**
    * If true, the parser will allow API Key authentication in the spec file.
    */
@@ -199,6 +277,12 @@ export interface ParseOptions {
    */
   allowOauth2?: boolean;
 
+  /**
+   * If true, the parser will allow OAuth2 authentication with client credentials flow in the spec file.
+   * It is registered in the same way as the auth code flow, and a warning is reported.
+   */
+  allowOauth2ClientCredentials?: boolean;
+
   /**
    * An array of HTTP methods that the parser will allow in the spec file.
    */
@@ -209,6 +293,12 @@ export interface ParseOptions {
    * Project can be SME/Copilot/TeamsAi
    */
   projectType?: ProjectType;
+
+  /**
+   * Fetches the content of remote references by url, e.g. to read them from a local directory mirror when offline.
+   * If not set, remote references are downloaded.
+   */
+  remoteRefFetcher?: (url: string) => Promise<string>;
 }
 
 export enum ProjectType {
@@ -5,7 +5,14 @@
 import { OpenAPIV3 } from "openapi-types";
 import fs from "fs-extra";
 import path from "path";
-import { AuthInfo, ErrorType, ParseOptions, ProjectType, WarningResult } from "./interfaces";
+import {
+  AuthInfo,
+  ErrorType,
+  ParseOptions,
+  ProjectType,
+  SpecDiffResult,
+  WarningResult,
+} from "./interfaces";
 import { Utils } from "./utils";
 import { SpecParserError } from "./specParserError";
 import { ConstantString } from "./constants";
@@ -236,7 +243,10 @@ export class ManifestUpdater {
                 apiSecretRegistrationId: `\${{${safeApiSecretRegistrationId}}}`,
               },
             };
-          } else if (Utils.isOAuthWithAuthCodeFlow(auth)) {
+          } else if (
+            Utils.isOAuthWithAuthCodeFlow(auth) ||
+            Utils.isOAuthWithClientCredentialsFlow(auth)
+          ) {
             const safeOAuth2RegistrationId = Utils.getSafeRegistrationIdEnvName(
               `${authInfo.name}_${ConstantString.OAuthRegistrationIdPostFix}`
             );
@@ -248,10 +258,13 @@ export class ManifestUpdater {
               },
             };
 
-            updatedPart.webApplicationInfo = {
-              id: "${{AAD_APP_CLIENT_ID}}",
-              resource: "api://${{DOMAIN}}/${{AAD_APP_CLIENT_ID}}",
-            };
+            // client credentials flow doesn't sign in users
+            if (Utils.isOAuthWithAuthCodeFlow(auth)) {
+              updatedPart.webApplicationInfo = {
+                id: "${{AAD_APP_CLIENT_ID}}",
+                resource: "api://${{DOMAIN}}/${{AAD_APP_CLIENT_ID}}",
+              };
+            }
           }
         }
 
@@ -313,6 +326,71 @@ export class ManifestUpdater {
     return [commands, warnings];
   }
 
+  /**
+   * Updates the commands of the API based message extension for the changed and removed operations.
+   * Commands of the unchanged operations are kept as they are, including the edits made by users.
+   * @param manifestPath A file path of the Teams app manifest file to update.
+   * @param spec The resolved new spec which contains the changed operations.
+   * @param diff The differences between the old and new spec.
+   * @param operationIds Operation ids in the old spec by operations such as 'GET /pets/{petId}', which are the ids of the commands.
+   * @param adaptiveCardFolder Folder path of the Adaptive Card files.
+   */
+  static async syncCommands(
+    manifestPath: string,
+    spec: OpenAPIV3.Document,
+    options: ParseOptions,
+    diff: SpecDiffResult,
+    operationIds: { [api: string]: string },
+    adaptiveCardFolder?: string
+  ): Promise<[TeamsAppManifest, WarningResult[]]> {
+    try {
+      const manifest: TeamsAppManifest = await fs.readJSON(manifestPath);
+      const warnings: WarningResult[] = [];
+      const composeExtension = manifest.composeExtensions?.find(
+        (extension) => extension.composeExtensionType === "apiBased"
+      );
+      if (!composeExtension?.commands) {
+        return [manifest, warnings];
+      }
+
+      const commands: IMessagingExtensionCommand[] = [];
+      for (const command of composeExtension.commands) {
+        const api = Object.keys(operationIds).find((key) => operationIds[key] === command.id);
+        if (!api || diff.unchanged.includes(api)) {
+          commands.push(command);
+          continue;
+        }
+        if (diff.removed.includes(api)) {
+          continue;
+        }
+
+        const [method, pathUrl] = api.split(" ");
+        const operation = (spec.paths[pathUrl] as any)[method.toLowerCase()];
+        const [newCommand, warning] = Utils.parseApiInfo(operation, options);
+        // keep the Adaptive Card of the command if no card is generated for the new operation id
+        newCommand.apiResponseRenderingTemplateFile = command.apiResponseRenderingTemplateFile;
+        if (adaptiveCardFolder) {
+          const adaptiveCardPath = path.join(adaptiveCardFolder, newCommand.id + ".json");
+          if (await fs.pathExists(adaptiveCardPath)) {
+            newCommand.apiResponseRenderingTemplateFile = ManifestUpdater.getRelativePath(
+              manifestPath,
+              adaptiveCardPath
+            );
+          }
+        }
+        if (warning) {
+          warnings.push(warning);
+        }
+        commands.push(newCommand);
+      }
+      composeExtension.commands = commands;
+
+      return [manifest, warnings];
+    } catch (err) {
+      throw new SpecParserError((err as Error).toString(), ErrorType.UpdateManifestFailed);
+    }
+  }
+
   static getRelativePath(from: string, to: string): string {
     const relativePath = path.relative(path.dirname(from), to);
     return path.normalize(relativePath).replace(/\\/g, "/");
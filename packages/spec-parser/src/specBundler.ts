@@ -0,0 +1,257 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+"use strict";
+
+import SwaggerParser from "@apidevtools/swagger-parser";
+import path from "path";
+
+type ComponentSection =
+  | "schemas"
+  | "parameters"
+  | "responses"
+  | "requestBodies"
+  | "headers"
+  | "examples"
+  | "links"
+  | "callbacks"
+  | "securitySchemes";
+
+/**
+ * Bundles the external references of a spec, e.g. `./schemas/pet.yaml` or `https://contoso.com/openapi.json#/components/schemas/Pet`,
+ * into the components of the spec, so that the bundled spec is a single document with local references only.
+ */
+export class SpecBundler {
+  // keys of containers whose items are components of the section
+  private static readonly ContainerSections: { [key: string]: ComponentSection | undefined } = {
+    schemas: "schemas",
+    definitions: "schemas",
+    parameters: "parameters",
+    responses: "responses",
+    requestBodies: "requestBodies",
+    headers: "headers",
+    examples: "examples",
+    links: "links",
+    callbacks: "callbacks",
+    securitySchemes: "securitySchemes",
+    // path items are inlined, OpenAPI 3.0 doesn't support path items in components
+    paths: undefined,
+  };
+  // keys whose values are data and should be kept as they are
+  private static readonly ValueKeys = ["example", "default", "enum", "const"];
+  // definitions embedded in schema files, e.g. a JSON schema file with "definitions"
+  private static readonly SchemaDefinitionKeys = ["definitions", "$defs"];
+
+  private readonly files: { [url: string]: any };
+  private readonly rootFile: string;
+  private readonly isSwagger: boolean;
+  private readonly names = new Map<string, string>();
+  private readonly components: { [section: string]: { [name: string]: any } } = {};
+
+  private constructor($refs: SwaggerParser.$Refs) {
+    this.files = $refs.values();
+    // paths [0] is the current spec file path
+    this.rootFile = $refs.paths()[0];
+    this.isSwagger = this.files[this.rootFile]?.swagger === "2.0";
+  }
+
+  /**
+   * Checks if the spec contains references to other files or urls.
+   */
+  static hasExternalRef(node: any): boolean {
+    if (Array.isArray(node)) {
+      return node.some((item) => SpecBundler.hasExternalRef(item));
+    }
+    if (node === null || typeof node !== "object") {
+      return false;
+    }
+    if (typeof node.$ref === "string" && !node.$ref.startsWith("#")) {
+      return true;
+    }
+    return Object.keys(node).some((key) => SpecBundler.hasExternalRef(node[key]));
+  }
+
+  /**
+   * Bundles the resolved files into a single document.
+   * @param $refs The files of the spec resolved by {@link SwaggerParser.resolve}.
+   * @returns The bundled spec, external references to components are added to the components of the spec and
+   * referenced by local references, external references to path items are inlined.
+   */
+  static bundle($refs: SwaggerParser.$Refs): any {
+    const bundler = new SpecBundler($refs);
+    return bundler.bundleSpec();
+  }
+
+  private bundleSpec(): any {
+    const spec = this.bundleValue(this.files[this.rootFile], this.rootFile, undefined);
+    for (const section in this.components) {
+      const container = this.getContainer(spec, section as ComponentSection, true)!;
+      Object.assign(container, this.components[section]);
+    }
+    return spec;
+  }
+
+  private bundleValue(value: any, file: string, section: ComponentSection | undefined): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.bundleValue(item, file, section));
+    }
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+    if (typeof value.$ref === "string") {
+      return this.bundleRef(value, file, section);
+    }
+
+    const result: any = {};
+    for (const key in value) {
+      if (SpecBundler.ValueKeys.includes(key) || key.startsWith("x-")) {
+        result[key] = value[key];
+      } else if (
+        section === "schemas" &&
+        !this.isSwagger &&
+        SpecBundler.SchemaDefinitionKeys.includes(key)
+      ) {
+        // not allowed in OpenAPI 3.0 schemas, the referenced definitions are added to the components
+        continue;
+      } else if (section === "schemas") {
+        // everything inside a schema is a schema
+        result[key] = this.bundleValue(value[key], file, section);
+      } else if (key === "schema") {
+        result[key] = this.bundleValue(value[key], file, "schemas");
+      } else if (key === "requestBody") {
+        result[key] = this.bundleValue(value[key], file, "requestBodies");
+      } else if (key in SpecBundler.ContainerSections && typeof value[key] === "object") {
+        const itemSection = SpecBundler.ContainerSections[key];
+        const container: any = Array.isArray(value[key]) ? [] : {};
+        for (const name in value[key]) {
+          container[name] = this.bundleValue(value[key][name], file, itemSection);
+        }
+        result[key] = container;
+      } else {
+        result[key] = this.bundleValue(value[key], file, undefined);
+      }
+    }
+    return result;
+  }
+
+  private bundleRef(value: any, file: string, section: ComponentSection | undefined): any {
+    const { $ref, ...siblings } = value;
+    const resolvedRef = SpecBundler.resolveUrl(file, $ref as string);
+    const hashIndex = resolvedRef.indexOf("#");
+    const refFile = hashIndex >= 0 ? resolvedRef.substring(0, hashIndex) : resolvedRef;
+    const hash = hashIndex >= 0 ? resolvedRef.substring(hashIndex) : "#";
+    // "pet.yaml" and "pet.yaml#" both reference the whole file
+    const absoluteRef = hash === "#" ? refFile : refFile + hash;
+
+    if (refFile === this.rootFile) {
+      return { ...this.bundleValue(siblings, file, section), $ref: hash };
+    }
+
+    if (!(refFile in this.files)) {
+      throw new Error(`Error resolving $ref pointer "${absoluteRef}". "${refFile}" not found.`);
+    }
+    const target = SpecBundler.resolvePointer(this.files[refFile], hash, absoluteRef);
+    const location = section ? this.getComponentLocation(section) : undefined;
+    if (!section || !location) {
+      return this.bundleValue(target, refFile, section);
+    }
+
+    const key = `${section} ${absoluteRef}`;
+    let name = this.names.get(key);
+    if (!name) {
+      name = this.getComponentName(section, absoluteRef);
+      this.names.set(key, name);
+      this.components[section] = this.components[section] ?? {};
+      // reserve the name before bundling the target, the target may reference itself
+      this.components[section][name] = {};
+      this.components[section][name] = this.bundleValue(target, refFile, section);
+    }
+    return { ...this.bundleValue(siblings, file, section), $ref: `${location}/${name}` };
+  }
+
+  private getComponentLocation(section: ComponentSection): string | undefined {
+    if (!this.isSwagger) {
+      return `#/components/${section}`;
+    }
+    if (section === "schemas") {
+      return "#/definitions";
+    }
+    return section === "parameters" || section === "responses" ? `#/${section}` : undefined;
+  }
+
+  private getContainer(spec: any, section: ComponentSection, create = false): any {
+    let parent = spec;
+    let key: string = section;
+    if (!this.isSwagger) {
+      if (!spec.components && create) {
+        spec.components = {};
+      }
+      parent = spec.components;
+    } else if (section === "schemas") {
+      key = "definitions";
+    }
+    if (parent && !parent[key] && create) {
+      parent[key] = {};
+    }
+    return parent?.[key];
+  }
+
+  // e.g. "./schemas/pet.yaml" -> "pet", "https://contoso.com/openapi.json#/components/schemas/Pet" -> "Pet"
+  private getComponentName(section: ComponentSection, absoluteRef: string): string {
+    const [file, hash] = absoluteRef.split("#");
+    const tokens = (hash ?? "").split("/").filter((token) => token.length > 0);
+    const baseName =
+      tokens.length > 0
+        ? SpecBundler.decodeToken(tokens[tokens.length - 1])
+        : path.basename(file.split(/[?#]/)[0]).replace(/\.[^.]*$/, "");
+    const name = baseName.replace(/[^A-Za-z0-9._-]/g, "_") || section;
+
+    const existing = {
+      ...this.getContainer(this.files[this.rootFile], section),
+      ...this.components[section],
+    };
+    let uniqueName = name;
+    for (let i = 1; uniqueName in existing; i++) {
+      uniqueName = `${name}${i}`;
+    }
+    return uniqueName;
+  }
+
+  private static resolveUrl(base: string, ref: string): string {
+    if (/^https?:\/\//i.test(ref)) {
+      return ref;
+    }
+    if (/^https?:\/\//i.test(base)) {
+      return new URL(ref, base).href;
+    }
+    const hashIndex = ref.indexOf("#");
+    const refPath = hashIndex >= 0 ? ref.substring(0, hashIndex) : ref;
+    const hash = hashIndex >= 0 ? ref.substring(hashIndex) : "";
+    const baseFile = base.split("#")[0];
+    if (!refPath) {
+      return baseFile + hash;
+    }
+    // the base of an in-memory spec is the current directory, which ends with a slash
+    const baseDir = baseFile.endsWith("/") ? baseFile : path.dirname(baseFile);
+    return path.resolve(baseDir, refPath) + hash;
+  }
+
+  private static resolvePointer(document: any, hash: string, ref: string): any {
+    const tokens = hash
+      .substring(1)
+      .split("/")
+      .filter((token) => token.length > 0)
+      .map((token) => SpecBundler.decodeToken(token));
+    let value = document;
+    for (const token of tokens) {
+      if (value === null || typeof value !== "object" || !(token in value)) {
+        throw new Error(`Error resolving $ref pointer "${ref}". Token "${token}" does not exist.`);
+      }
+      value = value[token];
+    }
+    return value;
+  }
+
+  private static decodeToken(token: string): string {
+    return decodeURIComponent(token).replace(/~1/g, "/").replace(/~0/g, "~");
+  }
+}
@@ -0,0 +1,80 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+"use strict";
+
+import { OpenAPIV3 } from "openapi-types";
+import { ParseOptions, SpecDiffResult } from "./interfaces";
+import { Utils } from "./utils";
+
+/**
+ * Compares the supported operations of two OpenAPI specification files.
+ */
+export class SpecDiff {
+  /**
+   * Diffs the supported operations of the old and new spec.
+   * @param oldSpec The resolved old spec, e.g. the spec generated into the project.
+   * @param newSpec The resolved new spec, e.g. the latest upstream spec.
+   * @param options The options used to decide which operations are supported.
+   * @returns The added, removed, changed and unchanged operations, such as 'GET /pets/{petId}'.
+   */
+  static diff(
+    oldSpec: OpenAPIV3.Document,
+    newSpec: OpenAPIV3.Document,
+    options: ParseOptions
+  ): SpecDiffResult {
+    const oldAPIs = Utils.listSupportedAPIs(oldSpec, options);
+    const newAPIs = Utils.listSupportedAPIs(newSpec, options);
+    const result: SpecDiffResult = { added: [], removed: [], changed: [], unchanged: [] };
+
+    for (const api in newAPIs) {
+      if (!(api in oldAPIs)) {
+        result.added.push(api);
+      }
+    }
+
+    for (const api in oldAPIs) {
+      if (!(api in newAPIs)) {
+        result.removed.push(api);
+      } else if (
+        SpecDiff.stringify(SpecDiff.getDefinition(oldSpec, api)) ===
+        SpecDiff.stringify(SpecDiff.getDefinition(newSpec, api))
+      ) {
+        result.unchanged.push(api);
+      } else {
+        result.changed.push(api);
+      }
+    }
+
+    return result;
+  }
+
+  // The operation and the parameters shared by all operations of the path
+  private static getDefinition(spec: OpenAPIV3.Document, api: string): any {
+    const [method, path] = api.split(" ");
+    const methodName = method.toLowerCase();
+    const pathItem = spec.paths[path] as OpenAPIV3.PathItemObject;
+    const operation = (pathItem as any)[methodName] as OpenAPIV3.OperationObject;
+    return {
+      parameters: pathItem.parameters,
+      operation: {
+        ...operation,
+        // the same default operationId as the filtered spec, see SpecFilter
+        operationId: operation.operationId ?? `${methodName}${Utils.convertPathToCamelCase(path)}`,
+      },
+    };
+  }
+
+  // JSON string with sorted keys, so that the order of keys is not a difference
+  private static stringify(value: any): string {
+    return JSON.stringify(value, (key, val) => {
+      if (val === null || typeof val !== "object" || Array.isArray(val)) {
+        return val;
+      }
+      const sorted: any = {};
+      for (const name of Object.keys(val).sort()) {
+        sorted[name] = val[name];
+      }
+      return sorted;
+    });
+  }
+}
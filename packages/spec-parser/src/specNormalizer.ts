@@ -0,0 +1,580 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+"use strict";
+
+import { OpenAPIV3 } from "openapi-types";
+import { NormalizeResult, WarningResult, WarningType } from "./interfaces";
+import { ConstantString } from "./constants";
+import { Utils } from "./utils";
+
+/**
+ * Normalizes OpenAPI description documents into OpenAPI 3.0, so that the rest of the parser
+ * only needs to understand OpenAPI 3.0. Swagger 2.0 is converted before normalization, see {@link SpecParser}.
+ */
+export class SpecNormalizer {
+  // keys whose values are maps by user defined names, the map itself is not a schema
+  private static readonly MapKeys = [
+    "paths",
+    "properties",
+    "patternProperties",
+    "$defs",
+    "schemas",
+    "responses",
+    "parameters",
+    "requestBodies",
+    "headers",
+    "securitySchemes",
+    "links",
+    "callbacks",
+    "content",
+    "encoding",
+  ];
+  // keys whose values are data and should be kept as they are
+  private static readonly ValueKeys = [
+    "example",
+    "examples",
+    "default",
+    "enum",
+    "const",
+    "security",
+  ];
+
+  private static readonly HttpMethods = [
+    "get",
+    "put",
+    "post",
+    "delete",
+    "options",
+    "head",
+    "patch",
+  ];
+  // Swagger 2.0 OAuth2 flows and their names in OpenAPI 3.0
+  private static readonly OAuth2Flows: { [flow: string]: string } = {
+    implicit: "implicit",
+    password: "password",
+    application: "clientCredentials",
+    accessCode: "authorizationCode",
+  };
+  // properties of a non-body Swagger 2.0 parameter that belong to its schema in OpenAPI 3.0
+  private static readonly ParameterSchemaKeys = [
+    "type",
+    "format",
+    "items",
+    "default",
+    "enum",
+    "maximum",
+    "exclusiveMaximum",
+    "minimum",
+    "exclusiveMinimum",
+    "maxLength",
+    "minLength",
+    "pattern",
+    "maxItems",
+    "minItems",
+    "uniqueItems",
+    "multipleOf",
+  ];
+
+  static isSwagger(spec: any): boolean {
+    return !spec?.openapi && spec?.swagger === "2.0";
+  }
+
+  static isOpenAPI31(spec: any): boolean {
+    return typeof spec?.openapi === "string" && spec.openapi.startsWith("3.1");
+  }
+
+  /**
+   * Normalizes the spec into OpenAPI 3.0, the spec is not modified.
+   * @param spec The OpenAPI 3.0 or 3.1 document, either resolved or unresolved.
+   * @returns The OpenAPI 3.0 document and warnings of the features which are not supported and have been removed.
+   * @description The following OpenAPI 3.1 features are converted:
+   * 1. `type: [T, "null"]` and `oneOf`/`anyOf` with a `null` variant are converted to `nullable`
+   * 2. `type` with multiple types is converted to `anyOf`
+   * 3. `const` is converted to an `enum` with one value, `examples` of a schema to `example`
+   * 4. numeric `exclusiveMinimum`/`exclusiveMaximum` are converted to `minimum`/`maximum`
+   * 5. path items referenced from `components.pathItems` are inlined
+   * 6. `webhooks`, `jsonSchemaDialect`, `info.summary` and `license.identifier` are removed
+   */
+  static normalize(spec: any): NormalizeResult {
+    if (!SpecNormalizer.isOpenAPI31(spec)) {
+      return { spec: spec as OpenAPIV3.Document, warnings: [] };
+    }
+
+    const warnings: WarningResult[] = [];
+    const normalized = JSON.parse(JSON.stringify(spec));
+    normalized.openapi = ConstantString.NormalizedOpenAPIVersion;
+
+    if (normalized.webhooks) {
+      const webhooks = Object.keys(normalized.webhooks);
+      if (webhooks.length > 0) {
+        warnings.push({
+          type: WarningType.WebhooksNotSupported,
+          content: Utils.format(ConstantString.WebhooksNotSupported, webhooks.join(", ")),
+          data: webhooks,
+        });
+      }
+      delete normalized.webhooks;
+    }
+    delete normalized.jsonSchemaDialect;
+    if (normalized.info) {
+      delete normalized.info.summary;
+      if (normalized.info.license) {
+        delete normalized.info.license.identifier;
+      }
+    }
+
+    normalized.paths = normalized.paths ?? {};
+    const pathItems = normalized.components?.pathItems ?? {};
+    for (const path in normalized.paths) {
+      const ref = normalized.paths[path]?.$ref as string | undefined;
+      const name = ref?.startsWith("#/components/pathItems/")
+        ? ref.substring("#/components/pathItems/".length)
+        : undefined;
+      if (name && pathItems[name]) {
+        normalized.paths[path] = pathItems[name];
+      }
+    }
+    if (normalized.components) {
+      delete normalized.components.pathItems;
+    }
+
+    SpecNormalizer.normalizeNode(normalized);
+    return { spec: normalized as OpenAPIV3.Document, warnings };
+  }
+
+  /**
+   * Converts a Swagger 2.0 document into OpenAPI 3.0, the spec is not modified.
+   * It has no NodeJS dependency, so that the parser in browser converts Swagger 2.0 the same way as OpenAPI 3.1.
+   * The NodeJS parser converts with swagger2openapi instead, see {@link SpecParser}.
+   * @param spec The Swagger 2.0 document, references to other files should have been bundled.
+   * @returns The OpenAPI 3.0 document.
+   * @description The following Swagger 2.0 features are converted:
+   * 1. `host`, `basePath` and `schemes` are converted to `servers`
+   * 2. `body` and `formData` parameters are converted to `requestBody`, with the media types in `consumes`
+   * 3. `schema` of responses is converted to `content`, with the media types in `produces`
+   * 4. `definitions`, `parameters`, `responses` and `securityDefinitions` are moved to `components`
+   * 5. `x-nullable` is converted to `nullable`, and `type: file` to a binary string
+   */
+  static convertSwagger(spec: any): OpenAPIV3.Document {
+    const swagger = JSON.parse(JSON.stringify(spec));
+    const consumes: string[] = swagger.consumes ?? ["application/json"];
+    const produces: string[] = swagger.produces ?? ["application/json"];
+    const globalParameters = swagger.parameters ?? {};
+    const result: any = {};
+    for (const key in swagger) {
+      if (["info", "tags", "externalDocs", "security"].includes(key) || key.startsWith("x-")) {
+        result[key] = swagger[key];
+      }
+    }
+    result.openapi = ConstantString.NormalizedOpenAPIVersion;
+
+    if (swagger.host) {
+      const schemes: string[] = swagger.schemes ?? ["https"];
+      result.servers = schemes.map((scheme) => ({
+        url: `${scheme}://${swagger.host as string}${(swagger.basePath as string) ?? ""}`,
+      }));
+    } else if (swagger.basePath) {
+      result.servers = [{ url: swagger.basePath }];
+    }
+
+    result.paths = {};
+    for (const path in swagger.paths ?? {}) {
+      const pathItem = swagger.paths[path];
+      const converted: any = {};
+      const pathParameters: any[] = pathItem.parameters ?? [];
+      for (const key in pathItem) {
+        if (key === "parameters") {
+          continue;
+        }
+        const operation = pathItem[key];
+        if (!SpecNormalizer.HttpMethods.includes(key)) {
+          converted[key] = operation;
+          continue;
+        }
+        // parameters of the operation override the ones of the path with the same name and location
+        const parameters = [
+          ...pathParameters.filter(
+            (parameter) =>
+              !(operation.parameters ?? []).some((overridden: any) =>
+                SpecNormalizer.isSameParameter(overridden, parameter, globalParameters)
+              )
+          ),
+          ...(operation.parameters ?? []),
+        ];
+        converted[key] = SpecNormalizer.convertOperation(
+          operation,
+          parameters,
+          globalParameters,
+          operation.consumes ?? consumes,
+          operation.produces ?? produces
+        );
+      }
+      result.paths[path] = converted;
+    }
+
+    const components: any = {};
+    if (swagger.definitions) {
+      components.schemas = swagger.definitions;
+    }
+    for (const name in globalParameters) {
+      const parameter = globalParameters[name];
+      if (parameter.in === "body") {
+        components.requestBodies = components.requestBodies ?? {};
+        components.requestBodies[name] = SpecNormalizer.convertBodyParameter(parameter, consumes);
+      } else if (parameter.in !== "formData") {
+        // formData parameters are inlined into the request body of the operations
+        components.parameters = components.parameters ?? {};
+        components.parameters[name] = SpecNormalizer.convertParameter(parameter);
+      }
+    }
+    for (const name in swagger.responses ?? {}) {
+      components.responses = components.responses ?? {};
+      components.responses[name] = SpecNormalizer.convertResponse(
+        swagger.responses[name],
+        produces
+      );
+    }
+    for (const name in swagger.securityDefinitions ?? {}) {
+      components.securitySchemes = components.securitySchemes ?? {};
+      components.securitySchemes[name] = SpecNormalizer.convertSecurityScheme(
+        swagger.securityDefinitions[name]
+      );
+    }
+    if (Object.keys(components).length > 0) {
+      result.components = components;
+    }
+
+    SpecNormalizer.convertSwaggerNode(result);
+    return result as OpenAPIV3.Document;
+  }
+
+  private static resolveParameter(parameter: any, globalParameters: any): any {
+    const ref = parameter?.$ref as string | undefined;
+    if (ref?.startsWith("#/parameters/")) {
+      return globalParameters[ref.substring("#/parameters/".length)] ?? parameter;
+    }
+    return parameter;
+  }
+
+  private static isSameParameter(a: any, b: any, globalParameters: any): boolean {
+    const resolvedA = SpecNormalizer.resolveParameter(a, globalParameters);
+    const resolvedB = SpecNormalizer.resolveParameter(b, globalParameters);
+    return resolvedA.name === resolvedB.name && resolvedA.in === resolvedB.in;
+  }
+
+  private static convertOperation(
+    operation: any,
+    parameters: any[],
+    globalParameters: any,
+    consumes: string[],
+    produces: string[]
+  ): any {
+    const converted: any = {};
+    for (const key in operation) {
+      if (!["parameters", "responses", "consumes", "produces", "schemes"].includes(key)) {
+        converted[key] = operation[key];
+      }
+    }
+
+    const convertedParameters: any[] = [];
+    const formParameters: any[] = [];
+    for (const parameter of parameters) {
+      const resolved = SpecNormalizer.resolveParameter(parameter, globalParameters);
+      if (resolved.in === "body") {
+        converted.requestBody =
+          resolved === parameter
+            ? SpecNormalizer.convertBodyParameter(parameter, consumes)
+            : {
+                $ref: (parameter.$ref as string).replace(
+                  /^#\/parameters\//,
+                  "#/components/requestBodies/"
+                ),
+              };
+      } else if (resolved.in === "formData") {
+        formParameters.push(resolved);
+      } else {
+        convertedParameters.push(
+          resolved === parameter ? SpecNormalizer.convertParameter(parameter) : parameter
+        );
+      }
+    }
+    if (convertedParameters.length > 0) {
+      converted.parameters = convertedParameters;
+    }
+    if (formParameters.length > 0) {
+      converted.requestBody = SpecNormalizer.convertFormParameters(formParameters, consumes);
+    }
+
+    if (operation.responses) {
+      converted.responses = {};
+      for (const status in operation.responses) {
+        converted.responses[status] = SpecNormalizer.convertResponse(
+          operation.responses[status],
+          produces
+        );
+      }
+    }
+    return converted;
+  }
+
+  private static convertParameter(parameter: any): any {
+    if (parameter.$ref) {
+      return parameter;
+    }
+    const converted: any = {};
+    const schema: any = {};
+    for (const key in parameter) {
+      if (SpecNormalizer.ParameterSchemaKeys.includes(key)) {
+        schema[key] = parameter[key];
+      } else if (key !== "collectionFormat") {
+        converted[key] = parameter[key];
+      }
+    }
+    converted.schema = schema;
+    if (parameter.collectionFormat === "multi") {
+      converted.style = "form";
+      converted.explode = true;
+    } else if (parameter.type === "array" && parameter.in === "query") {
+      converted.style = "form";
+      converted.explode = false;
+    }
+    return converted;
+  }
+
+  private static convertBodyParameter(parameter: any, consumes: string[]): any {
+    const requestBody: any = { content: {} };
+    if (parameter.description) {
+      requestBody.description = parameter.description;
+    }
+    if (parameter.required) {
+      requestBody.required = true;
+    }
+    for (const mediaType of consumes) {
+      requestBody.content[mediaType] = { schema: parameter.schema };
+    }
+    return requestBody;
+  }
+
+  private static convertFormParameters(parameters: any[], consumes: string[]): any {
+    const schema: any = { type: "object", properties: {} };
+    const required: string[] = [];
+    for (const parameter of parameters) {
+      const property: any = {};
+      for (const key of [...SpecNormalizer.ParameterSchemaKeys, "description"]) {
+        if (parameter[key] !== undefined) {
+          property[key] = parameter[key];
+        }
+      }
+      schema.properties[parameter.name] = property;
+      if (parameter.required) {
+        required.push(parameter.name);
+      }
+    }
+    if (required.length > 0) {
+      schema.required = required;
+    }
+    const hasFile = parameters.some((parameter) => parameter.type === "file");
+    const mediaTypes = consumes.filter(
+      (mediaType) =>
+        mediaType === "multipart/form-data" || mediaType === "application/x-www-form-urlencoded"
+    );
+    if (mediaTypes.length === 0) {
+      mediaTypes.push(hasFile ? "multipart/form-data" : "application/x-www-form-urlencoded");
+    }
+    const requestBody: any = { content: {} };
+    if (required.length > 0) {
+      requestBody.required = true;
+    }
+    for (const mediaType of mediaTypes) {
+      requestBody.content[mediaType] = { schema };
+    }
+    return requestBody;
+  }
+
+  private static convertResponse(response: any, produces: string[]): any {
+    if (response.$ref) {
+      return response;
+    }
+    const converted: any = {};
+    for (const key in response) {
+      if (!["schema", "headers", "examples"].includes(key)) {
+        converted[key] = response[key];
+      }
+    }
+    converted.description = response.description ?? "";
+    if (response.schema) {
+      converted.content = {};
+      for (const mediaType of produces) {
+        converted.content[mediaType] = { schema: response.schema };
+        if (response.examples?.[mediaType] !== undefined) {
+          converted.content[mediaType].example = response.examples[mediaType];
+        }
+      }
+    }
+    if (response.headers) {
+      converted.headers = {};
+      for (const name in response.headers) {
+        const { description, ...schema } = response.headers[name];
+        converted.headers[name] = description ? { description, schema } : { schema };
+      }
+    }
+    return converted;
+  }
+
+  private static convertSecurityScheme(scheme: any): any {
+    const converted: any = {};
+    if (scheme.description) {
+      converted.description = scheme.description;
+    }
+    switch (scheme.type) {
+      case "basic":
+        return { ...converted, type: "http", scheme: "basic" };
+      case "oauth2": {
+        const flow: any = { scopes: scheme.scopes ?? {} };
+        if (scheme.authorizationUrl) {
+          flow.authorizationUrl = scheme.authorizationUrl;
+        }
+        if (scheme.tokenUrl) {
+          flow.tokenUrl = scheme.tokenUrl;
+        }
+        const flowName = SpecNormalizer.OAuth2Flows[scheme.flow as string] ?? scheme.flow;
+        return { ...converted, type: "oauth2", flows: { [flowName]: flow } };
+      }
+      default:
+        return { ...scheme };
+    }
+  }
+
+  private static convertSwaggerNode(node: any): void {
+    if (Array.isArray(node)) {
+      node.forEach((item) => SpecNormalizer.convertSwaggerNode(item));
+      return;
+    }
+    if (node === null || typeof node !== "object") {
+      return;
+    }
+
+    if (typeof node.$ref === "string") {
+      node.$ref = (node.$ref as string)
+        .replace(/^#\/definitions\//, "#/components/schemas/")
+        .replace(/^#\/parameters\//, "#/components/parameters/")
+        .replace(/^#\/responses\//, "#/components/responses/");
+    }
+    if (node["x-nullable"] !== undefined) {
+      node.nullable = node["x-nullable"];
+      delete node["x-nullable"];
+    }
+    if (node.type === "file") {
+      node.type = "string";
+      node.format = "binary";
+    }
+    if (typeof node.discriminator === "string") {
+      node.discriminator = { propertyName: node.discriminator };
+    }
+
+    for (const key in node) {
+      if (SpecNormalizer.ValueKeys.includes(key) || key.startsWith("x-")) {
+        continue;
+      }
+      if (
+        SpecNormalizer.MapKeys.includes(key) &&
+        node[key] !== null &&
+        typeof node[key] === "object"
+      ) {
+        for (const name in node[key]) {
+          SpecNormalizer.convertSwaggerNode(node[key][name]);
+        }
+      } else {
+        SpecNormalizer.convertSwaggerNode(node[key]);
+      }
+    }
+  }
+
+  private static normalizeNode(node: any): void {
+    if (Array.isArray(node)) {
+      node.forEach((item) => SpecNormalizer.normalizeNode(item));
+      return;
+    }
+    if (node === null || typeof node !== "object") {
+      return;
+    }
+
+    SpecNormalizer.normalizeSchema(node);
+    for (const key in node) {
+      if (SpecNormalizer.ValueKeys.includes(key) || key.startsWith("x-")) {
+        continue;
+      }
+      if (
+        SpecNormalizer.MapKeys.includes(key) &&
+        node[key] !== null &&
+        typeof node[key] === "object"
+      ) {
+        for (const name in node[key]) {
+          SpecNormalizer.normalizeNode(node[key][name]);
+        }
+      } else {
+        SpecNormalizer.normalizeNode(node[key]);
+      }
+    }
+  }
+
+  private static normalizeSchema(schema: any): void {
+    if (Array.isArray(schema.type)) {
+      const types = (schema.type as string[]).filter((type) => type !== "null");
+      if (types.length < schema.type.length) {
+        schema.nullable = true;
+      }
+      if (types.length === 1) {
+        schema.type = types[0];
+      } else {
+        delete schema.type;
+        if (types.length > 1) {
+          schema.anyOf = types.map((type) => ({ type }));
+        }
+      }
+    } else if (schema.type === "null") {
+      delete schema.type;
+      schema.nullable = true;
+    }
+
+    for (const key of ["oneOf", "anyOf"]) {
+      const variants = schema[key];
+      if (!Array.isArray(variants)) {
+        continue;
+      }
+      const nonNullVariants = variants.filter((variant: any) => variant?.type !== "null");
+      if (nonNullVariants.length === variants.length) {
+        continue;
+      }
+      schema.nullable = true;
+      if (nonNullVariants.length === 1) {
+        // e.g. anyOf: [{ $ref: "#/components/schemas/Pet" }, { type: "null" }]
+        delete schema[key];
+        schema.allOf = [...(schema.allOf ?? []), nonNullVariants[0]];
+      } else {
+        schema[key] = nonNullVariants;
+      }
+    }
+
+    if (schema.const !== undefined) {
+      schema.enum = [schema.const];
+      delete schema.const;
+    }
+
+    if (Array.isArray(schema.examples)) {
+      if (schema.examples.length > 0 && schema.example === undefined) {
+        schema.example = schema.examples[0];
+      }
+      delete schema.examples;
+    }
+
+    if (typeof schema.exclusiveMinimum === "number") {
+      schema.minimum = schema.exclusiveMinimum;
+      schema.exclusiveMinimum = true;
+    }
+    if (typeof schema.exclusiveMaximum === "number") {
+      schema.maximum = schema.exclusiveMaximum;
+      schema.exclusiveMaximum = true;
+    }
+  }
+}
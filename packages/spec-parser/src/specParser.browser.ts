@@ -11,11 +11,14 @@ import {
   ParseOptions,
   ValidateResult,
   ValidationStatus,
+  WarningResult,
   ListAPIResult,
   ProjectType,
+  SyncResult,
 } from "./interfaces";
 import { SpecParserError } from "./specParserError";
 import { Utils } from "./utils";
+import { SpecNormalizer } from "./specNormalizer";
 import { ConstantString } from "./constants";
 
 /**
@@ -30,14 +33,15 @@ export class SpecParser {
   private spec: OpenAPIV3.Document | undefined;
   private unResolveSpec: OpenAPIV3.Document | undefined;
   private isSwaggerFile: boolean | undefined;
+  private normalizeWarnings: WarningResult[] = [];
 
   private defaultOptions: ParseOptions = {
     allowMissingId: false,
-    allowSwagger: false,
     allowAPIKeyAuth: false,
     allowMultipleParameters: false,
     allowBearerTokenAuth: false,
     allowOauth2: false,
+    allowOauth2ClientCredentials: false,
     allowMethods: ["get", "post"],
     projectType: ProjectType.SME,
   };
@@ -78,17 +82,13 @@ export class SpecParser {
         };
       }
 
-      if (!this.options.allowSwagger && this.isSwaggerFile) {
-        return {
-          status: ValidationStatus.Error,
-          warnings: [],
-          errors: [
-            { type: ErrorType.SwaggerNotSupported, content: ConstantString.SwaggerNotSupported },
-          ],
-        };
-      }
-
-      return Utils.validateSpec(this.spec!, this.parser, !!this.isSwaggerFile, this.options);
+      return Utils.validateSpec(
+        this.spec!,
+        this.parser,
+        !!this.isSwaggerFile,
+        this.options,
+        this.normalizeWarnings
+      );
     } catch (err) {
       throw new SpecParserError((err as Error).toString(), ErrorType.ValidateFailed);
     }
@@ -191,13 +191,36 @@ export class SpecParser {
     throw new Error("Method not implemented.");
   }
 
+  /**
+   * Syncs the artifacts generated by {@link SpecParser.generate} with the latest OpenAPI specification file.
+   * @param manifestPath A file path of the Teams app manifest file to update.
+   * @param outputSpecPath File path of the OpenAPI specification file generated before, which is diffed with the latest one and updated in place.
+   * @param adaptiveCardFolder Folder path of the Adaptive Card files. If not specified or empty, Adaptive Card files will not be updated.
+   */
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async sync(
+    manifestPath: string,
+    outputSpecPath: string,
+    adaptiveCardFolder?: string,
+    signal?: AbortSignal
+  ): Promise<SyncResult> {
+    throw new Error("Method not implemented.");
+  }
+
   private async loadSpec(): Promise<void> {
     if (!this.spec) {
       this.unResolveSpec = (await this.parser.parse(this.pathOrSpec)) as OpenAPIV3.Document;
-      if (!this.unResolveSpec.openapi && (this.unResolveSpec as any).swagger === "2.0") {
+      // Convert swagger 2.0 to openapi 3.0
+      if (SpecNormalizer.isSwagger(this.unResolveSpec)) {
+        this.unResolveSpec = SpecNormalizer.convertSwagger(this.unResolveSpec);
         this.isSwaggerFile = true;
       }
 
+      // Convert OpenAPI 3.1 to OpenAPI 3.0
+      const normalizeResult = SpecNormalizer.normalize(this.unResolveSpec);
+      this.unResolveSpec = normalizeResult.spec;
+      this.normalizeWarnings = normalizeResult.warnings;
+
       const clonedUnResolveSpec = JSON.parse(JSON.stringify(this.unResolveSpec));
       this.spec = (await this.parser.dereference(clonedUnResolveSpec)) as OpenAPIV3.Document;
     }
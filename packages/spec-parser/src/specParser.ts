@@ -8,6 +8,7 @@ import converter from "swagger2openapi";
 import jsyaml from "js-yaml";
 import fs from "fs-extra";
 import path from "path";
+import { createHash } from "crypto";
 import {
   APIInfo,
   AuthInfo,
@@ -17,14 +18,19 @@ import {
   ListAPIResult,
   ParseOptions,
   ProjectType,
+  SyncResult,
   ValidateResult,
   ValidationStatus,
+  WarningResult,
   WarningType,
 } from "./interfaces";
 import { ConstantString } from "./constants";
 import { SpecParserError } from "./specParserError";
 import { SpecFilter } from "./specFilter";
 import { Utils } from "./utils";
+import { SpecNormalizer } from "./specNormalizer";
+import { SpecBundler } from "./specBundler";
+import { SpecDiff } from "./specDiff";
 import { ManifestUpdater } from "./manifestUpdater";
 import { AdaptiveCardGenerator } from "./adaptiveCardGenerator";
 import { wrapAdaptiveCard } from "./adaptiveCardWrapper";
@@ -41,14 +47,15 @@ export class SpecParser {
   private spec: OpenAPIV3.Document | undefined;
   private unResolveSpec: OpenAPIV3.Document | undefined;
   private isSwaggerFile: boolean | undefined;
+  private normalizeWarnings: WarningResult[] = [];
 
   private defaultOptions: ParseOptions = {
     allowMissingId: true,
-    allowSwagger: true,
     allowAPIKeyAuth: false,
     allowBearerTokenAuth: false,
     allowMultipleParameters: false,
     allowOauth2: false,
+    allowOauth2ClientCredentials: false,
     allowMethods: ["get", "post"],
     projectType: ProjectType.SME,
   };
@@ -85,17 +92,13 @@ export class SpecParser {
         };
       }
 
-      if (!this.options.allowSwagger && this.isSwaggerFile) {
-        return {
-          status: ValidationStatus.Error,
-          warnings: [],
-          errors: [
-            { type: ErrorType.SwaggerNotSupported, content: ConstantString.SwaggerNotSupported },
-          ],
-        };
-      }
-
-      return Utils.validateSpec(this.spec!, this.parser, !!this.isSwaggerFile, this.options);
+      return Utils.validateSpec(
+        this.spec!,
+        this.parser,
+        !!this.isSwaggerFile,
+        this.options,
+        this.normalizeWarnings
+      );
     } catch (err) {
       throw new SpecParserError((err as Error).toString(), ErrorType.ValidateFailed);
     }
@@ -151,11 +154,12 @@ export class SpecParser {
 
         const authArray = Utils.getAuthArray(operation.security, spec);
 
-        for (const auths of authArray) {
-          if (auths.length === 1) {
-            apiResult.auth = auths[0].authScheme;
-            break;
-          }
+        // prefer the supported auth if the operation has multiple security requirements
+        const auth =
+          Utils.getSupportedAuths(authArray, this.options)[0] ??
+          authArray.find((auths) => auths.length === 1)?.[0];
+        if (auth) {
+          apiResult.auth = auth.authScheme;
         }
 
         apiResult.api = apiKey;
@@ -203,7 +207,9 @@ export class SpecParser {
         throw new SpecParserError(ConstantString.CancelledMessage, ErrorType.Cancelled);
       }
 
-      const newSpec = (await this.parser.dereference(newUnResolvedSpec)) as OpenAPIV3.Document;
+      // dereference a copy to keep the references in the unresolved spec
+      const clonedUnResolveSpec = JSON.parse(JSON.stringify(newUnResolvedSpec));
+      const newSpec = (await this.parser.dereference(clonedUnResolveSpec)) as OpenAPIV3.Document;
       return [newUnResolvedSpec, newSpec];
     } catch (err) {
       if (err instanceof SpecParserError) {
@@ -292,30 +298,12 @@ export class SpecParser {
       const newUnResolvedSpec = newSpecs[0];
       const newSpec = newSpecs[1];
 
-      const authSet: Set<AuthInfo> = new Set();
-      let hasMultipleAuth = false;
-
-      for (const url in newSpec.paths) {
-        for (const method in newSpec.paths[url]) {
-          const operation = (newSpec.paths[url] as any)[method] as OpenAPIV3.OperationObject;
-
-          const authArray = Utils.getAuthArray(operation.security, newSpec);
-
-          if (authArray && authArray.length > 0) {
-            authSet.add(authArray[0][0]);
-            if (authSet.size > 1) {
-              hasMultipleAuth = true;
-              break;
-            }
-          }
-        }
-      }
-
-      if (hasMultipleAuth && this.options.projectType !== ProjectType.TeamsAi) {
-        throw new SpecParserError(
-          ConstantString.MultipleAuthNotSupported,
-          ErrorType.MultipleAuthNotSupported
-        );
+      let authInfo: AuthInfo | undefined;
+      // Teams AI project doesn't care about auth
+      if (this.options.projectType !== ProjectType.TeamsAi) {
+        const [commonAuth, authWarnings] = this.getCommonAuth(newSpec);
+        authInfo = commonAuth;
+        result.warnings.push(...authWarnings);
       }
 
       let resultStr;
@@ -327,21 +315,19 @@ export class SpecParser {
       await fs.outputFile(outputSpecPath, resultStr);
 
       if (adaptiveCardFolder) {
+        const cardHashes = await SpecParser.readAdaptiveCardHashes(adaptiveCardFolder);
         for (const url in newSpec.paths) {
           for (const method in newSpec.paths[url]) {
             // paths object may contain description/summary which is not a http method, so we need to check if it is a operation object
             if (this.options.allowMethods.includes(method)) {
               const operation = (newSpec.paths[url] as any)[method] as OpenAPIV3.OperationObject;
               try {
-                const [card, jsonPath] = AdaptiveCardGenerator.generateAdaptiveCard(operation);
-                const fileName = path.join(adaptiveCardFolder, `${operation.operationId!}.json`);
-                const wrappedCard = wrapAdaptiveCard(card, jsonPath);
-                await fs.outputJSON(fileName, wrappedCard, { spaces: 2 });
-                const dataFileName = path.join(
+                await SpecParser.generateAdaptiveCardFiles(
+                  operation,
                   adaptiveCardFolder,
-                  `${operation.operationId!}.data.json`
+                  true,
+                  cardHashes
                 );
-                await fs.outputJSON(dataFileName, {}, { spaces: 2 });
               } catch (err) {
                 result.allSuccess = false;
                 result.warnings.push({
@@ -353,13 +339,13 @@ export class SpecParser {
             }
           }
         }
+        await SpecParser.writeAdaptiveCardHashes(adaptiveCardFolder, cardHashes);
       }
 
       if (signal?.aborted) {
         throw new SpecParserError(ConstantString.CancelledMessage, ErrorType.Cancelled);
       }
 
-      const authInfo = Array.from(authSet)[0];
       const [updatedManifest, warnings] = await ManifestUpdater.updateManifest(
         manifestPath,
         outputSpecPath,
@@ -382,9 +368,273 @@ export class SpecParser {
     return result;
   }
 
+  /**
+   * Syncs the artifacts generated by {@link SpecParser.generate} with the latest OpenAPI specification file.
+   * Only the commands and Adaptive Cards of the changed and removed operations are updated, Adaptive Cards
+   * customized by users are kept. Operations not selected in the project, such as the ones added to the specification file,
+   * are reported but not added.
+   * @param manifestPath A file path of the Teams app manifest file to update.
+   * @param outputSpecPath File path of the OpenAPI specification file generated before, which is diffed with the latest one and updated in place.
+   * @param adaptiveCardFolder Folder path of the Adaptive Card files. If not specified or empty, Adaptive Card files will not be updated.
+   */
+  async sync(
+    manifestPath: string,
+    outputSpecPath: string,
+    adaptiveCardFolder?: string,
+    signal?: AbortSignal
+  ): Promise<SyncResult> {
+    const result: SyncResult = {
+      allSuccess: true,
+      warnings: [],
+      diff: { removed: [], changed: [], unchanged: [] },
+      notSelected: [],
+      preservedCards: [],
+    };
+    try {
+      await this.loadSpec();
+      const oldSpec = (await new SwaggerParser().dereference(outputSpecPath)) as OpenAPIV3.Document;
+      // the old spec only contains the selected operations, so the operations only in the new spec are not selected,
+      // whether they are added to the new spec or not
+      const diff = SpecDiff.diff(oldSpec, this.spec!, this.options);
+      const { added, ...selectedDiff } = diff;
+      result.diff = selectedDiff;
+      result.notSelected = added;
+
+      const oldAPIs = Utils.listSupportedAPIs(oldSpec, this.options);
+      const operationIds: { [api: string]: string } = {};
+      for (const api in oldAPIs) {
+        operationIds[api] = oldAPIs[api].operationId!;
+      }
+
+      const [newUnResolvedSpec, newSpec] = await this.getFilteredSpecs(
+        [...diff.changed, ...diff.unchanged],
+        signal
+      );
+
+      let resultStr;
+      if (outputSpecPath.endsWith(".yaml") || outputSpecPath.endsWith(".yml")) {
+        resultStr = jsyaml.dump(newUnResolvedSpec);
+      } else {
+        resultStr = JSON.stringify(newUnResolvedSpec, null, 2);
+      }
+      await fs.outputFile(outputSpecPath, resultStr);
+
+      if (adaptiveCardFolder) {
+        const cardHashes = await SpecParser.readAdaptiveCardHashes(adaptiveCardFolder);
+        for (const api of [...diff.changed, ...diff.removed]) {
+          const oldOperationId = operationIds[api];
+          const cardPath = path.join(adaptiveCardFolder, `${oldOperationId}.json`);
+          if (await SpecParser.isAdaptiveCardCustomized(cardPath, cardHashes[oldOperationId])) {
+            result.preservedCards.push(oldOperationId);
+            continue;
+          }
+
+          const dataPath = path.join(adaptiveCardFolder, `${oldOperationId}.data.json`);
+          if (diff.removed.includes(api)) {
+            await fs.remove(cardPath);
+            await fs.remove(dataPath);
+            delete cardHashes[oldOperationId];
+            continue;
+          }
+
+          const [method, pathUrl] = api.split(" ");
+          const operation = (newSpec.paths[pathUrl] as any)[
+            method.toLowerCase()
+          ] as OpenAPIV3.OperationObject;
+          try {
+            // the sample data may have been edited by users, only generate it for new operation ids
+            await SpecParser.generateAdaptiveCardFiles(
+              operation,
+              adaptiveCardFolder,
+              operation.operationId !== oldOperationId,
+              cardHashes
+            );
+            if (operation.operationId !== oldOperationId) {
+              await fs.remove(cardPath);
+              await fs.remove(dataPath);
+              delete cardHashes[oldOperationId];
+            }
+          } catch (err) {
+            result.allSuccess = false;
+            result.warnings.push({
+              type: WarningType.GenerateCardFailed,
+              content: (err as Error).toString(),
+              data: operation.operationId!,
+            });
+          }
+        }
+        await SpecParser.writeAdaptiveCardHashes(adaptiveCardFolder, cardHashes);
+      }
+
+      if (signal?.aborted) {
+        throw new SpecParserError(ConstantString.CancelledMessage, ErrorType.Cancelled);
+      }
+
+      const [updatedManifest, warnings] = await ManifestUpdater.syncCommands(
+        manifestPath,
+        newSpec,
+        this.options,
+        diff,
+        operationIds,
+        adaptiveCardFolder
+      );
+
+      await fs.outputJSON(manifestPath, updatedManifest, { spaces: 2 });
+
+      result.warnings.push(...warnings);
+    } catch (err) {
+      if (err instanceof SpecParserError) {
+        throw err;
+      }
+      throw new SpecParserError((err as Error).toString(), ErrorType.SyncFailed);
+    }
+
+    return result;
+  }
+
+  /**
+   * Gets the auth used by all the operations with auth. Operations can use any of their supported security requirements,
+   * so the auth is one that all of them support.
+   */
+  private getCommonAuth(spec: OpenAPIV3.Document): [AuthInfo | undefined, WarningResult[]] {
+    let commonAuths: AuthInfo[] | undefined;
+    const operationAuths: { [api: string]: AuthInfo[] } = {};
+    for (const url in spec.paths) {
+      for (const method in spec.paths[url]) {
+        if (this.options.allowMethods.includes(method)) {
+          const operation = (spec.paths[url] as any)[method] as OpenAPIV3.OperationObject;
+          const authArray = Utils.getAuthArray(operation.security, spec);
+          if (authArray.length > 0) {
+            const auths = Utils.getSupportedAuths(authArray, this.options);
+            const basicAuth = authArray.find(
+              (item) => item.length === 1 && Utils.isBasicAuth(item[0].authScheme)
+            )?.[0];
+            if (auths.length === 0 && basicAuth) {
+              throw new SpecParserError(
+                Utils.format(
+                  ConstantString.BasicAuthNotSupported,
+                  basicAuth.name,
+                  `${method.toUpperCase()} ${url}`
+                ),
+                ErrorType.BasicAuthNotSupported
+              );
+            }
+            operationAuths[`${method.toUpperCase()} ${url}`] = auths;
+            commonAuths = (commonAuths ?? auths).filter((auth) =>
+              auths.some((item) => item.name === auth.name)
+            );
+          }
+        }
+      }
+    }
+
+    if (!commonAuths) {
+      return [undefined, []];
+    }
+
+    if (commonAuths.length === 0) {
+      throw new SpecParserError(
+        ConstantString.MultipleAuthNotSupported,
+        ErrorType.MultipleAuthNotSupported
+      );
+    }
+
+    const authInfo = commonAuths[0];
+    const warnings: WarningResult[] = [];
+    for (const api in operationAuths) {
+      const auths = operationAuths[api];
+      if (auths.length > 1) {
+        warnings.push({
+          type: WarningType.AuthDowngraded,
+          content: Utils.format(
+            ConstantString.AuthAlternativesIgnored,
+            api,
+            auths.map((auth) => auth.name).join(", "),
+            authInfo.name
+          ),
+          data: api,
+        });
+      }
+    }
+
+    const authScheme = authInfo.authScheme;
+    if (
+      Utils.isOAuthWithClientCredentialsFlow(authScheme) &&
+      !(this.options.allowOauth2 && Utils.isOAuthWithAuthCodeFlow(authScheme))
+    ) {
+      warnings.push({
+        type: WarningType.AuthDowngraded,
+        content: Utils.format(ConstantString.ClientCredentialsAuthDowngraded, authInfo.name),
+        data: authInfo.name,
+      });
+    }
+
+    return [authInfo, warnings];
+  }
+
+  private static async generateAdaptiveCardFiles(
+    operation: OpenAPIV3.OperationObject,
+    adaptiveCardFolder: string,
+    generateDataFile: boolean,
+    cardHashes: { [operationId: string]: string }
+  ): Promise<void> {
+    const [card, jsonPath] = AdaptiveCardGenerator.generateAdaptiveCard(operation);
+    const fileName = path.join(adaptiveCardFolder, `${operation.operationId!}.json`);
+    const wrappedCard = wrapAdaptiveCard(card, jsonPath);
+    await fs.outputJSON(fileName, wrappedCard, { spaces: 2 });
+    cardHashes[operation.operationId!] = SpecParser.getAdaptiveCardHash(wrappedCard);
+    if (generateDataFile) {
+      const dataFileName = path.join(adaptiveCardFolder, `${operation.operationId!}.data.json`);
+      await fs.outputJSON(dataFileName, {}, { spaces: 2 });
+    }
+  }
+
+  // A card is customized if it's different from the card recorded at generation time, so that changes of
+  // the generator are not taken as customizations. Cards without a recorded hash are treated as customized.
+  private static async isAdaptiveCardCustomized(
+    cardPath: string,
+    cardHash: string | undefined
+  ): Promise<boolean> {
+    if (!(await fs.pathExists(cardPath))) {
+      return false;
+    }
+    const card = await fs.readJSON(cardPath);
+    return cardHash !== SpecParser.getAdaptiveCardHash(card);
+  }
+
+  // Hashes of the generated Adaptive Cards by operation id
+  private static async readAdaptiveCardHashes(
+    adaptiveCardFolder: string
+  ): Promise<{ [operationId: string]: string }> {
+    const hashPath = path.join(adaptiveCardFolder, ConstantString.AdaptiveCardHashFile);
+    return (await fs.pathExists(hashPath)) ? await fs.readJSON(hashPath) : {};
+  }
+
+  private static async writeAdaptiveCardHashes(
+    adaptiveCardFolder: string,
+    cardHashes: { [operationId: string]: string }
+  ): Promise<void> {
+    const hashPath = path.join(adaptiveCardFolder, ConstantString.AdaptiveCardHashFile);
+    await fs.outputJSON(hashPath, cardHashes, { spaces: 2 });
+  }
+
+  // the hash of the JSON content, so that formatting the file is not a change
+  private static getAdaptiveCardHash(card: unknown): string {
+    return createHash("sha256").update(JSON.stringify(card)).digest("hex");
+  }
+
   private async loadSpec(): Promise<void> {
     if (!this.spec) {
-      this.unResolveSpec = (await this.parser.parse(this.pathOrSpec)) as OpenAPIV3.Document;
+      const parserOptions = this.getParserOptions();
+      this.unResolveSpec = (await this.parser.parse(
+        this.pathOrSpec,
+        parserOptions
+      )) as OpenAPIV3.Document;
+      // Bundle references to other files or urls into the spec
+      if (SpecBundler.hasExternalRef(this.unResolveSpec)) {
+        const $refs = await this.parser.resolve(this.pathOrSpec, parserOptions);
+        this.unResolveSpec = SpecBundler.bundle($refs) as OpenAPIV3.Document;
+      }
       // Convert swagger 2.0 to openapi 3.0
       if (!this.unResolveSpec.openapi && (this.unResolveSpec as any).swagger === "2.0") {
         const specObj = await converter.convert(this.unResolveSpec as any, {});
@@ -392,11 +642,30 @@ export class SpecParser {
         this.isSwaggerFile = true;
       }
 
+      // Convert OpenAPI 3.1 to OpenAPI 3.0
+      const normalizeResult = SpecNormalizer.normalize(this.unResolveSpec);
+      this.unResolveSpec = normalizeResult.spec;
+      this.normalizeWarnings = normalizeResult.warnings;
+
       const clonedUnResolveSpec = JSON.parse(JSON.stringify(this.unResolveSpec));
       this.spec = (await this.parser.dereference(clonedUnResolveSpec)) as OpenAPIV3.Document;
     }
   }
 
+  private getParserOptions(): SwaggerParser.Options {
+    const fetcher = this.options.remoteRefFetcher;
+    if (!fetcher) {
+      return {};
+    }
+    return {
+      resolve: {
+        http: {
+          read: (file: SwaggerParser.FileInfo) => fetcher(file.url),
+        },
+      },
+    };
+  }
+
   private getAllSupportedAPIs(spec: OpenAPIV3.Document): {
     [key: string]: OpenAPIV3.OperationObject;
   } {
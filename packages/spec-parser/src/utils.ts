@@ -20,6 +20,94 @@ import {
 import { IMessagingExtensionCommand, IParameter } from "@microsoft/teams-manifest";
 
 export class Utils {
+  static isObjectSchema(schema: OpenAPIV3.SchemaObject): boolean {
+    return schema.type === "object" || (!schema.type && !!schema.properties);
+  }
+
+  static isPrimitiveSchema(schema: OpenAPIV3.SchemaObject): boolean {
+    return (
+      schema.type === "string" ||
+      schema.type === "integer" ||
+      schema.type === "boolean" ||
+      schema.type === "number"
+    );
+  }
+
+  /**
+   * Resolves 'allOf', 'oneOf' and 'anyOf' of the schema into a single schema when possible.
+   * @param {OpenAPIV3.SchemaObject} schema - The schema to resolve.
+   * @returns {OpenAPIV3.SchemaObject} - The resolved schema, or the schema itself if it can't be resolved.
+   * @description
+   * 1. 'allOf' is merged, a property is required if it is required in any of the schemas
+   * 2. 'oneOf'/'anyOf' of objects is merged, a property is required only if it is required in every variant
+   * 3. 'oneOf'/'anyOf' of primitive types is merged if the types are the same, otherwise it is treated as a string
+   * 4. other 'oneOf'/'anyOf', e.g. an object or an array, can't be resolved
+   */
+  static resolveComposedSchema(schema: OpenAPIV3.SchemaObject): OpenAPIV3.SchemaObject {
+    if (schema.allOf) {
+      const { allOf, ...rest } = schema;
+      const schemas = allOf.map((item) =>
+        Utils.resolveComposedSchema(item as OpenAPIV3.SchemaObject)
+      );
+      const merged = Utils.mergeSchemas([rest, ...schemas]);
+      const required = ([] as string[]).concat(
+        ...[rest, ...schemas].map((item) => item.required ?? [])
+      );
+      if (required.length > 0) {
+        merged.required = [...new Set(required)];
+      }
+      return merged;
+    }
+
+    const variants = schema.oneOf ?? schema.anyOf;
+    if (!variants) {
+      return schema;
+    }
+    const { oneOf, anyOf, ...rest } = schema;
+    const schemas = variants.map((item) =>
+      Utils.resolveComposedSchema(item as OpenAPIV3.SchemaObject)
+    );
+    if (schemas.every((item) => Utils.isObjectSchema(item))) {
+      const merged = Utils.mergeSchemas([rest, ...schemas]);
+      const required = [
+        ...(rest.required ?? []),
+        ...(schemas[0].required ?? []).filter((property) =>
+          schemas.every((item) => item.required?.includes(property))
+        ),
+      ];
+      if (required.length > 0) {
+        merged.required = [...new Set(required)];
+      } else {
+        delete merged.required;
+      }
+      return merged;
+    }
+    if (schemas.every((item) => Utils.isPrimitiveSchema(item))) {
+      if (new Set(schemas.map((item) => item.type)).size === 1) {
+        return Utils.mergeSchemas([rest, ...schemas]);
+      }
+      return { ...rest, type: "string" };
+    }
+    return schema;
+  }
+
+  // the properties and enums are combined, for other keywords the first one wins
+  private static mergeSchemas(schemas: OpenAPIV3.SchemaObject[]): OpenAPIV3.SchemaObject {
+    const merged: any = {};
+    for (const schema of schemas) {
+      for (const [key, value] of Object.entries(schema)) {
+        if (key === "properties") {
+          merged.properties = { ...merged.properties, ...value };
+        } else if (key === "enum" && merged.enum) {
+          merged.enum = [...new Set([...merged.enum, ...value])];
+        } else if (merged[key] === undefined) {
+          merged[key] = value;
+        }
+      }
+    }
+    return merged as OpenAPIV3.SchemaObject;
+  }
+
   static hasNestedObjectInSchema(schema: OpenAPIV3.SchemaObject): boolean {
     if (schema.type === "object") {
       for (const property in schema.properties) {
@@ -48,7 +136,7 @@ export class Utils {
 
     for (let i = 0; i < paramObject.length; i++) {
       const param = paramObject[i];
-      const schema = param.schema as OpenAPIV3.SchemaObject;
+      const schema = Utils.resolveComposedSchema(param.schema as OpenAPIV3.SchemaObject);
 
       if (isCopilot && this.hasNestedObjectInSchema(schema)) {
         paramResult.isValid = false;
@@ -112,6 +200,8 @@ export class Utils {
       return paramResult;
     }
 
+    schema = Utils.resolveComposedSchema(schema);
+
     const isRequiredWithoutDefault = isRequired && schema.default === undefined;
 
     if (isCopilot && this.hasNestedObjectInSchema(schema)) {
@@ -130,7 +220,7 @@ export class Utils {
       } else {
         paramResult.optionalNum = paramResult.optionalNum + 1;
       }
-    } else if (schema.type === "object") {
+    } else if (Utils.isObjectSchema(schema)) {
       const { properties } = schema;
       for (const property in properties) {
         let isRequired = false;
@@ -169,7 +259,8 @@ export class Utils {
    * @description The following APIs are supported:
    * 1. only support Get/Post operation without auth property
    * 2. parameter inside query or path only support string, number, boolean and integer
-   * 3. parameter inside post body only support string, number, boolean, integer and object
+   * 3. parameter inside post body only support string, number, boolean, integer and object,
+   *    'allOf', 'oneOf' and 'anyOf' are supported if they can be resolved, see {@link Utils.resolveComposedSchema}
    * 4. request body + required parameters <= 1
    * 5. response body should be “application/json” and not empty, and response code should be 20X
    * 6. only support request body with “application/json” content type
@@ -229,7 +320,9 @@ export class Utils {
         };
 
         if (requestJsonBody) {
-          const requestBodySchema = requestJsonBody.schema as OpenAPIV3.SchemaObject;
+          const requestBodySchema = Utils.resolveComposedSchema(
+            requestJsonBody.schema as OpenAPIV3.SchemaObject
+          );
 
           if (isCopilot && requestBodySchema.type !== "object") {
             return false;
@@ -288,32 +381,42 @@ export class Utils {
       return true;
     }
 
-    if (options.allowAPIKeyAuth || options.allowOauth2 || options.allowBearerTokenAuth) {
-      // Currently we don't support multiple auth in one operation
-      if (authSchemeArray.length > 0 && authSchemeArray.every((auths) => auths.length > 1)) {
-        return false;
-      }
+    // Currently we don't support multiple auth in one security requirement
+    return Utils.getSupportedAuths(authSchemeArray, options).length > 0;
+  }
 
-      for (const auths of authSchemeArray) {
-        if (auths.length === 1) {
-          if (
-            (options.allowAPIKeyAuth && Utils.isAPIKeyAuth(auths[0].authScheme)) ||
-            (options.allowOauth2 && Utils.isOAuthWithAuthCodeFlow(auths[0].authScheme)) ||
-            (options.allowBearerTokenAuth && Utils.isBearerTokenAuth(auths[0].authScheme))
-          ) {
-            return true;
-          }
-        }
-      }
-    }
+  /**
+   * Gets the auth schemes of the security requirements which only contain one supported auth scheme.
+   * An operation can use any of them, since security requirements of an operation are alternatives.
+   */
+  static getSupportedAuths(authSchemeArray: AuthInfo[][], options: ParseOptions): AuthInfo[] {
+    return authSchemeArray
+      .filter(
+        (auths) => auths.length === 1 && Utils.isSupportedAuthScheme(auths[0].authScheme, options)
+      )
+      .map((auths) => auths[0]);
+  }
 
-    return false;
+  static isSupportedAuthScheme(
+    authScheme: OpenAPIV3.SecuritySchemeObject,
+    options: ParseOptions
+  ): boolean {
+    return !!(
+      (options.allowAPIKeyAuth && Utils.isAPIKeyAuth(authScheme)) ||
+      (options.allowOauth2 && Utils.isOAuthWithAuthCodeFlow(authScheme)) ||
+      (options.allowBearerTokenAuth && Utils.isBearerTokenAuth(authScheme)) ||
+      (options.allowOauth2ClientCredentials && Utils.isOAuthWithClientCredentialsFlow(authScheme))
+    );
   }
 
   static isBearerTokenAuth(authScheme: OpenAPIV3.SecuritySchemeObject): boolean {
     return authScheme.type === "http" && authScheme.scheme === "bearer";
   }
 
+  static isBasicAuth(authScheme: OpenAPIV3.SecuritySchemeObject): boolean {
+    return authScheme.type === "http" && authScheme.scheme === "basic";
+  }
+
   static isAPIKeyAuth(authScheme: OpenAPIV3.SecuritySchemeObject): boolean {
     return authScheme.type === "apiKey";
   }
@@ -326,6 +429,14 @@ export class Utils {
     return false;
   }
 
+  static isOAuthWithClientCredentialsFlow(authScheme: OpenAPIV3.SecuritySchemeObject): boolean {
+    if (authScheme.type === "oauth2" && authScheme.flows && authScheme.flows.clientCredentials) {
+      return true;
+    }
+
+    return false;
+  }
+
   static getAuthArray(
     securities: OpenAPIV3.SecurityRequirementObject[] | undefined,
     spec: OpenAPIV3.Document
@@ -543,7 +654,7 @@ export class Utils {
       } else {
         optionalParams.push(parameter);
       }
-    } else if (schema.type === "object") {
+    } else if (Utils.isObjectSchema(schema)) {
       const { properties } = schema;
       for (const property in properties) {
         let isRequired = false;
@@ -696,11 +807,14 @@ export class Utils {
     spec: OpenAPIV3.Document,
     parser: SwaggerParser,
     isSwaggerFile: boolean,
-    options: ParseOptions
+    options: ParseOptions,
+    normalizeWarnings: WarningResult[] = []
   ): ValidateResult {
     const errors: ErrorResult[] = [];
     const warnings: WarningResult[] = [];
 
+    // Swagger 2.0 files are validated like OpenAPI 3.0 files after the conversion, but the generated spec file is
+    // OpenAPI 3.0 instead of the original format, so this warning is kept for callers to tell the user
     if (isSwaggerFile) {
       warnings.push({
         type: WarningType.ConvertSwaggerToOpenAPI,
@@ -708,6 +822,9 @@ export class Utils {
       });
     }
 
+    // Features removed when converting OpenAPI 3.1 to OpenAPI 3.0
+    warnings.push(...normalizeWarnings);
+
     // Server validation
     const serverErrors = Utils.validateServer(spec, options);
     errors.push(...serverErrors);
@@ -177,7 +177,7 @@ describe("adaptiveCardGenerator", () => {
               },
               {
                 type: "TextBlock",
-                text: "date: ${if(date, date, 'N/A')}",
+                text: "date: ${if(date, formatDateTime(date, 'yyyy-MM-dd HH:mm'), 'N/A')}",
                 wrap: true,
               },
               {
@@ -551,14 +551,28 @@ describe("adaptiveCardGenerator", () => {
           wrap: true,
         },
         {
-          type: "TextBlock",
-          text: "person.address.street: ${if(person.address.street, person.address.street, 'N/A')}",
-          wrap: true,
-        },
-        {
-          type: "TextBlock",
-          text: "person.address.city: ${if(person.address.city, person.address.city, 'N/A')}",
-          wrap: true,
+          type: "Container",
+          items: [
+            {
+              type: "TextBlock",
+              text: "person.address",
+              weight: "Bolder",
+              wrap: true,
+            },
+            {
+              type: "FactSet",
+              facts: [
+                {
+                  title: "street",
+                  value: "${if(person.address.street, person.address.street, 'N/A')}",
+                },
+                {
+                  title: "city",
+                  value: "${if(person.address.city, person.address.city, 'N/A')}",
+                },
+              ],
+            },
+          ],
         },
       ];
 
@@ -600,14 +614,28 @@ describe("adaptiveCardGenerator", () => {
           wrap: true,
         },
         {
-          type: "TextBlock",
-          text: "address.street: ${if(address.street, address.street, 'N/A')}",
-          wrap: true,
-        },
-        {
-          type: "TextBlock",
-          text: "address.city: ${if(address.city, address.city, 'N/A')}",
-          wrap: true,
+          type: "Container",
+          items: [
+            {
+              type: "TextBlock",
+              text: "address",
+              weight: "Bolder",
+              wrap: true,
+            },
+            {
+              type: "FactSet",
+              facts: [
+                {
+                  title: "street",
+                  value: "${if(address.street, address.street, 'N/A')}",
+                },
+                {
+                  title: "city",
+                  value: "${if(address.city, address.city, 'N/A')}",
+                },
+              ],
+            },
+          ],
         },
       ];
 
@@ -881,14 +909,9 @@ describe("adaptiveCardGenerator", () => {
 
     it("should throw an error for unsupported schema types", () => {
       const schema = {
-        oneOf: [
-          {
-            type: "string",
-          },
-          {
-            type: "number",
-          },
-        ],
+        not: {
+          type: "string",
+        },
       };
       const name = "person";
       const parentArrayName = "";
@@ -898,6 +921,188 @@ describe("adaptiveCardGenerator", () => {
       ).to.throw(Utils.format(ConstantString.SchemaNotSupported, JSON.stringify(schema)));
     });
 
+    it("should generate sections for nested objects in a nested object", () => {
+      const schema = {
+        type: "object",
+        properties: {
+          owner: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              avatarUrl: { type: "string", format: "uri" },
+              address: {
+                type: "object",
+                properties: {
+                  city: { type: "string" },
+                },
+              },
+              metadata: {
+                type: "object",
+              },
+            },
+          },
+        },
+      };
+      const expected = [
+        {
+          type: "Container",
+          items: [
+            { type: "TextBlock", text: "owner", weight: "Bolder", wrap: true },
+            {
+              type: "FactSet",
+              facts: [{ title: "name", value: "${if(owner.name, owner.name, 'N/A')}" }],
+            },
+            {
+              type: "Image",
+              url: "${owner.avatarUrl}",
+              $when: "${owner.avatarUrl != null}",
+            },
+            {
+              type: "Container",
+              items: [
+                { type: "TextBlock", text: "owner.address", weight: "Bolder", wrap: true },
+                {
+                  type: "FactSet",
+                  facts: [
+                    {
+                      title: "city",
+                      value: "${if(owner.address.city, owner.address.city, 'N/A')}",
+                    },
+                  ],
+                },
+              ],
+            },
+            {
+              type: "TextBlock",
+              text: "owner.metadata: ${jsonStringify(owner.metadata)}",
+              wrap: true,
+            },
+          ],
+        },
+      ];
+
+      const actual = AdaptiveCardGenerator.generateCardFromResponse(schema as any, "", "");
+
+      expect(actual).to.deep.equal(expected);
+    });
+
+    it("should merge allOf schemas", () => {
+      const schema = {
+        allOf: [
+          {
+            type: "object",
+            properties: {
+              id: { type: "integer" },
+            },
+          },
+          {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+            },
+          },
+        ],
+      };
+      const expected = [
+        { type: "TextBlock", text: "id: ${if(id, id, 'N/A')}", wrap: true },
+        { type: "TextBlock", text: "name: ${if(name, name, 'N/A')}", wrap: true },
+      ];
+
+      const actual = AdaptiveCardGenerator.generateCardFromResponse(schema as any, "", "");
+
+      expect(actual).to.deep.equal(expected);
+    });
+
+    it("should merge the variants of oneOf objects", () => {
+      const schema = {
+        type: "array",
+        items: {
+          oneOf: [
+            {
+              type: "object",
+              properties: {
+                id: { type: "integer" },
+                email: { type: "string" },
+              },
+            },
+            {
+              type: "object",
+              properties: {
+                id: { type: "integer" },
+                phone: { type: "string" },
+              },
+            },
+          ],
+        },
+      };
+      const expected = [
+        {
+          type: "Container",
+          $data: "${$root}",
+          items: [
+            { type: "TextBlock", text: "id: ${if(id, id, 'N/A')}", wrap: true },
+            { type: "TextBlock", text: "email: ${if(email, email, 'N/A')}", wrap: true },
+            { type: "TextBlock", text: "phone: ${if(phone, phone, 'N/A')}", wrap: true },
+          ],
+        },
+      ];
+
+      const actual = AdaptiveCardGenerator.generateCardFromResponse(schema as any, "", "");
+
+      expect(actual).to.deep.equal(expected);
+    });
+
+    it("should render anyOf of an object or an array as json", () => {
+      const schema = {
+        type: "object",
+        properties: {
+          tags: {
+            anyOf: [
+              { type: "object", properties: { name: { type: "string" } } },
+              { type: "array" },
+            ],
+          },
+        },
+      };
+      const expected = [{ type: "TextBlock", text: "tags: ${jsonStringify(tags)}", wrap: true }];
+
+      const actual = AdaptiveCardGenerator.generateCardFromResponse(schema as any, "", "");
+
+      expect(actual).to.deep.equal(expected);
+    });
+
+    it("should format dates and enums", () => {
+      const schema = {
+        type: "object",
+        properties: {
+          createdAt: { type: "string", format: "date-time" },
+          dueDate: { type: "string", format: "date" },
+          status: { type: "string", enum: ["not_started", "inProgress"] },
+        },
+      };
+      const expected = [
+        {
+          type: "TextBlock",
+          text: "createdAt: ${if(createdAt, formatDateTime(createdAt, 'yyyy-MM-dd HH:mm'), 'N/A')}",
+          wrap: true,
+        },
+        {
+          type: "TextBlock",
+          text: "dueDate: ${if(dueDate, formatDateTime(dueDate, 'yyyy-MM-dd'), 'N/A')}",
+          wrap: true,
+        },
+        {
+          type: "TextBlock",
+          text: "status: ${if(status, if(status == 'not_started', 'Not started', if(status == 'inProgress', 'In progress', status)), 'N/A')}",
+          wrap: true,
+        },
+      ];
+
+      const actual = AdaptiveCardGenerator.generateCardFromResponse(schema as any, "", "");
+
+      expect(actual).to.deep.equal(expected);
+    });
+
     it("should throw an error for unknown schema types", () => {
       const schema = {
         type: "fake-type",
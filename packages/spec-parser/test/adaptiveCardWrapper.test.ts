@@ -72,6 +72,42 @@ describe("adaptiveCardWrapper", () => {
       expect(result.image).to.be.undefined;
     });
 
+    it("should not infer preview card template from the sections of nested objects", () => {
+      const card: AdaptiveCard = {
+        type: "AdaptiveCard",
+        version: "1.5",
+        body: [
+          {
+            type: "Container",
+            items: [
+              {
+                type: "TextBlock",
+                text: "owner",
+                weight: "Bolder",
+                wrap: true,
+              },
+              {
+                type: "FactSet",
+                facts: [{ title: "name", value: "${if(owner.name, owner.name, 'N/A')}" }],
+              },
+            ],
+          },
+          {
+            type: "TextBlock",
+            text: "name: ${if(name, name, 'N/A')}",
+            wrap: true,
+          },
+        ],
+        $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+      };
+
+      const result = inferPreviewCardTemplate(card);
+
+      expect(result.title).to.equal("${if(name, name, 'N/A')}");
+      expect(result.subtitle).to.be.undefined;
+      expect(result.image).to.be.undefined;
+    });
+
     it("should handle empty card body correctly", () => {
       const card: AdaptiveCard = {
         type: "AdaptiveCard",
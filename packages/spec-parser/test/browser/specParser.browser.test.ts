@@ -352,85 +352,74 @@ describe("SpecParser in Browser", () => {
       sinon.assert.calledOnce(parseStub);
     });
 
-    it("should return error object if the spec version is 2.0 with allowSwagger is false", async function () {
+    it("should convert Swagger 2.0 spec to OpenAPI 3.0", async function () {
       const specPath = "path/to/spec";
       const spec = {
         swagger: "2.0",
-        info: {
-          version: "1.0.0",
-          title: "Swagger Petstore",
-          description:
-            "A sample API that uses a petstore as an example to demonstrate features in the swagger-2.0 specification",
-        },
+        info: { version: "1.0.0", title: "Swagger Petstore" },
         host: "petstore.swagger.io",
         basePath: "/v2",
         schemes: ["https"],
         paths: {
           "/pet": {
             post: {
-              summary: "Add a new pet to the store",
               operationId: "addPet",
               consumes: ["application/json"],
-              produces: ["application/json"],
               parameters: [
                 {
                   in: "body",
                   name: "body",
+                  required: true,
                   schema: {
                     type: "object",
                     required: ["name"],
-                    properties: {
-                      id: {
-                        type: "integer",
-                        format: "int64",
-                      },
-                      name: {
-                        type: "string",
-                      },
-                    },
+                    properties: { name: { type: "string" } },
                   },
                 },
               ],
               responses: {
                 "200": {
                   description: "Pet added to the store",
-                  schema: {
-                    type: "object",
-                    required: ["id", "name"],
-                    properties: {
-                      id: {
-                        type: "integer",
-                        format: "int64",
-                      },
-                      name: {
-                        type: "string",
-                      },
-                    },
-                  },
+                  schema: { type: "object", properties: { id: { type: "integer" } } },
                 },
               },
             },
           },
         },
       };
-      const specParser = new SpecParser(specPath, { allowSwagger: false });
-
-      const parseStub = sinon.stub(specParser.parser, "parse").resolves(spec as any);
-
-      const dereferenceStub = sinon.stub(specParser.parser, "dereference").resolves(spec);
-      const validateStub = sinon.stub(specParser.parser, "validate").resolves(spec);
+      const specParser = new SpecParser(specPath);
+      sinon.stub(specParser.parser, "parse").resolves(spec as any);
+      const dereferenceStub = sinon
+        .stub(specParser.parser, "dereference")
+        .callsFake((spec: any) => Promise.resolve(spec));
+      sinon.stub(specParser.parser, "validate").resolves(spec as any);
 
       const result = await specParser.validate();
 
       expect(result).to.deep.equal({
-        status: ValidationStatus.Error,
-        errors: [
+        status: ValidationStatus.Warning,
+        errors: [],
+        warnings: [
           {
-            type: ErrorType.SwaggerNotSupported,
-            content: ConstantString.SwaggerNotSupported,
+            type: WarningType.ConvertSwaggerToOpenAPI,
+            content: ConstantString.ConvertSwaggerToOpenAPI,
           },
         ],
-        warnings: [],
+      });
+      const resolvedSpec = dereferenceStub.firstCall.args[0] as any;
+      expect(resolvedSpec.openapi).to.equal(ConstantString.NormalizedOpenAPIVersion);
+      expect(resolvedSpec.servers).to.deep.equal([{ url: "https://petstore.swagger.io/v2" }]);
+      expect(resolvedSpec.paths["/pet"].post.requestBody).to.deep.equal({
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["name"],
+              properties: { name: { type: "string" } },
+            },
+          },
+        },
       });
     });
 
@@ -694,6 +683,70 @@ describe("SpecParser in Browser", () => {
       sinon.assert.calledOnce(dereferenceStub);
     });
 
+    it("should convert OpenAPI 3.1 spec to OpenAPI 3.0", async () => {
+      const specPath = "path/to/spec";
+      const spec = {
+        openapi: "3.1.0",
+        servers: [
+          {
+            url: "https://server1",
+          },
+        ],
+        paths: {
+          "/pet": {
+            get: {
+              operationId: "getPet",
+              parameters: [
+                {
+                  name: "tags",
+                  in: "query",
+                  schema: {
+                    type: "string",
+                  },
+                },
+              ],
+              responses: {
+                "200": {
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: ["string", "null"],
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        webhooks: {
+          newPet: {},
+        },
+      };
+
+      const specParser = new SpecParser(specPath);
+      sinon.stub(specParser.parser, "parse").resolves(spec as any);
+      const dereferenceStub = sinon
+        .stub(specParser.parser, "dereference")
+        .callsFake((spec: any) => Promise.resolve(spec));
+      sinon.stub(specParser.parser, "validate").resolves(spec as any);
+      const result = await specParser.validate();
+      expect(result.status).to.equal(ValidationStatus.Warning);
+      expect(result.warnings).to.deep.equal([
+        {
+          type: WarningType.WebhooksNotSupported,
+          content: Utils.format(ConstantString.WebhooksNotSupported, "newPet"),
+          data: ["newPet"],
+        },
+      ]);
+      expect(result.errors).to.be.an("array").that.is.empty;
+      const resolvedSpec = dereferenceStub.firstCall.args[0] as any;
+      expect(resolvedSpec.openapi).to.equal(ConstantString.NormalizedOpenAPIVersion);
+      expect(
+        resolvedSpec.paths["/pet"].get.responses["200"].content["application/json"].schema
+      ).to.deep.equal({ type: "string", nullable: true });
+    });
+
     it("should throw a SpecParserError when an error occurs", async () => {
       const specPath = "path/to/spec";
       const spec = {
@@ -790,6 +843,22 @@ describe("SpecParser in Browser", () => {
     });
   });
 
+  describe("sync", () => {
+    it("should throw not implemented error", async () => {
+      try {
+        const specParser = new SpecParser("path/to/spec.yaml");
+        await specParser.sync(
+          "path/to/manifest.json",
+          "path/to/output.yaml",
+          "path/to/adaptiveCardFolder"
+        );
+        expect.fail("Should throw not implemented error");
+      } catch (error: any) {
+        expect(error.message).to.equal("Method not implemented.");
+      }
+    });
+  });
+
   describe("list", () => {
     it("should throw an error when the SwaggerParser library throws an error", async () => {
       try {
@@ -1407,6 +1407,50 @@ describe("manifestUpdater", () => {
     expect(warnings).to.deep.equal([]);
   });
 
+  it("should register oauth2 client credentials flow as oauth in manifest without webApplicationInfo", async () => {
+    const manifestPath = "/path/to/your/manifest.json";
+    const outputSpecPath = "/path/to/your/spec/outputSpec.yaml";
+    const adaptiveCardFolder = "/path/to/your/adaptiveCards";
+    sinon.stub(fs, "pathExists").resolves(true);
+    sinon.stub(fs, "readJSON").resolves({
+      description: { short: "Original Short Description", full: "Original Full Description" },
+      composeExtensions: [],
+    });
+    const clientCredentialsAuth: AuthInfo = {
+      authScheme: {
+        type: "oauth2",
+        flows: {
+          clientCredentials: {
+            tokenUrl: "https://example.com/api/oauth/token",
+            scopes: { "read:pets": "read your pets" },
+          },
+        },
+      },
+      name: "oauth_client",
+    };
+    const options: ParseOptions = {
+      projectType: ProjectType.SME,
+      allowMethods: ["get", "post"],
+    };
+
+    const [result] = await ManifestUpdater.updateManifest(
+      manifestPath,
+      outputSpecPath,
+      spec,
+      options,
+      adaptiveCardFolder,
+      clientCredentialsAuth
+    );
+
+    expect((result.composeExtensions![0] as any).authorization).to.deep.equal({
+      authType: "oAuth2.0",
+      oAuthConfiguration: {
+        oauthConfigurationId: "${{OAUTH_CLIENT_OAUTH_REGISTRATION_ID}}",
+      },
+    });
+    expect(result.webApplicationInfo).to.be.undefined;
+  });
+
   it("should not contain auth property in manifest if pass the unknown auth", async () => {
     const manifestPath = "/path/to/your/manifest.json";
     const outputSpecPath = "/path/to/your/spec/outputSpec.yaml";
@@ -1457,12 +1501,12 @@ describe("manifestUpdater", () => {
       ],
     };
     const readJSONStub = sinon.stub(fs, "readJSON").resolves(originalManifest);
-    const basicAuth: AuthInfo = {
+    const digestAuth: AuthInfo = {
       authScheme: {
         type: "http" as const,
-        scheme: "basic",
+        scheme: "digest",
       },
-      name: "basic_auth",
+      name: "digest_auth",
     };
     const options: ParseOptions = {
       allowMultipleParameters: false,
@@ -1475,7 +1519,7 @@ describe("manifestUpdater", () => {
       spec,
       options,
       adaptiveCardFolder,
-      basicAuth
+      digestAuth
     );
 
     expect(result).to.deep.equal(expectedManifest);
@@ -2490,3 +2534,157 @@ describe("generateCommands", () => {
     expect(warnings).to.deep.equal([]);
   });
 });
+
+describe("syncCommands", () => {
+  const adaptiveCardFolder = "/path/to/your/appPackage/adaptiveCards";
+  const manifestPath = "/path/to/your/appPackage/manifest.json";
+  const options: ParseOptions = { allowMethods: ["get", "post"], projectType: ProjectType.SME };
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function createCommand(id: string, title: string): any {
+    return {
+      context: ["compose"],
+      type: "query",
+      title,
+      id,
+      parameters: [{ name: "id", title: "Id", description: "", isRequired: true }],
+      description: "",
+      apiResponseRenderingTemplateFile: `adaptiveCards/${id}.json`,
+    };
+  }
+
+  it("should only update the commands of changed and removed operations", async () => {
+    const manifest = {
+      composeExtensions: [
+        {
+          composeExtensionType: "apiBased",
+          apiSpecificationFile: "apiSpecificationFile/openapi.json",
+          commands: [
+            createCommand("getPet", "Get a pet"),
+            createCommand("getStore", "Get a store"),
+            createCommand("getOwner", "Owner edited by users"),
+          ],
+        },
+      ],
+    };
+    const spec: any = {
+      paths: {
+        "/pets/{id}": {
+          get: {
+            operationId: "getPetById",
+            summary: "Get a pet by id",
+            parameters: [{ name: "id", in: "path", required: true }],
+          },
+        },
+        "/owners/{id}": {
+          get: {
+            operationId: "getOwner",
+            summary: "Get an owner",
+            parameters: [{ name: "id", in: "path", required: true }],
+          },
+        },
+      },
+    };
+    sinon.stub(fs, "readJSON").resolves(manifest);
+    sinon.stub(fs, "pathExists").resolves(true);
+
+    const [result, warnings] = await ManifestUpdater.syncCommands(
+      manifestPath,
+      spec,
+      options,
+      {
+        added: [],
+        removed: ["GET /stores/{id}"],
+        changed: ["GET /pets/{id}"],
+        unchanged: ["GET /owners/{id}"],
+      },
+      {
+        "GET /pets/{id}": "getPet",
+        "GET /stores/{id}": "getStore",
+        "GET /owners/{id}": "getOwner",
+      },
+      adaptiveCardFolder
+    );
+
+    expect(result.composeExtensions![0].commands).to.deep.equal([
+      createCommand("getPetById", "Get a pet by id"),
+      createCommand("getOwner", "Owner edited by users"),
+    ]);
+    expect(warnings).to.deep.equal([]);
+  });
+
+  it("should keep the Adaptive Card of the command if no card is generated", async () => {
+    const manifest = {
+      composeExtensions: [
+        {
+          composeExtensionType: "apiBased",
+          apiSpecificationFile: "apiSpecificationFile/openapi.json",
+          commands: [createCommand("getPet", "Get a pet")],
+        },
+      ],
+    };
+    const spec: any = {
+      paths: {
+        "/pets/{id}": {
+          get: {
+            operationId: "getPetById",
+            summary: "Get a pet by id",
+            parameters: [{ name: "id", in: "path", required: true }],
+          },
+        },
+      },
+    };
+    sinon.stub(fs, "readJSON").resolves(manifest);
+    sinon.stub(fs, "pathExists").resolves(false);
+
+    const [result] = await ManifestUpdater.syncCommands(
+      manifestPath,
+      spec,
+      options,
+      { added: [], removed: [], changed: ["GET /pets/{id}"], unchanged: [] },
+      { "GET /pets/{id}": "getPet" },
+      adaptiveCardFolder
+    );
+
+    expect(result.composeExtensions![0].commands[0].id).to.equal("getPetById");
+    expect(result.composeExtensions![0].commands[0].apiResponseRenderingTemplateFile).to.equal(
+      "adaptiveCards/getPet.json"
+    );
+  });
+
+  it("should not change the manifest without API based message extension", async () => {
+    const manifest = { composeExtensions: [] };
+    sinon.stub(fs, "readJSON").resolves(manifest);
+
+    const [result] = await ManifestUpdater.syncCommands(
+      manifestPath,
+      { paths: {} } as any,
+      options,
+      { added: [], removed: ["GET /pets"], changed: [], unchanged: [] },
+      { "GET /pets": "getPets" }
+    );
+
+    expect(result).to.deep.equal(manifest);
+  });
+
+  it("should throw a SpecParserError if failed to read the manifest", async () => {
+    sinon.stub(fs, "readJSON").rejects(new Error("not found"));
+
+    try {
+      await ManifestUpdater.syncCommands(
+        manifestPath,
+        { paths: {} } as any,
+        options,
+        { added: [], removed: [], changed: [], unchanged: [] },
+        {}
+      );
+      expect.fail("Expected syncCommands to throw a SpecParserError");
+    } catch (err: any) {
+      expect(err).to.be.instanceOf(SpecParserError);
+      expect(err.errorType).to.equal(ErrorType.UpdateManifestFailed);
+    }
+  });
+});
@@ -0,0 +1,139 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import fs from "fs-extra";
+import path from "path";
+import SwaggerParser from "@apidevtools/swagger-parser";
+import { SpecBundler } from "../src/specBundler";
+
+describe("SpecBundler", () => {
+  const fixtureFolder = path.join(__dirname, "fixtures", "remoteRef");
+  const parserOptions: SwaggerParser.Options = {
+    resolve: {
+      http: {
+        read: (file: SwaggerParser.FileInfo) =>
+          fs.readFile(
+            path.join(fixtureFolder, "mirror", file.url.replace("https://specs.contoso.com/", "")),
+            "utf8"
+          ),
+      },
+    },
+  };
+
+  describe("hasExternalRef", () => {
+    it("should return true if the spec contains file or url references", () => {
+      expect(SpecBundler.hasExternalRef({ schema: { $ref: "./pet.yaml" } })).to.be.true;
+      expect(
+        SpecBundler.hasExternalRef({
+          parameters: [{ $ref: "https://contoso.com/openapi.json#/components/parameters/Id" }],
+        })
+      ).to.be.true;
+    });
+
+    it("should return false if the spec only contains local references", () => {
+      expect(
+        SpecBundler.hasExternalRef({
+          paths: { "/pets": { get: { parameters: [{ $ref: "#/components/parameters/Id" }] } } },
+        })
+      ).to.be.false;
+      expect(SpecBundler.hasExternalRef({ $ref: { type: "string" } })).to.be.false;
+    });
+  });
+
+  describe("bundle", () => {
+    it("should bundle file and url references into components", async () => {
+      const parser = new SwaggerParser();
+      const $refs = await parser.resolve(path.join(fixtureFolder, "openapi.yaml"), parserOptions);
+
+      const spec = SpecBundler.bundle($refs);
+
+      expect(SpecBundler.hasExternalRef(spec)).to.be.false;
+      // path items are inlined
+      expect(spec.paths["/pets/{petId}"].get.operationId).to.equal("getPetById");
+      expect(
+        spec.paths["/pets/{petId}"].get.responses["200"].content["application/json"].schema
+      ).to.deep.equal({ $ref: "#/components/schemas/pet" });
+      expect(spec.paths["/pets"].get.parameters).to.deep.equal([
+        { $ref: "#/components/parameters/Limit" },
+      ]);
+      expect(spec.paths["/pets"].get.responses.default).to.deep.equal({
+        $ref: "#/components/responses/Error",
+      });
+      expect(spec.components).to.deep.equal({
+        schemas: {
+          Pet: {
+            type: "object",
+            properties: { id: { type: "integer" } },
+          },
+          pet: {
+            type: "object",
+            properties: {
+              id: { type: "integer" },
+              name: { type: "string" },
+              owner: { $ref: "#/components/schemas/Owner" },
+            },
+          },
+          Owner: {
+            type: "object",
+            properties: { name: { type: "string" } },
+          },
+          Error: {
+            type: "object",
+            properties: { message: { type: "string" } },
+          },
+        },
+        parameters: {
+          Limit: { name: "limit", in: "query", schema: { type: "integer" } },
+        },
+        responses: {
+          Error: {
+            description: "Error",
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+            },
+          },
+        },
+      });
+    });
+
+    it("should bundle references of swagger file into definitions and parameters", async () => {
+      const parser = new SwaggerParser();
+      const $refs = await parser.resolve(path.join(fixtureFolder, "swagger.yaml"));
+
+      const spec = SpecBundler.bundle($refs);
+
+      const operation = spec.paths["/categories"].get;
+      expect(operation.parameters).to.deep.equal([{ $ref: "#/parameters/Limit" }]);
+      expect(operation.responses["200"].schema).to.deep.equal({
+        $ref: "#/definitions/category",
+      });
+      expect(spec.parameters).to.deep.equal({
+        Limit: { name: "limit", in: "query", type: "integer" },
+      });
+      // the self reference is kept
+      expect(spec.definitions).to.deep.equal({
+        category: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            children: { type: "array", items: { $ref: "#/definitions/category" } },
+          },
+        },
+      });
+    });
+
+    it("should throw an error if the referenced pointer does not exist", async () => {
+      const parser = new SwaggerParser();
+      const $refs = await parser.resolve(path.join(fixtureFolder, "openapi.yaml"), parserOptions);
+      const spec = $refs.get(path.join(fixtureFolder, "openapi.yaml"));
+      spec.paths["/pets"].get.parameters[0].$ref =
+        "https://specs.contoso.com/common.yaml#/components/parameters/Offset";
+
+      expect(() => SpecBundler.bundle($refs)).to.throw(
+        'Error resolving $ref pointer "https://specs.contoso.com/common.yaml#/components/parameters/Offset". Token "Offset" does not exist.'
+      );
+    });
+  });
+});
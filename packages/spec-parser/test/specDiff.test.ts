@@ -0,0 +1,120 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { SpecDiff } from "../src/specDiff";
+import { ParseOptions } from "../src/interfaces";
+
+describe("SpecDiff", () => {
+  const options: ParseOptions = { allowMethods: ["get", "post"], allowMissingId: true };
+
+  function createOperation(operationId: string | undefined, properties: any): any {
+    return {
+      operationId,
+      parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: { type: "object", properties },
+            },
+          },
+        },
+      },
+    };
+  }
+
+  function createSpec(paths: any): any {
+    return {
+      openapi: "3.0.0",
+      info: { title: "test", version: "1.0.0" },
+      servers: [{ url: "https://server" }],
+      paths,
+    };
+  }
+
+  describe("diff", () => {
+    it("should diff added, removed, changed and unchanged operations", () => {
+      const oldSpec = createSpec({
+        "/pets/{id}": { get: createOperation("getPet", { name: { type: "string" } }) },
+        "/owners/{id}": { get: createOperation("getOwner", { name: { type: "string" } }) },
+        "/stores/{id}": { get: createOperation("getStore", { name: { type: "string" } }) },
+      });
+      const newSpec = createSpec({
+        "/pets/{id}": {
+          get: createOperation("getPet", { name: { type: "string" }, tag: { type: "string" } }),
+        },
+        "/owners/{id}": { get: createOperation("getOwner", { name: { type: "string" } }) },
+        "/orders/{id}": { get: createOperation("getOrder", { name: { type: "string" } }) },
+      });
+
+      const result = SpecDiff.diff(oldSpec, newSpec, options);
+
+      expect(result).to.deep.equal({
+        added: ["GET /orders/{id}"],
+        removed: ["GET /stores/{id}"],
+        changed: ["GET /pets/{id}"],
+        unchanged: ["GET /owners/{id}"],
+      });
+    });
+
+    it("should ignore the order of keys and use the default operationId if it's missing", () => {
+      const oldSpec = createSpec({
+        "/pets/{id}": {
+          get: createOperation("getPetsId", { name: { type: "string" }, age: { type: "integer" } }),
+        },
+      });
+      const operation = createOperation(undefined, {
+        age: { type: "integer" },
+        name: { type: "string" },
+      });
+      const newSpec = createSpec({
+        "/pets/{id}": { get: { responses: operation.responses, parameters: operation.parameters } },
+      });
+
+      const result = SpecDiff.diff(oldSpec, newSpec, options);
+
+      expect(result.unchanged).to.deep.equal(["GET /pets/{id}"]);
+      expect(result.changed).to.be.empty;
+    });
+
+    it("should diff the parameters shared by the operations of a path", () => {
+      const operation = createOperation("getPet", { name: { type: "string" } });
+      const oldSpec = createSpec({
+        "/pets/{id}": { get: operation },
+      });
+      const newSpec = createSpec({
+        "/pets/{id}": {
+          parameters: [{ name: "x-version", in: "header", schema: { type: "string" } }],
+          get: operation,
+        },
+      });
+
+      const result = SpecDiff.diff(oldSpec, newSpec, options);
+
+      expect(result.changed).to.deep.equal(["GET /pets/{id}"]);
+    });
+
+    it("should only diff supported operations", () => {
+      const oldSpec = createSpec({
+        "/pets/{id}": { get: createOperation("getPet", { name: { type: "string" } }) },
+      });
+      const newSpec = createSpec({
+        "/pets/{id}": {
+          get: createOperation("getPet", { name: { type: "string" } }),
+          delete: createOperation("deletePet", {}),
+        },
+      });
+
+      const result = SpecDiff.diff(oldSpec, newSpec, options);
+
+      expect(result).to.deep.equal({
+        added: [],
+        removed: [],
+        changed: [],
+        unchanged: ["GET /pets/{id}"],
+      });
+    });
+  });
+});
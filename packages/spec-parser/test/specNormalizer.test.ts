@@ -0,0 +1,359 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import fs from "fs-extra";
+import jsyaml from "js-yaml";
+import "mocha";
+import path from "path";
+import { SpecNormalizer } from "../src/specNormalizer";
+import { ConstantString } from "../src/constants";
+import { WarningType } from "../src/interfaces";
+import { Utils } from "../src/utils";
+
+describe("SpecNormalizer", () => {
+  function createSpec(schema: any): any {
+    return {
+      openapi: "3.1.0",
+      info: { title: "test", version: "1.0.0" },
+      paths: {
+        "/pets": {
+          get: {
+            responses: {
+              200: {
+                content: {
+                  "application/json": {
+                    schema,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+  }
+
+  function getSchema(spec: any): any {
+    return spec.paths["/pets"].get.responses["200"].content["application/json"].schema;
+  }
+
+  describe("normalize", () => {
+    it("should not change OpenAPI 3.0 spec", () => {
+      const spec = { ...createSpec({ type: "string" }), openapi: "3.0.0" };
+
+      const result = SpecNormalizer.normalize(spec);
+
+      expect(result.spec).to.equal(spec);
+      expect(result.warnings).to.be.empty;
+    });
+
+    it("should convert OpenAPI 3.1 spec to OpenAPI 3.0 without modifying the original spec", () => {
+      const spec = createSpec({ type: ["string", "null"] });
+
+      const result = SpecNormalizer.normalize(spec);
+
+      expect(result.spec.openapi).to.equal(ConstantString.NormalizedOpenAPIVersion);
+      expect(getSchema(result.spec)).to.deep.equal({ type: "string", nullable: true });
+      expect(spec.openapi).to.equal("3.1.0");
+      expect(getSchema(spec)).to.deep.equal({ type: ["string", "null"] });
+    });
+
+    it("should convert multiple types to anyOf", () => {
+      const result = SpecNormalizer.normalize(
+        createSpec({
+          type: "object",
+          properties: {
+            id: { type: ["string", "integer", "null"] },
+            empty: { type: "null" },
+          },
+        })
+      );
+
+      expect(getSchema(result.spec)).to.deep.equal({
+        type: "object",
+        properties: {
+          id: { anyOf: [{ type: "string" }, { type: "integer" }], nullable: true },
+          empty: { nullable: true },
+        },
+      });
+    });
+
+    it("should convert oneOf and anyOf with null variant to nullable", () => {
+      const result = SpecNormalizer.normalize(
+        createSpec({
+          type: "object",
+          properties: {
+            owner: { anyOf: [{ $ref: "#/components/schemas/User" }, { type: "null" }] },
+            id: { oneOf: [{ type: "string" }, { type: "integer" }, { type: "null" }] },
+          },
+        })
+      );
+
+      expect(getSchema(result.spec).properties).to.deep.equal({
+        owner: { allOf: [{ $ref: "#/components/schemas/User" }], nullable: true },
+        id: { oneOf: [{ type: "string" }, { type: "integer" }], nullable: true },
+      });
+    });
+
+    it("should convert const, examples and exclusive range", () => {
+      const result = SpecNormalizer.normalize(
+        createSpec({
+          type: "object",
+          properties: {
+            kind: { type: "string", const: "pet" },
+            age: { type: "integer", exclusiveMinimum: 0, exclusiveMaximum: 100, examples: [1, 2] },
+          },
+        })
+      );
+
+      expect(getSchema(result.spec).properties).to.deep.equal({
+        kind: { type: "string", enum: ["pet"] },
+        age: {
+          type: "integer",
+          minimum: 0,
+          exclusiveMinimum: true,
+          maximum: 100,
+          exclusiveMaximum: true,
+          example: 1,
+        },
+      });
+    });
+
+    it("should keep properties, examples and extensions with the names of keywords", () => {
+      const schema = {
+        type: "object",
+        properties: {
+          type: { type: "string" },
+          const: { type: "string" },
+        },
+        example: { type: ["a", "null"], const: "b" },
+        "x-custom": { type: ["string", "null"] },
+      };
+
+      const result = SpecNormalizer.normalize(createSpec(schema));
+
+      expect(getSchema(result.spec)).to.deep.equal(schema);
+    });
+
+    it("should inline path items and remove unsupported fields", () => {
+      const pathItem = createSpec({ type: "string" }).paths["/pets"];
+      const spec = {
+        openapi: "3.1.0",
+        info: {
+          title: "test",
+          summary: "summary",
+          version: "1.0.0",
+          license: { name: "MIT", identifier: "MIT" },
+        },
+        jsonSchemaDialect: "https://spec.openapis.org/oas/3.1/dialect/base",
+        paths: {
+          "/pets": { $ref: "#/components/pathItems/Pets" },
+        },
+        components: {
+          pathItems: {
+            Pets: pathItem,
+          },
+        },
+      };
+
+      const result = SpecNormalizer.normalize(spec);
+
+      expect(result.spec).to.deep.equal({
+        openapi: ConstantString.NormalizedOpenAPIVersion,
+        info: { title: "test", version: "1.0.0", license: { name: "MIT" } },
+        paths: { "/pets": pathItem },
+        components: {},
+      });
+      expect(result.warnings).to.be.empty;
+    });
+
+    it("should remove webhooks with a warning", () => {
+      const spec = {
+        openapi: "3.1.0",
+        info: { title: "test", version: "1.0.0" },
+        webhooks: {
+          newPet: createSpec({ type: "string" }).paths["/pets"],
+        },
+      };
+
+      const result = SpecNormalizer.normalize(spec);
+
+      expect(result.spec.paths).to.deep.equal({});
+      expect(result.spec).to.not.have.property("webhooks");
+      expect(result.warnings).to.deep.equal([
+        {
+          type: WarningType.WebhooksNotSupported,
+          content: Utils.format(ConstantString.WebhooksNotSupported, "newPet"),
+          data: ["newPet"],
+        },
+      ]);
+    });
+  });
+
+  describe("convertSwagger", () => {
+    const fixtureFolder = path.join(__dirname, "fixtures", "specVersions");
+
+    it("should convert Swagger 2.0 spec to the same OpenAPI 3.0 spec", async () => {
+      const swagger = jsyaml.load(
+        await fs.readFile(path.join(fixtureFolder, "swagger2.yaml"), "utf8")
+      );
+      const openapi30 = jsyaml.load(
+        await fs.readFile(path.join(fixtureFolder, "openapi30.yaml"), "utf8")
+      );
+      const original = JSON.parse(JSON.stringify(swagger));
+
+      expect(SpecNormalizer.isSwagger(swagger)).to.be.true;
+      expect(SpecNormalizer.isSwagger(openapi30)).to.be.false;
+      expect(SpecNormalizer.convertSwagger(swagger)).to.deep.equal(openapi30);
+      expect(swagger).to.deep.equal(original);
+    });
+
+    it("should convert parameters, form data, responses and security definitions", () => {
+      const swagger = {
+        swagger: "2.0",
+        info: { title: "test", version: "1.0.0" },
+        host: "localhost:3978",
+        schemes: ["http", "https"],
+        parameters: {
+          limit: { name: "limit", in: "query", type: "integer", maximum: 10 },
+          pet: { name: "pet", in: "body", schema: { $ref: "#/definitions/Pet" } },
+        },
+        responses: {
+          NotFound: { description: "Not found", schema: { type: "string" } },
+        },
+        securityDefinitions: {
+          apiKey: { type: "apiKey", name: "X-API-KEY", in: "header" },
+          oauth: {
+            type: "oauth2",
+            flow: "accessCode",
+            authorizationUrl: "https://contoso.com/authorize",
+            tokenUrl: "https://contoso.com/token",
+            scopes: { read: "read pets" },
+          },
+        },
+        paths: {
+          "/pets": {
+            parameters: [{ $ref: "#/parameters/limit" }],
+            get: {
+              produces: ["application/json", "text/plain"],
+              parameters: [
+                { name: "tags", in: "query", type: "array", items: { type: "string" } },
+                { name: "X-Id", in: "header", type: "string", required: true },
+              ],
+              responses: {
+                "200": {
+                  description: "OK",
+                  schema: { type: "array", items: { $ref: "#/definitions/Pet" } },
+                  headers: { "X-Total": { description: "total", type: "integer" } },
+                },
+                "404": { $ref: "#/responses/NotFound" },
+              },
+              security: [{ oauth: ["read"] }],
+            },
+            post: {
+              parameters: [{ $ref: "#/parameters/pet" }],
+              responses: { "201": { description: "Created" } },
+            },
+            put: {
+              consumes: ["multipart/form-data"],
+              parameters: [
+                { name: "name", in: "formData", type: "string", required: true },
+                { name: "photo", in: "formData", type: "file" },
+              ],
+              responses: { "200": { description: "OK" } },
+            },
+          },
+        },
+        definitions: {
+          Pet: { type: "object", properties: { name: { type: "string", "x-nullable": true } } },
+        },
+      };
+
+      const result = SpecNormalizer.convertSwagger(swagger) as any;
+
+      expect(result.servers).to.deep.equal([
+        { url: "http://localhost:3978" },
+        { url: "https://localhost:3978" },
+      ]);
+      const pets = result.paths["/pets"];
+      expect(pets.get.parameters).to.deep.equal([
+        { $ref: "#/components/parameters/limit" },
+        {
+          name: "tags",
+          in: "query",
+          schema: { type: "array", items: { type: "string" } },
+          style: "form",
+          explode: false,
+        },
+        { name: "X-Id", in: "header", required: true, schema: { type: "string" } },
+      ]);
+      expect(pets.get.responses).to.deep.equal({
+        "200": {
+          description: "OK",
+          content: {
+            "application/json": {
+              schema: { type: "array", items: { $ref: "#/components/schemas/Pet" } },
+            },
+            "text/plain": {
+              schema: { type: "array", items: { $ref: "#/components/schemas/Pet" } },
+            },
+          },
+          headers: { "X-Total": { description: "total", schema: { type: "integer" } } },
+        },
+        "404": { $ref: "#/components/responses/NotFound" },
+      });
+      expect(pets.get.security).to.deep.equal([{ oauth: ["read"] }]);
+      expect(pets.post.requestBody).to.deep.equal({ $ref: "#/components/requestBodies/pet" });
+      expect(pets.put.requestBody).to.deep.equal({
+        required: true,
+        content: {
+          "multipart/form-data": {
+            schema: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                photo: { type: "string", format: "binary" },
+              },
+              required: ["name"],
+            },
+          },
+        },
+      });
+      expect(result.components).to.deep.equal({
+        schemas: {
+          Pet: { type: "object", properties: { name: { type: "string", nullable: true } } },
+        },
+        parameters: {
+          limit: { name: "limit", in: "query", schema: { type: "integer", maximum: 10 } },
+        },
+        requestBodies: {
+          pet: {
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/Pet" } },
+            },
+          },
+        },
+        responses: {
+          NotFound: {
+            description: "Not found",
+            content: { "application/json": { schema: { type: "string" } } },
+          },
+        },
+        securitySchemes: {
+          apiKey: { type: "apiKey", name: "X-API-KEY", in: "header" },
+          oauth: {
+            type: "oauth2",
+            flows: {
+              authorizationCode: {
+                authorizationUrl: "https://contoso.com/authorize",
+                tokenUrl: "https://contoso.com/token",
+                scopes: { read: "read pets" },
+              },
+            },
+          },
+        },
+      });
+    });
+  });
+});
@@ -2,6 +2,9 @@
 // Licensed under the MIT license.
 
 import fs from "fs-extra";
+import path from "path";
+import os from "os";
+import { createHash } from "crypto";
 import "mocha";
 import { expect } from "chai";
 import sinon from "sinon";
@@ -16,6 +19,7 @@ import { SpecFilter } from "../src/specFilter";
 import { ManifestUpdater } from "../src/manifestUpdater";
 import { AdaptiveCardGenerator } from "../src/adaptiveCardGenerator";
 import { Utils } from "../src/utils";
+import { SpecBundler } from "../src/specBundler";
 import jsyaml from "js-yaml";
 import mockedEnv, { RestoreFn } from "mocked-env";
 
@@ -144,93 +148,6 @@ describe("SpecParser", () => {
       sinon.assert.calledOnce(dereferenceStub);
     });
 
-    it("should return error object if the spec version is 2.0 with allowSwagger is false", async function () {
-      const specPath = "path/to/spec";
-      const spec = {
-        swagger: "2.0",
-        info: {
-          version: "1.0.0",
-          title: "Swagger Petstore",
-          description:
-            "A sample API that uses a petstore as an example to demonstrate features in the swagger-2.0 specification",
-        },
-        host: "petstore.swagger.io",
-        basePath: "/v2",
-        schemes: ["https"],
-        paths: {
-          "/pet": {
-            post: {
-              summary: "Add a new pet to the store",
-              operationId: "addPet",
-              consumes: ["application/json"],
-              produces: ["application/json"],
-              parameters: [
-                {
-                  in: "body",
-                  name: "body",
-                  schema: {
-                    type: "object",
-                    required: ["name"],
-                    properties: {
-                      id: {
-                        type: "integer",
-                        format: "int64",
-                      },
-                      name: {
-                        type: "string",
-                      },
-                    },
-                  },
-                },
-              ],
-              responses: {
-                "200": {
-                  description: "Pet added to the store",
-                  schema: {
-                    type: "object",
-                    required: ["id", "name"],
-                    properties: {
-                      id: {
-                        type: "integer",
-                        format: "int64",
-                      },
-                      name: {
-                        type: "string",
-                      },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
-      };
-      const specParser = new SpecParser(specPath, { allowSwagger: false });
-
-      const parseStub = sinon.stub(specParser.parser, "parse").resolves(spec as any);
-
-      const openapiSpecObj = await converter.convert(spec as any, {});
-      const dereferenceStub = sinon
-        .stub(specParser.parser, "dereference")
-        .resolves(openapiSpecObj.openapi);
-      const validateStub = sinon
-        .stub(specParser.parser, "validate")
-        .resolves(openapiSpecObj.openapi);
-
-      const result = await specParser.validate();
-
-      expect(result).to.deep.equal({
-        status: ValidationStatus.Error,
-        errors: [
-          {
-            type: ErrorType.SwaggerNotSupported,
-            content: ConstantString.SwaggerNotSupported,
-          },
-        ],
-        warnings: [],
-      });
-    });
-
     it("should return an error result object if no server information", async function () {
       const specPath = "path/to/spec";
       const spec = { openapi: "3.0.0" };
@@ -324,7 +241,7 @@ describe("SpecParser", () => {
       sinon.assert.calledOnce(dereferenceStub);
     });
 
-    it("should return an error result object if contain remote reference", async function () {
+    it("should resolve remote reference with remoteRefFetcher", async function () {
       const spec = {
         openapi: "3.0.3",
         info: {
@@ -370,13 +287,63 @@ describe("SpecParser", () => {
           },
         },
       } as OpenAPIV3.Document;
-      const specPath = "path/to/spec";
-      const specParser = new SpecParser(spec as any);
+      const remoteSpec = {
+        components: {
+          schemas: {
+            Pet: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "integer",
+                },
+              },
+            },
+          },
+        },
+      };
+      const fetcher = sinon.stub().resolves(JSON.stringify(remoteSpec));
+      const specParser = new SpecParser(spec as any, { remoteRefFetcher: fetcher });
       const validateStub = sinon.stub(specParser.parser, "validate").resolves(spec as any);
       const result = await specParser.validate();
 
-      expect(result.errors[0].type).equal(ErrorType.RemoteRefNotSupported);
+      expect(fetcher.calledOnceWith("https://petstore3.swagger.io/api/v3/openapi.json")).to.be.true;
+      expect(result.errors.map((error) => error.type)).to.not.include(
+        ErrorType.RemoteRefNotSupported
+      );
+      const validatedSpec = validateStub.firstCall.args[0] as any;
+      expect(
+        validatedSpec.paths["/pet"].get.responses["200"].content["application/json"].schema
+      ).to.deep.equal(remoteSpec.components.schemas.Pet);
+    });
+
+    it("should return an error result object if failed to fetch remote reference", async function () {
+      const spec = {
+        openapi: "3.0.3",
+        info: { title: "test", version: "1.0.0" },
+        paths: {
+          "/pet": {
+            get: {
+              responses: {
+                "200": {
+                  content: {
+                    "application/json": {
+                      schema: {
+                        $ref: "https://contoso.com/openapi.json#/components/schemas/Pet",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+      const fetcher = sinon.stub().rejects(new Error("not found"));
+      const specParser = new SpecParser(spec as any, { remoteRefFetcher: fetcher });
+      const result = await specParser.validate();
+
       expect(result.status).equal(ValidationStatus.Error);
+      expect(result.errors[0].type).equal(ErrorType.SpecNotValid);
     });
 
     it("should return an warning result object if missing operation id", async function () {
@@ -1005,7 +972,7 @@ describe("SpecParser", () => {
       expect(outputFileStub.calledOnce).to.be.true;
       expect(manifestUpdaterStub.calledOnce).to.be.true;
       expect(outputFileStub.firstCall.args[0]).to.equal(outputSpecPath);
-      expect(outputJSONStub.calledThrice).to.be.true;
+      expect(outputJSONStub.callCount).to.equal(4);
     });
 
     it("should works fine if paths object contains description", async () => {
@@ -1080,7 +1047,7 @@ describe("SpecParser", () => {
       expect(outputFileStub.calledOnce).to.be.true;
       expect(manifestUpdaterStub.calledOnce).to.be.true;
       expect(outputFileStub.firstCall.args[0]).to.equal(outputSpecPath);
-      expect(outputJSONStub.calledThrice).to.be.true;
+      expect(outputJSONStub.callCount).to.equal(4);
     });
 
     it("should works fine if paths object contains description for teams ai project", async () => {
@@ -1387,6 +1354,170 @@ describe("SpecParser", () => {
       expect(generateAdaptiveCardStub.notCalled).to.be.true;
     });
 
+    it("should use the auth supported by all operations if operations have multiple security requirements", async () => {
+      const specParser = new SpecParser("path/to/spec.yaml", {
+        allowAPIKeyAuth: true,
+        allowBearerTokenAuth: true,
+      });
+      const responses = {
+        200: {
+          content: {
+            "application/json": {
+              schema: { type: "object", properties: { name: { type: "string" } } },
+            },
+          },
+        },
+      };
+      const spec = {
+        openapi: "3.0.0",
+        components: {
+          securitySchemes: {
+            api_key: { type: "apiKey", name: "api_key", in: "header" },
+            bearer_auth: { type: "http", scheme: "bearer" },
+          },
+        },
+        paths: {
+          "/hello": {
+            get: {
+              operationId: "getHello",
+              security: [{ api_key: [] }, { bearer_auth: [] }],
+              responses,
+            },
+            post: {
+              operationId: "postHello",
+              security: [{ bearer_auth: [] }],
+              responses,
+            },
+          },
+        },
+      };
+      sinon.stub(specParser.parser, "parse").resolves(spec as any);
+      sinon.stub(specParser.parser, "dereference").resolves(spec as any);
+      sinon.stub(SpecFilter, "specFilter").returns({} as any);
+      sinon.stub(fs, "outputFile").resolves();
+      sinon.stub(fs, "outputJSON").resolves();
+      const manifestUpdaterStub = sinon
+        .stub(ManifestUpdater, "updateManifest")
+        .resolves([{}, []] as any);
+
+      const result = await specParser.generate(
+        "path/to/manifest.json",
+        ["get /hello", "post /hello"],
+        "path/to/output.yaml"
+      );
+
+      expect(manifestUpdaterStub.firstCall.args[5]).to.deep.equal({
+        authScheme: { type: "http", scheme: "bearer" },
+        name: "bearer_auth",
+      });
+      expect(result.warnings).to.deep.equal([
+        {
+          type: WarningType.AuthDowngraded,
+          content: Utils.format(
+            ConstantString.AuthAlternativesIgnored,
+            "GET /hello",
+            "api_key, bearer_auth",
+            "bearer_auth"
+          ),
+          data: "GET /hello",
+        },
+      ]);
+    });
+
+    it("should throw error if an operation only supports basic auth", async () => {
+      const specParser = new SpecParser("path/to/spec.yaml", {
+        allowAPIKeyAuth: true,
+        allowBearerTokenAuth: true,
+      });
+      const responses = {
+        200: {
+          content: {
+            "application/json": {
+              schema: { type: "object", properties: { name: { type: "string" } } },
+            },
+          },
+        },
+      };
+      const spec = {
+        openapi: "3.0.0",
+        components: {
+          securitySchemes: {
+            basic_auth: { type: "http", scheme: "basic" },
+          },
+        },
+        paths: {
+          "/hello": {
+            get: { operationId: "getHello", security: [{ basic_auth: [] }], responses },
+          },
+        },
+      };
+      sinon.stub(specParser.parser, "parse").resolves(spec as any);
+      sinon.stub(specParser.parser, "dereference").resolves(spec as any);
+      sinon.stub(SpecFilter, "specFilter").returns({} as any);
+      const manifestUpdaterStub = sinon.stub(ManifestUpdater, "updateManifest");
+
+      try {
+        await specParser.generate("path/to/manifest.json", ["get /hello"], "path/to/output.yaml");
+        expect.fail("Expected generate to throw a SpecParserError");
+      } catch (err) {
+        expect((err as SpecParserError).errorType).to.equal(ErrorType.BasicAuthNotSupported);
+        expect((err as SpecParserError).message).to.equal(
+          Utils.format(ConstantString.BasicAuthNotSupported, "basic_auth", "GET /hello")
+        );
+      }
+      expect(manifestUpdaterStub.notCalled).to.be.true;
+    });
+
+    it("should throw error if operations have no supported auth in common", async () => {
+      const specParser = new SpecParser("path/to/spec.yaml", {
+        allowAPIKeyAuth: true,
+        allowOauth2ClientCredentials: true,
+      });
+      const responses = {
+        200: {
+          content: {
+            "application/json": {
+              schema: { type: "object", properties: { name: { type: "string" } } },
+            },
+          },
+        },
+      };
+      const spec = {
+        openapi: "3.0.0",
+        components: {
+          securitySchemes: {
+            api_key: { type: "apiKey", name: "api_key", in: "header" },
+            oauth: {
+              type: "oauth2",
+              flows: {
+                clientCredentials: { tokenUrl: "https://example.com/api/oauth/token", scopes: {} },
+              },
+            },
+          },
+        },
+        paths: {
+          "/hello": {
+            get: { operationId: "getHello", security: [{ api_key: [] }], responses },
+            post: { operationId: "postHello", security: [{ oauth: [] }], responses },
+          },
+        },
+      };
+      sinon.stub(specParser.parser, "parse").resolves(spec as any);
+      sinon.stub(specParser.parser, "dereference").resolves(spec as any);
+      sinon.stub(SpecFilter, "specFilter").returns({} as any);
+
+      try {
+        await specParser.generate(
+          "path/to/manifest.json",
+          ["get /hello", "post /hello"],
+          "path/to/output.yaml"
+        );
+        expect.fail("Expected generate to throw a SpecParserError");
+      } catch (err) {
+        expect((err as SpecParserError).errorType).to.equal(ErrorType.MultipleAuthNotSupported);
+      }
+    });
+
     it("should contain warnings if generate adaptive card failed", async () => {
       const specParser = new SpecParser("path/to/spec.yaml");
       const spec = {
@@ -2039,6 +2170,42 @@ describe("SpecParser", () => {
       });
     });
 
+    it("should return the supported auth if operation has multiple security requirements", async () => {
+      const specParser = new SpecParser("valid-spec.yaml", { allowBearerTokenAuth: true });
+      const spec = {
+        components: {
+          securitySchemes: {
+            basic_auth: { type: "http", scheme: "basic" },
+            bearer_auth: { type: "http", scheme: "bearer" },
+          },
+        },
+        servers: [{ url: "https://server1" }],
+        paths: {
+          "/user/{userId}": {
+            get: {
+              security: [{ basic_auth: [] }, { bearer_auth: [] }],
+              operationId: "getUserById",
+              parameters: [{ name: "userId", in: "path", schema: { type: "string" } }],
+              responses: {
+                200: {
+                  content: {
+                    "application/json": {
+                      schema: { type: "object", properties: { name: { type: "string" } } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+      sinon.stub(specParser.parser, "parse").resolves(spec as any);
+      sinon.stub(specParser.parser, "dereference").resolves(spec as any);
+
+      const result = await specParser.list();
+      expect(result.validAPIs[0].auth).to.deep.equal({ type: "http", scheme: "bearer" });
+    });
+
     it("should allow multiple parameters if allowMultipleParameters is true", async () => {
       const specPath = "valid-spec.yaml";
       const specParser = new SpecParser(specPath, { allowMultipleParameters: true });
@@ -2344,4 +2511,386 @@ describe("SpecParser", () => {
       }
     });
   });
+
+  describe("remote references", () => {
+    const fixtureFolder = path.join(__dirname, "fixtures", "remoteRef");
+    const options = {
+      allowMultipleParameters: true,
+      remoteRefFetcher: (url: string) =>
+        fs.readFile(
+          path.join(fixtureFolder, "mirror", url.replace("https://specs.contoso.com/", "")),
+          "utf8"
+        ),
+    };
+
+    it("should validate and list a spec split across files and urls", async () => {
+      const specParser = new SpecParser(path.join(fixtureFolder, "openapi.yaml"), options);
+
+      const validateResult = await specParser.validate();
+      const listResult = await specParser.list();
+
+      expect(validateResult).to.deep.equal({
+        status: ValidationStatus.Valid,
+        warnings: [],
+        errors: [],
+      });
+      expect(listResult.validAPIs.map((api) => api.api)).to.deep.equal([
+        "GET /pets/{petId}",
+        "GET /pets",
+      ]);
+    });
+
+    it("should keep local references in the filtered spec", async () => {
+      const specParser = new SpecParser(path.join(fixtureFolder, "openapi.yaml"), options);
+
+      const [unresolvedSpec, spec] = await specParser.getFilteredSpecs(["GET /pets/{petId}"]);
+
+      const unresolvedOperation = unresolvedSpec.paths["/pets/{petId}"]!.get as any;
+      const operation = spec.paths["/pets/{petId}"]!.get as any;
+      expect(Object.keys(unresolvedSpec.paths)).to.deep.equal(["/pets/{petId}"]);
+      expect(unresolvedOperation.responses["200"].content["application/json"].schema).to.deep.equal(
+        { $ref: "#/components/schemas/pet" }
+      );
+      expect(
+        (unresolvedSpec.components!.schemas!.pet as OpenAPIV3.SchemaObject).properties!.owner
+      ).to.deep.equal({ $ref: "#/components/schemas/Owner" });
+      expect(operation.responses["200"].content["application/json"].schema).to.deep.equal({
+        type: "object",
+        properties: {
+          id: { type: "integer" },
+          name: { type: "string" },
+          owner: { type: "object", properties: { name: { type: "string" } } },
+        },
+      });
+    });
+
+    it("should write the bundled spec with local references", async () => {
+      const specParser = new SpecParser(path.join(fixtureFolder, "openapi.yaml"), options);
+      const outputFileStub = sinon.stub(fs, "outputFile").resolves();
+      sinon.stub(fs, "outputJSON").resolves();
+      sinon.stub(ManifestUpdater, "updateManifest").resolves([{}, []] as any);
+
+      const result = await specParser.generate(
+        "path/to/manifest.json",
+        ["GET /pets"],
+        "path/to/output.json",
+        "path/to/adaptiveCardFolder"
+      );
+
+      expect(result.allSuccess).to.be.true;
+      const outputSpec = JSON.parse(outputFileStub.firstCall.args[1] as string);
+      expect(SpecBundler.hasExternalRef(outputSpec)).to.be.false;
+      expect(outputSpec.paths["/pets"].get.parameters).to.deep.equal([
+        { $ref: "#/components/parameters/Limit" },
+      ]);
+    });
+  });
+
+  describe("spec versions", () => {
+    const fixtureFolder = path.join(__dirname, "fixtures", "specVersions");
+    const filter = ["GET /pets/{petId}", "POST /pets"];
+    const options = { allowMultipleParameters: true };
+
+    async function generateCards(specPath: string): Promise<any[]> {
+      const specParser = new SpecParser(specPath, options);
+      sinon.stub(fs, "outputFile").resolves();
+      const outputJSONStub = sinon.stub(fs, "outputJSON").resolves();
+      sinon.stub(ManifestUpdater, "updateManifest").resolves([{}, []] as any);
+
+      const result = await specParser.generate(
+        "path/to/manifest.json",
+        filter,
+        "path/to/output.yaml",
+        "path/to/adaptiveCardFolder"
+      );
+      sinon.restore();
+
+      expect(result.allSuccess).to.be.true;
+      return outputJSONStub
+        .getCalls()
+        .filter((call) => call.args[0].startsWith("path/to/adaptiveCardFolder"))
+        .filter((call) => !call.args[0].endsWith(".data.json"))
+        .filter((call) => !call.args[0].endsWith(ConstantString.AdaptiveCardHashFile))
+        .map((call) => call.args[1]);
+    }
+
+    it("should validate Swagger 2.0, OpenAPI 3.0 and 3.1 files the same way", async () => {
+      const swaggerResult = await new SpecParser(
+        path.join(fixtureFolder, "swagger2.yaml"),
+        options
+      ).validate();
+      const openapi30Result = await new SpecParser(
+        path.join(fixtureFolder, "openapi30.yaml"),
+        options
+      ).validate();
+      const openapi31Result = await new SpecParser(
+        path.join(fixtureFolder, "openapi31.yaml"),
+        options
+      ).validate();
+
+      expect(openapi30Result).to.deep.equal({
+        status: ValidationStatus.Valid,
+        warnings: [],
+        errors: [],
+      });
+      expect(swaggerResult.errors).to.be.empty;
+      expect(swaggerResult.warnings.map((warning) => warning.type)).to.deep.equal([
+        WarningType.ConvertSwaggerToOpenAPI,
+      ]);
+      expect(openapi31Result.errors).to.be.empty;
+      expect(openapi31Result.warnings).to.deep.equal([
+        {
+          type: WarningType.WebhooksNotSupported,
+          content: Utils.format(ConstantString.WebhooksNotSupported, "newPet"),
+          data: ["newPet"],
+        },
+      ]);
+    });
+
+    it("should list the same APIs for Swagger 2.0, OpenAPI 3.0 and 3.1 files", async () => {
+      const expected = await new SpecParser(
+        path.join(fixtureFolder, "openapi30.yaml"),
+        options
+      ).list();
+
+      expect(expected.validAPICount).to.equal(2);
+      for (const file of ["swagger2.yaml", "openapi31.yaml"]) {
+        const actual = await new SpecParser(path.join(fixtureFolder, file), options).list();
+        expect(actual).to.deep.equal(expected);
+      }
+    });
+
+    it("should get the same filtered specs for Swagger 2.0, OpenAPI 3.0 and 3.1 files", async () => {
+      const [expectedUnresolved, expected] = await new SpecParser(
+        path.join(fixtureFolder, "openapi30.yaml"),
+        options
+      ).getFilteredSpecs(filter);
+      const getSchema = (spec: OpenAPIV3.Document) =>
+        (spec.paths["/pets/{petId}"] as any).get.responses["200"].content["application/json"].schema
+          .properties;
+      const getRequestBodySchema = (spec: OpenAPIV3.Document) =>
+        (spec.paths["/pets"] as any).post.requestBody.content["application/json"].schema.properties;
+
+      for (const file of ["swagger2.yaml", "openapi31.yaml"]) {
+        const [unresolved, actual] = await new SpecParser(
+          path.join(fixtureFolder, file),
+          options
+        ).getFilteredSpecs(filter);
+        expect(unresolved.openapi.startsWith("3.0")).to.be.true;
+        expect(Object.keys(unresolved.paths)).to.deep.equal(Object.keys(expectedUnresolved.paths));
+        expect(getSchema(actual)).to.deep.equal(getSchema(expected));
+        expect(getRequestBodySchema(actual)).to.deep.equal(getRequestBodySchema(expected));
+      }
+    });
+
+    it("should generate the same adaptive cards for Swagger 2.0, OpenAPI 3.0 and 3.1 files", async () => {
+      const expected = await generateCards(path.join(fixtureFolder, "openapi30.yaml"));
+
+      expect(expected).to.have.lengthOf(2);
+      for (const file of ["swagger2.yaml", "openapi31.yaml"]) {
+        const actual = await generateCards(path.join(fixtureFolder, file));
+        expect(actual).to.deep.equal(expected);
+      }
+    });
+  });
+
+  describe("sync", () => {
+    let tempFolder: string;
+    let manifestPath: string;
+    let specPath: string;
+    let adaptiveCardFolder: string;
+
+    function createOperation(operationId: string, properties: any): any {
+      return {
+        operationId,
+        summary: operationId,
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          200: {
+            description: "OK",
+            content: {
+              "application/json": {
+                schema: { type: "object", properties },
+              },
+            },
+          },
+        },
+      };
+    }
+
+    function createSpec(paths: any): any {
+      return {
+        openapi: "3.0.0",
+        info: { title: "Pet Store", version: "1.0.0" },
+        servers: [{ url: "https://server" }],
+        paths,
+      };
+    }
+
+    const nameProperty = { name: { type: "string" } };
+    const oldSpec = createSpec({
+      "/pets/{id}": { get: createOperation("getPet", nameProperty) },
+      "/owners/{id}": { get: createOperation("getOwner", nameProperty) },
+      "/stores/{id}": { get: createOperation("getStore", nameProperty) },
+      "/users/{id}": { get: createOperation("getUser", nameProperty) },
+      "/orders/{id}": { get: createOperation("getOrder", nameProperty) },
+    });
+
+    beforeEach(async () => {
+      tempFolder = await fs.mkdtemp(path.join(os.tmpdir(), "spec-parser-sync-"));
+      manifestPath = path.join(tempFolder, "appPackage", "manifest.json");
+      specPath = path.join(tempFolder, "appPackage", "apiSpecificationFile", "openapi.yaml");
+      adaptiveCardFolder = path.join(tempFolder, "appPackage", "adaptiveCards");
+      await fs.outputJSON(manifestPath, { description: { short: "", full: "" } });
+      await new SpecParser(oldSpec).generate(
+        manifestPath,
+        ["GET /pets/{id}", "GET /owners/{id}", "GET /stores/{id}", "GET /users/{id}"],
+        specPath,
+        adaptiveCardFolder
+      );
+    });
+
+    afterEach(async () => {
+      await fs.remove(tempFolder);
+    });
+
+    it("should only update the artifacts of changed and removed operations", async () => {
+      // edits made by users
+      const manifest = await fs.readJSON(manifestPath);
+      manifest.composeExtensions[0].commands[3].title = "Edited";
+      await fs.outputJSON(manifestPath, manifest);
+      const ownerCard = await fs.readJSON(path.join(adaptiveCardFolder, "getOwner.json"));
+      ownerCard.responseCardTemplate.body.push({ type: "TextBlock", text: "Edited" });
+      await fs.outputJSON(path.join(adaptiveCardFolder, "getOwner.json"), ownerCard);
+      await fs.outputJSON(path.join(adaptiveCardFolder, "getPet.data.json"), { name: "Rex" });
+
+      const newSpec = createSpec({
+        "/pets/{id}": {
+          get: createOperation("getPet", { ...nameProperty, tag: { type: "string" } }),
+        },
+        "/owners/{id}": {
+          get: createOperation("getOwner", { ...nameProperty, email: { type: "string" } }),
+        },
+        "/users/{id}": { get: createOperation("getUser", nameProperty) },
+        "/orders/{id}": { get: createOperation("getOrder", nameProperty) },
+      });
+      const result = await new SpecParser(newSpec).sync(manifestPath, specPath, adaptiveCardFolder);
+
+      expect(result.allSuccess).to.be.true;
+      expect(result.diff).to.deep.equal({
+        removed: ["GET /stores/{id}"],
+        changed: ["GET /pets/{id}", "GET /owners/{id}"],
+        unchanged: ["GET /users/{id}"],
+      });
+      // the operation is in the old spec too, but it's not selected
+      expect(result.notSelected).to.deep.equal(["GET /orders/{id}"]);
+      expect(result.preservedCards).to.deep.equal(["getOwner"]);
+
+      const syncedSpec = jsyaml.load(await fs.readFile(specPath, "utf8")) as any;
+      expect(Object.keys(syncedSpec.paths)).to.deep.equal([
+        "/pets/{id}",
+        "/owners/{id}",
+        "/users/{id}",
+      ]);
+      expect(
+        syncedSpec.paths["/pets/{id}"].get.responses["200"].content["application/json"].schema
+          .properties.tag
+      ).to.deep.equal({ type: "string" });
+
+      const petCard = await fs.readJSON(path.join(adaptiveCardFolder, "getPet.json"));
+      expect(JSON.stringify(petCard)).to.contain("tag");
+      expect(await fs.readJSON(path.join(adaptiveCardFolder, "getPet.data.json"))).to.deep.equal({
+        name: "Rex",
+      });
+      expect(await fs.readJSON(path.join(adaptiveCardFolder, "getOwner.json"))).to.deep.equal(
+        ownerCard
+      );
+      expect(await fs.pathExists(path.join(adaptiveCardFolder, "getStore.json"))).to.be.false;
+      expect(await fs.pathExists(path.join(adaptiveCardFolder, "getStore.data.json"))).to.be.false;
+      expect(await fs.pathExists(path.join(adaptiveCardFolder, "getOrder.json"))).to.be.false;
+
+      const syncedManifest = await fs.readJSON(manifestPath);
+      expect(
+        syncedManifest.composeExtensions[0].commands.map((command: any) => [
+          command.id,
+          command.title,
+        ])
+      ).to.deep.equal([
+        ["getPet", "getPet"],
+        ["getOwner", "getOwner"],
+        ["getUser", "Edited"],
+      ]);
+    });
+
+    it("should compare the Adaptive Cards with the ones recorded at generation time", async () => {
+      // a card generated by an earlier version of the generator and not edited since then
+      const petCardPath = path.join(adaptiveCardFolder, "getPet.json");
+      const petCard = await fs.readJSON(petCardPath);
+      petCard.responseCardTemplate.version = "1.4";
+      await fs.outputJSON(petCardPath, petCard);
+      const hashPath = path.join(adaptiveCardFolder, ConstantString.AdaptiveCardHashFile);
+      const hashes = await fs.readJSON(hashPath);
+      hashes.getPet = createHash("sha256").update(JSON.stringify(petCard)).digest("hex");
+      // a card without recorded hash
+      delete hashes.getOwner;
+      await fs.outputJSON(hashPath, hashes);
+
+      const newSpec = createSpec({
+        "/pets/{id}": {
+          get: createOperation("getPet", { ...nameProperty, tag: { type: "string" } }),
+        },
+        "/owners/{id}": {
+          get: createOperation("getOwner", { ...nameProperty, email: { type: "string" } }),
+        },
+        "/stores/{id}": { get: createOperation("getStore", nameProperty) },
+        "/users/{id}": { get: createOperation("getUser", nameProperty) },
+      });
+      const result = await new SpecParser(newSpec).sync(manifestPath, specPath, adaptiveCardFolder);
+
+      expect(result.preservedCards).to.deep.equal(["getOwner"]);
+      expect(JSON.stringify(await fs.readJSON(petCardPath))).to.contain("tag");
+      const syncedHashes = await fs.readJSON(hashPath);
+      expect(syncedHashes.getPet).to.equal(
+        createHash("sha256")
+          .update(JSON.stringify(await fs.readJSON(petCardPath)))
+          .digest("hex")
+      );
+      expect(syncedHashes).to.not.have.property("getOwner");
+    });
+
+    it("should rename the Adaptive Card if the operation id is changed", async () => {
+      const newSpec = createSpec({
+        "/pets/{id}": { get: createOperation("getPetById", nameProperty) },
+        "/owners/{id}": { get: createOperation("getOwner", nameProperty) },
+        "/stores/{id}": { get: createOperation("getStore", nameProperty) },
+        "/users/{id}": { get: createOperation("getUser", nameProperty) },
+      });
+
+      const result = await new SpecParser(newSpec).sync(manifestPath, specPath, adaptiveCardFolder);
+
+      expect(result.diff.changed).to.deep.equal(["GET /pets/{id}"]);
+      expect(await fs.pathExists(path.join(adaptiveCardFolder, "getPet.json"))).to.be.false;
+      expect(await fs.pathExists(path.join(adaptiveCardFolder, "getPetById.json"))).to.be.true;
+      expect(await fs.pathExists(path.join(adaptiveCardFolder, "getPetById.data.json"))).to.be.true;
+      const syncedManifest = await fs.readJSON(manifestPath);
+      expect(syncedManifest.composeExtensions[0].commands[0]).to.include({
+        id: "getPetById",
+        apiResponseRenderingTemplateFile: "adaptiveCards/getPetById.json",
+      });
+    });
+
+    it("should throw a SpecParserError if the generated spec is not found", async () => {
+      try {
+        await new SpecParser(oldSpec).sync(
+          manifestPath,
+          path.join(tempFolder, "not-exist.yaml"),
+          adaptiveCardFolder
+        );
+        expect.fail("Expected sync to throw a SpecParserError");
+      } catch (err: any) {
+        expect(err).to.be.instanceOf(SpecParserError);
+        expect(err.errorType).to.equal(ErrorType.SyncFailed);
+      }
+    });
+  });
 });
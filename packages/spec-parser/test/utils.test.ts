@@ -6,7 +6,7 @@ import "mocha";
 import { Utils } from "../src/utils";
 import { OpenAPIV3 } from "openapi-types";
 import { ConstantString } from "../src/constants";
-import { ErrorType, ProjectType, ParseOptions } from "../src/interfaces";
+import { AuthInfo, ErrorType, ProjectType, ParseOptions } from "../src/interfaces";
 
 describe("utils", () => {
   describe("updateFirstLetter", () => {
@@ -2487,6 +2487,179 @@ describe("utils", () => {
       const result = Utils.isSupportedApi(method, path, spec as any, options);
       assert.strictEqual(result, true);
     });
+
+    it("should return true if the request body is composed of allOf and oneOf schemas for SME project", () => {
+      const method = "POST";
+      const path = "/users";
+      const spec = {
+        paths: {
+          "/users": {
+            post: {
+              requestBody: {
+                content: {
+                  "application/json": {
+                    schema: {
+                      allOf: [
+                        {
+                          type: "object",
+                          properties: {
+                            name: { type: "string" },
+                          },
+                          required: ["name"],
+                        },
+                        {
+                          oneOf: [
+                            { type: "object", properties: { email: { type: "string" } } },
+                            { type: "object", properties: { phone: { type: "string" } } },
+                          ],
+                        },
+                      ],
+                    },
+                  },
+                },
+              },
+              responses: {
+                200: {
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "object",
+                        properties: {
+                          name: {
+                            type: "string",
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const options: ParseOptions = {
+        allowMissingId: true,
+        allowAPIKeyAuth: false,
+        allowMultipleParameters: false,
+        allowOauth2: false,
+        projectType: ProjectType.SME,
+        allowMethods: ["get", "post"],
+      };
+
+      const result = Utils.isSupportedApi(method, path, spec as any, options);
+      assert.strictEqual(result, true);
+    });
+
+    it("should return false if the request body contains not schema", () => {
+      const method = "POST";
+      const path = "/users";
+      const spec = {
+        paths: {
+          "/users": {
+            post: {
+              requestBody: {
+                content: {
+                  "application/json": {
+                    schema: {
+                      type: "object",
+                      properties: {
+                        name: { not: { type: "string" } },
+                      },
+                      required: ["name"],
+                    },
+                  },
+                },
+              },
+              responses: {
+                200: {
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "object",
+                        properties: {
+                          name: {
+                            type: "string",
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const options: ParseOptions = {
+        allowMissingId: true,
+        allowAPIKeyAuth: false,
+        allowMultipleParameters: false,
+        allowOauth2: false,
+        projectType: ProjectType.SME,
+        allowMethods: ["get", "post"],
+      };
+
+      const result = Utils.isSupportedApi(method, path, spec as any, options);
+      assert.strictEqual(result, false);
+    });
+  });
+
+  describe("isSupportedAuth", () => {
+    const basicAuth: AuthInfo = {
+      authScheme: { type: "http", scheme: "basic" },
+      name: "basic_auth",
+    };
+    const clientCredentialsAuth: AuthInfo = {
+      authScheme: {
+        type: "oauth2",
+        flows: {
+          clientCredentials: {
+            tokenUrl: "https://example.com/api/oauth/token",
+            scopes: { "read:pets": "read your pets" },
+          },
+        },
+      },
+      name: "oauth_client",
+    };
+    const apiKeyAuth: AuthInfo = {
+      authScheme: { type: "apiKey", name: "api_key", in: "header" },
+      name: "api_key",
+    };
+
+    it("should return true if there is no auth", () => {
+      assert.isTrue(Utils.isSupportedAuth([], {}));
+    });
+
+    it("should not support basic auth", () => {
+      const options: ParseOptions = {
+        allowAPIKeyAuth: true,
+        allowBearerTokenAuth: true,
+        allowOauth2: true,
+        allowOauth2ClientCredentials: true,
+      };
+      assert.isFalse(Utils.isSupportedAuth([[basicAuth]], options));
+    });
+
+    it("should support oauth client credentials flow only if allowOauth2ClientCredentials is true", () => {
+      assert.isFalse(Utils.isSupportedAuth([[clientCredentialsAuth]], { allowOauth2: true }));
+      assert.isTrue(
+        Utils.isSupportedAuth([[clientCredentialsAuth]], { allowOauth2ClientCredentials: true })
+      );
+    });
+
+    it("should return true if any of the security requirements is supported", () => {
+      const options: ParseOptions = { allowAPIKeyAuth: true };
+      assert.isTrue(Utils.isSupportedAuth([[basicAuth], [apiKeyAuth]], options));
+      assert.deepEqual(Utils.getSupportedAuths([[basicAuth], [apiKeyAuth]], options), [apiKeyAuth]);
+    });
+
+    it("should return false if the security requirement contains multiple auth schemes", () => {
+      const options: ParseOptions = { allowAPIKeyAuth: true, allowBearerTokenAuth: true };
+      assert.isFalse(Utils.isSupportedAuth([[apiKeyAuth, basicAuth]], options));
+    });
   });
 
   describe("getUrlProtocol", () => {
@@ -3046,6 +3219,79 @@ describe("utils", () => {
     });
   });
 
+  describe("resolveComposedSchema", () => {
+    it("should return the schema if it is not composed", () => {
+      const schema: OpenAPIV3.SchemaObject = { type: "string" };
+      expect(Utils.resolveComposedSchema(schema)).to.equal(schema);
+    });
+
+    it("should merge allOf schemas with the union of required properties", () => {
+      const schema: OpenAPIV3.SchemaObject = {
+        description: "user",
+        allOf: [
+          { type: "object", properties: { id: { type: "integer" } }, required: ["id"] },
+          { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+        ],
+      };
+      expect(Utils.resolveComposedSchema(schema)).to.deep.equal({
+        description: "user",
+        type: "object",
+        properties: { id: { type: "integer" }, name: { type: "string" } },
+        required: ["id", "name"],
+      });
+    });
+
+    it("should merge oneOf objects with the intersection of required properties", () => {
+      const schema: OpenAPIV3.SchemaObject = {
+        oneOf: [
+          {
+            type: "object",
+            properties: { id: { type: "integer" }, email: { type: "string" } },
+            required: ["id", "email"],
+          },
+          {
+            type: "object",
+            properties: { id: { type: "integer" }, phone: { type: "string" } },
+            required: ["id", "phone"],
+          },
+        ],
+      };
+      expect(Utils.resolveComposedSchema(schema)).to.deep.equal({
+        type: "object",
+        properties: {
+          id: { type: "integer" },
+          email: { type: "string" },
+          phone: { type: "string" },
+        },
+        required: ["id"],
+      });
+    });
+
+    it("should merge anyOf primitive types", () => {
+      expect(
+        Utils.resolveComposedSchema({
+          anyOf: [
+            { type: "string", enum: ["a"] },
+            { type: "string", enum: ["b"] },
+          ],
+        })
+      ).to.deep.equal({ type: "string", enum: ["a", "b"] });
+      expect(
+        Utils.resolveComposedSchema({
+          description: "id",
+          oneOf: [{ type: "string" }, { type: "integer" }],
+        })
+      ).to.deep.equal({ description: "id", type: "string" });
+    });
+
+    it("should not resolve oneOf of an object and an array", () => {
+      const schema: OpenAPIV3.SchemaObject = {
+        oneOf: [{ type: "object" }, { type: "array", items: { type: "string" } }],
+      };
+      expect(Utils.resolveComposedSchema(schema)).to.equal(schema);
+    });
+  });
+
   describe("getResponseJson", () => {
     it("should return an empty object if no JSON response is defined", () => {
       const operationObject = {};